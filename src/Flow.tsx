@@ -8,7 +8,6 @@ import {
   BackgroundVariant,
   type Node,
   Panel,
-  Edge,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 
@@ -35,27 +34,25 @@ import ToolPallete from "./components/tool-pallete";
 import { Pickaxe } from "lucide-react";
 import ImportButton from "./components/import-button";
 import ExportButton from "./components/export-button";
-
-type History = {
-  nodes: Node[];
-  edges: Edge[];
-  nextNodeId: number[];
-  nextGroupId: number[];
-  nextSubprocessId: number[];
-  history?: History;
-};
+import ProjectsButton from "./components/projects-button";
+import DocumentTabs from "./components/document-tabs";
+import ConflictPrompt from "./components/conflict-prompt";
+import CollaborationLayer from "./components/collaboration-layer";
+import DiffLayer from "./components/diff-layer";
+import CompareButton from "./components/compare-button";
+import VersionPreviewBar from "./components/version-preview-bar";
+import SimulationInput from "./components/simulation-input";
+import TracePanel from "./components/trace-panel";
+import SimulationStatus from "./components/simulation-status";
+import SimulationRunner from "./components/simulation-runner";
 
 const selector = (state: RFState) => ({
   nodes: state.nodes,
   edges: state.edges,
-  nextNodeId: state.nextNodeId,
-  nextGroupId: state.nextGroupId,
-  nextSubprocessId: state.nextSubprocessId,
-  setIds: state.setIds,
   simulationFlow: state.simulationFlow,
-  setNodes: state.setNodes,
   addNode: state.addNode,
-  setEdges: state.setEdges,
+  undo: state.undo,
+  redo: state.redo,
   setSimulationFlow: state.setSimulationFlow,
   onNodesChange: state.onNodesChange,
   onNodeClick: state.onNodeClick,
@@ -76,6 +73,7 @@ const selector = (state: RFState) => ({
   onClickSimulationToggle: state.onClickSimulationToggle,
   onNodeClickSimulation: state.onNodeClickSimulation,
   currentProjection: state.currentProjection,
+  preview: state.preview,
 });
 
 const nodeOrigin: NodeOrigin = [0.5, 0.5];
@@ -103,14 +101,10 @@ function FlowWithoutProvider() {
   const {
     nodes,
     edges,
-    nextNodeId,
-    nextGroupId,
-    nextSubprocessId,
-    setIds,
     simulationFlow,
-    setNodes,
     addNode,
-    setEdges,
+    undo,
+    redo,
     onNodesChange,
     onNodeClick,
     onNodeDoubleClick,
@@ -130,6 +124,7 @@ function FlowWithoutProvider() {
     simEdges,
     simNodes,
     currentProjection,
+    preview,
   } = useStore(selector, shallow);
 
   const flowRef = useRef<HTMLDivElement>(null);
@@ -153,6 +148,24 @@ function FlowWithoutProvider() {
     elementsSelectable: simulationFlow,
   };
 
+  // A version previewed from the history is shown read-only
+  const previewProps = {
+    ref: flowRef,
+    nodes: preview?.state.nodes ?? [],
+    edges: preview?.state.edges ?? [],
+    edgeTypes,
+    nodeTypes,
+    nodeOrigin,
+    nodesDraggable: false,
+    nodesConnectable: false,
+    elementsSelectable: false,
+    fitView: true,
+    fitViewOptions: { maxZoom: 1 },
+    maxZoom: 5,
+    minZoom: 0,
+    zoomOnDoubleClick: false,
+  };
+
   const normalProps = {
     ref: flowRef,
     nodes,
@@ -187,32 +200,15 @@ function FlowWithoutProvider() {
     zoomOnDoubleClick: false,
   };
 
-  const [history, setHistory] = useState<History>({
-    nodes,
-    edges,
-    nextNodeId,
-    nextGroupId,
-    nextSubprocessId,
-  });
   const [toCopyNodes, setToCopyNodes] = useState<Node[]>([]);
   const [keyPressOn, setKeyPressOn] = useState(true);
 
   const KeyPressListener = () => {
     useEffect(() => {
       const handleKeyDown = (event: KeyboardEvent) => {
-        if (event.ctrlKey && keyPressOn) {
+        if (event.ctrlKey && keyPressOn && !preview) {
           event.preventDefault();
           switch (event.key.toLowerCase()) {
-            case "s":
-              setHistory((prev) => ({
-                nodes,
-                edges,
-                nextNodeId,
-                nextGroupId,
-                nextSubprocessId,
-                history: prev,
-              }));
-              break;
             case "c":
               setToCopyNodes(nodes.filter((nd) => nd.selected));
               break;
@@ -230,36 +226,20 @@ function FlowWithoutProvider() {
               });
               break;
             case "z":
-              setNodes([]);
+              if (event.shiftKey) redo();
+              else undo();
               break;
-          }
-        }
-      };
-
-      const handleKeyUp = (event: KeyboardEvent) => {
-        if (event.ctrlKey && keyPressOn) {
-          event.preventDefault();
-          switch (event.key.toLowerCase()) {
-            case "z":
-              setNodes(history.nodes);
-              setEdges(history.edges);
-              setIds(
-                history.nextNodeId,
-                history.nextGroupId,
-                history.nextSubprocessId
-              );
-              if (history.history) setHistory(history.history);
+            case "y":
+              redo();
               break;
           }
         }
       };
 
       window.addEventListener("keydown", handleKeyDown);
-      window.addEventListener("keyup", handleKeyUp);
 
       return () => {
         window.removeEventListener("keydown", handleKeyDown);
-        window.removeEventListener("keyup", handleKeyUp);
       };
     }, []);
 
@@ -269,7 +249,11 @@ function FlowWithoutProvider() {
   return (
     <ReactFlow
       elevateNodesOnSelect={false}
-      {...(simulationFlow ? simulationProps : normalProps)}
+      {...(simulationFlow
+        ? simulationProps
+        : preview
+          ? previewProps
+          : normalProps)}
       onPaneMouseEnter={() => {
         setKeyPressOn(true);
       }}
@@ -281,17 +265,35 @@ function FlowWithoutProvider() {
       <KeyPressListener />
       <Controls showInteractive={false} />
       <Background variant={BackgroundVariant.Dots} />
-      {!simulationFlow && (
+      <CollaborationLayer />
+      {!simulationFlow && !preview && <DiffLayer />}
+      {!simulationFlow ? (
         <>
-          {currentProjection === "global" && <ToolPallete />}
+          {currentProjection === "global" && !preview && <ToolPallete />}
+          {preview && <VersionPreviewBar />}
+          <DocumentTabs />
           <Drawer />
         </>
+      ) : (
+        <>
+          <SimulationInput />
+          <Panel
+            position="top-right"
+            style={{ display: "flex", flexDirection: "column", gap: 10 }}
+          >
+            <SimulationStatus />
+            <TracePanel />
+          </Panel>
+          <Panel position="bottom-right">
+            <SimulationRunner />
+          </Panel>
+        </>
       )}
       <Panel
         position="top-left"
         style={{
           display: "flex",
-          width: simulationFlow ? "193px" : "600px",
+          width: "960px",
           gap: 10,
           zIndex: 10,
         }}
@@ -303,12 +305,11 @@ function FlowWithoutProvider() {
           {simulationFlow ? "Stop" : "Start"} Simulation
           <Pickaxe size={20} />
         </Button>
-        {!simulationFlow && (
-          <>
-            <ImportButton />
-            <ExportButton />
-          </>
-        )}
+        <ProjectsButton />
+        {!simulationFlow && <ConflictPrompt />}
+        <ImportButton />
+        {!simulationFlow && <CompareButton />}
+        <ExportButton />
       </Panel>
     </ReactFlow>
   );
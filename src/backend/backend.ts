@@ -1,8 +1,12 @@
 import express from "express";
-import { exec } from "child_process";
 import cors from "cors";
 import fs from "fs";
 import path from "path";
+import { Compiler } from "./compiler";
+import { BUNDLE_PATH, createBundleCompiler } from "./bundle-compiler";
+import { createLocalCompiler } from "./local-compiler";
+import { createDocumentStore, DocumentError } from "./documents";
+import { attachCollaboration } from "./collaboration";
 
 const app = express();
 const port = 8080;
@@ -10,61 +14,135 @@ const port = 8080;
 app.use(cors());
 app.use(express.json());
 
-app.post("/code", (req, res) => {
+/**
+ * Chooses the compiler from the `COMPILER` environment variable, `bundle` or `local`.
+ * Without it, the bundle is used when present and the built-in compiler otherwise.
+ */
+function selectCompiler(): Compiler {
+  const choice =
+    process.env.COMPILER ?? (fs.existsSync(BUNDLE_PATH) ? "bundle" : "local");
+  return choice === "local" ? createLocalCompiler() : createBundleCompiler();
+}
+
+const compiler = selectCompiler();
+
+app.post("/code", async (req, res) => {
   const { code } = req.body;
-  fs.writeFileSync("regrada.tardisdcr", code);
-  exec(
-    "type regrada.tardisdcr | node main_js.bc.js",
-    (error, stdout, sterr) => {
-      console.log(error, sterr);
-      res.send(
-        `CODE:\n\n${code}\n\n--------------------------------------------------------------\n\nOUTPUT:\n\n${stdout}`
-      );
-    }
-  );
+  if (typeof code !== "string") res.status(400).send("Missing code.");
+  else res.json(await compiler.compile({ code }));
 });
 
-app.post("/example", (req, res) => {
-  const { name, data } = req.body;
-  const fileName = `${name}.json`;
-  fs.writeFileSync(`./examples/${fileName}`, data);
-  res.send(`File ${fileName} was saved.`);
-});
+const documents = createDocumentStore(path.join(__dirname, "examples"));
 
-app.get("/projections", (req, res) => {
-  const outDir = path.join(__dirname, "_out");
+/**
+ * Runs a document operation, answering its errors with their status.
+ */
+async function withDocuments(
+  res: express.Response,
+  operation: () => Promise<void>
+) {
+  try {
+    await operation();
+  } catch (error) {
+    if (!(error instanceof DocumentError)) throw error;
+    res.status(error.status).send(error.message);
+  }
+}
 
-  fs.readdir(outDir, (err, files) => {
-    if (err) return res.status(500).send("Error reading dir.");
+app.get("/documents", async (_req, res) => {
+  await withDocuments(res, async () => {
+    res.json(await documents.list());
+  });
+});
 
-    const jsonFiles = files.filter((file) => file.endsWith(".json"));
+app.get("/documents/:name", async (req, res) => {
+  await withDocuments(res, async () => {
+    res.type("json").send(await documents.read(req.params.name));
+  });
+});
 
-    const jsonArray = jsonFiles.map((file) => {
-      const filePath = path.join(outDir, file);
-      const content = fs.readFileSync(filePath, "utf-8");
-      return JSON.parse(content);
+app.put("/documents/:name", async (req, res) => {
+  await withDocuments(res, async () => {
+    const { data, revision } = req.body;
+    res.json({
+      revision: await documents.write(req.params.name, data, revision),
     });
+  });
+});
 
-    res.json(jsonArray);
+app.post("/documents", async (req, res) => {
+  const { name, data } = req.body;
+  await withDocuments(res, async () => {
+    await documents.create(name, data);
+    res.status(201).send(`Document ${name} was created.`);
   });
 });
 
-app.post("/specific-example", (req, res) => {
-  const { name } = req.body;
-  const examplesDir = path.join(__dirname, "examples");
+app.post("/documents/:name/rename", async (req, res) => {
+  await withDocuments(res, async () => {
+    await documents.rename(req.params.name, req.body.to);
+    res.send(`Document ${req.params.name} was renamed to ${req.body.to}.`);
+  });
+});
 
-  fs.readdir(examplesDir, (err, files) => {
-    if (err) return res.status(500).send("Error reading dir.");
+app.post("/documents/:name/duplicate", async (req, res) => {
+  await withDocuments(res, async () => {
+    await documents.duplicate(req.params.name, req.body.to);
+    res
+      .status(201)
+      .send(`Document ${req.params.name} was copied to ${req.body.to}.`);
+  });
+});
+
+app.delete("/documents/:name", async (req, res) => {
+  await withDocuments(res, async () => {
+    await documents.remove(req.params.name);
+    res.send(`Document ${req.params.name} was deleted.`);
+  });
+});
+
+app.get("/documents/:name/snapshots", async (req, res) => {
+  await withDocuments(res, async () => {
+    res.json(await documents.snapshots(req.params.name));
+  });
+});
 
-    const jsonFile = files.find((file) => file.startsWith(name));
-    if (!jsonFile) return res.status(404).send("File not found.");
+app.post("/documents/:name/snapshots", async (req, res) => {
+  await withDocuments(res, async () => {
+    res
+      .status(201)
+      .json(await documents.snapshot(req.params.name, req.body.label));
+  });
+});
 
-    const filePath = path.join(examplesDir, jsonFile);
-    const content = fs.readFileSync(filePath, "utf-8");
-    res.json(JSON.parse(content));
+app.get("/documents/:name/snapshots/:revision", async (req, res) => {
+  await withDocuments(res, async () => {
+    res
+      .type("json")
+      .send(
+        await documents.readSnapshot(
+          req.params.name,
+          Number(req.params.revision)
+        )
+      );
   });
 });
 
-app.listen(port, () => {
+app.put("/documents/:name/snapshots/:revision", async (req, res) => {
+  await withDocuments(res, async () => {
+    res.json(
+      await documents.label(
+        req.params.name,
+        Number(req.params.revision),
+        req.body.label
+      )
+    );
+  });
+});
+
+const server = app.listen(port, () => {
   console.log(`Backend running at http://localhost:${port}`);
+  console.log(`Compiling with the ${compiler.name} compiler.`);
 });
+
+attachCollaboration(server);
@@ -0,0 +1,96 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { CompileError, CompileResult } from "../lib/types";
+import { Compiler } from "./compiler";
+
+/** The compiler bundle, reading a program on stdin and writing its outputs to `_out` */
+export const BUNDLE_PATH = path.join(__dirname, "main_js.bc.js");
+/** Time after which a compilation is stopped, in milliseconds */
+const COMPILE_TIMEOUT = 30000;
+
+/**
+ * Runs the compiler bundle with the given input in the given directory.
+ */
+function runBundle(input: string, cwd: string) {
+  return new Promise<{
+    exitCode: number | null;
+    stdout: string;
+    stderr: string;
+  }>((resolve) => {
+    const child = spawn(process.execPath, [BUNDLE_PATH], { cwd });
+    let stdout = "";
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      stderr += `Compilation stopped after ${COMPILE_TIMEOUT / 1000}s.`;
+      child.kill();
+    }, COMPILE_TIMEOUT);
+
+    const finish = (exitCode: number | null) => {
+      clearTimeout(timer);
+      resolve({ exitCode, stdout, stderr });
+    };
+
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", (error) => {
+      stderr += error.message;
+      finish(null);
+    });
+    child.on("close", finish);
+
+    // The compiler may exit before reading the whole program
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Creates the compiler running the `main_js.bc.js` bundle on the code.
+ *
+ * Each compilation runs in a temporary directory of its own, so that concurrent
+ * requests do not overwrite each other's outputs. The projections it writes are left
+ * out: the editor projects the graph itself.
+ */
+export function createBundleCompiler(): Compiler {
+  return {
+    name: "bundle",
+    async compile({ code }): Promise<CompileResult> {
+      const workDir = await fs.promises.mkdtemp(
+        path.join(os.tmpdir(), "tardisdcr-")
+      );
+
+      try {
+        const outDir = path.join(workDir, "_out");
+        await fs.promises.mkdir(outDir);
+
+        const { exitCode, stdout, stderr } = await runBundle(code, workDir);
+
+        const files = (await fs.promises.readdir(outDir))
+          .filter((file) => file.endsWith(".json"))
+          .sort();
+        const outputs = await Promise.all(
+          files.map(async (file) =>
+            JSON.parse(
+              await fs.promises.readFile(path.join(outDir, file), "utf-8")
+            )
+          )
+        );
+
+        const errors: CompileError[] = outputs.filter(
+          (output) => "compileError" in output
+        );
+        return {
+          success: exitCode === 0 && errors.length === 0,
+          stdout,
+          stderr,
+          errors,
+        };
+      } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
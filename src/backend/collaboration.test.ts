@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+import { attachCollaboration } from "./collaboration";
+
+let server: http.Server;
+let wss: WebSocketServer;
+const sockets: WebSocket[] = [];
+
+beforeEach(async () => {
+  server = http.createServer();
+  wss = attachCollaboration(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+});
+
+afterEach(async () => {
+  sockets.splice(0).forEach((socket) => socket.terminate());
+  wss.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * A client of the channel, with the messages it received.
+ */
+const connect = async (document: string, client: string) => {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(
+    `ws://localhost:${port}/ws?document=${document}&client=${client}`
+  );
+  sockets.push(socket);
+
+  const received: { type: string; [key: string]: unknown }[] = [];
+  socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+  await new Promise((resolve) => socket.once("open", resolve));
+
+  return {
+    received,
+    send: (message: object) => socket.send(JSON.stringify(message)),
+    close: () => socket.close(),
+  };
+};
+
+/** Waits until a condition holds, failing after a second */
+const until = async (condition: () => boolean) => {
+  for (let waited = 0; !condition(); waited += 10) {
+    if (waited > 1000) throw new Error("Timed out.");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const presence = { name: "A", color: "red", selection: ["e0"] };
+
+const op = (key: string, value: unknown, clock: number, client: string) => ({
+  key,
+  value,
+  stamp: { clock, client },
+});
+
+describe("attachCollaboration", () => {
+  it("relays operations and presence to the clients of a document", async () => {
+    const a = await connect("current", "a");
+    const b = await connect("current", "b");
+    const other = await connect("other", "c");
+    await until(() => b.received.length === 1);
+
+    a.send({ type: "ops", ops: [op("security", "S", 1, "a")] });
+    a.send({ type: "presence", presence });
+    await until(() => b.received.length === 3);
+
+    expect(b.received).toEqual([
+      { type: "welcome", ops: [], clients: ["a"], peers: [] },
+      { type: "ops", ops: [op("security", "S", 1, "a")] },
+      { type: "presence", client: "a", presence },
+    ]);
+    expect(a.received).toEqual([
+      { type: "welcome", ops: [], clients: [], peers: [] },
+      { type: "join", client: "b" },
+    ]);
+    expect(other.received).toHaveLength(1);
+  });
+
+  it("welcomes clients with the latest change of each element", async () => {
+    const a = await connect("current", "a");
+    a.send({ type: "presence", presence });
+    a.send({
+      type: "ops",
+      ops: [op("node:e0", 1, 2, "a"), op("node:e1", 1, 1, "a")],
+    });
+    a.send({
+      type: "ops",
+      ops: [op("node:e0", 0, 1, "z"), op("node:e1", null, 2, "a")],
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const b = await connect("current", "b");
+    await until(() => b.received.length === 1);
+
+    expect(b.received[0]).toEqual({
+      type: "welcome",
+      ops: [op("node:e0", 1, 2, "a"), op("node:e1", null, 2, "a")],
+      clients: ["a"],
+      peers: [{ client: "a", presence }],
+    });
+  });
+
+  it("ignores malformed messages", async () => {
+    const a = await connect("current", "a");
+    const b = await connect("current", "b");
+    await until(() => b.received.length === 1);
+
+    const raw = sockets[0];
+    ["null", "[]", "{", '"ops"', '{"type":"welcome"}'].forEach((data) =>
+      raw.send(data)
+    );
+    a.send({ type: "presence", presence: { name: "A" } });
+    a.send({ type: "saved", revision: "1" });
+    a.send({
+      type: "ops",
+      ops: [null, 3, { key: "x" }, op("security", "S", 1, "a")],
+    });
+    await until(() => b.received.length === 2);
+
+    expect(b.received[1]).toEqual({
+      type: "ops",
+      ops: [op("security", "S", 1, "a")],
+    });
+  });
+
+  it("tells the others when a client leaves, and forgets empty rooms", async () => {
+    const a = await connect("current", "a");
+    const b = await connect("current", "b");
+    a.send({ type: "ops", ops: [op("security", "S", 1, "a")] });
+    await until(() => b.received.length === 2);
+
+    b.close();
+    await until(() => a.received.length === 3);
+    expect(a.received[2]).toEqual({ type: "leave", client: "b" });
+
+    a.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const c = await connect("current", "c");
+    await until(() => c.received.length === 1);
+    expect(c.received[0]).toMatchObject({ ops: [] });
+  });
+});
@@ -0,0 +1,174 @@
+import http from "http";
+import { WebSocket, WebSocketServer } from "ws";
+
+/**
+ * A change to one element of a document, as made by a client: see `Operation` in the
+ * editor. The server only needs its key and stamp to keep the latest change.
+ */
+interface Operation {
+  key: string;
+  value: unknown;
+  stamp: { clock: number; client: string };
+}
+
+/**
+ * What a client shows of itself to the others: its name, color, cursor and selection.
+ */
+type Presence = Record<string, unknown>;
+
+/**
+ * The messages sent by clients.
+ *
+ * - `ops`: operations on the document, merged and relayed to the other clients;
+ * - `presence`: the presence of the client, relayed to the other clients;
+ * - `saved`: the revision the client saved the document under, relayed to the others.
+ */
+type ClientMessage =
+  | { type: "ops"; ops: Operation[] }
+  | { type: "presence"; presence: Presence }
+  | { type: "saved"; revision: number };
+
+/**
+ * The clients editing a document and the latest change of each of its elements.
+ */
+interface Room {
+  clients: Map<WebSocket, { client: string; presence?: Presence }>;
+  entries: Map<string, Operation>;
+}
+
+/** Whether an operation orders after another: by clock, then by client */
+const newer = (op: Operation, than: Operation) =>
+  op.stamp.clock > than.stamp.clock ||
+  (op.stamp.clock === than.stamp.clock && op.stamp.client > than.stamp.client);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOperation = (op: unknown): op is Operation =>
+  isObject(op) &&
+  typeof op.key === "string" &&
+  isObject(op.stamp) &&
+  typeof op.stamp.clock === "number" &&
+  typeof op.stamp.client === "string";
+
+const isPresence = (presence: unknown): presence is Presence =>
+  isObject(presence) &&
+  typeof presence.name === "string" &&
+  typeof presence.color === "string" &&
+  Array.isArray(presence.selection) &&
+  presence.selection.every((id) => typeof id === "string") &&
+  (presence.cursor === undefined ||
+    (isObject(presence.cursor) &&
+      typeof presence.cursor.x === "number" &&
+      typeof presence.cursor.y === "number"));
+
+/**
+ * Reads a message sent by a client, keeping only its valid operations.
+ *
+ * @param data - The text of the message.
+ * @returns The message, or `undefined` if it is not one of `ClientMessage`.
+ */
+const parseMessage = (data: string): ClientMessage | undefined => {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+  if (!isObject(message)) return undefined;
+
+  if (message.type === "ops" && Array.isArray(message.ops))
+    return { type: "ops", ops: message.ops.filter(isOperation) };
+  if (message.type === "presence" && isPresence(message.presence))
+    return { type: "presence", presence: message.presence };
+  if (message.type === "saved" && typeof message.revision === "number")
+    return { type: "saved", revision: message.revision };
+  return undefined;
+};
+
+/**
+ * Hosts the collaboration channel on an HTTP server: clients connect to
+ * `<path>?document=<name>&client=<id>` and join the room of the document.
+ *
+ * A client joining is welcomed with the elements of the document, unless it is the first
+ * one, the ids of the other clients and their presence, and the others are told it
+ * joined. The room forgets the document when its last
+ * client leaves, saving being left to the clients.
+ *
+ * @param server - The HTTP server to upgrade connections from.
+ * @param path - The path of the channel.
+ * @returns The WebSocket server.
+ */
+export function attachCollaboration(
+  server: http.Server,
+  path: string = "/ws"
+): WebSocketServer {
+  const wss = new WebSocketServer({ server, path });
+  const rooms = new Map<string, Room>();
+
+  const broadcast = (room: Room, from: WebSocket, message: object) => {
+    const data = JSON.stringify(message);
+    room.clients.forEach((_, socket) => {
+      if (socket !== from && socket.readyState === WebSocket.OPEN)
+        socket.send(data);
+    });
+  };
+
+  wss.on("connection", (socket, req) => {
+    const params = new URL(req.url ?? "", "http://localhost").searchParams;
+    const document = params.get("document");
+    const client = params.get("client");
+    if (!document || !client) {
+      socket.close(1008, "Missing document or client.");
+      return;
+    }
+
+    const room = rooms.get(document) ?? {
+      clients: new Map(),
+      entries: new Map(),
+    };
+    rooms.set(document, room);
+
+    socket.send(
+      JSON.stringify({
+        type: "welcome",
+        ops: [...room.entries.values()],
+        clients: [...room.clients.values()].map((peer) => peer.client),
+        peers: [...room.clients.values()]
+          .filter((peer) => peer.presence)
+          .map((peer) => ({ client: peer.client, presence: peer.presence })),
+      })
+    );
+    broadcast(room, socket, { type: "join", client });
+    room.clients.set(socket, { client });
+
+    socket.on("message", (data) => {
+      // Anything else than the messages of the editor is ignored
+      const message = parseMessage(data.toString());
+      if (!message) return;
+
+      if (message.type === "ops") {
+        message.ops.forEach((op) => {
+          const known = room.entries.get(op.key);
+          if (!known || newer(op, known)) room.entries.set(op.key, op);
+        });
+        broadcast(room, socket, message);
+      } else if (message.type === "presence") {
+        room.clients.set(socket, { client, presence: message.presence });
+        broadcast(room, socket, {
+          type: "presence",
+          client,
+          presence: message.presence,
+        });
+      } else broadcast(room, socket, message);
+    });
+
+    socket.on("close", () => {
+      room.clients.delete(socket);
+      broadcast(room, socket, { type: "leave", client });
+      if (room.clients.size === 0) rooms.delete(document);
+    });
+  });
+
+  return wss;
+}
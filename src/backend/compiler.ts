@@ -0,0 +1,22 @@
+import type { CompileResult } from "../lib/types";
+
+/**
+ * What a compilation is asked to compile.
+ *
+ * @property code - The `.tardisdcr` code.
+ */
+export interface CompileRequest {
+  code: string;
+}
+
+/**
+ * A way of compiling choreographies. The editor projects them onto their roles itself,
+ * so only the outcome of the compilation and its errors are used.
+ *
+ * @property name - The name of the compiler, shown in the logs of the backend.
+ * @method compile - Compiles a choreography.
+ */
+export interface Compiler {
+  name: string;
+  compile(request: CompileRequest): Promise<CompileResult>;
+}
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createDocumentStore, DocumentError, DocumentStore } from "./documents";
+
+let dir: string;
+let documents: DocumentStore;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "documents-"));
+  documents = createDocumentStore(dir);
+  await documents.write("current", '{"nodes":[]}');
+});
+
+afterEach(async () => {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+const names = async () => (await documents.list()).map((doc) => doc.name);
+
+/**
+ * Runs an operation expected to fail, returning the status of its error.
+ */
+const statusOf = async (operation: Promise<unknown>) => {
+  const error = await operation.catch((error) => error);
+  expect(error).toBeInstanceOf(DocumentError);
+  return (error as DocumentError).status;
+};
+
+describe("createDocumentStore", () => {
+  it("saves, lists and reads documents", async () => {
+    await documents.create("a b-1", "{}");
+
+    expect(await names()).toEqual(["a b-1", "current"]);
+    expect(await documents.read("current")).toBe('{"nodes":[],"revision":1}');
+    expect((await documents.list())[0].modified).toBeGreaterThan(0);
+  });
+
+  it("renames, duplicates and deletes documents", async () => {
+    await documents.duplicate("current", "copy");
+    await documents.rename("current", "renamed");
+    await documents.remove("copy");
+
+    expect(await names()).toEqual(["renamed"]);
+    expect(await documents.read("renamed")).toBe('{"nodes":[],"revision":1}');
+  });
+
+  it("refuses to overwrite a document", async () => {
+    await documents.write("other", "{}");
+
+    expect(await statusOf(documents.create("other", "{}"))).toBe(409);
+    expect(await statusOf(documents.rename("current", "other"))).toBe(409);
+    expect(await statusOf(documents.duplicate("current", "other"))).toBe(409);
+  });
+
+  it("reports missing documents", async () => {
+    expect(await statusOf(documents.read("missing"))).toBe(404);
+    expect(await statusOf(documents.rename("missing", "x"))).toBe(404);
+    expect(await statusOf(documents.remove("missing"))).toBe(404);
+  });
+
+  it("counts the revisions of a document", async () => {
+    expect(await documents.write("current", '{"nodes":[]}', 1)).toBe(2);
+    expect(await documents.write("current", "{}")).toBe(3);
+    expect(JSON.parse(await documents.read("current"))).toEqual({
+      revision: 3,
+    });
+  });
+
+  it("refuses saves based on an older revision", async () => {
+    await documents.write("current", "{}", 1);
+
+    expect(await statusOf(documents.write("current", "{}", 1))).toBe(409);
+    expect(await statusOf(documents.write("new", "{}", 1))).toBe(409);
+    expect(await documents.write("new", "{}", 0)).toBe(1);
+  });
+
+  it("saves one revision at a time", async () => {
+    const saves = await Promise.allSettled([
+      documents.write("current", "{}", 1),
+      documents.write("current", "{}", 1),
+    ]);
+
+    expect(saves.map((save) => save.status)).toEqual(["fulfilled", "rejected"]);
+  });
+
+  it("creates a document once, whatever else creates or renames to it", async () => {
+    const creations = await Promise.allSettled([
+      documents.create("new", '{"first":true}'),
+      documents.duplicate("current", "new"),
+      documents.create("new", '{"second":true}'),
+    ]);
+
+    expect(creations.map((creation) => creation.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "rejected",
+    ]);
+    expect(await documents.read("new")).toBe('{"first":true}');
+  });
+
+  it("renames and duplicates a document once its saves are done", async () => {
+    await Promise.all([
+      documents.write("current", "{}", 1),
+      documents.duplicate("current", "copy"),
+      documents.write("current", "{}", 2),
+      documents.rename("current", "renamed"),
+    ]);
+
+    expect(await names()).toEqual(["copy", "renamed"]);
+    expect(await documents.read("copy")).toBe('{"revision":2}');
+    expect(await documents.read("renamed")).toBe('{"revision":3}');
+  });
+
+  it.each(["", "../backend", "a/b", ".hidden", "a..b"])(
+    "rejects the name %j",
+    async (name) => {
+      expect(await statusOf(documents.write(name, "{}"))).toBe(400);
+    }
+  );
+
+  it("needs the data of a document", async () => {
+    const data = undefined as unknown as string;
+    expect(await statusOf(documents.create("new", data))).toBe(400);
+    expect(await statusOf(documents.write("new", "[1]"))).toBe(400);
+    expect(await statusOf(documents.write("new", "{"))).toBe(400);
+    expect(await names()).toEqual(["current"]);
+  });
+});
+
+describe("history", () => {
+  beforeEach(() => {
+    // Every version a save replaces is kept
+    documents = createDocumentStore(dir, { interval: 0, limit: 2 });
+  });
+
+  const revisions = async (name = "current") =>
+    (await documents.snapshots(name)).map(
+      (snapshot) =>
+        `${snapshot.revision}${snapshot.label && ` ${snapshot.label}`}`
+    );
+
+  it("keeps the versions that saves replace, newest first", async () => {
+    await documents.write("current", '{"nodes":[1]}');
+    await documents.write("current", '{"nodes":[2]}');
+
+    expect(await revisions()).toEqual(["2", "1"]);
+    expect(await documents.readSnapshot("current", 2)).toBe(
+      '{"nodes":[1],"revision":2}'
+    );
+    expect((await documents.snapshots("current"))[0].created).toBeGreaterThan(
+      0
+    );
+  });
+
+  it("keeps a snapshot at most once per interval", async () => {
+    documents = createDocumentStore(dir, { interval: 60_000, limit: 2 });
+    await documents.write("current", "{}");
+    await documents.write("current", "{}");
+
+    expect(await revisions()).toEqual(["1"]);
+  });
+
+  it("names snapshots, which are never dropped", async () => {
+    expect(await documents.snapshot("current", " before review ")).toEqual({
+      revision: 1,
+      created: expect.any(Number),
+      label: "before review",
+    });
+    for (let i = 0; i < 4; i++) await documents.write("current", "{}");
+    await documents.label("current", 4, "draft");
+
+    expect(await revisions()).toEqual(["4 draft", "3", "1 before review"]);
+
+    await documents.label("current", 4, "");
+    expect(await revisions()).toEqual(["4", "3", "1 before review"]);
+  });
+
+  it("moves, copies and deletes the history with its document", async () => {
+    await documents.write("current", "{}");
+    await documents.rename("current", "renamed");
+    await documents.duplicate("renamed", "copy");
+    await documents.remove("renamed");
+
+    expect(await revisions("copy")).toEqual(["1"]);
+    expect(await statusOf(documents.snapshots("renamed"))).toBe(404);
+    await documents.create("renamed", "{}");
+    expect(await revisions("renamed")).toEqual([]);
+  });
+
+  it("reports missing snapshots", async () => {
+    expect(await statusOf(documents.readSnapshot("current", 7))).toBe(404);
+    expect(await statusOf(documents.readSnapshot("current", -1))).toBe(400);
+    expect(await statusOf(documents.label("current", 7, "x"))).toBe(404);
+    expect(await statusOf(documents.snapshot("current", ""))).toBe(400);
+    expect(await statusOf(documents.snapshot("missing", "x"))).toBe(404);
+  });
+});
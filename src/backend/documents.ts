@@ -0,0 +1,397 @@
+import fs from "fs";
+import path from "path";
+
+/** Document names: letters, digits, spaces, dots, dashes and underscores */
+const NAME = /^[\w-][\w .-]{0,63}$/;
+
+/**
+ * A saved choreography.
+ *
+ * @property name - The name of the document, its file name without extension.
+ * @property modified - When the document was last saved, in milliseconds since the epoch.
+ */
+export interface DocumentInfo {
+  name: string;
+  modified: number;
+}
+
+/**
+ * A version of a document kept in its history.
+ *
+ * @property revision - The revision of the version.
+ * @property created - When the version was saved, in milliseconds since the epoch.
+ * @property label - The name given to the version, empty if it has none.
+ */
+export interface SnapshotInfo {
+  revision: number;
+  created: number;
+  label: string;
+}
+
+/**
+ * How the history of the documents is kept.
+ *
+ * @property interval - How long after the last snapshot of a document a version it
+ *                      replaces is kept again, in milliseconds.
+ * @property limit - How many unnamed snapshots of a document are kept at most, the oldest
+ *                   being dropped first.
+ */
+export interface HistoryOptions {
+  interval: number;
+  limit: number;
+}
+
+const HISTORY_DEFAULTS: HistoryOptions = {
+  interval: 5 * 60 * 1000,
+  limit: 50,
+};
+
+/**
+ * Error raised when a document operation cannot be carried out, with the HTTP status
+ * answering it.
+ */
+export class DocumentError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "DocumentError";
+    this.status = status;
+  }
+}
+
+/**
+ * The choreographies saved as JSON files in a directory.
+ *
+ * @method list - Lists the documents, by name.
+ * @method read - Reads the saved graph of a document, with its revision.
+ * @method write - Saves the graph of a document, creating it if needed, and returns its
+ *                 new revision. When given the revision the graph was based on, the save
+ *                 is refused if the document was saved since.
+ * @method create - Creates a document, failing if it exists.
+ * @method rename - Renames a document, failing if the new name is taken.
+ * @method duplicate - Copies a document under a new name, failing if it is taken.
+ * @method remove - Deletes a document.
+ * @method snapshots - Lists the snapshots of a document, newest first.
+ * @method readSnapshot - Reads the graph of a document as saved in a snapshot.
+ * @method snapshot - Keeps the saved version of a document under a name.
+ * @method label - Names a snapshot, or removes its name if empty.
+ */
+export interface DocumentStore {
+  list(): Promise<DocumentInfo[]>;
+  read(name: string): Promise<string>;
+  write(name: string, data: string, revision?: number): Promise<number>;
+  create(name: string, data: string): Promise<void>;
+  rename(name: string, to: string): Promise<void>;
+  duplicate(name: string, to: string): Promise<void>;
+  remove(name: string): Promise<void>;
+  snapshots(name: string): Promise<SnapshotInfo[]>;
+  readSnapshot(name: string, revision: number): Promise<string>;
+  snapshot(name: string, label: string): Promise<SnapshotInfo>;
+  label(name: string, revision: number, label: string): Promise<SnapshotInfo>;
+}
+
+/**
+ * A snapshot as stored, with the saved document.
+ */
+interface StoredSnapshot extends SnapshotInfo {
+  data: string;
+}
+
+/**
+ * Creates the store of the documents saved in a directory, one `<name>.json` file each.
+ *
+ * Names are checked before use so that no file outside the directory is touched. Each
+ * save increments the `revision` of the document, stored in its file, and the saves of a
+ * document are run one after the other so that two of them cannot be based on the same
+ * revision.
+ *
+ * The history of a document is kept in `.history/<name>`, one `<revision>.json` file per
+ * snapshot. A save keeps the version it replaces when the last snapshot is older than
+ * the interval of the options, and named snapshots are never dropped.
+ *
+ * @param dir - The directory of the documents.
+ * @param history - How the history of the documents is kept.
+ * @returns The document store.
+ */
+export function createDocumentStore(
+  dir: string,
+  history: HistoryOptions = HISTORY_DEFAULTS
+): DocumentStore {
+  const fileOf = (name: string) => {
+    if (typeof name !== "string" || !NAME.test(name) || name.includes(".."))
+      throw new DocumentError(`Invalid document name ${name}.`, 400);
+    return path.join(dir, `${name}.json`);
+  };
+
+  const historyOf = (name: string) => {
+    fileOf(name);
+    return path.join(dir, ".history", name);
+  };
+
+  const snapshotFile = (name: string, revision: number) => {
+    if (!Number.isInteger(revision) || revision < 0)
+      throw new DocumentError(`Invalid revision ${revision}.`, 400);
+    return path.join(historyOf(name), `${revision}.json`);
+  };
+
+  const checkLabel = (label: string) => {
+    if (typeof label !== "string" || label.length > 64)
+      throw new DocumentError("Invalid snapshot name.", 400);
+    return label.trim();
+  };
+
+  const checkData = (data: string) => {
+    if (typeof data !== "string")
+      throw new DocumentError("Missing document data.", 400);
+    return data;
+  };
+
+  const parseData = (data: string): object => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(checkData(data));
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+      throw new DocumentError("Invalid document data.", 400);
+    return parsed;
+  };
+
+  const revisionOf = async (file: string): Promise<number> => {
+    try {
+      const { revision } = JSON.parse(
+        await fs.promises.readFile(file, "utf-8")
+      );
+      return typeof revision === "number" ? revision : 0;
+    } catch {
+      return 0;
+    }
+  };
+
+  // The last change of each document, the next one waiting for those of all the
+  // documents it touches
+  const saving = new Map<string, Promise<unknown>>();
+  const serialize = <T>(
+    names: string[],
+    save: () => Promise<T>
+  ): Promise<T> => {
+    const next = Promise.allSettled(names.map((name) => saving.get(name))).then(
+      save
+    );
+    names.forEach((name) => saving.set(name, next));
+    return next;
+  };
+
+  const exists = (file: string) =>
+    fs.promises.access(file).then(
+      () => true,
+      () => false
+    );
+
+  /**
+   * Reads the snapshots of a document, oldest first.
+   */
+  const storedSnapshots = async (name: string): Promise<StoredSnapshot[]> => {
+    const files = await fs.promises.readdir(historyOf(name)).catch(() => []);
+    const snapshots = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) =>
+          JSON.parse(
+            await fs.promises.readFile(
+              path.join(historyOf(name), file),
+              "utf-8"
+            )
+          )
+        )
+    );
+    return snapshots.sort((a, b) => a.revision - b.revision);
+  };
+
+  const infoOf = ({ revision, created, label }: StoredSnapshot) => ({
+    revision,
+    created,
+    label,
+  });
+
+  /**
+   * Keeps the version of a document saved in its file, under a name if given, and drops
+   * the oldest unnamed snapshots beyond the limit.
+   */
+  const keep = async (name: string, file: string, label: string) => {
+    const data = await fs.promises.readFile(file, "utf-8");
+    const snapshot: StoredSnapshot = {
+      revision: await revisionOf(file),
+      created: (await fs.promises.stat(file)).mtimeMs,
+      label,
+      data,
+    };
+    await fs.promises.mkdir(historyOf(name), { recursive: true });
+    await fs.promises.writeFile(
+      snapshotFile(name, snapshot.revision),
+      JSON.stringify(snapshot)
+    );
+
+    const unnamed = (await storedSnapshots(name)).filter((kept) => !kept.label);
+    await Promise.all(
+      unnamed
+        .slice(0, Math.max(0, unnamed.length - history.limit))
+        .map((dropped) => fs.promises.rm(snapshotFile(name, dropped.revision)))
+    );
+    return infoOf(snapshot);
+  };
+
+  /**
+   * Keeps the version a save is about to replace, unless it is kept already or a snapshot
+   * was kept recently.
+   */
+  const keepReplaced = async (name: string, file: string) => {
+    if (!(await exists(file))) return;
+    const snapshots = await storedSnapshots(name);
+    const revision = await revisionOf(file);
+    if (snapshots.some((snapshot) => snapshot.revision === revision)) return;
+
+    const last = Math.max(...snapshots.map((snapshot) => snapshot.created));
+    const saved = (await fs.promises.stat(file)).mtimeMs;
+    if (snapshots.length === 0 || saved - last >= history.interval)
+      await keep(name, file, "");
+  };
+
+  const existing = async (name: string) => {
+    const file = fileOf(name);
+    if (!(await exists(file)))
+      throw new DocumentError(`Document ${name} does not exist.`, 404);
+    return file;
+  };
+
+  const available = async (name: string) => {
+    const file = fileOf(name);
+    if (await exists(file))
+      throw new DocumentError(`Document ${name} already exists.`, 409);
+    return file;
+  };
+
+  return {
+    async list() {
+      const files = (await fs.promises.readdir(dir))
+        .filter((file) => file.endsWith(".json"))
+        .sort();
+      return Promise.all(
+        files.map(async (file) => ({
+          name: path.basename(file, ".json"),
+          modified: (await fs.promises.stat(path.join(dir, file))).mtimeMs,
+        }))
+      );
+    },
+
+    async read(name) {
+      return fs.promises.readFile(await existing(name), "utf-8");
+    },
+
+    async write(name, data, revision) {
+      const file = fileOf(name);
+      const parsed = parseData(data);
+      if (revision !== undefined && !Number.isInteger(revision))
+        throw new DocumentError(`Invalid revision ${revision}.`, 400);
+
+      return serialize([name], async () => {
+        const current = await revisionOf(file);
+        if (revision !== undefined && revision !== current)
+          throw new DocumentError(
+            `Document ${name} was saved elsewhere since revision ${revision}.`,
+            409
+          );
+
+        await keepReplaced(name, file);
+        await fs.promises.writeFile(
+          file,
+          JSON.stringify({ ...parsed, revision: current + 1 })
+        );
+        return current + 1;
+      });
+    },
+
+    async create(name, data) {
+      checkData(data);
+      return serialize([name], async () => {
+        await fs.promises.writeFile(await available(name), data);
+      });
+    },
+
+    async rename(name, to) {
+      return serialize([name, to], async () => {
+        const from = await existing(name);
+        await fs.promises.rename(from, await available(to));
+        await fs.promises.rm(historyOf(to), { recursive: true, force: true });
+        if (await exists(historyOf(name)))
+          await fs.promises.rename(historyOf(name), historyOf(to));
+      });
+    },
+
+    async duplicate(name, to) {
+      return serialize([name, to], async () => {
+        const from = await existing(name);
+        await fs.promises.copyFile(from, await available(to));
+        await fs.promises.rm(historyOf(to), { recursive: true, force: true });
+        if (await exists(historyOf(name)))
+          await fs.promises.cp(historyOf(name), historyOf(to), {
+            recursive: true,
+          });
+      });
+    },
+
+    async remove(name) {
+      return serialize([name], async () => {
+        await fs.promises.rm(await existing(name));
+        await fs.promises.rm(historyOf(name), { recursive: true, force: true });
+      });
+    },
+
+    async snapshots(name) {
+      await existing(name);
+      return (await storedSnapshots(name)).reverse().map(infoOf);
+    },
+
+    async readSnapshot(name, revision) {
+      const file = snapshotFile(name, revision);
+      if (!(await exists(file)))
+        throw new DocumentError(
+          `Document ${name} has no snapshot of revision ${revision}.`,
+          404
+        );
+      const { data }: StoredSnapshot = JSON.parse(
+        await fs.promises.readFile(file, "utf-8")
+      );
+      return data;
+    },
+
+    async snapshot(name, label) {
+      const named = checkLabel(label);
+      if (!named) throw new DocumentError("Missing snapshot name.", 400);
+      const file = await existing(name);
+      return serialize([name], () => keep(name, file, named));
+    },
+
+    async label(name, revision, label) {
+      const named = checkLabel(label);
+      const file = snapshotFile(name, revision);
+      return serialize([name], async () => {
+        if (!(await exists(file)))
+          throw new DocumentError(
+            `Document ${name} has no snapshot of revision ${revision}.`,
+            404
+          );
+        const snapshot: StoredSnapshot = JSON.parse(
+          await fs.promises.readFile(file, "utf-8")
+        );
+        await fs.promises.writeFile(
+          file,
+          JSON.stringify({ ...snapshot, label: named })
+        );
+        return infoOf({ ...snapshot, label: named });
+      });
+    },
+  };
+}
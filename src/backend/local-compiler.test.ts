@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { createLocalCompiler } from "./local-compiler";
+import { examplePrograms } from "@/test/fixtures";
+
+describe("local compiler", () => {
+  it.each(examplePrograms())("accepts the %s example", async (_name, code) => {
+    expect(await createLocalCompiler().compile({ code })).toEqual({
+      success: true,
+      stdout: "",
+      stderr: "",
+      errors: [],
+    });
+  });
+});
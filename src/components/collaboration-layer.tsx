@@ -0,0 +1,127 @@
+import useStore, { RFState } from "@/stores/store";
+import { useReactFlow, ViewportPortal } from "@xyflow/react";
+import { MousePointer2 } from "lucide-react";
+import { useEffect } from "react";
+import { shallow } from "zustand/shallow";
+
+/** How often the cursor is shared at most, in milliseconds */
+const CURSOR_INTERVAL = 50;
+/** How often a closed channel is joined again, in milliseconds */
+const REJOIN_INTERVAL = 5000;
+
+const selector = (state: RFState) => ({
+  currentDocument: state.currentDocument,
+  collaborating: state.collaborating,
+  peers: state.peers,
+  // Outlines follow the nodes as they move
+  nodes: state.nodes,
+  selection: [...state.nodes, ...state.edges]
+    .filter((element) => element.selected)
+    .map((element) => element.id)
+    .join(),
+  joinCollaboration: state.joinCollaboration,
+  leaveCollaboration: state.leaveCollaboration,
+  sharePresence: state.sharePresence,
+});
+
+/**
+ * Joins the collaboration channel of the document shown and renders the cursors and the
+ * selected nodes of the other clients editing it on the canvas.
+ *
+ * The cursor and the selection of this client are shared as they change. A channel that
+ * closed, e.g. because the backend restarted, is joined again periodically.
+ *
+ * @returns {JSX.Element} The rendered CollaborationLayer component.
+ */
+export default function CollaborationLayer() {
+  const {
+    currentDocument,
+    collaborating,
+    peers,
+    selection,
+    joinCollaboration,
+    leaveCollaboration,
+    sharePresence,
+  } = useStore(selector, shallow);
+  const { screenToFlowPosition, getInternalNode } = useReactFlow();
+
+  useEffect(() => {
+    joinCollaboration();
+    return leaveCollaboration;
+  }, [currentDocument, joinCollaboration, leaveCollaboration]);
+
+  useEffect(() => {
+    if (collaborating) return;
+    const interval = setInterval(joinCollaboration, REJOIN_INTERVAL);
+    return () => clearInterval(interval);
+  }, [collaborating, joinCollaboration]);
+
+  useEffect(() => {
+    sharePresence({ selection: selection ? selection.split(",") : [] });
+  }, [selection, sharePresence]);
+
+  useEffect(() => {
+    let last = 0;
+    const onMouseMove = (event: MouseEvent) => {
+      if (Date.now() - last < CURSOR_INTERVAL) return;
+      last = Date.now();
+
+      const onCanvas = (event.target as Element).closest?.(
+        ".react-flow__pane, .react-flow__node"
+      );
+      sharePresence({
+        cursor: onCanvas
+          ? screenToFlowPosition({ x: event.clientX, y: event.clientY })
+          : undefined,
+      });
+    };
+
+    window.addEventListener("mousemove", onMouseMove);
+    return () => window.removeEventListener("mousemove", onMouseMove);
+  }, [screenToFlowPosition, sharePresence]);
+
+  return (
+    <ViewportPortal>
+      {[...peers].map(([client, peer]) => (
+        <div key={client}>
+          {peer.selection.map((id) => {
+            const node = getInternalNode(id);
+            if (!node) return null;
+            return (
+              <div
+                key={id}
+                className="absolute pointer-events-none rounded-sm"
+                style={{
+                  transform: `translate(${node.internals.positionAbsolute.x}px, ${node.internals.positionAbsolute.y}px)`,
+                  width: node.measured.width,
+                  height: node.measured.height,
+                  outline: `2px dashed ${peer.color}`,
+                  outlineOffset: 4,
+                  zIndex: 30000,
+                }}
+              />
+            );
+          })}
+          {peer.cursor && (
+            <div
+              className="absolute pointer-events-none flex items-start"
+              style={{
+                transform: `translate(${peer.cursor.x}px, ${peer.cursor.y}px)`,
+                color: peer.color,
+                zIndex: 30000,
+              }}
+            >
+              <MousePointer2 size={18} fill={peer.color} />
+              <span
+                className="text-[11px] text-white px-1 rounded-sm whitespace-nowrap"
+                style={{ backgroundColor: peer.color }}
+              >
+                {peer.name}
+              </span>
+            </div>
+          )}
+        </div>
+      ))}
+    </ViewportPortal>
+  );
+}
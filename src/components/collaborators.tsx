@@ -0,0 +1,40 @@
+import useStore, { RFState } from "@/stores/store";
+import { Users } from "lucide-react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  collaborating: state.collaborating,
+  presence: state.presence,
+  peers: state.peers,
+});
+
+/**
+ * Renders the clients editing the document shown, this one first, each in the color of
+ * its cursor. Nothing is rendered when the collaboration channel is closed.
+ *
+ * @returns {JSX.Element} The rendered Collaborators component.
+ */
+export default function Collaborators() {
+  const { collaborating, presence, peers } = useStore(selector, shallow);
+  if (!collaborating) return null;
+
+  const clients = [presence, ...peers.values()];
+
+  return (
+    <div
+      className="flex items-center gap-1 px-3 h-9"
+      title={`Editing: ${clients.map((client) => client.name).join(", ")}`}
+    >
+      <Users size={16} className="text-gray-500" />
+      {clients.map((client, index) => (
+        <span
+          key={index}
+          className="w-5 h-5 rounded-full text-[10px] text-white flex items-center justify-center"
+          style={{ backgroundColor: client.color }}
+        >
+          {client.name.split(" ").pop()?.charAt(0).toUpperCase()}
+        </span>
+      ))}
+    </div>
+  );
+}
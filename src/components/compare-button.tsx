@@ -0,0 +1,192 @@
+import {
+  BackendError,
+  documentPath,
+  requestDocuments,
+} from "@/lib/persistence";
+import { Button, Modal } from "@/lib/reusable-comps";
+import { ParseError } from "@/lib/tardisdcr-parser";
+import { State } from "@/lib/types";
+import { getLayoutedElements } from "@/lib/utils";
+import { visualGen } from "@/lib/visualgen-code";
+import useStore, { RFState } from "@/stores/store";
+import { GitCompare } from "lucide-react";
+import { useState } from "react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  comparison: state.comparison,
+  documents: state.documents,
+  currentDocument: state.currentDocument,
+  refreshDocuments: state.refreshDocuments,
+  compareWith: state.compareWith,
+  stopComparing: state.stopComparing,
+  log: state.log,
+});
+
+/**
+ * Renders a button comparing the document shown with another version of the
+ * choreography: a JSON or `.tardisdcr` file, or another document saved in the backend.
+ * While comparing, the button leaves the diff mode instead.
+ *
+ * @returns {JSX.Element} The rendered CompareButton component.
+ */
+export default function CompareButton() {
+  const {
+    comparison,
+    documents,
+    currentDocument,
+    refreshDocuments,
+    compareWith,
+    stopComparing,
+    log,
+  } = useStore(selector, shallow);
+
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | undefined>(undefined);
+  const [document, setDocument] = useState("");
+
+  const openModal = () => {
+    setOpen(true);
+    refreshDocuments();
+  };
+
+  const compareCode = (name: string, code: string) => {
+    let generated: ReturnType<typeof visualGen>;
+    try {
+      generated = visualGen(code);
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      const { line, column } = error.location.from;
+      log(`Cannot compare with ${name} (${line}:${column}): ${error.message}`);
+      return;
+    }
+
+    const {
+      roles,
+      security,
+      nodes,
+      edges,
+      nodeId,
+      groupId,
+      subId,
+      positioned,
+    } = generated;
+    const layouted = positioned
+      ? { nodes, edges }
+      : getLayoutedElements(nodes, edges);
+    compareWith(name, {
+      ...layouted,
+      roles,
+      security,
+      code,
+      nextNodeId: [nodeId],
+      nextGroupId: [groupId],
+      nextSubprocessId: [subId],
+    });
+  };
+
+  const compareFile = async (file: File) => {
+    const text = await file.text();
+    if (file.name.endsWith(".tardisdcr")) compareCode(file.name, text);
+    else if (file.name.endsWith(".json"))
+      compareWith(file.name, JSON.parse(text) as State);
+    else
+      log(`Cannot compare with ${file.name}: not a JSON or .tardisdcr file.`);
+  };
+
+  const compareDocument = async (name: string) => {
+    try {
+      const response = await requestDocuments(documentPath(name));
+      // The revision of the document is not compared
+      const state = await response.json();
+      delete state.revision;
+      compareWith(name, state as State);
+    } catch (error) {
+      if (!(error instanceof BackendError)) throw error;
+      log(`Cannot compare with ${name}: ${error.message}`);
+    }
+  };
+
+  const onClick = () => {
+    if (document) compareDocument(document);
+    else if (file) compareFile(file);
+    else return;
+    setOpen(false);
+  };
+
+  if (comparison)
+    return (
+      <Button
+        className="flex items-center justify-center gap-2 w-full"
+        onClick={stopComparing}
+      >
+        Stop Comparing
+        <GitCompare size={20} />
+      </Button>
+    );
+
+  return (
+    <>
+      <Button
+        className="flex items-center justify-center gap-2 w-full"
+        onClick={openModal}
+      >
+        Compare
+        <GitCompare size={20} />
+      </Button>
+      <Modal open={open} onClose={() => setOpen(false)}>
+        <div className="flex flex-col gap-4 mt-10">
+          <h1 className="font-bold text-lg flex items-center justify-center gap-2 absolute top-3 left-3">
+            Compare With
+            <GitCompare size={20} />
+          </h1>
+          <div className="flex items-center justify-center gap-6">
+            <label className="flex items-center justify-start h-8 w-20">
+              Document
+            </label>
+            <select
+              value={document}
+              onChange={(e) => setDocument(e.target.value)}
+              className="border-2 rounded-sm w-40 h-8 px-1 text-[12px]"
+            >
+              <option value="">A file…</option>
+              {documents
+                .filter((info) => info.name !== currentDocument)
+                .map((info) => (
+                  <option key={info.name} value={info.name}>
+                    {info.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-center gap-6">
+            <label className="flex items-center justify-start h-8 w-20">
+              File
+            </label>
+            <input
+              type="file"
+              accept=".json,.tardisdcr"
+              disabled={document !== ""}
+              onChange={(e) =>
+                setFile(e.target.files ? e.target.files[0] : undefined)
+              }
+              className="border-2 rounded-sm w-40 h-8 px-1 text-[12px] disabled:opacity-50"
+            ></input>
+          </div>
+          <div className="flex gap-2">
+            <Button className="w-full" onClick={onClick}>
+              Compare
+            </Button>
+            <Button
+              className="w-full"
+              onClick={() => setOpen(false)}
+              variant="secondary"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+import { Button, Modal } from "@/lib/reusable-comps";
+import useStore, { RFState } from "@/stores/store";
+import { CloudAlert } from "lucide-react";
+import { useState } from "react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  currentDocument: state.currentDocument,
+  conflict: state.conflict,
+  resolveConflict: state.resolveConflict,
+});
+
+/**
+ * Renders a prompt when the document shown was saved elsewhere, e.g. in another tab,
+ * since it was opened.
+ *
+ * The version shown can be saved over the other one, or the other one loaded instead, the
+ * version shown staying in the history. Dismissing the prompt leaves the conflict open:
+ * changes are kept in the browser but not sent until it is settled.
+ *
+ * @returns {JSX.Element} The rendered ConflictPrompt component.
+ */
+export default function ConflictPrompt() {
+  const { currentDocument, conflict, resolveConflict } = useStore(
+    selector,
+    shallow
+  );
+  const [dismissed, setDismissed] = useState<number | undefined>(undefined);
+
+  return (
+    <Modal
+      open={!!conflict && dismissed !== conflict.revision}
+      onClose={() => setDismissed(conflict?.revision)}
+      className="w-[28rem]"
+    >
+      <div className="flex flex-col gap-4 mt-10">
+        <h1 className="font-bold text-lg flex items-center justify-center gap-2 absolute top-3 left-3">
+          Conflict
+          <CloudAlert size={20} />
+        </h1>
+        <p className="text-[14px]">
+          {currentDocument} was saved elsewhere (revision {conflict?.revision})
+          since it was opened here. Which version should be kept?
+        </p>
+        <div className="flex gap-2">
+          <Button className="grow" onClick={() => resolveConflict("mine")}>
+            Keep my version
+          </Button>
+          <Button
+            className="grow"
+            variant="secondary"
+            onClick={() => resolveConflict("theirs")}
+          >
+            Load saved version
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,114 @@
+import { absolutePosition } from "@/lib/diff";
+import useStore, { RFState } from "@/stores/store";
+import { Node, useReactFlow, ViewportPortal, XYPosition } from "@xyflow/react";
+import { shallow } from "zustand/shallow";
+
+/** The color of the elements the compared version adds */
+const ADDED_COLOR = "#22C55E";
+/** The size of an event, in pixels */
+const EVENT_SIZE = 100;
+
+const selector = (state: RFState) => ({
+  comparison: state.comparison,
+  differences: state.differences,
+  // Relations follow the events they link as they move
+  nodes: state.nodes,
+});
+
+/**
+ * Renders the events and relations the compared version adds as dashed green ghosts on
+ * the canvas, where they are in the compared version.
+ *
+ * A relation added links the events of the document shown when they are there, and the
+ * ghosts of the events added otherwise.
+ *
+ * @returns {JSX.Element} The rendered DiffLayer component.
+ */
+export default function DiffLayer() {
+  const { comparison, differences, nodes } = useStore(selector, shallow);
+  const { getInternalNode } = useReactFlow();
+
+  if (!comparison) return null;
+  const theirs = comparison.graph.nodes;
+  const added = differences.filter((change) => change.kind === "added");
+
+  const ghostOf = (id?: string) => theirs.find((nd) => nd.id === id);
+
+  const center = (node: Node): XYPosition => {
+    // The event of the same label in the document shown, if any
+    const ours = nodes.find(
+      (nd) => nd.type === "event" && nd.data.label === node.data.label
+    );
+    const internal = ours && getInternalNode(ours.id);
+    if (internal)
+      return {
+        x:
+          internal.internals.positionAbsolute.x +
+          (internal.measured.width ?? EVENT_SIZE) / 2,
+        y:
+          internal.internals.positionAbsolute.y +
+          (internal.measured.height ?? EVENT_SIZE) / 2,
+      };
+
+    const { x, y } = absolutePosition(theirs, node);
+    return { x: x + EVENT_SIZE / 2, y: y + EVENT_SIZE / 2 };
+  };
+
+  const relations = added
+    .filter((change) => change.element === "relation")
+    .flatMap((change) => {
+      const edge = comparison.graph.edges.find((ed) => ed.id === change.theirs);
+      const source = ghostOf(edge?.source);
+      const target = ghostOf(edge?.target);
+      return source && target
+        ? [{ change, from: center(source), to: center(target) }]
+        : [];
+    });
+
+  return (
+    <ViewportPortal>
+      <svg
+        className="absolute pointer-events-none overflow-visible"
+        style={{ zIndex: 30000 }}
+      >
+        {relations.map(({ change, from, to }) => (
+          <line
+            key={change.key}
+            x1={from.x}
+            y1={from.y}
+            x2={to.x}
+            y2={to.y}
+            stroke={ADDED_COLOR}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          >
+            <title>{change.label}</title>
+          </line>
+        ))}
+      </svg>
+      {added
+        .filter((change) => change.element === "event")
+        .map((change) => {
+          const node = ghostOf(change.theirs);
+          if (!node) return null;
+          const { x, y } = absolutePosition(theirs, node);
+          return (
+            <div
+              key={change.key}
+              className="absolute pointer-events-none flex items-center justify-center rounded-[4px] bg-green-50/60 text-[10px] font-bold"
+              style={{
+                transform: `translate(${x}px, ${y}px)`,
+                width: EVENT_SIZE,
+                height: EVENT_SIZE,
+                border: `2px dashed ${ADDED_COLOR}`,
+                color: ADDED_COLOR,
+                zIndex: 30000,
+              }}
+            >
+              + {node.data.label as string}
+            </div>
+          );
+        })}
+    </ViewportPortal>
+  );
+}
@@ -0,0 +1,61 @@
+import useStore, { RFState } from "@/stores/store";
+import { Panel } from "@xyflow/react";
+import { X } from "lucide-react";
+import { shallow } from "zustand/shallow";
+import SyncStatus from "./sync-status";
+import Collaborators from "./collaborators";
+
+const selector = (state: RFState) => ({
+  openDocuments: state.openDocuments,
+  currentDocument: state.currentDocument,
+  switchDocument: state.switchDocument,
+  closeDocument: state.closeDocument,
+});
+
+/**
+ * Renders the tabs of the open documents above the canvas.
+ *
+ * Clicking a tab shows its document, each document keeping its own graph, history and
+ * logs. Tabs can be closed as long as another document stays open. Whether the backend
+ * has the changes of the document shown is displayed after the tabs, along with the
+ * clients editing it.
+ *
+ * @returns {JSX.Element} The rendered DocumentTabs component.
+ */
+export default function DocumentTabs() {
+  const { openDocuments, currentDocument, switchDocument, closeDocument } =
+    useStore(selector, shallow);
+
+  return (
+    <Panel
+      position="top-center"
+      className="flex max-w-[40%] overflow-x-auto bg-[#D9D9D9] rounded-sm shadow-lg select-none"
+    >
+      {openDocuments.map((name) => (
+        <div
+          key={name}
+          className={`flex items-center gap-2 px-3 h-9 cursor-pointer border-r-2 border-[#CCCCCC] ${
+            name === currentDocument ? "bg-[#CCCCCC] font-bold" : ""
+          }`}
+          onClick={() => switchDocument(name)}
+          title={name}
+        >
+          <span className="max-w-32 truncate">{name}</span>
+          {openDocuments.length > 1 && (
+            <X
+              className="hover:opacity-75"
+              size={14}
+              onClick={(e) => {
+                e.stopPropagation();
+                closeDocument(name);
+              }}
+              aria-label={`Close ${name}`}
+            />
+          )}
+        </div>
+      ))}
+      <SyncStatus />
+      <Collaborators />
+    </Panel>
+  );
+}
@@ -10,9 +10,12 @@ import {
   FormDocumentation,
   FormInput,
 } from "@/lib/reusable-comps";
+import LatticeEditor from "@/components/lattice-editor";
 
 const selector = (state: RFState) => ({
   getChoreographyInfo: state.getChoreographyInfo,
+  nodes: state.nodes,
+  roles: state.roles,
   security: state.security,
   setSecurity: state.setSecurity,
   addRole: state.addRole,
@@ -297,7 +300,7 @@ const RoleList = ({
  *
  * This component provides:
  * - Display of current choreography information (number of events, roles).
- * - Editing of global documentation and security properties.
+ * - Editing of global documentation and of the security lattice, drawn as a Hasse diagram.
  * - Management of roles, including adding and removing roles with parameters.
  * - (Commented out) Management of participants associated with roles.
  *
@@ -309,6 +312,8 @@ const RoleList = ({
 export default function ChoreographyMenu() {
   const {
     getChoreographyInfo,
+    nodes,
+    roles: declaredRoles,
     security,
     setSecurity,
     addRole,
@@ -369,15 +374,14 @@ export default function ChoreographyMenu() {
             {/* Security Section */}
             {currentProjection === "global" && (
               <>
-                <div className="flex flex-col items-center gap-2">
-                  <label className="font-bold select-none">Security</label>
-                  <textarea
-                    className="bg-white rounded-sm min-h-24 max-h-64 px-1 w-full font-mono"
-                    value={security}
-                    onChange={(e) => setSecurity(e.target.value)}
-                    placeholder="Security Lattice"
-                  />
-                </div>
+                <LatticeEditor
+                  security={security}
+                  setSecurity={setSecurity}
+                  roles={declaredRoles}
+                  used={nodes
+                    .filter((node) => node.type === "event")
+                    .map((node) => node.data.security as string)}
+                />
 
                 {/* Role Management Button */}
                 <div className="flex gap-2 justify-end w-full">
@@ -7,18 +7,30 @@ import * as monacoEditor from "monaco-editor";
 import { delay, getLayoutedElements } from "@/lib/utils";
 
 import { visualGen } from "@/lib/visualgen-code";
-import { processChoregraphyModel } from "@/lib/visualgen-json";
-import { ChoreographyModel, CompileError } from "@/lib/types";
-import { useRef } from "react";
-import { Button } from "@/lib/reusable-comps";
+import { ParseError } from "@/lib/tardisdcr-parser";
+import { diagnose } from "@/lib/diagnostics";
+import {
+  LanguageContext,
+  LanguageEvent,
+  registerTardisDCRLanguage,
+  TARDISDCR_LANGUAGE,
+} from "@/lib/tardisdcr-language";
+import { projectRoles } from "@/lib/projection";
+import { CompileError, CompileResult } from "@/lib/types";
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { Button, FormCheckbox } from "@/lib/reusable-comps";
 
 const selector = (state: RFState) => ({
+  nodes: state.nodes,
   setNodes: state.setNodes,
   setEdges: state.setEdges,
   roles: state.roles,
   security: state.security,
   code: state.code,
   setCode: state.setCode,
+  syncCode: state.syncCode,
+  setSyncCode: state.setSyncCode,
+  syncGraphFromCode: state.syncGraphFromCode,
   setProjectionInfo: state.setProjectionInfo,
   clearProjections: state.clearProjections,
   setSecurity: state.setSecurity,
@@ -28,13 +40,21 @@ const selector = (state: RFState) => ({
   setDrawerWidth: state.setDrawerWidth,
   log: state.log,
   setIds: state.setIds,
+  recordHistory: state.recordHistory,
 });
 
 const DELAYS = {
   CHANGE_NODES: 20,
   CLEAR_PROJECTIONS: 100,
   COMPILE: 200,
-  FETCH_PROJECTIONS: 100,
+  DIAGNOSTICS: 500,
+} as const;
+
+const MARKER_OWNERS = {
+  /** Errors returned by the compiler */
+  COMPILER: "owner",
+  /** Errors found locally while typing */
+  DIAGNOSTICS: "diagnostics",
 } as const;
 
 const DRAWER_CONFIG = {
@@ -69,9 +89,10 @@ const BUTTON_ACTIONS = [
  * for viewing, editing, generating, and downloading code within the application.
  *
  * Features:
- * - Displays a code editor (Monaco Editor) with Python-like syntax highlighting.
+ * - Displays a code editor (Monaco Editor) with TaRDIS DCR syntax highlighting, completion and hover cards.
  * - Allows users to generate code based on the current application state (nodes, edges, roles, security).
  * - Enables users to download the current code as a `.txt` file.
+ * - Offers a live sync mode, where canvas edits rewrite the code and valid code edits patch the canvas.
  * - (Commented out) Option to save changes made in the editor back to the application's visual state.
  *
  * State Management:
@@ -85,12 +106,16 @@ const BUTTON_ACTIONS = [
  */
 export default function CodeMenu() {
   const {
+    nodes,
     setNodes,
     setEdges,
     roles,
     security,
     code,
     setCode,
+    syncCode,
+    setSyncCode,
+    syncGraphFromCode,
     setProjectionInfo,
     clearProjections,
     setSecurity,
@@ -100,6 +125,7 @@ export default function CodeMenu() {
     setDrawerWidth,
     log,
     setIds,
+    recordHistory,
   } = useStore(selector, shallow);
 
   const editorRef = useRef<monacoEditor.editor.IStandaloneCodeEditor>(null);
@@ -109,35 +135,73 @@ export default function CodeMenu() {
     const model = editorRef.current?.getModel();
     if (!model || !monaco) return;
 
-    monaco.editor.setModelMarkers(model, "owner", []);
+    monaco.editor.setModelMarkers(model, MARKER_OWNERS.COMPILER, []);
   };
 
-  const treatErrors = (compileError: CompileError) => {
-    const model = editorRef.current?.getModel();
-    if (!model || !monaco) return;
+  const treatErrors = useCallback(
+    (compileError: CompileError, owner: string = MARKER_OWNERS.COMPILER) => {
+      const model = editorRef.current?.getModel();
+      if (!model || !monaco) return;
+
+      const markers = compileError.compileError.stackTrace.map((err) =>
+        err.location
+          ? {
+              severity: monaco.MarkerSeverity.Error,
+              message: err.message,
+              startLineNumber: err.location.from.line,
+              startColumn: err.location.from.column,
+              endLineNumber: err.location.to.line,
+              endColumn: err.location.to.column,
+            }
+          : {
+              severity: monaco.MarkerSeverity.Error,
+              message: err.message,
+              startLineNumber: 0,
+              startColumn: 0,
+              endLineNumber: 0,
+              endColumn: 0,
+            }
+      );
+
+      monaco.editor.setModelMarkers(model, owner, markers);
+    },
+    [monaco]
+  );
 
-    const markers = compileError.compileError.stackTrace.map((err) =>
-      err.location
-        ? {
-            severity: monaco.MarkerSeverity.Error,
-            message: err.message,
-            startLineNumber: err.location.from.line,
-            startColumn: err.location.from.column,
-            endLineNumber: err.location.to.line,
-            endColumn: err.location.to.column,
-          }
-        : {
-            severity: monaco.MarkerSeverity.Error,
-            message: err.message,
-            startLineNumber: 0,
-            startColumn: 0,
-            endLineNumber: 0,
-            endColumn: 0,
-          }
-    );
-
-    monaco.editor.setModelMarkers(model, "owner", markers);
-  };
+  // What completion and hover cards know about the graph
+  const languageContext = useMemo<LanguageContext>(
+    () => ({
+      events: nodes
+        .filter((nd) => nd.type === "event")
+        .map((nd) => nd.data as unknown as LanguageEvent),
+      roles: roles.map((role) => role.label),
+      levels: [
+        ...new Set(
+          security
+            .split(/\s+/)
+            .filter((word) => /^[A-Za-z_]\w*$/.test(word) && word !== "flows")
+        ),
+      ],
+    }),
+    [nodes, roles, security]
+  );
+
+  useEffect(() => {
+    if (monaco) registerTardisDCRLanguage(monaco, () => languageContext);
+  }, [monaco, languageContext]);
+
+  // Checks the code locally once the user stops typing, and patches the canvas with
+  // valid code while live sync is on
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const stackTrace = code ? diagnose(code) : [];
+      treatErrors({ compileError: { stackTrace } }, MARKER_OWNERS.DIAGNOSTICS);
+
+      if (syncCode && code && stackTrace.length === 0) syncGraphFromCode(code);
+    }, DELAYS.DIAGNOSTICS);
+
+    return () => clearTimeout(timeout);
+  }, [code, treatErrors, syncCode, syncGraphFromCode]);
 
   const switchToLogsTab = () => {
     setDrawerSelectedCode(DRAWER_CONFIG.CODE_TAB);
@@ -145,45 +209,50 @@ export default function CodeMenu() {
     setDrawerWidth(DRAWER_CONFIG.WIDTH);
   };
 
-  const processProjection = (proj: ChoreographyModel, index: number) => {
-    if (index === 0) {
-      clearErrors();
-      switchToLogsTab();
-      log("Typecheck and compilation succeeded.");
-    }
-
-    if (proj.graph.events || proj.graph.relations) {
-      const result = processChoregraphyModel(proj);
-      const layoutedResult = getLayoutedElements(result.nodes, result.edges);
-      setProjectionInfo(proj.role.label, layoutedResult);
-      log(`Projection for role ${proj.role.label} created.`);
-    }
-  };
-
   const generateGraph = async () => {
     if (!code) return;
 
+    let generated: ReturnType<typeof visualGen>;
+    try {
+      generated = visualGen(code);
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      treatErrors(
+        {
+          compileError: {
+            stackTrace: [{ location: error.location, message: error.message }],
+          },
+        },
+        MARKER_OWNERS.DIAGNOSTICS
+      );
+      log(`Cannot generate graph: ${error.message}`);
+      return;
+    }
+
     const {
       roles,
       security,
       nodes: newNodes,
       edges: newEdges,
       nodeId,
+      groupId,
       subId,
-    } = visualGen(code);
-    const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-      newNodes,
-      newEdges
-    );
-
-    clearProjections(true);
-    await delay(DELAYS.CLEAR_PROJECTIONS);
-
-    setRoles(roles);
-    setSecurity(security);
-    setNodes(layoutedNodes);
-    setEdges(layoutedEdges);
-    setIds([nodeId], [0], [subId]);
+      positioned,
+    } = generated;
+    const { nodes: layoutedNodes, edges: layoutedEdges } = positioned
+      ? { nodes: newNodes, edges: newEdges }
+      : getLayoutedElements(newNodes, newEdges);
+
+    await recordHistory("Generate graph from code", async () => {
+      clearProjections(true);
+      await delay(DELAYS.CLEAR_PROJECTIONS);
+
+      setRoles(roles);
+      setSecurity(security);
+      setNodes(layoutedNodes);
+      setEdges(layoutedEdges);
+      setIds([nodeId], [groupId], [subId]);
+    });
     log("Graph generated.");
   };
 
@@ -191,29 +260,46 @@ export default function CodeMenu() {
     if (!code) return;
 
     try {
-      // Send code for compilation
-      await fetch("/api/code", {
+      const graph = await clearProjections(false);
+      await delay(DELAYS.CLEAR_PROJECTIONS);
+
+      const response = await fetch("/api/code", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ code }),
-      })
-        .then((res) => res.text())
-        .then(console.log);
-
-      clearProjections(false);
-      await delay(DELAYS.FETCH_PROJECTIONS);
-
-      // Fetch projections
-      const response = await fetch("/api/projections");
-      const projections: ChoreographyModel[] | CompileError[] =
-        await response.json();
-
-      // Process each projection
-      projections.forEach((proj, index) => {
-        console.log(proj);
-        if ("compileError" in proj) treatErrors(proj);
-        else processProjection(proj, index);
       });
+      const result: CompileResult = await response.json();
+      if (result.stdout.trim()) log(`Compiler output: ${result.stdout.trim()}`);
+
+      if (result.errors.length > 0) {
+        treatErrors({
+          compileError: {
+            stackTrace: result.errors.flatMap(
+              (err) => err.compileError.stackTrace
+            ),
+          },
+        });
+        log("Compilation failed. Please check your code.");
+        return;
+      }
+
+      if (!result.success) {
+        log(`Compilation failed: ${result.stderr.trim()}`);
+        return;
+      }
+
+      clearErrors();
+      switchToLogsTab();
+      log("Typecheck and compilation succeeded.");
+
+      // Whatever compiler checked the code, the projections are those of the editor, which
+      // keep the layout of the global graph
+      projectRoles(graph.nodes, graph.edges, roles).forEach(
+        (projection, role) => {
+          setProjectionInfo(role, projection);
+          log(`Projection for role ${role} created.`);
+        }
+      );
     } catch (error) {
       console.error("Compilation failed:", error);
       log("Compilation failed. Please check your code.");
@@ -225,7 +311,9 @@ export default function CodeMenu() {
     await delay(DELAYS.CLEAR_PROJECTIONS);
 
     console.log(newNodes, newEdges);
-    const newCode = writeCode(newNodes, newEdges, roles, security);
+    const newCode = writeCode(newNodes, newEdges, roles, security, {
+      layout: true,
+    });
 
     setCode(newCode);
     log("Generated new code.");
@@ -250,6 +338,10 @@ export default function CodeMenu() {
       <Editor
         className={`w-full h-full`}
         value={code}
+        language={TARDISDCR_LANGUAGE}
+        beforeMount={(monaco) =>
+          registerTardisDCRLanguage(monaco, () => languageContext)
+        }
         options={EDITOR_CONFIG_OPTIONS}
         onChange={(newCode) => setCode(newCode || "")}
         onMount={(editor: monacoEditor.editor.IStandaloneCodeEditor) =>
@@ -257,16 +349,22 @@ export default function CodeMenu() {
         }
       />
 
-      <div className="flex gap-2 w-full">
+      <div className="flex gap-2 w-full items-center">
         {BUTTON_ACTIONS.map(({ label, action }) => (
           <Button
             className="w-full"
             key={action}
+            disabled={syncCode && action !== "compile"}
             onClick={() => handleButtonClick(action)}
           >
             {label}
           </Button>
         ))}
+        <FormCheckbox
+          label="Sync"
+          checked={syncCode}
+          onChange={(e) => setSyncCode(e.target.checked)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,131 @@
+import useStore, { RFState } from "@/stores/store";
+import { shallow } from "zustand/shallow";
+import { useReactFlow } from "@xyflow/react";
+import { Change, ChangeKind } from "@/lib/diff";
+
+const selector = (state: RFState) => ({
+  comparison: state.comparison,
+  differences: state.differences,
+  edges: state.edges,
+  selectElement: state.selectElement,
+  pickDifference: state.pickDifference,
+  stopComparing: state.stopComparing,
+});
+
+const KIND_COLORS: Record<ChangeKind, string> = {
+  added: "text-green-600",
+  removed: "text-rose-600",
+  changed: "text-amber-600",
+};
+
+const DifferenceItem = ({
+  change,
+  onClick,
+  onPick,
+}: {
+  change: Change;
+  onClick: () => void;
+  onPick: () => void;
+}) => (
+  <div className="flex items-start p-3 gap-2 border-b-2 border-[#CCCCCC]">
+    <div
+      className={`flex flex-col grow min-w-0 gap-1 ${
+        change.ours ? "cursor-pointer hover:opacity-75" : ""
+      }`}
+      onClick={onClick}
+    >
+      <div className="font-bold text-[16px] break-words">
+        <span className={KIND_COLORS[change.kind]}>{change.kind}</span>{" "}
+        {change.label}
+      </div>
+      {change.details.map((detail) => (
+        <div key={detail} className="text-[14px] break-words">
+          {detail}
+        </div>
+      ))}
+    </div>
+    <button
+      className="py-1 px-2 rounded-sm cursor-pointer hover:underline"
+      onClick={onPick}
+      title="Apply this change to the document"
+    >
+      Pick
+    </button>
+  </div>
+);
+
+/**
+ * Displays the differences between the document shown and the version it is compared
+ * with, as the changes the compared version makes.
+ *
+ * Clicking a change selects the element of the document shown and moves the view to it,
+ * and picking it applies the change to the document.
+ *
+ * @component
+ * @returns {JSX.Element} The rendered DifferencesMenu component.
+ */
+export default function DifferencesMenu() {
+  const {
+    comparison,
+    differences,
+    edges,
+    selectElement,
+    pickDifference,
+    stopComparing,
+  } = useStore(selector, shallow);
+  const { fitView } = useReactFlow();
+
+  const jumpTo = (change: Change) => {
+    if (!change.ours || change.element === "role") return;
+    const edge = edges.find((e) => e.id === change.ours);
+    const ids =
+      change.element === "event"
+        ? [change.ours]
+        : edge
+          ? [edge.source, edge.target]
+          : [];
+    if (ids.length === 0) return;
+
+    selectElement(change.ours);
+    fitView({ nodes: ids.map((id) => ({ id })), duration: 300, maxZoom: 1 });
+  };
+
+  if (!comparison)
+    return (
+      <div className="flex items-center justify-center h-32 text-gray-500 text-[14px] select-none">
+        Compare the document with another version to list its differences
+      </div>
+    );
+
+  return (
+    <>
+      <div className="flex items-center border-b-2 border-[#CCCCCC] select-none">
+        <span className="ml-3 truncate text-[14px]">
+          Compared with <b>{comparison.name}</b>
+        </span>
+        <button
+          className="py-2 ml-auto mr-6 cursor-pointer hover:underline transition-all duration-200 whitespace-nowrap"
+          onClick={stopComparing}
+        >
+          Stop Comparing
+        </button>
+      </div>
+      <div className="h-[calc(100vh-124px)] overflow-y-auto w-[calc(100%-4px)] select-none">
+        {differences.length > 0 ? (
+          differences.map((change) => (
+            <DifferenceItem
+              key={change.key}
+              change={change}
+              onClick={() => jumpTo(change)}
+              onPick={() => pickDifference(change.key)}
+            />
+          ))
+        ) : (
+          <div className="flex items-center justify-center h-32 text-gray-500 text-[14px]">
+            No differences found
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
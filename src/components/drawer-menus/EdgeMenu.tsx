@@ -8,11 +8,14 @@ import {
   DrawerMenu,
   DrawerMenuLabel,
   FormDocumentation,
+  FormError,
   FormField,
   FormTextarea,
 } from "@/lib/reusable-comps";
+import { checkExpression, createTypeContext } from "@/lib/expressions";
 
 const selector = (state: RFState) => ({
+  nodes: state.nodes,
   updateEdge: state.updateEdge,
   documentation: state.documentation,
   addDocumentation: state.addDocumentation,
@@ -26,7 +29,8 @@ const selector = (state: RFState) => ({
  *
  * Features:
  * - Displays the edge's identifier.
- * - Allows editing and saving of the edge's guard property.
+ * - Allows editing and saving of the edge's guard property, which must be a boolean expression
+ *   over the visible events, with the source of the edge as `@self`.
  * - Displays and updates documentation associated with the edge.
  * - Uses a store for state management, including updating the edge and documentation.
  *
@@ -34,13 +38,24 @@ const selector = (state: RFState) => ({
  * This component assumes the presence of a global store (via `useStore`) for managing edges and their documentation.
  */
 const EdgeMenu = ({ edge }: { edge: Edge }) => {
-  const { updateEdge, documentation, addDocumentation, currentProjection } =
-    useStore(selector, shallow);
+  const {
+    nodes,
+    updateEdge,
+    documentation,
+    addDocumentation,
+    currentProjection,
+  } = useStore(selector, shallow);
   const { id, data } = edge as { id: string; data: Record<string, string> };
   const [guard, setGuard] = useState(data.guard || "");
 
   const isGlobalProjection = currentProjection === "global";
 
+  const source = nodes.find((nd) => nd.id === edge.source);
+  const guardError =
+    guard.trim() && source
+      ? checkExpression(guard, createTypeContext(nodes, source), "Boolean")
+      : undefined;
+
   const handleSave = () => {
     updateEdge(id, {
       ...edge,
@@ -76,10 +91,13 @@ const EdgeMenu = ({ edge }: { edge: Edge }) => {
             disabled={!isGlobalProjection}
           />
         </FormField>
+        {guardError && <FormError>{guardError}</FormError>}
 
         {/* Save Button */}
         {isGlobalProjection && (
-          <Button onClick={handleSave}>Save Changes</Button>
+          <Button onClick={handleSave} disabled={!!guardError}>
+            Save Changes
+          </Button>
         )}
       </div>
     </DrawerMenu>
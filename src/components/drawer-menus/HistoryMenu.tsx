@@ -0,0 +1,126 @@
+import useStore, { RFState } from "@/stores/store";
+import { shallow } from "zustand/shallow";
+import { Redo2, Undo2 } from "lucide-react";
+import { HistoryEntry } from "@/stores/history-state";
+
+const selector = (state: RFState) => ({
+  past: state.past,
+  future: state.future,
+  undo: state.undo,
+  redo: state.redo,
+  clearHistory: state.clearHistory,
+});
+
+const HistoryItem = ({
+  entry,
+  undone,
+  onClick,
+}: {
+  entry: HistoryEntry;
+  undone: boolean;
+  onClick: () => void;
+}) => (
+  <div
+    className={`flex flex-col p-3 gap-2 border-b-2 border-[#CCCCCC] cursor-pointer hover:opacity-75 ${
+      undone ? "text-gray-500 italic" : ""
+    }`}
+    onClick={onClick}
+  >
+    <div className="font-bold text-[16px]">
+      {undone ? "UNDONE" : "CHANGE"} {entry.time}
+    </div>
+    <div className="text-[14px] break-words">{entry.label}</div>
+  </div>
+);
+
+/**
+ * Displays the undo/redo history of the editor.
+ *
+ * Entries are listed from the most recent to the oldest change. Clicking an entry that can
+ * still be undone restores the state before that change, clicking an undone entry redoes
+ * every change up to it.
+ *
+ * @component
+ * @returns {JSX.Element} The rendered HistoryMenu component.
+ */
+export default function HistoryMenu() {
+  const { past, future, undo, redo, clearHistory } = useStore(
+    selector,
+    shallow
+  );
+
+  const hasHistory = past.length > 0 || future.length > 0;
+
+  const undoUntil = (index: number) => {
+    for (let i = past.length - 1; i >= index; i--) undo();
+  };
+
+  const redoUntil = (index: number) => {
+    for (let i = future.length - 1; i >= index; i--) redo();
+  };
+
+  return (
+    <>
+      {/* Header with Undo, Redo and Clear buttons */}
+      <div className="flex justify-end gap-4 border-b-2 border-[#CCCCCC] select-none">
+        <button
+          className="py-2 cursor-pointer hover:underline disabled:opacity-50 flex items-center gap-1"
+          onClick={undo}
+          disabled={past.length === 0}
+          aria-label="Undo last change"
+        >
+          <Undo2 size={16} />
+          Undo
+        </button>
+        <button
+          className="py-2 cursor-pointer hover:underline disabled:opacity-50 flex items-center gap-1"
+          onClick={redo}
+          disabled={future.length === 0}
+          aria-label="Redo last undone change"
+        >
+          <Redo2 size={16} />
+          Redo
+        </button>
+        <button
+          className="py-2 mr-6 cursor-pointer hover:underline transition-all duration-200"
+          onClick={clearHistory}
+          disabled={!hasHistory}
+          aria-label="Clear history"
+        >
+          Clear All
+        </button>
+      </div>
+
+      {/* History container */}
+      <div className="h-[calc(100vh-124px)] overflow-y-auto w-[calc(100%-4px)] select-none">
+        {hasHistory ? (
+          <>
+            {future.map((entry, index) => (
+              <HistoryItem
+                key={`future-${entry.timestamp}-${index}`}
+                entry={entry}
+                undone
+                onClick={() => redoUntil(index)}
+              />
+            ))}
+            {[...past].reverse().map((entry, reversedIndex) => {
+              const index = past.length - 1 - reversedIndex;
+              return (
+                <HistoryItem
+                  key={`past-${entry.timestamp}-${index}`}
+                  entry={entry}
+                  undone={false}
+                  onClick={() => undoUntil(index)}
+                />
+              );
+            })}
+          </>
+        ) : (
+          <div className="flex items-center justify-center h-32 text-gray-500 text-[14px]">
+            No history available
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -2,10 +2,17 @@ import useStore, { RFState } from "@/stores/store";
 import { shallow } from "zustand/shallow";
 import { X } from "lucide-react";
 import { Log } from "@/lib/types";
+import { useState } from "react";
+import HistoryMenu from "./HistoryMenu";
+import ProblemsMenu from "./ProblemsMenu";
+import DifferencesMenu from "./DifferencesMenu";
+import VersionsMenu from "./VersionsMenu";
 
 const selector = (state: RFState) => ({
   logs: state.logs,
   setLogs: state.setLogs,
+  problems: state.problems,
+  differences: state.differences,
 });
 
 const LogItem = ({ log, onRemove }: { log: Log; onRemove: () => void }) => (
@@ -23,6 +30,44 @@ const LogItem = ({ log, onRemove }: { log: Log; onRemove: () => void }) => (
   </div>
 );
 
+const VIEWS = [
+  { id: "logs", label: "Logs" },
+  { id: "history", label: "History" },
+  { id: "problems", label: "Problems" },
+  { id: "differences", label: "Diff" },
+  { id: "versions", label: "Versions" },
+] as const;
+
+type LogsView = (typeof VIEWS)[number]["id"];
+
+const ViewToggle = ({
+  view,
+  setView,
+  problems,
+  differences,
+}: {
+  view: LogsView;
+  setView: (view: LogsView) => void;
+  problems: number;
+  differences: number;
+}) => (
+  <div className="flex border-b-2 border-[#CCCCCC] select-none">
+    {VIEWS.map(({ id, label }) => (
+      <button
+        key={id}
+        className={`w-1/5 py-1 cursor-pointer ${
+          view === id ? "font-bold bg-[#CCCCCC]" : ""
+        } ${id === "problems" && problems > 0 ? "text-red-600" : ""}`}
+        onClick={() => setView(id)}
+      >
+        {label}
+        {id === "problems" && problems > 0 && ` (${problems})`}
+        {id === "differences" && differences > 0 && ` (${differences})`}
+      </button>
+    ))}
+  </div>
+);
+
 /**
  * Displays a menu for viewing and managing application logs.
  *
@@ -36,14 +81,62 @@ const LogItem = ({ log, onRemove }: { log: Log; onRemove: () => void }) => (
  * - Uses a store hook to access and update the logs state.
  * - Each log entry can be individually removed by clicking the close icon.
  * - The "Clear All" button removes all log entries.
+ * - The "History" view lists the undo/redo history next to the logs.
+ * - The "Problems" view lists the well-formedness problems of the choreography.
+ * - The "Diff" view lists the differences with the version the document is compared with.
+ * - The "Versions" view lists the versions of the document kept by the backend.
  */
 export default function LogsMenu() {
-  const { logs, setLogs } = useStore(selector, shallow);
+  const { logs, setLogs, problems, differences } = useStore(selector, shallow);
+  const [view, setView] = useState<LogsView>("logs");
 
   const hasLogs = logs.length > 0;
 
+  const toggle = (
+    <ViewToggle
+      view={view}
+      setView={setView}
+      problems={problems.length}
+      differences={differences.length}
+    />
+  );
+
+  if (view === "history")
+    return (
+      <>
+        {toggle}
+        <HistoryMenu />
+      </>
+    );
+
+  if (view === "problems")
+    return (
+      <>
+        {toggle}
+        <ProblemsMenu />
+      </>
+    );
+
+  if (view === "versions")
+    return (
+      <>
+        {toggle}
+        <VersionsMenu />
+      </>
+    );
+
+  if (view === "differences")
+    return (
+      <>
+        {toggle}
+        <DifferencesMenu />
+      </>
+    );
+
   return (
     <>
+      {toggle}
+
       {/* Header with Clear All button */}
       <div className="flex justify-end border-b-2 border-[#CCCCCC] select-none">
         <button
@@ -57,7 +150,7 @@ export default function LogsMenu() {
       </div>
 
       {/* Logs container */}
-      <div className="h-[calc(100vh-90px)] overflow-y-auto w-[calc(100%-4px)] select-none">
+      <div className="h-[calc(100vh-124px)] overflow-y-auto w-[calc(100%-4px)] select-none">
         {hasLogs ? (
           logs.map((log, index) => (
             <LogItem
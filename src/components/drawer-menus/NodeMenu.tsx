@@ -4,12 +4,22 @@ import { shallow } from "zustand/shallow";
 import { SquareMousePointer } from "lucide-react";
 import { Node } from "@xyflow/react";
 import { FieldType, InputType, inputTypes, MarkingType } from "@/lib/types";
+import { checkExpression, createTypeContext } from "@/lib/expressions";
+import { parseLattice, securityLevels } from "@/lib/lattice";
+import {
+  checkRoleExpr,
+  eventRoleContexts,
+  parseRoleExpr,
+  RoleExprContext,
+} from "@/lib/role-expr";
+import RoleExprEditor from "@/components/role-expr-editor";
 import {
   Button,
   DrawerMenu,
   DrawerMenuLabel,
   FormCheckbox,
   FormDocumentation,
+  FormError,
   FormField,
   FormSelect,
   FormTextarea,
@@ -18,6 +28,9 @@ import {
 
 const selector = (state: RFState) => ({
   nodes: state.nodes,
+  edges: state.edges,
+  roles: state.roles,
+  security: state.security,
   updateNode: state.updateNode,
   documentation: state.documentation,
   addDocumentation: state.addDocumentation,
@@ -78,10 +91,12 @@ const InputConfiguration = ({
 const ComputationExpression = ({
   expression,
   setExpression,
+  error,
   disabled,
 }: {
   expression: string;
   setExpression: React.Dispatch<React.SetStateAction<string>>;
+  error?: string;
   disabled: boolean;
 }) => (
   <>
@@ -89,11 +104,14 @@ const ComputationExpression = ({
       Computation Expression
     </label>
     <textarea
-      className="col-span-3 min-h-24 max-h-72 h-24 bg-white rounded-sm p-1 font-mono"
+      className={`col-span-3 min-h-24 max-h-72 h-24 bg-white rounded-sm p-1 font-mono ${
+        error ? "border-red-500 border-1" : ""
+      }`}
       value={expression}
       onChange={(e) => setExpression(e.target.value)}
       disabled={disabled}
     />
+    {error && <FormError>{error}</FormError>}
   </>
 );
 
@@ -121,6 +139,9 @@ const NodeProperties = ({
   recordField,
   setRecordField,
   nodes,
+  roleContexts,
+  expressionError,
+  levels,
   disabled,
 }: {
   initiators: string[];
@@ -146,23 +167,22 @@ const NodeProperties = ({
   recordField: FieldType;
   setRecordField: React.Dispatch<React.SetStateAction<FieldType>>;
   nodes: Node[];
+  roleContexts: { initiators: RoleExprContext; receivers: RoleExprContext };
+  expressionError?: string;
+  levels: string[];
   disabled: boolean;
 }) => {
-  // Helper functions for array transformations
-  const handleArrayChange = (
-    value: string,
-    setter: React.Dispatch<React.SetStateAction<string[]>>
-  ) => {
-    setter(
-      value.split(", ").map((val) => val.charAt(0).toUpperCase() + val.slice(1))
-    );
-  };
-
   const typeOptions = [
     { value: "i", label: "Input" },
     { value: "c", label: "Computation" },
   ];
 
+  // A level missing from the lattice is kept, so that opening the menu does not change it
+  const securityOptions = [
+    ...(levels.includes(security) ? [] : [security]),
+    ...levels,
+  ].map((level) => ({ value: level, label: level || "-" }));
+
   const parentOptions = [
     ...nodes
       .filter((n) => n.type === "nest" || n.type === "subprocess")
@@ -173,24 +193,21 @@ const NodeProperties = ({
   return (
     <div className="flex flex-col p-3 gap-2 border-b-2 border-[#CCCCCC] overflow-y-auto h-full">
       {/* Basic Properties */}
-      <FormField label="Initiators">
-        <FormTextarea
-          value={initiators.join(", ")}
-          onChange={(e) => handleArrayChange(e.target.value, setInitiators)}
-          placeholder="Initiators"
-          required
-          disabled={disabled}
-        />
-      </FormField>
+      <RoleExprEditor
+        label="Initiators"
+        value={initiators}
+        onChange={setInitiators}
+        context={roleContexts.initiators}
+        disabled={disabled}
+      />
 
-      <FormField label="Receivers">
-        <FormTextarea
-          value={receivers.join(", ")}
-          onChange={(e) => handleArrayChange(e.target.value, setReceivers)}
-          placeholder="Receivers"
-          disabled={disabled}
-        />
-      </FormField>
+      <RoleExprEditor
+        label="Receivers"
+        value={receivers}
+        onChange={setReceivers}
+        context={roleContexts.receivers}
+        disabled={disabled}
+      />
 
       <FormField label="Type">
         <FormSelect
@@ -252,11 +269,10 @@ const NodeProperties = ({
       </FormField>
 
       <FormField label="Security">
-        <FormTextarea
+        <FormSelect
           value={security}
           onChange={(e) => setSecurity(e.target.value)}
-          placeholder="Security label"
-          required
+          options={securityOptions}
           disabled={disabled}
         />
       </FormField>
@@ -274,6 +290,7 @@ const NodeProperties = ({
         <ComputationExpression
           expression={expression}
           setExpression={setExpression}
+          error={expressionError}
           disabled={disabled}
         />
       )}
@@ -295,8 +312,10 @@ const NodeProperties = ({
  * Features:
  * - Displays and allows editing of node documentation.
  * - Supports editing of initiators, receivers, type (input or computation), label, event name, marking, parent, and security.
+ * - Offers the levels of the security lattice and the roles as security labels.
+ * - Edits initiators and receivers as role expressions type checked against the declared roles; changes are only saved when they are well typed.
  * - For input nodes, allows configuration of input type and record fields.
- * - For computation nodes, allows editing of the computation expression.
+ * - For computation nodes, allows editing of the computation expression, type checked against the values of the visible events.
  * - Provides a save button to persist changes to the node.
  *
  * @returns {JSX.Element} The rendered node menu component.
@@ -304,6 +323,9 @@ const NodeProperties = ({
 const NodeMenu = ({ node }: { node: Node }) => {
   const {
     nodes,
+    edges,
+    roles,
+    security: lattice,
     updateNode,
     documentation,
     addDocumentation,
@@ -333,6 +355,44 @@ const NodeMenu = ({ node }: { node: Node }) => {
 
   const isGlobalProjection = currentProjection === "global";
 
+  let levels: string[] = [];
+  try {
+    levels = securityLevels(parseLattice(lattice), roles);
+  } catch {
+    levels = roles.map((role) => role.label);
+  }
+
+  const roleContexts = eventRoleContexts(nodes, edges, roles, id, initiators);
+  const isWellTyped = (texts: string[], context: RoleExprContext) =>
+    texts
+      .filter((text) => text.trim() !== "")
+      .every((text) => {
+        try {
+          return checkRoleExpr(parseRoleExpr(text), context).length === 0;
+        } catch {
+          return false;
+        }
+      });
+  const rolesWellTyped =
+    isWellTyped(initiators, roleContexts.initiators) &&
+    isWellTyped(receivers, roleContexts.receivers);
+
+  // The computation is checked against the edited label and input, not the saved ones
+  const expressionError =
+    type === "c"
+      ? checkExpression(
+          expression,
+          createTypeContext(
+            nodes.map((nd) =>
+              nd.id === id
+                ? { ...nd, data: { ...nd.data, label, type, expression } }
+                : nd
+            ),
+            { ...node, data: { ...data, label, type, expression } }
+          )
+        )
+      : undefined;
+
   const handleSaveChanges = () => {
     const newData = {
       initiators,
@@ -400,13 +460,20 @@ const NodeMenu = ({ node }: { node: Node }) => {
         recordField={recordField}
         setRecordField={setRecordField}
         nodes={nodes}
+        roleContexts={roleContexts}
+        expressionError={expressionError}
+        levels={levels}
         disabled={!isGlobalProjection}
       />
 
       {/* Save Button */}
       {isGlobalProjection && (
         <div className="flex justify-center m-2">
-          <Button onClick={handleSaveChanges} className="min-h-8 w-full">
+          <Button
+            onClick={handleSaveChanges}
+            className="min-h-8 w-full"
+            disabled={!rolesWellTyped || !!expressionError}
+          >
             Save Changes
           </Button>
         </div>
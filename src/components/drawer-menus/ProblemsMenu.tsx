@@ -0,0 +1,74 @@
+import useStore, { RFState } from "@/stores/store";
+import { shallow } from "zustand/shallow";
+import { useReactFlow } from "@xyflow/react";
+import { TriangleAlert } from "lucide-react";
+import { Problem } from "@/lib/validator";
+
+const selector = (state: RFState) => ({
+  problems: state.problems,
+  edges: state.edges,
+  selectElement: state.selectElement,
+});
+
+const ProblemItem = ({
+  problem,
+  onClick,
+}: {
+  problem: Problem;
+  onClick: () => void;
+}) => (
+  <div
+    className="flex flex-col p-3 gap-2 border-b-2 border-[#CCCCCC] cursor-pointer hover:opacity-75"
+    onClick={onClick}
+  >
+    <div className="flex items-center gap-2 font-bold text-[16px]">
+      <TriangleAlert className="text-red-500" size={16} />
+      {problem.node ?? problem.edge}
+    </div>
+    <div className="text-[14px] break-words">{problem.message}</div>
+  </div>
+);
+
+/**
+ * Displays the well-formedness problems of the choreography.
+ *
+ * Clicking a problem selects the offending node or edge and moves the view to it.
+ *
+ * @component
+ * @returns {JSX.Element} The rendered ProblemsMenu component.
+ */
+export default function ProblemsMenu() {
+  const { problems, edges, selectElement } = useStore(selector, shallow);
+  const { fitView } = useReactFlow();
+
+  const jumpTo = (problem: Problem) => {
+    const edge = edges.find((e) => e.id === problem.edge);
+    const ids = problem.node
+      ? [problem.node]
+      : edge
+        ? [edge.source, edge.target]
+        : [];
+    if (ids.length === 0) return;
+
+    selectElement(problem.node ?? problem.edge!);
+    fitView({ nodes: ids.map((id) => ({ id })), duration: 300, maxZoom: 1 });
+  };
+
+  return (
+    <div className="h-[calc(100vh-82px)] overflow-y-auto w-[calc(100%-4px)] select-none">
+      {problems.length > 0 ? (
+        problems.map((problem, index) => (
+          <ProblemItem
+            key={`${problem.node ?? problem.edge}-${index}`}
+            problem={problem}
+            onClick={() => jumpTo(problem)}
+          />
+        ))
+      ) : (
+        <div className="flex items-center justify-center h-32 text-gray-500 text-[14px]">
+          No problems found
+        </div>
+      )}
+    </div>
+  );
+}
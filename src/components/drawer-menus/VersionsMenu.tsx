@@ -0,0 +1,183 @@
+import useStore, { RFState } from "@/stores/store";
+import { shallow } from "zustand/shallow";
+import { useEffect, useState } from "react";
+import { Eye, GitCompare, RotateCcw, Tag } from "lucide-react";
+import { Button } from "@/lib/reusable-comps";
+import { VersionInfo } from "@/stores/versions-state";
+
+const selector = (state: RFState) => ({
+  currentDocument: state.currentDocument,
+  revision: state.revision,
+  versions: state.versions,
+  preview: state.preview,
+  refreshVersions: state.refreshVersions,
+  saveVersion: state.saveVersion,
+  labelVersion: state.labelVersion,
+  previewVersion: state.previewVersion,
+  restoreVersion: state.restoreVersion,
+  compareWithVersion: state.compareWithVersion,
+});
+
+/**
+ * A version being named in the list.
+ */
+type Naming = { revision: number; to: string };
+
+const iconButton =
+  "p-1 rounded-sm cursor-pointer hover:bg-gray-200 disabled:opacity-50 disabled:cursor-default";
+
+const VersionRow = ({
+  version,
+  previewed,
+  onPreview,
+  onName,
+  onCompare,
+  onRestore,
+}: {
+  version: VersionInfo;
+  previewed: boolean;
+  onPreview: () => void;
+  onName: () => void;
+  onCompare: () => void;
+  onRestore: () => void;
+}) => (
+  <div className="flex items-center gap-2 p-3 border-b-2 border-[#CCCCCC]">
+    <div
+      className="flex flex-col grow min-w-0 cursor-pointer hover:opacity-75"
+      onClick={onPreview}
+    >
+      <span className={`truncate ${previewed ? "font-bold" : ""}`}>
+        {version.label || `Revision ${version.revision}`}
+      </span>
+      <span className="text-[12px] text-gray-500">
+        {version.label && `Revision ${version.revision}, `}
+        {new Date(version.created).toLocaleString()}
+      </span>
+    </div>
+    <button className={iconButton} onClick={onPreview} title="Preview">
+      <Eye size={16} />
+    </button>
+    <button className={iconButton} onClick={onName} title="Name">
+      <Tag size={16} />
+    </button>
+    <button
+      className={iconButton}
+      onClick={onCompare}
+      title="Compare with the document"
+    >
+      <GitCompare size={16} />
+    </button>
+    <button className={iconButton} onClick={onRestore} title="Restore">
+      <RotateCcw size={16} />
+    </button>
+  </div>
+);
+
+/**
+ * Displays the version history of the document shown, as kept by the backend while the
+ * document is saved.
+ *
+ * The version saved can be kept under a name, e.g. "before review", and the versions of
+ * the list named, previewed read-only on the canvas, compared with the document or
+ * restored. Named versions are kept for good, the others only for a while.
+ *
+ * @component
+ * @returns {JSX.Element} The rendered VersionsMenu component.
+ */
+export default function VersionsMenu() {
+  const {
+    currentDocument,
+    revision,
+    versions,
+    preview,
+    refreshVersions,
+    saveVersion,
+    labelVersion,
+    previewVersion,
+    restoreVersion,
+    compareWithVersion,
+  } = useStore(selector, shallow);
+
+  const [label, setLabel] = useState("");
+  const [naming, setNaming] = useState<Naming | undefined>(undefined);
+
+  // Saves may keep a new version
+  useEffect(() => {
+    refreshVersions();
+  }, [currentDocument, revision, refreshVersions]);
+
+  const keep = async () => {
+    if (!label.trim()) return;
+    if (await saveVersion(label)) setLabel("");
+  };
+
+  const confirmNaming = async () => {
+    if (!naming) return;
+    if (await labelVersion(naming.revision, naming.to)) setNaming(undefined);
+  };
+
+  return (
+    <>
+      <div className="flex gap-2 p-3 border-b-2 border-[#CCCCCC] select-none">
+        <input
+          className="border-2 rounded-sm h-9 px-1 grow min-w-0 bg-white"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && keep()}
+          placeholder="Name of the current version"
+        />
+        <Button className="px-4" onClick={keep}>
+          Keep
+        </Button>
+      </div>
+
+      <div className="h-[calc(100vh-146px)] overflow-y-auto w-[calc(100%-4px)] select-none">
+        {versions.length > 0 ? (
+          versions.map((version) =>
+            naming?.revision === version.revision ? (
+              <div
+                key={version.revision}
+                className="flex items-center gap-2 p-3 border-b-2 border-[#CCCCCC]"
+              >
+                <input
+                  className="border-2 rounded-sm h-8 px-1 grow min-w-0 bg-white"
+                  value={naming.to}
+                  onChange={(e) => setNaming({ ...naming, to: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && confirmNaming()}
+                  placeholder="No name"
+                  autoFocus
+                />
+                <Button className="px-2" onClick={confirmNaming}>
+                  Name
+                </Button>
+                <Button
+                  className="px-2"
+                  variant="secondary"
+                  onClick={() => setNaming(undefined)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <VersionRow
+                key={version.revision}
+                version={version}
+                previewed={preview?.revision === version.revision}
+                onPreview={() => previewVersion(version.revision)}
+                onName={() =>
+                  setNaming({ revision: version.revision, to: version.label })
+                }
+                onCompare={() => compareWithVersion(version.revision)}
+                onRestore={() => restoreVersion(version.revision)}
+              />
+            )
+          )
+        ) : (
+          <div className="flex items-center justify-center h-32 text-gray-500 text-[14px]">
+            No versions kept yet
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { Button, Modal } from "@/lib/reusable-comps";
+import { createTrace } from "@/lib/trace";
 import { generateJsonData } from "@/lib/utils";
 import useStore, { RFState } from "@/stores/store";
 import { getNodesBounds, getViewportForBounds } from "@xyflow/react";
@@ -16,9 +17,10 @@ const selector = (state: RFState) => ({
   nextGroupId: state.nextGroupId,
   nextSubprocessId: state.nextSubprocessId,
   code: state.code,
+  trace: state.trace,
 });
 
-const fileTypes = ["-", "JSON", "PNG", "ReGraDa"];
+const fileTypes = ["-", "JSON", "PNG", "ReGraDa", "Trace"];
 const jsonData = ["All", "Reduced"];
 const WIDTH = 1920;
 const HEIGHT = 1080;
@@ -33,6 +35,7 @@ export default function ExportButton() {
     nextGroupId,
     nextSubprocessId,
     code,
+    trace,
   } = useStore(selector, shallow);
 
   const jsonDownload = (name: string, full: boolean) => {
@@ -117,6 +120,22 @@ export default function ExportButton() {
     URL.revokeObjectURL(url);
   };
 
+  const traceDownload = (name: string) => {
+    const jsonString = JSON.stringify(createTrace(trace), null, 2);
+    const blob = new Blob([jsonString], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${name}.trace.json`;
+
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    URL.revokeObjectURL(url);
+  };
+
   const [open, setOpen] = useState(false);
 
   const [type, setType] = useState(fileTypes[0]);
@@ -134,6 +153,9 @@ export default function ExportButton() {
       case "ReGraDa":
         codeDownload(name);
         break;
+      case "Trace":
+        traceDownload(name);
+        break;
       default:
         break;
     }
@@ -1,7 +1,9 @@
 import { Button, Modal } from "@/lib/reusable-comps";
+import { isTraceJson, parseTrace, TraceError } from "@/lib/trace";
 import { State } from "@/lib/types";
 import { getLayoutedElements, delay } from "@/lib/utils";
 import { visualGen } from "@/lib/visualgen-code";
+import { ParseError } from "@/lib/tardisdcr-parser";
 import useStore, { RFState } from "@/stores/store";
 import { FolderInput } from "lucide-react";
 import { useState } from "react";
@@ -18,6 +20,10 @@ const selector = (state: RFState) => ({
   setProjectionInfo: state.setProjectionInfo,
   log: state.log,
   setSelectedElement: state.setSelectedElement,
+  recordHistory: state.recordHistory,
+  simulationFlow: state.simulationFlow,
+  onClickSimulationToggle: state.onClickSimulationToggle,
+  replayTrace: state.replayTrace,
 });
 
 export default function ImportButton() {
@@ -32,39 +38,56 @@ export default function ImportButton() {
     setProjectionInfo,
     log,
     setSelectedElement,
+    recordHistory,
+    simulationFlow,
+    onClickSimulationToggle,
+    replayTrace,
   } = useStore(selector, shallow);
 
   const [open, setOpen] = useState(false);
   const [file, setFile] = useState<File | undefined>(undefined);
 
-  const changeClearSet = async (state: State) => {
-    clearProjections(true);
-    await delay(10);
+  const changeClearSet = (state: State) =>
+    recordHistory("Import file", async () => {
+      clearProjections(true);
+      await delay(10);
 
-    setRoles(state.roles);
-    setSecurity(state.security);
-    setNodes(state.nodes);
-    setCode(state.code);
-    setEdges(state.edges);
-    setIds(state.nextNodeId, state.nextGroupId, state.nextSubprocessId);
-    setProjectionInfo("global", { nodes: state.nodes, edges: state.edges });
-    setSelectedElement(undefined);
-  };
+      setRoles(state.roles);
+      setSecurity(state.security);
+      setNodes(state.nodes);
+      setCode(state.code);
+      setEdges(state.edges);
+      setIds(state.nextNodeId, state.nextGroupId, state.nextSubprocessId);
+      setProjectionInfo("global", { nodes: state.nodes, edges: state.edges });
+      setSelectedElement(undefined);
+    });
 
   const treatCode = async (code: string) => {
     setCode(code);
+
+    let generated: ReturnType<typeof visualGen>;
+    try {
+      generated = visualGen(code);
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      const { line, column } = error.location.from;
+      log(`Cannot import code (${line}:${column}): ${error.message}`);
+      return;
+    }
+
     const {
       roles,
       security,
       nodes: newNodes,
       edges: newEdges,
       nodeId: nextNodeId,
+      groupId: nextGroupId,
       subId: nextSubprocessId,
-    } = visualGen(code);
-    const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-      newNodes,
-      newEdges
-    );
+      positioned,
+    } = generated;
+    const { nodes: layoutedNodes, edges: layoutedEdges } = positioned
+      ? { nodes: newNodes, edges: newEdges }
+      : getLayoutedElements(newNodes, newEdges);
 
     changeClearSet({
       nodes: layoutedNodes,
@@ -73,18 +96,37 @@ export default function ImportButton() {
       roles,
       code,
       nextNodeId: [nextNodeId],
-      nextGroupId: [0],
+      nextGroupId: [nextGroupId],
       nextSubprocessId: [nextSubprocessId],
     });
     log("Graph generated using code import.");
   };
 
+  const treatTrace = (json: unknown) => {
+    try {
+      const { steps } = parseTrace(json);
+      if (!simulationFlow) onClickSimulationToggle();
+      if (replayTrace(steps)) log(`Replayed trace of ${steps.length} steps.`);
+    } catch (error) {
+      if (!(error instanceof TraceError)) throw error;
+      log(`Cannot import trace: ${error.message}`);
+    }
+  };
+
   const onClick = () => {
     if (file) {
       file.text().then((text) => {
         const name = file.name;
         if (name.endsWith(".json")) {
           const json = JSON.parse(text);
+          if (isTraceJson(json)) {
+            treatTrace(json);
+            return;
+          }
+          if (simulationFlow) {
+            log("Stop the simulation before importing a graph.");
+            return;
+          }
           changeClearSet({
             nodes: json.nodes,
             edges: json.edges,
@@ -97,7 +139,13 @@ export default function ImportButton() {
           });
           setCode("");
           log("Graph generated using JSON import.");
-        } else if (name.endsWith(".tardisdcr")) treatCode(text);
+        } else if (name.endsWith(".tardisdcr")) {
+          if (simulationFlow) {
+            log("Stop the simulation before importing a graph.");
+            return;
+          }
+          treatCode(text);
+        }
       });
       setOpen(false);
     }
@@ -0,0 +1,229 @@
+import { Button, FormError } from "@/lib/reusable-comps";
+import {
+  checkLattice,
+  formatLattice,
+  hasseDiagram,
+  parseLattice,
+  SecurityLattice,
+} from "@/lib/lattice";
+import { SimpleRole } from "@/lib/types";
+import { X } from "lucide-react";
+import { useState } from "react";
+
+const LEVEL_WIDTH = 80;
+const LEVEL_HEIGHT = 24;
+const GAP_X = 16;
+const GAP_Y = 36;
+
+/**
+ * Parses a lattice, or returns `undefined` while it is malformed.
+ */
+const tryParse = (text: string): SecurityLattice | undefined => {
+  try {
+    return parseLattice(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Draws the Hasse diagram of a lattice, lower levels at the bottom.
+ */
+const HasseDiagramView = ({ lattice }: { lattice: SecurityLattice }) => {
+  const { edges, ranks } = hasseDiagram(lattice);
+  const top = Math.max(0, ...ranks.values());
+
+  const rows = new Map<number, string[]>();
+  lattice.levels.forEach((level) => {
+    const rank = ranks.get(level)!;
+    rows.set(rank, [...(rows.get(rank) ?? []), level]);
+  });
+  const columns = Math.max(1, ...[...rows.values()].map((row) => row.length));
+  const width = columns * (LEVEL_WIDTH + GAP_X);
+  const height = (top + 1) * (LEVEL_HEIGHT + GAP_Y);
+
+  const positions = new Map<string, { x: number; y: number }>();
+  rows.forEach((row, rank) =>
+    row.forEach((level, index) =>
+      positions.set(level, {
+        x: ((index + 0.5) * width) / row.length,
+        y: (top - rank) * (LEVEL_HEIGHT + GAP_Y) + (LEVEL_HEIGHT + GAP_Y) / 2,
+      })
+    )
+  );
+
+  return (
+    <svg
+      className="w-full bg-white rounded-sm"
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ maxHeight: 240 }}
+    >
+      {edges.map(({ from, to }) => {
+        const a = positions.get(from)!;
+        const b = positions.get(to)!;
+        return (
+          <line
+            key={`${from}-${to}`}
+            x1={a.x}
+            y1={a.y}
+            x2={b.x}
+            y2={b.y}
+            stroke="#999999"
+            strokeWidth={2}
+          />
+        );
+      })}
+      {lattice.levels.map((level) => {
+        const { x, y } = positions.get(level)!;
+        return (
+          <g key={level}>
+            <rect
+              x={x - LEVEL_WIDTH / 2}
+              y={y - LEVEL_HEIGHT / 2}
+              width={LEVEL_WIDTH}
+              height={LEVEL_HEIGHT}
+              rx={4}
+              fill="#FFF9DD"
+              stroke="#CCCCCC"
+              strokeWidth={2}
+            />
+            <text
+              x={x}
+              y={y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="font-mono text-[12px]"
+            >
+              {level.length > 10 ? level.slice(0, 9) + "..." : level}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Editor of the security lattice.
+ *
+ * The lattice is edited as code or flow by flow, and drawn as a Hasse diagram in which
+ * information flows upwards. Cycles and security levels used by events but not declared
+ * are reported under the diagram.
+ *
+ * @param security - The lattice, as written in the code.
+ * @param setSecurity - Called with the new lattice.
+ * @param roles - The declared roles, which are security levels too.
+ * @param used - The security levels of the events.
+ *
+ * @returns {JSX.Element} The rendered lattice editor.
+ */
+export default function LatticeEditor({
+  security,
+  setSecurity,
+  roles,
+  used,
+}: {
+  security: string;
+  setSecurity: (security: string) => void;
+  roles: SimpleRole[];
+  used: string[];
+}) {
+  const [flow, setFlow] = useState({ from: "", to: "" });
+
+  const lattice = tryParse(security);
+  const problems = checkLattice(security, used, roles);
+
+  const addFlow = () => {
+    const from = flow.from.trim();
+    const to = flow.to.trim();
+    if (!lattice || !/^[A-Za-z_]\w*$/.test(from)) return;
+    if (to && !/^[A-Za-z_]\w*$/.test(to)) return;
+
+    const levels = [...lattice.levels];
+    [from, to].forEach((level) => {
+      if (level && !levels.includes(level)) levels.push(level);
+    });
+    setSecurity(
+      formatLattice({
+        levels,
+        flows: to ? [...lattice.flows, { from, to }] : lattice.flows,
+      })
+    );
+    setFlow({ from: "", to: "" });
+  };
+
+  const removeFlow = (index: number) => {
+    if (!lattice) return;
+    setSecurity(
+      formatLattice({
+        ...lattice,
+        flows: lattice.flows.filter((_, i) => i !== index),
+      })
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 w-full">
+      <label className="font-bold select-none">Security</label>
+      <textarea
+        className={`bg-white rounded-sm min-h-24 max-h-64 px-1 w-full font-mono ${
+          lattice ? "" : "border-red-500 border-1"
+        }`}
+        value={security}
+        onChange={(e) => setSecurity(e.target.value)}
+        placeholder="Security Lattice"
+      />
+
+      {lattice && lattice.levels.length > 0 && (
+        <HasseDiagramView lattice={lattice} />
+      )}
+
+      <div className="flex flex-col w-full">
+        {problems.map((problem) => (
+          <FormError key={problem}>{problem}</FormError>
+        ))}
+      </div>
+
+      {lattice && (
+        <>
+          {lattice.flows.map(({ from, to }, index) => (
+            <div
+              key={`${from}-${to}`}
+              className="flex justify-between items-center w-full font-mono"
+            >
+              <span>
+                {from} flows {to}
+              </span>
+              <Button
+                variant="danger"
+                onClick={() => removeFlow(index)}
+                className="flex items-center justify-center"
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-1 items-center w-full">
+            <input
+              className="h-9 min-w-0 bg-white rounded-sm px-1 font-mono"
+              value={flow.from}
+              onChange={(e) => setFlow({ ...flow, from: e.target.value })}
+              placeholder="Level"
+            />
+            <span className="font-mono">flows</span>
+            <input
+              className="h-9 min-w-0 bg-white rounded-sm px-1 font-mono"
+              value={flow.to}
+              onChange={(e) => setFlow({ ...flow, to: e.target.value })}
+              placeholder="Level"
+            />
+            <Button onClick={addFlow} className="px-2">
+              Add
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { Button, Modal } from "@/lib/reusable-comps";
+import useStore, { RFState } from "@/stores/store";
+import { DocumentInfo } from "@/stores/workspace-state";
+import { Copy, FolderOpen, PencilLine, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  documents: state.documents,
+  openDocuments: state.openDocuments,
+  currentDocument: state.currentDocument,
+  refreshDocuments: state.refreshDocuments,
+  openDocument: state.openDocument,
+  createDocument: state.createDocument,
+  renameDocument: state.renameDocument,
+  duplicateDocument: state.duplicateDocument,
+  deleteDocument: state.deleteDocument,
+});
+
+/**
+ * A rename or a copy being named in the list.
+ */
+type Naming = { name: string; action: "rename" | "duplicate"; to: string };
+
+const iconButton =
+  "p-1 rounded-sm cursor-pointer hover:bg-gray-200 disabled:opacity-50 disabled:cursor-default";
+
+const DocumentRow = ({
+  document,
+  open,
+  current,
+  deletable,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  document: DocumentInfo;
+  open: boolean;
+  current: boolean;
+  deletable: boolean;
+  onOpen: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) => (
+  <div className="flex items-center gap-2 py-1 border-b-2 border-[#EEEEEE]">
+    <div
+      className="flex flex-col grow min-w-0 cursor-pointer hover:opacity-75"
+      onClick={onOpen}
+    >
+      <span className={`truncate ${current ? "font-bold" : ""}`}>
+        {document.name}
+        {open && !current && " (open)"}
+      </span>
+      <span className="text-[12px] text-gray-500">
+        {new Date(document.modified).toLocaleString()}
+      </span>
+    </div>
+    <button className={iconButton} onClick={onRename} title="Rename">
+      <PencilLine size={16} />
+    </button>
+    <button className={iconButton} onClick={onDuplicate} title="Duplicate">
+      <Copy size={16} />
+    </button>
+    <button
+      className={`${iconButton} text-red-500`}
+      onClick={onDelete}
+      disabled={!deletable}
+      title={deletable ? "Delete" : "The only open document cannot be deleted"}
+    >
+      <Trash2 size={16} />
+    </button>
+  </div>
+);
+
+/**
+ * Renders a button opening the project browser, listing the documents saved in the
+ * backend.
+ *
+ * Documents are opened in a new tab by clicking them, and can be created, renamed,
+ * duplicated or deleted, unless it is the only open document. Failures are reported in
+ * the logs.
+ *
+ * @returns {JSX.Element} The rendered ProjectsButton component.
+ */
+export default function ProjectsButton() {
+  const {
+    documents,
+    openDocuments,
+    currentDocument,
+    refreshDocuments,
+    openDocument,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+  } = useStore(selector, shallow);
+
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [naming, setNaming] = useState<Naming | undefined>(undefined);
+
+  const show = () => {
+    setOpen(true);
+    refreshDocuments();
+  };
+
+  const create = async () => {
+    if (!newName.trim()) return;
+    if (await createDocument(newName.trim())) {
+      setNewName("");
+      setOpen(false);
+    }
+  };
+
+  const confirmNaming = async () => {
+    if (!naming || !naming.to.trim()) return;
+    const done =
+      naming.action === "rename"
+        ? await renameDocument(naming.name, naming.to.trim())
+        : await duplicateDocument(naming.name, naming.to.trim());
+    if (done) setNaming(undefined);
+  };
+
+  return (
+    <>
+      <Button
+        className="flex items-center justify-center gap-2 w-full"
+        onClick={show}
+      >
+        Projects
+        <FolderOpen size={20} />
+      </Button>
+      <Modal open={open} onClose={() => setOpen(false)} className="w-[28rem]">
+        <div className="flex flex-col gap-4 mt-10">
+          <h1 className="font-bold text-lg flex items-center justify-center gap-2 absolute top-3 left-3">
+            Projects
+            <FolderOpen size={20} />
+          </h1>
+
+          <div className="flex flex-col max-h-80 overflow-y-auto">
+            {documents.length === 0 && (
+              <div className="text-gray-500 text-[14px] text-center">
+                No documents found
+              </div>
+            )}
+            {documents.map((document) =>
+              naming?.name === document.name ? (
+                <div
+                  key={document.name}
+                  className="flex items-center gap-2 py-1 border-b-2 border-[#EEEEEE]"
+                >
+                  <input
+                    className="border-2 rounded-sm h-8 px-1 grow min-w-0"
+                    value={naming.to}
+                    onChange={(e) =>
+                      setNaming({ ...naming, to: e.target.value })
+                    }
+                    onKeyDown={(e) => e.key === "Enter" && confirmNaming()}
+                    autoFocus
+                  />
+                  <Button className="px-2" onClick={confirmNaming}>
+                    {naming.action === "rename" ? "Rename" : "Copy"}
+                  </Button>
+                  <Button
+                    className="px-2"
+                    variant="secondary"
+                    onClick={() => setNaming(undefined)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <DocumentRow
+                  key={document.name}
+                  document={document}
+                  open={openDocuments.includes(document.name)}
+                  current={document.name === currentDocument}
+                  deletable={
+                    document.name !== currentDocument ||
+                    openDocuments.length > 1
+                  }
+                  onOpen={() => {
+                    openDocument(document.name);
+                    setOpen(false);
+                  }}
+                  onRename={() =>
+                    setNaming({
+                      name: document.name,
+                      action: "rename",
+                      to: document.name,
+                    })
+                  }
+                  onDuplicate={() =>
+                    setNaming({
+                      name: document.name,
+                      action: "duplicate",
+                      to: `${document.name} copy`,
+                    })
+                  }
+                  onDelete={() => deleteDocument(document.name)}
+                />
+              )
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              className="border-2 rounded-sm h-9 px-1 grow min-w-0"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && create()}
+              placeholder="New document name"
+            />
+            <Button className="px-4" onClick={create}>
+              Create
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,369 @@
+import { Button, FormError } from "@/lib/reusable-comps";
+import {
+  checkRoleExpr,
+  formatRoleExpr,
+  parseRoleExpr,
+  RoleExpr,
+  RoleExprContext,
+  RoleParamValue,
+} from "@/lib/role-expr";
+import { Parameter } from "@/lib/types";
+import { Plus, X } from "lucide-react";
+
+const SELECT_CLASS = "h-8 bg-white rounded-sm font-mono";
+const INPUT_CLASS = "h-8 min-w-0 bg-white rounded-sm px-1 font-mono";
+
+/**
+ * How a declared parameter is given in the editor. An unset parameter is left out of
+ * the expression.
+ */
+const PARAM_MODES = [
+  { value: "", label: "-" },
+  { value: "wildcard", label: "*" },
+  { value: "literal", label: "value" },
+  { value: "bind", label: "bind #" },
+  { value: "variable", label: "variable" },
+];
+
+/**
+ * Returns the default value of a parameter given in a mode.
+ */
+const defaultValue = (
+  mode: string,
+  param: Parameter,
+  context: RoleExprContext
+): RoleParamValue | undefined => {
+  switch (mode) {
+    case "wildcard":
+      return { kind: "wildcard" };
+    case "literal":
+      return {
+        kind: "literal",
+        value:
+          param.type === "Integer"
+            ? "0"
+            : param.type === "Boolean"
+              ? "true"
+              : "''",
+      };
+    case "bind":
+      return { kind: "bind" };
+    case "variable": {
+      const variable = [...context.variables].find(
+        ([, type]) => type === param.type
+      );
+      return { kind: "variable", name: variable ? variable[0] : "" };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Parses a role expression, or returns the parse error message.
+ */
+const tryParse = (text: string): RoleExpr | string => {
+  try {
+    return parseRoleExpr(text);
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Value of one declared parameter: the literal, alias or variable, depending on its mode
+const ParamValueInput = ({
+  param,
+  value,
+  onChange,
+  context,
+  disabled,
+}: {
+  param: Parameter;
+  value: RoleParamValue;
+  onChange: (value: RoleParamValue) => void;
+  context: RoleExprContext;
+  disabled: boolean;
+}) => {
+  switch (value.kind) {
+    case "literal":
+      return param.type === "Boolean" ? (
+        <select
+          className={SELECT_CLASS}
+          value={value.value}
+          onChange={(e) => onChange({ kind: "literal", value: e.target.value })}
+          disabled={disabled}
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      ) : param.type === "String" ? (
+        <input
+          className={INPUT_CLASS}
+          value={value.value.replace(/^'|'$/g, "")}
+          onChange={(e) =>
+            onChange({
+              kind: "literal",
+              value: `'${e.target.value.replace(/'/g, "")}'`,
+            })
+          }
+          disabled={disabled}
+        />
+      ) : (
+        <input
+          className={INPUT_CLASS}
+          type="number"
+          value={value.value}
+          onChange={(e) =>
+            onChange({ kind: "literal", value: e.target.value || "0" })
+          }
+          disabled={disabled}
+        />
+      );
+    case "bind":
+      return (
+        <input
+          className={INPUT_CLASS}
+          value={value.alias ?? ""}
+          onChange={(e) =>
+            onChange({ kind: "bind", alias: e.target.value || undefined })
+          }
+          placeholder={`as ${param.var}`}
+          disabled={disabled}
+        />
+      );
+    case "variable": {
+      const variables = [...context.variables]
+        .filter(([, type]) => type === param.type)
+        .map(([name]) => name);
+      if (value.name && !variables.includes(value.name))
+        variables.push(value.name);
+
+      return (
+        <select
+          className={SELECT_CLASS}
+          value={value.name}
+          onChange={(e) => onChange({ kind: "variable", name: e.target.value })}
+          disabled={disabled}
+        >
+          {variables.length === 0 && <option value="">no variable</option>}
+          {variables.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    default:
+      return <span />;
+  }
+};
+
+// One initiator or receiver: its role or reference, its parameters and its errors
+const RoleExprRow = ({
+  text,
+  onChange,
+  onRemove,
+  context,
+  disabled,
+}: {
+  text: string;
+  onChange: (text: string) => void;
+  onRemove: () => void;
+  context: RoleExprContext;
+  disabled: boolean;
+}) => {
+  const parsed = tryParse(text);
+
+  const targets = [
+    ...context.roles.map((role) => ({ value: role.label, label: role.label })),
+    ...context.triggers.flatMap((trigger) => [
+      { value: `@Initiator(${trigger})`, label: `@Initiator(${trigger})` },
+      { value: `@Receiver(${trigger})`, label: `@Receiver(${trigger})` },
+    ]),
+  ];
+
+  // Malformed expressions, e.g. from older graphs, are edited as text
+  if (typeof parsed === "string")
+    return (
+      <div className="flex flex-col gap-1">
+        <div className="flex gap-1">
+          <input
+            className={`${INPUT_CLASS} flex-1 border-red-500 border-1`}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+          />
+          <Button
+            onClick={onRemove}
+            variant="danger"
+            disabled={disabled}
+            className="flex items-center justify-center"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+        <FormError>{parsed}</FormError>
+      </div>
+    );
+
+  const target = parsed.kind === "role" ? parsed.role : formatRoleExpr(parsed);
+  if (!targets.some((option) => option.value === target))
+    targets.unshift({ value: target, label: target });
+
+  const role =
+    parsed.kind === "role"
+      ? context.roles.find((r) => r.label === parsed.role)
+      : undefined;
+  const errors = checkRoleExpr(parsed, context);
+
+  const setParam = (param: Parameter, value: RoleParamValue | undefined) => {
+    if (parsed.kind !== "role") return;
+    const exists = parsed.params.some((p) => p.name === param.var);
+    const params = value
+      ? exists
+        ? parsed.params.map((p) =>
+            p.name === param.var ? { name: param.var, value } : p
+          )
+        : [...parsed.params, { name: param.var, value }]
+      : parsed.params.filter((p) => p.name !== param.var);
+    onChange(formatRoleExpr({ ...parsed, params }));
+  };
+
+  return (
+    <div className="flex flex-col gap-1 border-l-2 border-[#CCCCCC] pl-2">
+      <div className="flex gap-1">
+        <select
+          className={`${SELECT_CLASS} flex-1`}
+          value={target}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        >
+          {targets.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={onRemove}
+          variant="danger"
+          disabled={disabled}
+          className="flex items-center justify-center"
+        >
+          <X size={14} />
+        </Button>
+      </div>
+
+      {role?.types.map((param) => {
+        const given =
+          parsed.kind === "role"
+            ? parsed.params.find((p) => p.name === param.var)
+            : undefined;
+
+        return (
+          <div
+            key={param.var}
+            className="grid grid-cols-3 gap-1 items-center text-[14px]"
+          >
+            <label className="font-mono truncate" title={param.type}>
+              {param.var}: {param.type}
+            </label>
+            <select
+              className={SELECT_CLASS}
+              value={given?.value.kind ?? ""}
+              onChange={(e) =>
+                setParam(param, defaultValue(e.target.value, param, context))
+              }
+              disabled={disabled}
+            >
+              {PARAM_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+            {given ? (
+              <ParamValueInput
+                param={param}
+                value={given.value}
+                onChange={(value) => setParam(param, value)}
+                context={context}
+                disabled={disabled}
+              />
+            ) : (
+              <span />
+            )}
+          </div>
+        );
+      })}
+
+      {errors.map((error) => (
+        <FormError key={error}>{error}</FormError>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Structured editor of the initiators or receivers of an event.
+ *
+ * Each role expression picks a declared role, or the initiator or receiver of an
+ * enclosing spawn trigger, and gives each declared parameter a literal, a wildcard, a
+ * binding or a bound variable. Expressions are type checked against the role
+ * declarations and the errors are shown under them.
+ *
+ * @param label - The label of the field.
+ * @param value - The role expressions, as written in the code.
+ * @param onChange - Called with the new role expressions.
+ * @param context - The roles, variables and spawn triggers in scope.
+ * @param disabled - Whether editing is disabled.
+ *
+ * @returns {JSX.Element} The rendered role expression editor.
+ */
+export default function RoleExprEditor({
+  label,
+  value,
+  onChange,
+  context,
+  disabled = false,
+}: {
+  label: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  context: RoleExprContext;
+  disabled?: boolean;
+}) {
+  const expressions = value.filter((text) => text.trim() !== "");
+  const fallback =
+    context.roles[0]?.label ??
+    (context.triggers[0] && `@Initiator(${context.triggers[0]})`);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <label>{label}</label>
+        <Button
+          onClick={() => onChange([...expressions, fallback])}
+          variant="secondary"
+          disabled={disabled || !fallback}
+          className="w-8 flex items-center justify-center"
+        >
+          <Plus size={14} />
+        </Button>
+      </div>
+      {expressions.map((text, index) => (
+        <RoleExprRow
+          key={index}
+          text={text}
+          onChange={(edited) =>
+            onChange(expressions.map((t, i) => (i === index ? edited : t)))
+          }
+          onRemove={() => onChange(expressions.filter((_, i) => i !== index))}
+          context={context}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { Button, Modal } from "@/lib/reusable-comps";
+import { FieldType, InputType } from "@/lib/types";
+import useStore, { RFState } from "@/stores/store";
+import { Keyboard } from "lucide-react";
+import { useEffect, useState } from "react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  pendingInput: state.pendingInput,
+  setPendingInput: state.setPendingInput,
+  executeEvent: state.executeEvent,
+});
+
+/**
+ * Converts the raw text typed by the user into a value of the given simple type.
+ *
+ * @param type - The simple input type (Integer, String or Boolean).
+ * @param raw - The raw value from the form.
+ * @returns The typed value, or `undefined` if the text is not a valid value of that type.
+ */
+const parseSimpleValue = (type: string, raw: string): unknown => {
+  switch (type) {
+    case "Integer":
+      return /^-?\d+$/.test(raw.trim()) ? parseInt(raw) : undefined;
+    case "Boolean":
+      return raw === "true";
+    default:
+      return raw;
+  }
+};
+
+const ValueField = ({
+  label,
+  type,
+  value,
+  onChange,
+}: {
+  label: string;
+  type: string;
+  value: string;
+  onChange: (value: string) => void;
+}) => (
+  <div className="flex items-center justify-center gap-6">
+    <label className="flex items-center justify-start h-8 w-16 font-mono">
+      {label}
+    </label>
+    {type === "Boolean" ? (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="border-2 w-40 h-8 rounded-sm font-mono"
+      >
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </select>
+    ) : (
+      <input
+        value={value}
+        type={type === "Integer" ? "number" : "text"}
+        onChange={(e) => onChange(e.target.value)}
+        className="border-2 w-40 h-8 rounded-sm px-1 font-mono"
+      />
+    )}
+  </div>
+);
+
+/**
+ * Modal asking for the value of an input event executed during the simulation.
+ *
+ * Simple inputs (Integer, String, Boolean) are asked through a single field and records
+ * through one field per record field. The event is only executed once every value has
+ * the declared type.
+ *
+ * @returns {JSX.Element} The rendered input modal.
+ */
+export default function SimulationInput() {
+  const { pendingInput, setPendingInput, executeEvent } = useStore(
+    selector,
+    shallow
+  );
+  const [values, setValues] = useState<{ [field: string]: string }>({});
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setValues({});
+    setError("");
+  }, [pendingInput]);
+
+  const input = pendingInput?.data.input as InputType | undefined;
+  const fields: FieldType[] =
+    input && "record" in input
+      ? input.record
+      : [{ var: "value", type: input?.type ?? "String" }];
+
+  const rawValue = (field: FieldType) =>
+    values[field.var] ?? (field.type === "Boolean" ? "true" : "");
+
+  const onExecute = () => {
+    if (!pendingInput || !input) return;
+
+    const parsed: { [field: string]: unknown } = {};
+    for (const field of fields) {
+      const value = parseSimpleValue(field.type, rawValue(field));
+      if (value === undefined) {
+        setError(`${field.var} must be of type ${field.type}.`);
+        return;
+      }
+      parsed[field.var] = value;
+    }
+
+    executeEvent(pendingInput.id, "record" in input ? parsed : parsed["value"]);
+  };
+
+  return (
+    <Modal open={!!pendingInput} onClose={() => setPendingInput(undefined)}>
+      <div className="flex flex-col gap-4 mt-10">
+        <h1 className="font-bold text-lg flex items-center justify-center gap-2 absolute top-3 left-3">
+          Input for {pendingInput?.data.label as string}
+          <Keyboard size={20} />
+        </h1>
+        {fields.map((field) => (
+          <ValueField
+            key={field.var}
+            label={field.var}
+            type={field.type}
+            value={rawValue(field)}
+            onChange={(value) =>
+              setValues((prev) => ({ ...prev, [field.var]: value }))
+            }
+          />
+        ))}
+        {error && <div className="text-red-500 text-[14px]">{error}</div>}
+        <div className="flex gap-2">
+          <Button className="w-full" onClick={onExecute}>
+            Execute
+          </Button>
+          <Button
+            className="w-full"
+            onClick={() => setPendingInput(undefined)}
+            variant="secondary"
+          >
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,81 @@
+import { Button } from "@/lib/reusable-comps";
+import useStore, { RFState } from "@/stores/store";
+import { Dices, Route } from "lucide-react";
+import { useState } from "react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  runRandom: state.runRandom,
+  exploreGraph: state.exploreGraph,
+});
+
+const DEFAULT_STEPS = "10";
+const DEFAULT_MAX_STATES = "1000";
+
+const NumberField = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) => (
+  <label className="flex items-center gap-2 text-[14px]">
+    <span className="w-20">{label}</span>
+    <input
+      type="number"
+      min={0}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="border-2 w-full h-7 rounded-sm px-1 font-mono"
+    />
+  </label>
+);
+
+/**
+ * Controls for automated simulation runs: a seeded random run of a number of events and
+ * a bounded exploration of the reachable markings. Results are written to the logs and
+ * flagged events are highlighted on the canvas.
+ *
+ * @returns {JSX.Element} The rendered runner panel.
+ */
+export default function SimulationRunner() {
+  const { runRandom, exploreGraph } = useStore(selector, shallow);
+  const [steps, setSteps] = useState(DEFAULT_STEPS);
+  const [seed, setSeed] = useState("1");
+  const [maxStates, setMaxStates] = useState(DEFAULT_MAX_STATES);
+
+  const toNumber = (value: string, fallback: string) => {
+    const parsed = parseInt(value);
+    return isNaN(parsed) ? parseInt(fallback) : Math.max(0, parsed);
+  };
+
+  return (
+    <div className="flex flex-col w-64 p-2 gap-2 bg-white border-2 border-[#CCCCCC] rounded-sm select-none">
+      <NumberField label="Steps" value={steps} onChange={setSteps} />
+      <NumberField label="Seed" value={seed} onChange={setSeed} />
+      <Button
+        className="flex items-center justify-center gap-2 w-full"
+        onClick={() =>
+          runRandom(toNumber(steps, DEFAULT_STEPS), toNumber(seed, "1"))
+        }
+      >
+        Random Run
+        <Dices size={18} />
+      </Button>
+      <NumberField
+        label="Max states"
+        value={maxStates}
+        onChange={setMaxStates}
+      />
+      <Button
+        className="flex items-center justify-center gap-2 w-full"
+        onClick={() => exploreGraph(toNumber(maxStates, DEFAULT_MAX_STATES))}
+      >
+        Explore
+        <Route size={18} />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import useStore, { RFState } from "@/stores/store";
+import { CircleAlert, CircleCheck } from "lucide-react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  simulationStatus: state.simulationStatus,
+});
+
+const Section = ({
+  title,
+  empty,
+  children,
+}: {
+  title: string;
+  empty: boolean;
+  children: React.ReactNode;
+}) => (
+  <div className="flex flex-col p-2 gap-1 border-b-2 border-[#CCCCCC] text-[14px]">
+    <div className="font-bold">{title}</div>
+    {empty ? <div className="text-gray-500">None</div> : children}
+  </div>
+);
+
+/**
+ * Displays whether the current simulation marking is accepting, along with the included
+ * pending events and the events blocked by a condition or milestone.
+ *
+ * @returns {JSX.Element} The rendered status panel.
+ */
+export default function SimulationStatus() {
+  const { simulationStatus } = useStore(selector, shallow);
+  const { accepting, pending, blocked } = simulationStatus;
+
+  return (
+    <div className="flex flex-col w-64 bg-white border-2 border-[#CCCCCC] rounded-sm select-none">
+      <div
+        className={`flex items-center gap-2 p-2 font-bold border-b-2 border-[#CCCCCC] ${
+          accepting ? "text-green-600" : "text-red-600"
+        }`}
+      >
+        {accepting ? <CircleCheck size={18} /> : <CircleAlert size={18} />}
+        {accepting ? "Accepting: the run can stop" : "Not accepting"}
+      </div>
+      <div className="max-h-[30vh] overflow-y-auto">
+        <Section title="Pending" empty={pending.length === 0}>
+          {pending.map((ev) => (
+            <div key={ev.id} className="font-mono">
+              {ev.label}
+            </div>
+          ))}
+        </Section>
+        <Section title="Blocked" empty={blocked.length === 0}>
+          {blocked.map((ev) => (
+            <div key={ev.id} className="flex flex-col">
+              <span className="font-mono">{ev.label}</span>
+              {ev.blockers.map((blocker) => (
+                <span
+                  key={`${blocker.relation}-${blocker.source}`}
+                  className="text-gray-500 ml-2"
+                >
+                  {blocker.type} from {blocker.sourceLabel}
+                </span>
+              ))}
+            </div>
+          ))}
+        </Section>
+      </div>
+    </div>
+  );
+}
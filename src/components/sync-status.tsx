@@ -0,0 +1,57 @@
+import useStore, { RFState } from "@/stores/store";
+import { Cloud, CloudAlert, CloudOff, CloudUpload } from "lucide-react";
+import { useEffect } from "react";
+import { shallow } from "zustand/shallow";
+
+/** How often changes the backend has not received are sent again, in milliseconds */
+const RETRY_INTERVAL = 5000;
+
+const selector = (state: RFState) => ({
+  synced: state.synced,
+  offline: state.offline,
+  conflict: state.conflict,
+  syncDocument: state.syncDocument,
+});
+
+/**
+ * Renders whether the backend has the changes of the document shown: saved, waiting to be
+ * sent, kept in the browser while the backend cannot be reached, or in conflict with a
+ * version saved elsewhere.
+ *
+ * Changes waiting to be sent are retried periodically and as soon as the browser is back
+ * online.
+ *
+ * @returns {JSX.Element} The rendered SyncStatus component.
+ */
+export default function SyncStatus() {
+  const { synced, offline, conflict, syncDocument } = useStore(
+    selector,
+    shallow
+  );
+
+  useEffect(() => {
+    if (synced || conflict) return;
+
+    const retry = () => syncDocument();
+    const interval = setInterval(retry, RETRY_INTERVAL);
+    window.addEventListener("online", retry);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("online", retry);
+    };
+  }, [synced, conflict, syncDocument]);
+
+  const [Icon, title, color] = conflict
+    ? [CloudAlert, "Saved elsewhere meanwhile", "text-red-500"]
+    : offline
+      ? [CloudOff, "Offline: changes are kept in the browser", "text-gray-500"]
+      : synced
+        ? [Cloud, "Saved", "text-gray-500"]
+        : [CloudUpload, "Saving…", "text-gray-500"];
+
+  return (
+    <div className={`flex items-center px-3 h-9 ${color}`} title={title}>
+      <Icon size={18} aria-label={title} />
+    </div>
+  );
+}
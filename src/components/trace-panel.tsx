@@ -0,0 +1,89 @@
+import { TraceStep } from "@/lib/trace";
+import useStore, { RFState } from "@/stores/store";
+import { ListOrdered, RotateCcw } from "lucide-react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  trace: state.trace,
+  stepBack: state.stepBack,
+});
+
+const formatStepValue = (value: unknown) => {
+  if (value === undefined) return "";
+  const text = JSON.stringify(value);
+  return ` = ${text.length > 24 ? text.slice(0, 24) + "..." : text}`;
+};
+
+const TraceItem = ({
+  step,
+  index,
+  onStepBack,
+}: {
+  step: TraceStep;
+  index: number;
+  onStepBack: () => void;
+}) => (
+  <div
+    className="flex items-center p-2 gap-2 border-b-2 border-[#CCCCCC]"
+    title={`Pending after: ${step.after.pending.join(", ") || "none"}`}
+  >
+    <div className="font-bold w-6">{index + 1}</div>
+    <div className="flex flex-col text-[14px] break-all">
+      <span className="font-mono">
+        {step.label}
+        {formatStepValue(step.value)}
+      </span>
+      {step.role && <span className="text-gray-500">{step.role}</span>}
+    </div>
+    <RotateCcw
+      className="cursor-pointer ml-auto shrink-0 hover:opacity-75 transition-opacity"
+      size={16}
+      onClick={onStepBack}
+      aria-label={`Return to the state before step ${index + 1}`}
+    />
+  </div>
+);
+
+/**
+ * Displays the execution trace of the running simulation.
+ *
+ * Each step shows the executed event, its value and the executing role. Clicking the
+ * arrow of a step returns the simulation to the state right before that step.
+ *
+ * @returns {JSX.Element} The rendered trace panel.
+ */
+export default function TracePanel() {
+  const { trace, stepBack } = useStore(selector, shallow);
+
+  return (
+    <div className="flex flex-col w-64 bg-white border-2 border-[#CCCCCC] rounded-sm select-none">
+      <div className="flex items-center gap-2 p-2 font-bold border-b-2 border-[#CCCCCC]">
+        <ListOrdered size={18} />
+        Trace
+        <button
+          className="ml-auto text-[14px] font-normal cursor-pointer hover:underline disabled:opacity-50"
+          onClick={() => stepBack(0)}
+          disabled={trace.length === 0}
+        >
+          Restart
+        </button>
+      </div>
+      <div className="max-h-[50vh] overflow-y-auto">
+        {trace.length > 0 ? (
+          trace.map((step, index) => (
+            <TraceItem
+              key={`${index}-${step.event}`}
+              step={step}
+              index={index}
+              onStepBack={() => stepBack(index)}
+            />
+          ))
+        ) : (
+          <div className="flex items-center justify-center h-16 text-gray-500 text-[14px]">
+            No events executed
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Button } from "@/lib/reusable-comps";
+import useStore, { RFState } from "@/stores/store";
+import { Panel } from "@xyflow/react";
+import { Eye } from "lucide-react";
+import { shallow } from "zustand/shallow";
+
+const selector = (state: RFState) => ({
+  preview: state.preview,
+  versions: state.versions,
+  restoreVersion: state.restoreVersion,
+  compareWithVersion: state.compareWithVersion,
+  stopPreview: state.stopPreview,
+});
+
+/**
+ * Renders a bar below the canvas while a version of the document is previewed from its
+ * history, the canvas being read-only.
+ *
+ * The version can be restored, compared with the document, or left to show the document
+ * again.
+ *
+ * @returns {JSX.Element} The rendered VersionPreviewBar component.
+ */
+export default function VersionPreviewBar() {
+  const { preview, versions, restoreVersion, compareWithVersion, stopPreview } =
+    useStore(selector, shallow);
+  if (!preview) return null;
+
+  const { revision, label } = preview;
+  const created = versions.find((v) => v.revision === revision)?.created;
+
+  return (
+    <Panel
+      position="bottom-center"
+      className="flex items-center gap-3 px-3 py-2 bg-[#D9D9D9] rounded-sm shadow-lg select-none"
+    >
+      <Eye size={18} />
+      <span className="text-[14px]">
+        Previewing <b>{label || `revision ${revision}`}</b>
+        {created && ` saved ${new Date(created).toLocaleString()}`}, read-only
+      </span>
+      <Button onClick={() => restoreVersion(revision)}>Restore</Button>
+      <Button
+        onClick={() => {
+          stopPreview();
+          compareWithVersion(revision);
+        }}
+      >
+        Compare
+      </Button>
+      <Button variant="secondary" onClick={stopPreview}>
+        Back to the document
+      </Button>
+    </Panel>
+  );
+}
@@ -9,11 +9,37 @@ import { useRef, useState } from "react";
 
 import { getEdgeParams } from "@/lib/utils";
 import useStore, { RFState } from "@/stores/store";
+import { shallow } from "zustand/shallow";
 
 const selector = (state: RFState) => ({
   simulationFlow: state.simulationFlow,
+  flowViolations: state.flowViolations,
+  problems: state.problems,
+  differences: state.differences,
+  previewing: state.preview !== undefined,
 });
 
+const FLOW_VIOLATION_COLOR = "#A855F7";
+const PROBLEM_COLOR = "#EF4444";
+const DIFF_COLORS = { removed: "#F43F5E", changed: "#F59E0B", added: "" };
+
+/**
+ * Halo drawn under a flagged relation, the reasons shown as its tooltip.
+ */
+const RelationHalo = ({
+  path,
+  color,
+  messages,
+}: {
+  path: string;
+  color: string;
+  messages: string[];
+}) => (
+  <path d={path} fill="none" stroke={color} strokeWidth={8} strokeOpacity={0.4}>
+    <title>{messages.join("\n")}</title>
+  </path>
+);
+
 /**
  * `RelationProperties` type that extends `EdgeProps` with an optional `relationPath` property.
  */
@@ -32,6 +58,11 @@ export interface RelationProperties extends EdgeProps {
  * - When selected (and not in simulation mode), draggable control points are rendered for interactive editing.
  * - Supports adding new points by double-clicking on a control point.
  * - Supports dragging points with mouse, and axis-locked dragging with the Shift key.
+ * - Outside the simulation, relations carrying an information flow violation are drawn over a purple halo,
+ *   and ill-formed relations over a red one.
+ * - In diff mode, relations the compared version removes are drawn over a rose halo, and those it
+ *   changes over an amber one.
+ * - A version previewed from the history is drawn without any halo.
  *
  * @param relationPath Optional custom SVG path string for the edge.
  * @param props Additional properties describing the relation, including source/target node IDs, markers, selection state, and style.
@@ -41,19 +72,63 @@ export default function BaseRelation({
   relationPath,
   ...props
 }: RelationProperties) {
-  const { simulationFlow } = useStore(selector);
+  const { simulationFlow, flowViolations, problems, differences, previewing } =
+    useStore(selector, shallow);
   const { id, source, target, markerStart, markerEnd, selected, style } = props;
+  // What is found in the document is not shown on the version previewed
+  const annotated = !simulationFlow && !previewing;
+  const leaks = annotated
+    ? flowViolations.filter((violation) => violation.edge === id)
+    : [];
+  const faults = annotated
+    ? problems.filter((problem) => problem.edge === id)
+    : [];
+  const difference = annotated
+    ? differences.find((d) => d.element === "relation" && d.ours === id)
+    : undefined;
+
+  const halos = (path: string) => (
+    <>
+      {difference && (
+        <RelationHalo
+          path={path}
+          color={DIFF_COLORS[difference.kind]}
+          messages={[
+            `${difference.kind}: ${difference.label}`,
+            ...difference.details,
+          ]}
+        />
+      )}
+      {faults.length > 0 && (
+        <RelationHalo
+          path={path}
+          color={PROBLEM_COLOR}
+          messages={faults.map((problem) => problem.message)}
+        />
+      )}
+      {leaks.length > 0 && (
+        <RelationHalo
+          path={path}
+          color={FLOW_VIOLATION_COLOR}
+          messages={leaks.map((violation) => violation.message)}
+        />
+      )}
+    </>
+  );
 
   if (relationPath) {
     return (
-      <BaseEdge
-        {...props}
-        id={id}
-        path={relationPath}
-        markerStart={markerStart}
-        markerEnd={markerEnd}
-        style={{ strokeWidth: 2, ...style }}
-      />
+      <>
+        {halos(relationPath)}
+        <BaseEdge
+          {...props}
+          id={id}
+          path={relationPath}
+          markerStart={markerStart}
+          markerEnd={markerEnd}
+          style={{ strokeWidth: 2, ...style }}
+        />
+      </>
     );
   }
 
@@ -106,6 +181,7 @@ export default function BaseRelation({
   return (
     <>
       {/* BASE RELATION */}
+      {halos(edgePath.current)}
       <BaseEdge
         {...props}
         id={id}
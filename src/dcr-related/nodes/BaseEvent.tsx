@@ -1,14 +1,32 @@
 import { BaseNode } from "@/components/base-node";
 import { Handle, type NodeProps, Position, useConnection } from "@xyflow/react";
-import { Check } from "lucide-react";
+import { Check, TriangleAlert } from "lucide-react";
 import useStore, { RFState } from "@/stores/store";
 import { useKeyPress } from "@/lib/utils";
 import { shallow } from "zustand/shallow";
 
 const selector = (state: RFState) => ({
   simulationFlow: state.simulationFlow,
+  explorationMarks: state.explorationMarks,
+  flowViolations: state.flowViolations,
+  problems: state.problems,
+  differences: state.differences,
+  previewing: state.preview !== undefined,
 });
 
+const explorationOutline = {
+  deadlock: "outline-2 outline-offset-4 outline-red-500",
+  dead: "outline-2 outline-offset-4 outline-dashed outline-orange-400",
+};
+
+const flowOutline = "outline-2 outline-offset-4 outline-purple-500";
+
+const diffOutline = {
+  removed: "outline-2 outline-offset-4 outline-dashed outline-rose-500",
+  changed: "outline-2 outline-offset-4 outline-amber-500",
+  added: "",
+};
+
 /**
  * Renders a draggable event model component for DCR graphs.
  *
@@ -63,19 +81,43 @@ export const EventModel = ({
  * - Initiators and receivers are truncated if their string representation exceeds 11 characters.
  * - Handles are conditionally rendered based on connection and simulation state.
  * - Marking state controls the display of pending and excluded indicators.
+ * - Events flagged by an exploration are outlined in red (pending in a deadlock) or dashed orange (never executable).
+ * - Outside the simulation, events taking part in an information flow violation are outlined in purple.
+ * - Outside the simulation, ill-formed events carry a red warning sign listing their problems.
+ * - In diff mode, events the compared version removes are outlined in dashed rose, and those it
+ *   changes in amber, the changes shown as their tooltip.
+ * - A version previewed from the history shows none of the outlines and signs above.
  */
 export default function BaseEvent({ id, data, ...props }: NodeProps) {
-  const { simulationFlow } = useStore(selector, shallow);
-  const { initiators, receivers, type, label, name, marking, interactionType } =
-    data as {
-      initiators: string[];
-      receivers: string[];
-      type: string;
-      label: string;
-      name: string;
-      marking: Record<string, boolean>;
-      interactionType?: string;
-    };
+  const {
+    simulationFlow,
+    explorationMarks,
+    flowViolations,
+    problems,
+    differences,
+    previewing,
+  } = useStore(selector, shallow);
+  const {
+    initiators,
+    receivers,
+    type,
+    label,
+    name,
+    marking,
+    interactionType,
+    context,
+    value,
+  } = data as {
+    initiators: string[];
+    receivers: string[];
+    type: string;
+    label: string;
+    name: string;
+    marking: Record<string, boolean>;
+    interactionType?: string;
+    context?: boolean;
+    value?: unknown;
+  };
 
   const { included, pending, executable, executed } = marking as Record<
     string,
@@ -88,6 +130,28 @@ export default function BaseEvent({ id, data, ...props }: NodeProps) {
   const borderDashed = included ? "" : "border-dashed";
   const borderColor =
     simulationFlow && executable ? "border-[#00FF00]" : "border-[#CCCCCC]";
+  // What is found in the document is not shown on the version previewed
+  const annotated = !simulationFlow && !previewing;
+  const violations = annotated
+    ? flowViolations.filter(
+        (violation) => violation.source === id || violation.target === id
+      )
+    : [];
+  const faults = annotated
+    ? problems.filter((problem) => problem.node === id)
+    : [];
+  const difference = annotated
+    ? differences.find((d) => d.element === "event" && d.ours === id)
+    : undefined;
+  const outline = simulationFlow
+    ? explorationMarks[id]
+      ? explorationOutline[explorationMarks[id]]
+      : ""
+    : difference
+      ? diffOutline[difference.kind]
+      : violations.length > 0
+        ? flowOutline
+        : "";
 
   const initiatorsJoined = initiators.join(", ");
   const receiversJoined = receivers ? receivers.join(", ") : "";
@@ -96,6 +160,10 @@ export default function BaseEvent({ id, data, ...props }: NodeProps) {
   const fixedLabelName =
     labelName.length > 20 ? labelName.slice(0, 19) + "..." : labelName;
 
+  const valueText = value === undefined ? "" : JSON.stringify(value);
+  const fixedValue =
+    valueText.length > 16 ? valueText.slice(0, 15) + "..." : valueText;
+
   const shiftPressed = useKeyPress("Shift");
 
   const handleStyle: React.CSSProperties = {
@@ -116,9 +184,29 @@ export default function BaseEvent({ id, data, ...props }: NodeProps) {
       {/* BASE EVENT */}
       <BaseNode
         {...props}
-        className={`flex flex-col h-[100px] w-[100px] border-2 ${borderColor} ${borderDashed} bg-[#FFF9DD] rounded-[4px] text-[10px] text-black relative`}
+        className={`flex flex-col h-[100px] w-[100px] border-2 ${borderColor} ${borderDashed} bg-[#FFF9DD] rounded-[4px] text-[10px] text-black relative ${outline} ${context ? "opacity-50" : ""}`}
         draggable={false}
+        title={
+          difference
+            ? [
+                `${difference.kind}: ${difference.label}`,
+                ...difference.details,
+              ].join("\n")
+            : violations.length > 0
+              ? violations.map((violation) => violation.message).join("\n")
+              : undefined
+        }
       >
+        {/* PROBLEMS */}
+        {faults.length > 0 && (
+          <div
+            className="absolute -top-3 -left-3 bg-white rounded-full p-[2px] text-red-500 z-10"
+            title={faults.map((problem) => problem.message).join("\n")}
+          >
+            <TriangleAlert size={14} />
+          </div>
+        )}
+
         {/* INITIATOR */}
         <div
           className={`flex absolute top-0 left-0 w-full h-[25px] border-b-2  ${borderColor} ${borderDashed} font-bold justify-center items-center`}
@@ -149,9 +237,14 @@ export default function BaseEvent({ id, data, ...props }: NodeProps) {
 
           {/* EVENT LABEL PLUS NAME */}
           <div className="text-center">{fixedLabelName}</div>
+          {simulationFlow && fixedValue && (
+            <div className="text-center font-mono" title={valueText}>
+              = {fixedValue}
+            </div>
+          )}
           {receiversJoined && (
             <div className="absolute bottom-[0.5px] right-1">
-              {interactionType ? interactionType : "rxtx"}
+              {!context && (interactionType ? interactionType : "rxtx")}
             </div>
           )}
         </div>
@@ -58,6 +58,10 @@ export default function Subprocess(props: NodeProps) {
 
   const shiftPressed = useKeyPress("Shift");
 
+  const isTemplate = props.data.instance === undefined;
+  const bindings = props.data.bindings as
+    { initiators: string[]; receivers: string[] } | undefined;
+
   const handleStyle: React.CSSProperties = {
     width: "100%",
     height: "100%",
@@ -87,14 +91,25 @@ export default function Subprocess(props: NodeProps) {
         {/* SUBPROCESS LABEL */}
         <div className={`flex absolute top-0 left-0 px-2 py-1`}>
           {props.data.label as string}
+          {simulationFlow && isTemplate && (
+            <span className="ml-2 text-gray-500 italic">(template)</span>
+          )}
         </div>
 
-        {simulationFlow &&
-          !(props.data.marking as Record<string, boolean>).spawned && (
-            <div className="flex items-center justify-center mt-[35%] text-4xl">
-              ...
-            </div>
-          )}
+        {/* SPAWN BINDINGS OF AN INSTANCE */}
+        {simulationFlow && bindings && (
+          <div className="flex absolute bottom-0 left-0 px-2 py-1 text-[12px] text-gray-600 font-mono">
+            {bindings.initiators.join(", ")}
+            {bindings.receivers.length > 0 &&
+              ` → ${bindings.receivers.join(", ")}`}
+          </div>
+        )}
+
+        {simulationFlow && isTemplate && (
+          <div className="flex items-center justify-center mt-[35%] text-4xl">
+            ...
+          </div>
+        )}
 
         {/* HANDLES */}
         {!connection.inProgress && (
@@ -0,0 +1,73 @@
+import { type Comment, ParseError } from "./tardisdcr-parser";
+
+/**
+ * A structured comment of the form `// @kind key=value ...`, used by the generated code
+ * to keep what the language cannot express: nests, subprocess labels, relations drawn
+ * to nests and subprocesses, and the layout of the canvas.
+ *
+ * @property kind - The word following `@`, e.g. `nest`.
+ * @property attributes - The `key=value` pairs; quoted values are unescaped.
+ * @property line - The line of the comment, 1-based.
+ */
+export interface Annotation {
+  kind: string;
+  attributes: Record<string, string>;
+  line: number;
+}
+
+const ANNOTATION = /^\s*@(\w+)((?:\s+\w+=(?:"(?:[^"\\]|\\.)*"|\S+))*)\s*$/;
+const ATTRIBUTE = /(\w+)=("(?:[^"\\]|\\.)*"|\S+)/g;
+
+/**
+ * Reads the annotation carried by a comment.
+ *
+ * @param comment - A comment kept by the parser.
+ * @returns The annotation, or `undefined` if the comment is plain text.
+ * @throws {ParseError} If a quoted value is not a valid JSON string, e.g. `"a\q"`.
+ */
+export function parseAnnotation(comment: Comment): Annotation | undefined {
+  const match = ANNOTATION.exec(comment.text);
+  if (!match) return undefined;
+
+  const attributes: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(ATTRIBUTE)) {
+    if (!value.startsWith('"')) attributes[key] = value;
+    else
+      try {
+        attributes[key] = JSON.parse(value);
+      } catch {
+        throw new ParseError(
+          `Invalid value ${value} for ${key}.`,
+          comment.location
+        );
+      }
+  }
+
+  return {
+    kind: match[1],
+    attributes,
+    line: comment.location.from.line,
+  };
+}
+
+/**
+ * Writes an annotation comment. Attributes without a value are left out, and values
+ * that are not a single word are quoted.
+ *
+ * @param kind - The kind of the annotation.
+ * @param attributes - The attributes to write, in order.
+ * @returns The comment, starting with `//`.
+ */
+export function formatAnnotation(
+  kind: string,
+  attributes: Record<string, string | number | boolean | undefined> = {}
+): string {
+  const pairs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const text = String(value);
+      return `${key}=${/^[\w.-]+$/.test(text) ? text : JSON.stringify(text)}`;
+    });
+
+  return [`// @${kind}`, ...pairs].join(" ");
+}
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import type { Edge, Node } from "@xyflow/react";
+import { writeCode } from "./codegen";
+import { visualGen } from "./visualgen-code";
+import { exampleStates, relationEdge } from "@/test/fixtures";
+
+const ROLES = [{ role: "P", label: "P", types: [] }];
+
+const event = (id: string, parentId = "", x = 0): Node => ({
+  id,
+  type: "event",
+  parentId,
+  position: { x, y: 10 },
+  data: {
+    initiators: ["P"],
+    type: "i",
+    label: `a${id}`,
+    name: "act",
+    marking: { included: true, pending: false },
+    input: { type: "Unit" },
+    security: "Public",
+  },
+});
+
+const group = (
+  id: string,
+  type: "nest" | "subprocess",
+  parentId = "",
+  nestType = "group"
+): Node => ({
+  id,
+  type,
+  parentId,
+  position: { x: 20, y: 30 },
+  width: 300,
+  height: 200,
+  data: {
+    label: `${id} group`,
+    marking: { included: true, pending: false },
+    ...(type === "nest" && { nestType }),
+  },
+});
+
+/**
+ * What the canvas shows of a graph, independently of the order of its elements.
+ */
+const shape = (nodes: Node[], edges: Edge[]) => ({
+  nodes: nodes
+    .map((nd) => ({
+      id: nd.id,
+      type: nd.type,
+      parentId: nd.parentId || "",
+      position: nd.position,
+      ...(nd.type !== "event" && { width: nd.width, height: nd.height }),
+      label: nd.data.label,
+      marking: nd.data.marking,
+      nestType: nd.data.nestType,
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id)),
+  edges: edges
+    .map((ed) => `${ed.id} ${ed.source} ${ed.target} ${!!ed.hidden}`)
+    .sort(),
+});
+
+const roundTrip = (nodes: Node[], edges: Edge[]) => {
+  const code = writeCode(nodes, edges, ROLES, "Public", { layout: true });
+  return visualGen(code);
+};
+
+describe("writeCode", () => {
+  it.each(exampleStates())("writes the %s example", (_name, state) => {
+    expect(
+      writeCode(state.nodes, state.edges, state.roles, state.security)
+    ).toMatchSnapshot();
+  });
+
+  it("writes a relation to a nest once, as a comma list", () => {
+    const nodes = [group("n0", "nest"), event("e0", "n0"), event("e1", "n0")];
+    nodes.push(event("e2"));
+    const code = writeCode(
+      nodes,
+      [relationEdge("condition", "n0", "e2")],
+      ROLES,
+      ""
+    );
+
+    expect(code).toContain("// @edge source=n0\nae0, ae1 -->* ae2");
+  });
+
+  it("declares a relation in the deepest process it refers to", () => {
+    const nodes = [group("s0", "subprocess"), event("e0"), event("e1", "s0")];
+    const edges = [
+      relationEdge("spawn", "e0", "s0"),
+      relationEdge("response", "e0", "e1"),
+    ];
+    const code = writeCode(nodes, edges, ROLES, "");
+
+    expect(code).toMatch(/ae0 -->> \{\n(\t.*\n)*\tae0 \*--> ae1\n\}/);
+  });
+
+  it("only annotates the layout when asked to", () => {
+    const nodes = [event("e0", "", 42)];
+
+    expect(writeCode(nodes, [], ROLES, "")).not.toContain("@layout");
+    expect(writeCode(nodes, [], ROLES, "", { layout: true })).toContain(
+      "// @layout id=e0 x=42 y=10"
+    );
+  });
+});
+
+describe("round trip through writeCode and visualGen", () => {
+  it.each(exampleStates())("rebuilds the %s example", (_name, state) => {
+    const { nodes, edges, positioned } = roundTrip(state.nodes, state.edges);
+
+    expect(positioned).toBe(true);
+    expect(shape(nodes, edges)).toEqual(shape(state.nodes, state.edges));
+  });
+
+  it("rebuilds nests, choice groups and subprocesses", () => {
+    const nodes = [
+      group("n0", "nest", "", "choice"),
+      group("n1", "nest"),
+      group("s0", "subprocess", "n1"),
+      event("e0", "n0"),
+      event("e1", "n0"),
+      event("e2"),
+      event("e3", "s0"),
+      event("e4", "n1"),
+    ];
+    const edges = [
+      {
+        ...relationEdge("exclude", "e0", "e1"),
+        hidden: true,
+        data: { parent: "n0" },
+      },
+      {
+        ...relationEdge("exclude", "e1", "e0"),
+        hidden: true,
+        data: { parent: "n0" },
+      },
+      relationEdge("condition", "n0", "e2"),
+      relationEdge("response", "e2", "n1"),
+      relationEdge("spawn", "e2", "s0"),
+      relationEdge("include", "e3", "e2"),
+    ];
+
+    const generated = roundTrip(nodes, edges);
+
+    expect(shape(generated.nodes, generated.edges)).toEqual(
+      shape(nodes, edges)
+    );
+    expect(generated.groupId).toBe(2);
+  });
+
+  it("rebuilds any graph of events, nests and relations", () => {
+    const graphArbitrary = fc
+      .record({
+        events: fc.integer({ min: 1, max: 8 }),
+        nests: fc.integer({ min: 0, max: 3 }),
+        parents: fc.array(fc.nat(), { minLength: 8, maxLength: 8 }),
+        relations: fc.array(
+          fc.record({
+            type: fc.constantFrom(
+              "condition",
+              "response",
+              "include",
+              "exclude",
+              "milestone"
+            ),
+            source: fc.nat(),
+            target: fc.nat(),
+          }),
+          { maxLength: 12 }
+        ),
+      })
+      .map(({ events, nests, parents, relations }) => {
+        const nodes: Node[] = [
+          ...Array.from({ length: nests }, (_, i) => group(`n${i}`, "nest")),
+          ...Array.from({ length: events }, (_, i) =>
+            event(
+              `e${i}`,
+              parents[i] % (nests + 1)
+                ? `n${(parents[i] % (nests + 1)) - 1}`
+                : "",
+              i * 10
+            )
+          ),
+        ];
+        const endpoints = nodes.map((nd) => nd.id);
+        const edges = relations.map((rel) =>
+          relationEdge(
+            rel.type,
+            endpoints[rel.source % endpoints.length],
+            endpoints[rel.target % endpoints.length]
+          )
+        );
+        // Relations between empty nests are not written
+        const written = edges.filter((ed) =>
+          [ed.source, ed.target].every((id) =>
+            nodes.some(
+              (nd) =>
+                nd.type === "event" && (nd.id === id || nd.parentId === id)
+            )
+          )
+        );
+
+        return {
+          nodes,
+          edges: written.filter(
+            (ed, i) => written.findIndex((other) => other.id === ed.id) === i
+          ),
+        };
+      });
+
+    fc.assert(
+      fc.property(graphArbitrary, ({ nodes, edges }) => {
+        const generated = roundTrip(nodes, edges);
+        expect(shape(generated.nodes, generated.edges)).toEqual(
+          shape(nodes, edges)
+        );
+      })
+    );
+  });
+
+  it("keeps the exact position and size of every node", () => {
+    // Without negative zero, which is written as 0
+    const coordinate = fc
+      .double({ min: -1e4, max: 1e4, noNaN: true })
+      .map((value) => value + 0);
+
+    fc.assert(
+      fc.property(
+        fc.array(fc.tuple(coordinate, coordinate), {
+          minLength: 2,
+          maxLength: 5,
+        }),
+        (positions) => {
+          const nodes = positions.map(([x, y], i) =>
+            i === 0
+              ? { ...group("n0", "nest"), position: { x, y }, width: x + 1e4 }
+              : { ...event(`e${i}`, "n0"), position: { x, y } }
+          );
+
+          const generated = roundTrip(nodes, []);
+          expect(shape(generated.nodes, generated.edges)).toEqual(
+            shape(nodes, [])
+          );
+        }
+      )
+    );
+  });
+});
@@ -8,36 +8,61 @@ import {
   RelationType,
   SimpleRole,
 } from "./types";
+import { formatAnnotation } from "./annotations";
+import { endpointEvents } from "./dcr-flow";
+
+/**
+ * Options of the code generation.
+ *
+ * @property layout - Whether to annotate events, nests and subprocesses with their id,
+ *                    position and size, so that importing the code rebuilds the canvas.
+ */
+export interface WriteCodeOptions {
+  layout?: boolean;
+}
 
 /**
  * Extracts and organizes process-related data from provided nodes and edges.
  *
  * This function processes arrays of nodes and edges, categorizing them into events, nests,
- * subprocesses, and relations. It then groups these elements by their parent relationships,
- * constructing a hierarchical map of processes. Each process contains its associated events,
- * relations, nests, and subprocesses, as well as a reference to its parent process.
+ * subprocesses, and relations. It then groups these elements by the process declaring them:
+ * the global process or the closest enclosing subprocess, nests being transparent. Each
+ * process contains its associated events, relations, nests, and subprocesses, as well as a
+ * reference to its parent process.
+ *
+ * Relations keep the ids of their endpoints, which may be nests or subprocesses. A relation
+ * is declared in the deepest process among those of the events it connects, so that every
+ * label it uses is visible there.
  *
  * @param nodes - An array of node objects representing events, nests, and subprocesses.
  * @param edges - An array of edge objects representing relations between nodes.
  * @returns A Map where each key is a process ID and each value is a Process object containing
- *          the grouped events, relations, nests, subprocesses, and parent process reference.
+ *          the grouped events, relations, nests, and subprocesses, as well as a reference to
+ *          the parent process.
  */
 function extractData(nodes: Node[], edges: Edge[]) {
-  let parentProcess = new Map<string, Process>();
-
-  let events: EventType[] = nodes
+  const parentProcess = new Map<string, Process>();
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  const parentOf = (n: Node) =>
+    n.parentId && byId.has(n.parentId) ? n.parentId : "global";
+
+  // The process declaring a node: its closest subprocess ancestor
+  const scopeOf = (n: Node): string => {
+    let parent = n.parentId ? byId.get(n.parentId) : undefined;
+    while (parent && parent.type === "nest")
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    return parent ? parent.id : "global";
+  };
+
+  const depthOf = (scope: string): number => {
+    const subprocess = byId.get(scope);
+    return subprocess ? depthOf(scopeOf(subprocess)) + 1 : 0;
+  };
+
+  const events: EventType[] = nodes
     .filter((n) => n.type === "event")
     .map((n) => {
-      const {
-        id,
-        data,
-        parentId: parent,
-      } = n as {
-        id: string;
-        data: Record<string, unknown>;
-        parentId: string;
-      };
-
       const {
         label,
         name,
@@ -47,10 +72,10 @@ function extractData(nodes: Node[], edges: Edge[]) {
         initiators,
         receivers,
         marking,
-      } = data as EventType;
+      } = n.data as EventType;
 
       return {
-        id,
+        id: n.id,
         label,
         name,
         security,
@@ -59,244 +84,68 @@ function extractData(nodes: Node[], edges: Edge[]) {
         initiators,
         ...(receivers && receivers.length > 0 && { receivers }),
         marking,
-        ...(parent ? { parent } : { parent: "global" }),
+        parent: parentOf(n),
       };
     });
 
-  let nests: NestType[] = nodes
+  const nests: NestType[] = nodes
     .filter((n) => n.type === "nest")
     .map((n) => {
-      const {
-        id,
-        data,
-        parentId: parent,
-      } = n as { id: string; data: Record<string, unknown>; parentId: string };
-      const { label, marking, nestType } = data as NestType;
-
-      return {
-        id,
-        label,
-        marking,
-        nestType,
-        ...(parent ? { parent } : { parent: "global" }),
-      };
+      const { label, marking, nestType } = n.data as NestType;
+      return { id: n.id, label, marking, nestType, parent: parentOf(n) };
     });
 
-  let subprocesses: SubprocessType[] = nodes
+  const subprocesses: SubprocessType[] = nodes
     .filter((n) => n.type === "subprocess")
     .map((n) => {
-      const {
-        id,
-        data,
-        parentId: parent,
-      } = n as { id: string; data: Record<string, unknown>; parentId: string };
-      const { label, marking } = data as SubprocessType;
-
-      return {
-        id,
-        label,
-        marking,
-        ...(parent ? { parent } : { parent: "global" }),
-      };
+      const { label, marking } = n.data as SubprocessType;
+      return { id: n.id, label, marking, parent: parentOf(n) };
     });
 
-  function getChildren(
-    node: NestType | SubprocessType
-  ): { events: EventType[]; parent: string }[] {
-    const childrenEvents = events.filter((e) => e.parent === node.id);
-    const childrenNests = nests.filter((n) => n.parent === node.id);
-    const childrenSubprocesses = subprocesses.filter(
-      (s) => s.parent === node.id
-    );
-
-    let children = [{ events: childrenEvents, parent: node.id }];
-    if (childrenNests.length > 0)
-      childrenNests.forEach((n) => children.push(...getChildren(n)));
-    if (childrenSubprocesses.length > 0)
-      childrenSubprocesses.forEach((s) => children.push(...getChildren(s)));
-
-    return children;
-  }
-
-  let relationsToAdd: RelationType[] = [];
-  let relations: RelationType[] = edges.map((e) => {
-    const { id, source, target, type, data } = e as {
-      id: string;
-      source: string;
-      target: string;
-      type: string;
-      data: Record<string, unknown>;
-    };
-    const { guard } = data as { guard: string | undefined };
-
-    const sourceEventNode = events.find((n) => n.id === source);
-    const sourceNestNode = nests.find((n) => n.id === source);
-    const sourceSubprocessNode = subprocesses.find((n) => n.id === source);
-
-    const targetEventNode = events.find((n) => n.id === target);
-    const targetNestNode = nests.find((n) => n.id === target);
-    const targetSubprocessNode = subprocesses.find((n) => n.id === target);
-
-    let sourceNode: EventType | NestType | SubprocessType;
-    let targetNode: EventType | NestType | SubprocessType;
-    if (sourceEventNode) {
-      sourceNode = sourceEventNode as EventType;
-      const parent = sourceNode.parent;
-      if (targetEventNode) {
-        targetNode = targetEventNode as EventType;
-        relationsToAdd.push({
-          id,
-          source: sourceNode.label,
-          target: targetNode.label,
-          type,
-          ...(parent ? { parent } : { parent: "global" }),
-          ...(guard && { guard }),
-        });
-      } else {
-        targetNode = targetNestNode
-          ? (targetNestNode as NestType)
-          : (targetSubprocessNode as SubprocessType);
-
-        const children = getChildren(targetNode);
-        if (type !== "spawn") {
-          children.forEach((child) => {
-            child.events.forEach((e) => {
-              relationsToAdd.push({
-                id,
-                source: sourceNode.label,
-                target: e.label,
-                type,
-                parent: child.parent,
-                ...(guard && { guard }),
-              });
-            });
-          });
-        }
-      }
-    } else {
-      sourceNode = sourceNestNode
-        ? (sourceNestNode as NestType)
-        : (sourceSubprocessNode as SubprocessType);
-
-      const sourceChildren = getChildren(sourceNode);
-      if (targetEventNode) {
-        targetNode = targetEventNode as EventType;
-        sourceChildren.forEach((child) => {
-          child.events.forEach((e) => {
-            relationsToAdd.push({
-              id,
-              source: e.label,
-              target: targetNode.label,
-              type,
-              parent: child.parent,
-              ...(guard && { guard }),
-            });
-          });
-        });
-      } else {
-        targetNode = targetNestNode
-          ? (targetNestNode as NestType)
-          : (targetSubprocessNode as SubprocessType);
-
-        const targetChildren = getChildren(targetNode);
-        sourceChildren.forEach((child) => {
-          child.events.forEach((e) => {
-            targetChildren.forEach((targetChild) => {
-              targetChild.events.forEach((te) => {
-                relationsToAdd.push({
-                  id,
-                  source: e.label,
-                  target: te.label,
-                  type,
-                  parent: child.parent,
-                  ...(guard && { guard }),
-                });
-              });
-            });
-          });
-        });
-      }
-    }
+  const relations: RelationType[] = edges.flatMap((e): RelationType[] => {
+    const { id, source, target, type, data } = e;
+    const guard = data?.guard as string | undefined;
+    const sourceNode = byId.get(source);
+    if (!sourceNode || !type) return [];
 
-    return type === "spawn"
-      ? {
+    if (type === "spawn")
+      return [
+        {
           id,
-          source: sourceNode.label,
-          target: targetNode.label,
+          source,
+          target,
           type,
+          parent: scopeOf(sourceNode),
           ...(guard && { guard }),
-          ...(sourceNode.parent
-            ? { parent: sourceNode.parent }
-            : { parent: "global" }),
-        }
-      : {
-          id: "toDelete",
-          source: "",
-          target: "",
-          type: "",
-        };
-  });
+        },
+      ];
 
-  relations = [
-    ...relations.filter((r) => r.id !== "toDelete"),
-    ...relationsToAdd,
-  ];
+    const scopes = [source, target]
+      .flatMap((endpoint) => endpointEvents(nodes, endpoint))
+      .map(scopeOf);
+    if (scopes.length === 0) return [];
 
-  function findParent(
-    item: EventType | NestType | SubprocessType | RelationType
-  ) {
-    const parent = item.parent;
-    if (parent) {
-      const nestParent = nests.find((n) => n.id === parent);
-      if (nestParent) return findParent(nestParent);
-      else return subprocesses.some((s) => s.id === parent) ? parent : "global";
-    } else return "global";
-  }
+    const parent = scopes.reduce((deepest, scope) =>
+      depthOf(scope) > depthOf(deepest) ? scope : deepest
+    );
 
-  events = events.map((e) => ({
-    ...e,
-    parent: findParent(e),
-  }));
-  nests = nests.map((n) => ({
-    ...n,
-    parent: findParent(n),
-  }));
-  subprocesses = subprocesses.map((s) => ({
-    ...s,
-    parent: findParent(s),
-  }));
-  relations = relations.map((r) => ({
-    ...r,
-    parent: findParent(r),
-  }));
+    return [{ id, source, target, type, parent, ...(guard && { guard }) }];
+  });
 
   const parents: { id: string; parent: string }[] = [
     { id: "global", parent: "" },
     ...subprocesses.map((s) => ({
       id: s.id,
-      parent: s.parent ? s.parent : "global",
+      parent: scopeOf(byId.get(s.id)!),
     })),
   ];
 
-  parents.forEach((parent) => {
-    const { id, parent: upParent } = parent;
-    let processEvents: EventType[] = [];
-    let processRelations: RelationType[] = [];
-    let processNests: NestType[] = [];
-    let processSubprocesses: SubprocessType[] = [];
-
-    processEvents = events.filter((e) => e.parent && e.parent === id);
-    processRelations = relations.filter((r) => r.parent && r.parent === id);
-    processNests = nests.filter((n) => n.parent && n.parent === id);
-    processSubprocesses = subprocesses.filter(
-      (s) => s.parent && s.parent === id
-    );
-
+  parents.forEach(({ id, parent: upParent }) => {
     parentProcess.set(id, {
-      events: processEvents,
-      relations: processRelations,
-      nests: processNests,
-      subprocesses: processSubprocesses,
+      events: events.filter((e) => scopeOf(byId.get(e.id)!) === id),
+      relations: relations.filter((r) => r.parent === id),
+      nests: nests.filter((n) => scopeOf(byId.get(n.id)!) === id),
+      subprocesses: subprocesses.filter((s) => scopeOf(byId.get(s.id)!) === id),
       parentProcess: upParent,
     });
   });
@@ -304,6 +153,38 @@ function extractData(nodes: Node[], edges: Edge[]) {
   return parentProcess;
 }
 
+/**
+ * Writes an event declaration.
+ */
+function writeEvent(e: EventType): string {
+  const { included, pending } = e.marking;
+  let eventContent = `${included ? "" : "%"}${pending ? "!" : ""}(${
+    e.label
+  }:${e.name}) (${e.security}) [`;
+
+  if (e.input) {
+    eventContent += "?";
+    const input = e.input;
+    if (input.type !== "Unit") {
+      eventContent += ":";
+      if ("record" in input) {
+        eventContent += `{${input.record
+          .map((field) => `${field.var}:${field.type}`)
+          .join("; ")}}`;
+      } else {
+        eventContent += `${input.type}`;
+      }
+    }
+  } else if (e.expression) eventContent += `${e.expression}`;
+  eventContent += `] [${e.initiators.join(", ")}${
+    e.receivers && e.receivers.length > 0
+      ? ` -> ${e.receivers.join(", ")}]`
+      : "]"
+  }`;
+
+  return eventContent;
+}
+
 /**
  * Generates code and an event mapping from a set of process nodes, edges, roles, and a security lattice.
  *
@@ -311,119 +192,125 @@ function extractData(nodes: Node[], edges: Edge[]) {
  * code format, and constructs a mapping from event IDs to their string representations. It also serializes
  * role definitions and the security lattice.
  *
+ * What the language cannot express is kept in annotation comments, so that `visualGen` rebuilds the same
+ * graph: nests are written as `// @nest` ... `// @end` blocks around their events, subprocesses carry their
+ * id and label in a `// @subprocess` comment, and a relation drawn to a nest or subprocess is written once,
+ * as a comma-list relation preceded by a `// @edge` comment naming its endpoints.
+ *
  * @param nodes - The list of process nodes to be included in the code generation.
  * @param edges - The list of edges representing relations between nodes.
  * @param roles - The list of roles, each with associated types, to be serialized.
  * @param lattice - The security lattice definition as a string.
+ * @param options - Whether to annotate the layout of the canvas.
  * @returns The generated code as a string.
  */
 export function writeCode(
   nodes: Node[],
   edges: Edge[],
   roles: SimpleRole[],
-  lattice: string
+  lattice: string,
+  options: WriteCodeOptions = {}
 ): string {
   const parentProcess = extractData(nodes, edges);
-  console.log(parentProcess);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
   let content: string[] = [];
 
-  function writeProcess(process: Process, numTabs: number): string[] {
+  const labelOf = (id: string) => byId.get(id)?.data.label as string;
+
+  // Position and size of a node, when the layout is annotated
+  const layoutOf = (id: string) => {
+    const node = byId.get(id);
+    if (!options.layout || !node) return {};
+
+    // Positions are written as they are: rounding them would move the nodes of the
+    // canvas each time the code is edited and regenerates the graph
+    return {
+      x: node.position.x,
+      y: node.position.y,
+      ...(node.type !== "event" && {
+        width: node.width ?? node.measured?.width,
+        height: node.height ?? node.measured?.height,
+      }),
+    };
+  };
+
+  function writeProcess(processId: string): string[] {
     let newContent: string[] = [];
+    const process = parentProcess.get(processId)!;
+    const nests = process.nests ?? [];
+
+    // Events of a process or nest, followed by its nests as annotated blocks
+    function writeEvents(parent: string) {
+      process.events
+        .filter((e) => e.parent === parent)
+        .forEach((e) => {
+          if (options.layout)
+            newContent.push(
+              formatAnnotation("layout", { id: e.id, ...layoutOf(e.id) })
+            );
+          newContent.push(writeEvent(e));
+        });
 
-    let events = process.events;
-    let relations = process.relations;
-
-    events.forEach((e) => {
-      const { included, pending } = e.marking;
-      let eventContent = `${included ? "" : "%"}${pending ? "!" : ""}(${
-        e.label
-      }:${e.name}) (${e.security}) [`;
-
-      if (e.input) {
-        eventContent += "?";
-        const input = e.input;
-        if (input.type !== "Unit") {
-          eventContent += ":";
-          if ("record" in input) {
-            eventContent += "{";
-            input.record.forEach((field, index) => {
-              if (index === input.record.length - 1)
-                eventContent += `${field.var}:${field.type}}`;
-              else eventContent += `${field.var}:${field.type}; `;
-            });
-          } else {
-            eventContent += `${input.type}`;
-          }
-        }
-      } else if (e.expression) eventContent += `${e.expression}`;
-      eventContent += `] [${e.initiators.join(", ")}${
-        e.receivers && e.receivers.length > 0
-          ? ` -> ${e.receivers.join(", ")}]`
-          : "]"
-      }`;
-
-      newContent.push(eventContent);
-    });
+      nests
+        .filter((n) => n.parent === parent)
+        .forEach((n) => {
+          newContent.push(
+            formatAnnotation("nest", {
+              id: n.id,
+              type: n.nestType || "group",
+              label: n.label,
+              included: n.marking?.included === false ? false : undefined,
+              pending: n.marking?.pending ? true : undefined,
+              ...layoutOf(n.id),
+            })
+          );
+          writeEvents(n.id);
+          newContent.push(formatAnnotation("end"));
+        });
+    }
+
+    writeEvents(processId);
 
+    const relations = process.relations;
     if (relations.length > 0) newContent.push(";");
 
     relations.forEach((r) => {
       if (r.type === "spawn") {
-        newContent.push(`${r.source} ${relationsMap[r.type]} {`);
-        const childProcess = parentProcess.get(r.target);
-        if (childProcess) {
-          newContent.push(
-            `\t${writeProcess(childProcess, numTabs + 1).join(
-              `\n${"\t".repeat(numTabs)}`
-            )}`
-          );
-
-          newContent.push("}");
-        }
-      } else {
-        const sourceProcess = parentProcess.get(r.source);
-        const targetProcess = parentProcess.get(r.target);
-        if (sourceProcess) {
-          const sourceChildren = sourceProcess.events.map((e) => e.label);
-          if (targetProcess) {
-            const targetChildren = targetProcess.events.map((e) => e.label);
-            sourceChildren.forEach((sc) => {
-              targetChildren.forEach((tc) => {
-                newContent.push(
-                  `${sc} ${relationsMap[r.type]} ${tc}${
-                    r.guard ? ` [${r.guard}]` : ""
-                  }`
-                );
-              });
-            });
-          } else {
-            sourceChildren.forEach((sc) => {
-              newContent.push(
-                `${sc} ${relationsMap[r.type]} ${r.target}${
-                  r.guard ? ` [${r.guard}]` : ""
-                }`
-              );
-            });
-          }
-        } else {
-          if (targetProcess) {
-            const targetChildren = targetProcess.events.map((e) => e.label);
-            targetChildren.forEach((tc) => {
-              newContent.push(
-                `${r.source} ${relationsMap[r.type]} ${tc}${
-                  r.guard ? ` [${r.guard}]` : ""
-                }`
-              );
-            });
-          } else {
-            newContent.push(
-              `${r.source} ${relationsMap[r.type]} ${r.target}${
-                r.guard ? ` [${r.guard}]` : ""
-              }`
-            );
-          }
-        }
+        if (!parentProcess.has(r.target)) return;
+
+        const subprocess = byId.get(r.target)!;
+        const parent = subprocess.parentId;
+        newContent.push(
+          formatAnnotation("subprocess", {
+            id: r.target,
+            label: labelOf(r.target),
+            parent:
+              parent && byId.get(parent)?.type === "nest" ? parent : undefined,
+            ...layoutOf(r.target),
+          })
+        );
+        newContent.push(`${labelOf(r.source)} ${relationsMap[r.type]} {`);
+        newContent.push(...writeProcess(r.target).map((line) => `\t${line}`));
+        newContent.push("}");
+        return;
       }
+
+      const sources = endpointEvents(nodes, r.source).map((n) => labelOf(n.id));
+      const targets = endpointEvents(nodes, r.target).map((n) => labelOf(n.id));
+      if (sources.length === 0 || targets.length === 0) return;
+
+      const isGroup = (id: string) => byId.get(id)?.type !== "event";
+      if (isGroup(r.source) || isGroup(r.target))
+        newContent.push(
+          formatAnnotation("edge", {
+            source: isGroup(r.source) ? r.source : undefined,
+            target: isGroup(r.target) ? r.target : undefined,
+          })
+        );
+
+      newContent.push(
+        `${sources.join(", ")} ${relationsMap[r.type]} ${targets.join(", ")}${r.guard ? ` [${r.guard}]` : ""}`
+      );
     });
 
     return newContent;
@@ -446,8 +333,7 @@ export function writeCode(
   content.push(lattice);
   content.push(";");
 
-  const globalProcess = parentProcess.get("global");
-  if (globalProcess) content.push(writeProcess(globalProcess, 1).join("\n"));
+  content.push(writeProcess("global").join("\n"));
 
   return content.join(`\n`);
 }
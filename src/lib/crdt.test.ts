@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  applyOperations,
+  createReplica,
+  Operation,
+  parentsFirst,
+  reserveIds,
+  SharedGraph,
+} from "./crdt";
+import { eventNode, relationEdge, subgraphNode } from "@/test/fixtures";
+
+const graph = (partial: Partial<SharedGraph> = {}): SharedGraph => ({
+  nodes: [],
+  edges: [],
+  roles: [],
+  security: "Public flows P",
+  ...partial,
+});
+
+const ids = (elements: { id: string }[]) => elements.map((el) => el.id);
+
+describe("createReplica", () => {
+  it("commits the changes of a graph once", () => {
+    const replica = createReplica("a");
+    const base = graph({ nodes: [eventNode("e0")] });
+
+    expect(replica.commit(base).map((op) => op.key)).toEqual([
+      "node:e0",
+      "security",
+    ]);
+    expect(replica.commit(base)).toEqual([]);
+
+    const ops = replica.commit(
+      graph({ nodes: [{ ...eventNode("e0"), selected: true }] })
+    );
+    expect(ops).toEqual([]);
+    expect(replica.commit(graph())).toEqual([
+      { key: "node:e0", value: null, stamp: { clock: 2, client: "a" } },
+    ]);
+  });
+
+  it("keeps the latest change of each element", () => {
+    const a = createReplica("a");
+    const b = createReplica("b");
+    b.merge(a.commit(graph({ nodes: [eventNode("e0")] })));
+
+    const fromA = a.commit(graph({ nodes: [eventNode("e0", { name: "A" })] }));
+    const fromB = b.commit(graph({ nodes: [eventNode("e0", { name: "B" })] }));
+
+    // Same clock: the client id breaks the tie, on both sides
+    expect(a.merge(fromB)).toHaveLength(1);
+    expect(b.merge(fromA)).toEqual([]);
+    expect(a.operations()).toEqual(b.operations());
+  });
+
+  it("stamps commits after the operations merged", () => {
+    const a = createReplica("a");
+    const b = createReplica("b");
+    b.merge(a.commit(graph()));
+    b.merge(a.commit(graph({ security: "Public flows Q" })));
+
+    const [op] = b.commit(graph({ security: "Public flows R" }));
+    expect(op.stamp).toEqual({ clock: 3, client: "b" });
+  });
+
+  it("converges whatever the order operations are received in", () => {
+    const edits = fc.array(
+      fc.record({
+        client: fc.constantFrom("a", "b", "c"),
+        node: fc.constantFrom("e0", "e1", "e2"),
+        name: fc.option(fc.constantFrom("x", "y"), { nil: undefined }),
+      }),
+      { maxLength: 12 }
+    );
+
+    fc.assert(
+      fc.property(edits, fc.nat(), (steps, seed) => {
+        // Each client edits its own graph, then they exchange their operations
+        const clients = new Map(
+          ["a", "b", "c"].map((client) => [
+            client,
+            { replica: createReplica(client), graph: graph() },
+          ])
+        );
+        const sent: Operation[] = [];
+        steps.forEach(({ client, node, name }) => {
+          const state = clients.get(client)!;
+          const nodes = state.graph.nodes.filter((nd) => nd.id !== node);
+          state.graph = graph({
+            nodes: name ? [...nodes, eventNode(node, { name })] : nodes,
+          });
+          sent.push(...state.replica.commit(state.graph));
+        });
+
+        const results = [...clients.values()].map(({ replica }, index) => {
+          const order = [...sent];
+          for (let i = order.length - 1; i > 0; i--) {
+            const j = (seed + index * 7 + i * 13) % (i + 1);
+            [order[i], order[j]] = [order[j], order[i]];
+          }
+          order.forEach((op) => replica.merge([op]));
+          return JSON.stringify(
+            replica.operations().sort((x, y) => x.key.localeCompare(y.key))
+          );
+        });
+        expect(new Set(results).size).toBeLessThanOrEqual(1);
+      })
+    );
+  });
+});
+
+describe("applyOperations", () => {
+  const stamp = { clock: 1, client: "a" };
+
+  it("updates elements, keeping their selection", () => {
+    const shown = graph({
+      nodes: [{ ...eventNode("e0"), selected: true }, eventNode("e1")],
+      edges: [relationEdge("condition", "e0", "e1")],
+    });
+
+    const next = applyOperations(shown, [
+      { key: "node:e0", value: eventNode("e0", { name: "x" }), stamp },
+      { key: "node:e1", value: null, stamp },
+      { key: "role:P", value: { role: "P", label: "P", types: [] }, stamp },
+      { key: "security", value: "Public flows Q", stamp },
+    ]);
+
+    expect(next.nodes).toEqual([
+      { ...eventNode("e0", { name: "x" }), selected: true },
+    ]);
+    expect(next.edges).toEqual([]);
+    expect(next.roles.map((role) => role.role)).toEqual(["P"]);
+    expect(next.security).toBe("Public flows Q");
+  });
+
+  it("places new nodes after their parent", () => {
+    const next = applyOperations(graph(), [
+      { key: "node:e0", value: eventNode("e0", {}, { parentId: "n0" }), stamp },
+      { key: "node:n0", value: subgraphNode("n0", "nest"), stamp },
+    ]);
+
+    expect(ids(next.nodes)).toEqual(["n0", "e0"]);
+  });
+});
+
+describe("parentsFirst", () => {
+  it("keeps the order of nodes already placed after their parent", () => {
+    const nodes = [
+      subgraphNode("n0", "nest"),
+      eventNode("e0", {}, { parentId: "n0" }),
+      eventNode("e1"),
+    ];
+    expect(parentsFirst(nodes)).toEqual(nodes);
+  });
+});
+
+describe("reserveIds", () => {
+  it("skips the ids used by other clients", () => {
+    const nodes = [
+      eventNode("e3"),
+      eventNode("e5"),
+      subgraphNode("n9", "nest"),
+    ];
+
+    expect(reserveIds(nodes, "e", [3])).toEqual([6]);
+    expect(reserveIds(nodes, "e", [1, 3, 7])).toEqual([1, 7]);
+    expect(reserveIds(nodes, "s", [0])).toEqual([0]);
+  });
+});
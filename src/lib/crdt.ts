@@ -0,0 +1,245 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { SimpleRole } from "./types";
+
+/**
+ * When an operation was made: a Lamport clock, ties being broken by the client making it
+ * so that every replica orders operations the same way.
+ *
+ * @property clock - The logical time of the operation.
+ * @property client - The id of the client making it.
+ */
+export interface Stamp {
+  clock: number;
+  client: string;
+}
+
+/**
+ * A change to one element of the shared graph.
+ *
+ * @property key - The element changed: `node:<id>`, `edge:<id>`, `role:<name>` or
+ *                 `security`.
+ * @property value - The new value of the element, `null` if it was deleted.
+ * @property stamp - When the change was made.
+ */
+export interface Operation {
+  key: string;
+  value: unknown;
+  stamp: Stamp;
+}
+
+/**
+ * The part of a choreography edited together: its graph, roles and security lattice.
+ */
+export interface SharedGraph {
+  nodes: Node[];
+  edges: Edge[];
+  roles: SimpleRole[];
+  security: string;
+}
+
+/**
+ * A last-writer-wins map of the elements of a graph, replicated between clients.
+ *
+ * Each element is kept with the stamp of its last change, deletions included, and a
+ * change only wins over a newer one: replicas receiving the same operations in any order
+ * end up with the same elements.
+ *
+ * @property client - The id of the client owning the replica.
+ * @method has - Whether an element is known, even if deleted.
+ * @method operations - Returns every element as the operation that set it last.
+ * @method commit - Records the changes of a graph since the last commit or merge and
+ *                  returns them as operations, stamped after anything seen so far.
+ * @method merge - Merges operations of other replicas and returns those that won.
+ */
+export interface Replica {
+  client: string;
+  has(key: string): boolean;
+  operations(): Operation[];
+  commit(graph: SharedGraph): Operation[];
+  merge(operations: Operation[]): Operation[];
+}
+
+/**
+ * Whether a stamp orders after another.
+ */
+export const newer = (stamp: Stamp, than: Stamp) =>
+  stamp.clock > than.clock ||
+  (stamp.clock === than.clock && stamp.client > than.client);
+
+/** The fields of an element that only concern the client showing it */
+const LOCAL_FIELDS = ["selected", "dragging", "measured", "resizing"];
+
+const shared = (element: Node | Edge): object => {
+  const copy: Record<string, unknown> = { ...element };
+  LOCAL_FIELDS.forEach((field) => delete copy[field]);
+  return copy;
+};
+
+/**
+ * Returns the elements of a graph by key, as they are shared between clients.
+ */
+export function graphEntries(graph: SharedGraph): Map<string, unknown> {
+  return new Map<string, unknown>([
+    ...graph.nodes.map((nd) => [`node:${nd.id}`, shared(nd)] as const),
+    ...graph.edges.map((ed) => [`edge:${ed.id}`, shared(ed)] as const),
+    ...graph.roles.map((role) => [`role:${role.role}`, role] as const),
+    ["security", graph.security],
+  ]);
+}
+
+/**
+ * Creates an empty replica.
+ *
+ * @param client - The id of the client owning it.
+ * @returns The replica.
+ */
+export function createReplica(client: string): Replica {
+  const entries = new Map<string, Operation>();
+  let clock = 0;
+
+  const valueOf = (key: string) =>
+    JSON.stringify(entries.get(key)?.value ?? null);
+
+  return {
+    client,
+
+    has(key) {
+      return entries.has(key);
+    },
+
+    operations() {
+      return [...entries.values()];
+    },
+
+    commit(graph) {
+      const current = graphEntries(graph);
+      const changed = [
+        ...[...current]
+          .filter(([key, value]) => JSON.stringify(value) !== valueOf(key))
+          .map(([key, value]) => ({ key, value })),
+        ...[...entries.keys()]
+          .filter((key) => !current.has(key) && valueOf(key) !== "null")
+          .map((key) => ({ key, value: null })),
+      ];
+      if (changed.length === 0) return [];
+
+      const stamp = { clock: ++clock, client };
+      const operations = changed.map((change) => ({ ...change, stamp }));
+      operations.forEach((op) => entries.set(op.key, op));
+      return operations;
+    },
+
+    merge(operations) {
+      return operations.filter((op) => {
+        clock = Math.max(clock, op.stamp.clock);
+        const known = entries.get(op.key);
+        if (known && !newer(op.stamp, known.stamp)) return false;
+
+        entries.set(op.key, op);
+        return true;
+      });
+    },
+  };
+}
+
+/**
+ * Orders nodes so that parents come before their children, as React Flow requires,
+ * keeping the order of the nodes otherwise.
+ */
+export function parentsFirst(nodes: Node[]): Node[] {
+  const byId = new Map(nodes.map((nd) => [nd.id, nd]));
+  const ordered: Node[] = [];
+  const placed = new Set<string>();
+
+  const place = (node: Node) => {
+    if (placed.has(node.id)) return;
+    placed.add(node.id);
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent) place(parent);
+    ordered.push(node);
+  };
+  nodes.forEach(place);
+
+  return ordered;
+}
+
+/**
+ * Applies operations to a graph, keeping what only concerns this client, such as the
+ * selection, of the elements changed. Relations left without an endpoint are dropped.
+ *
+ * @param graph - The graph shown.
+ * @param operations - The operations to apply, in order.
+ * @returns The updated graph.
+ */
+export function applyOperations(
+  graph: SharedGraph,
+  operations: Operation[]
+): SharedGraph {
+  const nodes = new Map(graph.nodes.map((nd) => [nd.id, nd]));
+  const edges = new Map(graph.edges.map((ed) => [ed.id, ed]));
+  const roles = new Map(graph.roles.map((role) => [role.role, role]));
+  let security = graph.security;
+
+  operations.forEach(({ key, value }) => {
+    const [kind, ...rest] = key.split(":");
+    const id = rest.join(":");
+
+    if (kind === "node") {
+      if (value === null) nodes.delete(id);
+      else {
+        const local = nodes.get(id);
+        nodes.set(id, {
+          ...(value as Node),
+          ...(local && { selected: local.selected, measured: local.measured }),
+        });
+      }
+    } else if (kind === "edge") {
+      if (value === null) edges.delete(id);
+      else
+        edges.set(id, {
+          ...(value as Edge),
+          selected: edges.get(id)?.selected,
+        });
+    } else if (kind === "role") {
+      if (value === null) roles.delete(id);
+      else roles.set(id, value as SimpleRole);
+    } else if (kind === "security") security = (value as string) ?? "";
+  });
+
+  return {
+    nodes: parentsFirst([...nodes.values()]),
+    edges: [...edges.values()].filter(
+      (ed) => nodes.has(ed.source) && nodes.has(ed.target)
+    ),
+    roles: [...roles.values()],
+    security,
+  };
+}
+
+/**
+ * Advances id counters past the ids used in a graph, so that elements added by other
+ * clients are not created again under the same id.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param prefix - The prefix of the ids counted, e.g. `e` for events.
+ * @param counter - The free ids, the last one being followed by every greater id.
+ * @returns The free ids, none of them used.
+ */
+export function reserveIds(
+  nodes: Node[],
+  prefix: string,
+  counter: number[]
+): number[] {
+  const used = new Set(
+    nodes
+      .filter((nd) => new RegExp(`^${prefix}\\d+$`).test(nd.id))
+      .map((nd) => Number(nd.id.slice(prefix.length)))
+  );
+  const last = counter[counter.length - 1];
+  const highest = Math.max(last - 1, ...used);
+
+  return [
+    ...counter.slice(0, -1).filter((id) => !used.has(id)),
+    Math.max(last, highest + 1),
+  ];
+}
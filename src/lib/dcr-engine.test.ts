@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { createDCREngine, DCRExecutionError, DCRMarking } from "./dcr-engine";
+import { dcrGraph, dcrRelation } from "@/test/fixtures";
+
+const marking = (
+  included: string[],
+  pending: string[] = [],
+  executed: string[] = []
+): DCRMarking => ({
+  included: new Set(included),
+  pending: new Set(pending),
+  executed: new Set(executed),
+});
+
+const sorted = (set: Set<string>) => [...set].sort();
+
+describe("createDCREngine", () => {
+  it("enables included events only", () => {
+    const engine = createDCREngine(dcrGraph([]));
+
+    expect(engine.enabled(marking(["a", "c"]))).toEqual(["a", "c"]);
+    expect(engine.isEnabled(marking(["a"]), "missing")).toBe(false);
+  });
+
+  it("blocks an event until the included sources of its conditions are executed", () => {
+    const engine = createDCREngine(
+      dcrGraph([dcrRelation("condition", "a", "b")])
+    );
+
+    expect(engine.isEnabled(marking(["a", "b"]), "b")).toBe(false);
+    expect(engine.blockers(marking(["a", "b"]), "b")).toEqual([
+      dcrRelation("condition", "a", "b"),
+    ]);
+    expect(engine.isEnabled(marking(["a", "b"], [], ["a"]), "b")).toBe(true);
+    // An excluded condition does not block
+    expect(engine.isEnabled(marking(["b"]), "b")).toBe(true);
+  });
+
+  it("blocks an event while the included sources of its milestones are pending", () => {
+    const engine = createDCREngine(
+      dcrGraph([dcrRelation("milestone", "a", "b")])
+    );
+
+    expect(engine.isEnabled(marking(["a", "b"], ["a"]), "b")).toBe(false);
+    expect(engine.isEnabled(marking(["a", "b"]), "b")).toBe(true);
+    expect(engine.isEnabled(marking(["b"], ["a"]), "b")).toBe(true);
+  });
+
+  it("executes an event, applying its responses, exclusions and inclusions", () => {
+    const engine = createDCREngine(
+      dcrGraph([
+        dcrRelation("response", "a", "b"),
+        dcrRelation("exclude", "a", "c"),
+        dcrRelation("include", "a", "a"),
+        dcrRelation("exclude", "a", "a"),
+      ])
+    );
+
+    const next = engine.execute(marking(["a", "b", "c"], ["a"]), "a");
+
+    expect(sorted(next.executed)).toEqual(["a"]);
+    expect(sorted(next.pending)).toEqual(["b"]);
+    // Inclusions win over exclusions of the same event
+    expect(sorted(next.included)).toEqual(["a", "b"]);
+  });
+
+  it("leaves the marking executed from unchanged", () => {
+    const engine = createDCREngine(
+      dcrGraph([dcrRelation("response", "a", "b")])
+    );
+    const before = marking(["a", "b"]);
+
+    engine.execute(before, "a");
+
+    expect(before).toEqual(marking(["a", "b"]));
+  });
+
+  it("refuses to execute an event that is not enabled", () => {
+    const engine = createDCREngine(
+      dcrGraph([dcrRelation("condition", "a", "b")])
+    );
+
+    expect(() => engine.execute(marking(["a", "b"]), "b")).toThrow(
+      DCRExecutionError
+    );
+    expect(() => engine.execute(marking(["a"]), "missing")).toThrow(
+      "Event missing is not enabled."
+    );
+  });
+
+  it("expands relations from and to nests to the events inside them", () => {
+    const engine = createDCREngine(
+      dcrGraph(
+        [
+          dcrRelation("condition", "n0", "c"),
+          dcrRelation("response", "c", "n0"),
+        ],
+        {
+          events: [
+            { id: "a", label: "a", parent: "n1" },
+            { id: "b", label: "b", parent: "n0" },
+            { id: "c", label: "c" },
+          ],
+          groups: [
+            { id: "n0", kind: "nest" },
+            { id: "n1", kind: "nest", parent: "n0" },
+          ],
+        }
+      )
+    );
+
+    expect(
+      engine.relations.map((rel) => `${rel.source}>${rel.target}`)
+    ).toEqual(["a>c", "b>c", "c>a", "c>b"]);
+    expect(engine.blockers(marking(["a", "b", "c"], [], ["a"]), "c")).toEqual([
+      { ...dcrRelation("condition", "n0", "c"), source: "b" },
+    ]);
+  });
+
+  it("keeps the subprocess as the target of a spawn", () => {
+    const engine = createDCREngine(
+      dcrGraph([dcrRelation("spawn", "a", "s0")], {
+        events: [
+          { id: "a", label: "a" },
+          { id: "b", label: "b", parent: "s0" },
+        ],
+        groups: [{ id: "s0", kind: "subprocess" }],
+      })
+    );
+
+    expect(engine.effects(marking(["a", "b"]), "a")).toEqual([
+      dcrRelation("spawn", "a", "s0"),
+    ]);
+  });
+
+  it("ignores the relations whose guard does not hold", () => {
+    const engine = createDCREngine(
+      dcrGraph([
+        dcrRelation("condition", "a", "b", "off"),
+        dcrRelation("response", "c", "a", "off"),
+        dcrRelation("response", "c", "b", "on"),
+      ]),
+      { guard: (rel) => rel.guard !== "off" }
+    );
+
+    expect(engine.isEnabled(marking(["a", "b"]), "b")).toBe(true);
+    expect(
+      sorted(engine.execute(marking(["a", "b", "c"]), "c").pending)
+    ).toEqual(["b"]);
+  });
+
+  it("accepts a marking where no included event is pending", () => {
+    const engine = createDCREngine(dcrGraph([]));
+
+    expect(engine.isAccepting(marking(["a"], ["b"]))).toBe(true);
+    expect(engine.isAccepting(marking(["a", "b"], ["b"]))).toBe(false);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Relations of a DCR graph, as in `relationsMap`.
+ */
+export type DCRRelationType =
+  "condition" | "response" | "include" | "exclude" | "milestone" | "spawn";
+
+/**
+ * An event of a DCR graph.
+ *
+ * @property parent - The nest or subprocess the event belongs to, if any.
+ */
+export interface DCREvent {
+  id: string;
+  label: string;
+  parent?: string;
+}
+
+/**
+ * A nest or subprocess grouping events. Relations from or to a group apply to every
+ * event inside it, except spawn relations, which target the subprocess itself.
+ */
+export interface DCRGroup {
+  id: string;
+  kind: "nest" | "subprocess";
+  parent?: string;
+}
+
+/**
+ * A relation between two events or groups.
+ */
+export interface DCRRelation {
+  id: string;
+  type: DCRRelationType;
+  source: string;
+  target: string;
+  guard?: string;
+}
+
+/**
+ * The state of a DCR graph: which events have been executed, are included and are pending.
+ */
+export interface DCRMarking {
+  executed: Set<string>;
+  included: Set<string>;
+  pending: Set<string>;
+}
+
+/**
+ * A DCR graph with its initial marking.
+ */
+export interface DCRGraph {
+  events: DCREvent[];
+  groups: DCRGroup[];
+  relations: DCRRelation[];
+  marking: DCRMarking;
+}
+
+/**
+ * Options of the engine.
+ *
+ * @property guard - Decides whether a (guarded) relation is active. The relation passed
+ *                   is already expanded, i.e. its source and target are events. When
+ *                   omitted every relation is active.
+ */
+export interface DCREngineOptions {
+  guard?: (relation: DCRRelation, marking: DCRMarking) => boolean;
+}
+
+/**
+ * Executes DCR graphs following the standard semantics with nesting.
+ */
+export interface DCREngine {
+  graph: DCRGraph;
+  /** The relations with their nests and subprocesses expanded to the events inside them */
+  relations: DCRRelation[];
+  /** The ids of the events enabled in the marking */
+  enabled(marking: DCRMarking): string[];
+  /** Whether an event is enabled in the marking */
+  isEnabled(marking: DCRMarking, event: string): boolean;
+  /** The active conditions and milestones currently preventing an included event from executing */
+  blockers(marking: DCRMarking, event: string): DCRRelation[];
+  /** The active relations fired by executing an event in the marking */
+  effects(marking: DCRMarking, event: string): DCRRelation[];
+  /** Executes an event, returning the resulting marking */
+  execute(marking: DCRMarking, event: string): DCRMarking;
+  /** Whether no included event is pending */
+  isAccepting(marking: DCRMarking): boolean;
+}
+
+/**
+ * Error raised when executing an event that is unknown or not enabled.
+ */
+export class DCRExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DCRExecutionError";
+  }
+}
+
+/**
+ * Copies a marking, so that it can be changed without affecting the original.
+ */
+export const cloneMarking = (marking: DCRMarking): DCRMarking => ({
+  executed: new Set(marking.executed),
+  included: new Set(marking.included),
+  pending: new Set(marking.pending),
+});
+
+/**
+ * Expands the relations of a graph so that every source and target is an event.
+ */
+function expandRelations(graph: DCRGraph): DCRRelation[] {
+  const eventIds = new Set(graph.events.map((ev) => ev.id));
+  const parents = new Map<string, string | undefined>([
+    ...graph.groups.map((gr): [string, string | undefined] => [
+      gr.id,
+      gr.parent,
+    ]),
+    ...graph.events.map((ev): [string, string | undefined] => [
+      ev.id,
+      ev.parent,
+    ]),
+  ]);
+
+  const isInside = (id: string, group: string) => {
+    let parent = parents.get(id);
+    while (parent) {
+      if (parent === group) return true;
+      parent = parents.get(parent);
+    }
+    return false;
+  };
+
+  const expand = (id: string): string[] =>
+    eventIds.has(id)
+      ? [id]
+      : graph.events.filter((ev) => isInside(ev.id, id)).map((ev) => ev.id);
+
+  return graph.relations.flatMap((rel) =>
+    expand(rel.source).flatMap((source) =>
+      (rel.type === "spawn" ? [rel.target] : expand(rel.target)).map(
+        (target) => ({ ...rel, source, target })
+      )
+    )
+  );
+}
+
+/**
+ * Creates an engine executing the given graph.
+ *
+ * An event is enabled when it is included, every included source of a condition to it
+ * has been executed and no included source of a milestone to it is pending. Executing
+ * an event marks it as executed and not pending, then applies its responses, exclusions
+ * and inclusions (inclusions win over exclusions of the same event).
+ *
+ * @param graph - The graph to execute.
+ * @param options - The engine options.
+ * @returns The engine.
+ */
+export function createDCREngine(
+  graph: DCRGraph,
+  options: DCREngineOptions = {}
+): DCREngine {
+  const relations = expandRelations(graph);
+  const eventIds = new Set(graph.events.map((ev) => ev.id));
+  const active = (rel: DCRRelation, marking: DCRMarking) =>
+    !options.guard || options.guard(rel, marking);
+
+  const blockers = (marking: DCRMarking, event: string) =>
+    relations.filter(
+      (rel) =>
+        rel.target === event &&
+        marking.included.has(rel.source) &&
+        ((rel.type === "condition" && !marking.executed.has(rel.source)) ||
+          (rel.type === "milestone" && marking.pending.has(rel.source))) &&
+        active(rel, marking)
+    );
+
+  const isEnabled = (marking: DCRMarking, event: string) =>
+    eventIds.has(event) &&
+    marking.included.has(event) &&
+    blockers(marking, event).length === 0;
+
+  const effects = (marking: DCRMarking, event: string) =>
+    relations.filter(
+      (rel) =>
+        rel.source === event &&
+        rel.type !== "condition" &&
+        rel.type !== "milestone" &&
+        active(rel, marking)
+    );
+
+  return {
+    graph,
+    relations,
+    enabled: (marking) =>
+      graph.events.map((ev) => ev.id).filter((id) => isEnabled(marking, id)),
+    isEnabled,
+    blockers,
+    effects,
+    execute(marking, event) {
+      if (!isEnabled(marking, event))
+        throw new DCRExecutionError(`Event ${event} is not enabled.`);
+
+      const next = cloneMarking(marking);
+      next.executed.add(event);
+      next.pending.delete(event);
+
+      const fired = effects(next, event);
+      fired
+        .filter((rel) => rel.type === "response")
+        .forEach((rel) => next.pending.add(rel.target));
+      fired
+        .filter((rel) => rel.type === "exclude")
+        .forEach((rel) => next.included.delete(rel.target));
+      fired
+        .filter((rel) => rel.type === "include")
+        .forEach((rel) => next.included.add(rel.target));
+
+      return next;
+    },
+    isAccepting: (marking) =>
+      graph.events.every(
+        (ev) => !(marking.included.has(ev.id) && marking.pending.has(ev.id))
+      ),
+  };
+}
@@ -0,0 +1,148 @@
+import type { Edge, Node } from "@xyflow/react";
+import { MarkingType, SimulationMarkingType } from "./types";
+import { DCRGraph, DCRMarking, DCRRelationType } from "./dcr-engine";
+
+/**
+ * Returns the chain of ancestor ids of a node, closest first, ending with the root ("").
+ */
+export const getAncestors = (nodes: Node[], node: Node): string[] => {
+  const ancestors: string[] = [];
+  let parentId = node.parentId;
+
+  while (parentId) {
+    ancestors.push(parentId);
+    parentId = nodes.find((nd) => nd.id === parentId)?.parentId;
+  }
+
+  return [...ancestors, ""];
+};
+
+/**
+ * Checks whether a node is a subprocess template, i.e. a subprocess of the model that
+ * is only instantiated when one of its spawn relations fires.
+ */
+export const isTemplate = (node: Node): boolean =>
+  node.type === "subprocess" && node.data.instance === undefined;
+
+/**
+ * Checks whether a node lies inside a subprocess template, and is therefore not part
+ * of the running graph.
+ */
+export const isInsideTemplate = (nodes: Node[], node: Node): boolean =>
+  getAncestors(nodes, node).some((id) => {
+    const ancestor = nodes.find((nd) => nd.id === id);
+    return !!ancestor && isTemplate(ancestor);
+  });
+
+/**
+ * Returns the events a relation endpoint stands for: the event itself, or every event
+ * inside a nest or subprocess.
+ */
+export const endpointEvents = (nodes: Node[], id: string): Node[] => {
+  const node = nodes.find((nd) => nd.id === id);
+  if (!node) return [];
+  if (node.type === "event") return [node];
+
+  return nodes
+    .filter((nd) => nd.parentId === id)
+    .flatMap((nd) => endpointEvents(nodes, nd.id));
+};
+
+/**
+ * Builds the DCR graph of the editor nodes and edges.
+ *
+ * Events inside subprocess templates are left out, as they only take part in the
+ * execution once an instance of the template is spawned. The initial marking is read
+ * from the marking of each event.
+ *
+ * @param nodes - The React Flow nodes.
+ * @param edges - The React Flow edges.
+ * @returns The DCR graph.
+ */
+export function buildDCRGraph(nodes: Node[], edges: Edge[]): DCRGraph {
+  const live = nodes.filter((nd) => !isInsideTemplate(nodes, nd));
+  const events = live.filter((nd) => nd.type === "event");
+  const ids = new Set(live.map((nd) => nd.id));
+
+  return {
+    events: events.map((nd) => ({
+      id: nd.id,
+      label: nd.data.label as string,
+      parent: nd.parentId,
+    })),
+    groups: live
+      .filter((nd) => nd.type === "nest" || nd.type === "subprocess")
+      .map((nd) => ({
+        id: nd.id,
+        kind: nd.type as "nest" | "subprocess",
+        parent: nd.parentId,
+      })),
+    relations: edges
+      .filter(
+        (ed) =>
+          ids.has(ed.source) && (ids.has(ed.target) || ed.type === "spawn")
+      )
+      .map((ed) => ({
+        id: ed.id,
+        type: ed.type as DCRRelationType,
+        source: ed.source,
+        target: ed.target,
+        guard: (ed.data?.guard as string | undefined) || undefined,
+      })),
+    marking: markingFromNodes(nodes),
+  };
+}
+
+/**
+ * Reads the marking of the given event nodes. Events inside subprocess templates are
+ * left out.
+ */
+export function markingFromNodes(nodes: Node[]): DCRMarking {
+  const marking: DCRMarking = {
+    executed: new Set(),
+    included: new Set(),
+    pending: new Set(),
+  };
+
+  nodes
+    .filter((nd) => nd.type === "event" && !isInsideTemplate(nodes, nd))
+    .forEach((nd) => {
+      const { included, pending, executed } = nd.data
+        .marking as SimulationMarkingType;
+      if (executed) marking.executed.add(nd.id);
+      if (included) marking.included.add(nd.id);
+      if (pending) marking.pending.add(nd.id);
+    });
+
+  return marking;
+}
+
+/**
+ * Writes a marking back into the event nodes, along with which events are enabled.
+ * Events inside subprocess templates are left untouched.
+ */
+export function applyMarking(
+  nodes: Node[],
+  marking: DCRMarking,
+  enabled: string[]
+): Node[] {
+  const enabledSet = new Set(enabled);
+
+  return nodes.map((nd) =>
+    nd.type !== "event" || isInsideTemplate(nodes, nd)
+      ? nd
+      : {
+          ...nd,
+          data: {
+            ...nd.data,
+            marking: {
+              ...(nd.data.marking as MarkingType),
+              included: marking.included.has(nd.id),
+              pending: marking.pending.has(nd.id),
+              executed: marking.executed.has(nd.id),
+              executable: enabledSet.has(nd.id),
+            },
+          },
+        }
+  );
+}
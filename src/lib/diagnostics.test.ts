@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { diagnose } from "./diagnostics";
+import { examplePrograms } from "@/test/fixtures";
+
+/**
+ * A program with the given roles and events, the lattice `Public flows Secret`.
+ */
+const program = (roles: string, process: string) =>
+  `${roles}\n;\nPublic flows Secret\n;\n${process}`;
+
+const messages = (code: string) => diagnose(code).map((error) => error.message);
+
+describe("diagnose", () => {
+  it.each(examplePrograms())("finds no error in the example %s", (_, code) => {
+    expect(diagnose(code)).toEqual([]);
+  });
+
+  it("reports syntax errors where they are", () => {
+    expect(diagnose(program("P", "(e0:a) (Public) [?] [P] e0"))).toEqual([
+      {
+        message: "Expected an event or ';' but found 'e0'.",
+        location: {
+          from: { line: 5, column: 25 },
+          to: { line: 5, column: 27 },
+        },
+      },
+    ]);
+  });
+
+  it("reports unknown roles, parameters and types", () => {
+    const code = program(
+      "P(id: Integer; at: Date)\nP",
+      `(e0:a) (Public) [?: Float] [P(name='a') -> Q]
+(e1:b) (Public) [?: {x: Integer; y: Date}] [P]`
+    );
+
+    expect(messages(code)).toEqual([
+      "Unknown parameter type Date.",
+      "Role P is declared twice.",
+      "Unknown input type Float.",
+      "Role P has no parameter name.",
+      "Unknown role Q.",
+      "Unknown type Date for field y.",
+    ]);
+  });
+
+  it("reports undefined events and duplicate labels", () => {
+    const code = program(
+      "P",
+      `(e0:a) (Public) [?] [@Initiator(e9)]
+(e0:b) (Public) [?] [P]
+;
+e0 -->* e8`
+    );
+
+    expect(messages(code)).toEqual([
+      "Duplicate event label e0.",
+      "Undefined event e9.",
+      "Undefined event e8.",
+    ]);
+  });
+
+  it("sees the events of the enclosing processes from a spawned one", () => {
+    const code = program(
+      "P",
+      `(e0:a) (Public) [?] [P]
+;
+e0 -->> {
+  (e1:b) (Public) [?] [@Receiver(e0)]
+  ;
+  e1 -->* e0
+}
+e1 -->* e0`
+    );
+
+    expect(diagnose(code)).toMatchObject([
+      { message: "Undefined event e1.", location: { from: { line: 12 } } },
+    ]);
+  });
+
+  it("reports undeclared security levels, but accepts roles and expressions", () => {
+    const code = program(
+      "P",
+      `(e0:a) (Top) [?] [P]
+(e1:b) (P) [?] [P]
+(e2:c) (Secret) [?] [P]
+(e3:d) (Public + e0) [?] [P]`
+    );
+
+    expect(messages(code)).toEqual(["Undeclared security level Top."]);
+  });
+});
@@ -0,0 +1,146 @@
+import { simpleInputTypes, StackTraceElement } from "./types";
+import {
+  EventRef,
+  ParseError,
+  parseProgram,
+  Participant,
+  ProcessDecl,
+  Program,
+  RoleDecl,
+  SourceLocation,
+} from "./tardisdcr-parser";
+
+/**
+ * The labels of the events visible from a process: its own and those of the processes
+ * enclosing it.
+ */
+interface Scope {
+  events: Set<string>;
+  parent?: Scope;
+}
+
+const isVisible = (label: string, scope: Scope): boolean => {
+  for (let sc: Scope | undefined = scope; sc; sc = sc.parent)
+    if (sc.events.has(label)) return true;
+  return false;
+};
+
+/**
+ * Checks `.tardisdcr` code without compiling it, reporting syntax errors and the
+ * following semantic errors: unknown roles and role parameters, relations to undefined
+ * events, duplicate event labels in a process, unsupported input types and undeclared
+ * security levels.
+ *
+ * The errors have the shape of the compiler's stack trace, so that they are displayed
+ * the same way.
+ *
+ * @param code - The code to check.
+ * @returns The errors found, empty if the code is valid.
+ */
+export function diagnose(code: string): StackTraceElement[] {
+  let program: Program;
+  try {
+    program = parseProgram(code);
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    return [{ message: error.message, location: error.location }];
+  }
+
+  const errors: StackTraceElement[] = [];
+  const report = (message: string, location: SourceLocation) =>
+    errors.push({ message, location });
+
+  const roles = new Map<string, RoleDecl>();
+  program.roles.forEach((role) => {
+    if (roles.has(role.label))
+      report(`Role ${role.label} is declared twice.`, role.location);
+    roles.set(role.label, role);
+
+    role.params
+      .filter((param) => !simpleInputTypes.includes(param.type))
+      .forEach((param) =>
+        report(`Unknown parameter type ${param.type}.`, param.location)
+      );
+  });
+
+  // Roles are security levels too, e.g. `Public flows P`
+  const levels = new Set([...program.lattice.levels, ...roles.keys()]);
+
+  const checkRef = (ref: EventRef, scope: Scope) => {
+    if (!isVisible(ref.label, scope))
+      report(`Undefined event ${ref.label}.`, ref.location);
+  };
+
+  const checkParticipant = (participant: Participant, scope: Scope) => {
+    if (participant.kind !== "role") {
+      if (!isVisible(participant.event, scope))
+        report(`Undefined event ${participant.event}.`, participant.location);
+      return;
+    }
+
+    const role = roles.get(participant.role);
+    if (!role) {
+      report(`Unknown role ${participant.role}.`, participant.location);
+      return;
+    }
+
+    participant.params
+      .filter((param) => !role.params.some((rp) => rp.name === param.name))
+      .forEach((param) =>
+        report(
+          `Role ${role.label} has no parameter ${param.name}.`,
+          participant.location
+        )
+      );
+  };
+
+  const checkProcess = (process: ProcessDecl, parent?: Scope) => {
+    const scope: Scope = { events: new Set(), parent };
+
+    process.events.forEach((event) => {
+      if (scope.events.has(event.label))
+        report(`Duplicate event label ${event.label}.`, event.location);
+      scope.events.add(event.label);
+    });
+
+    process.events.forEach((event) => {
+      const input = event.input;
+      if (input && "record" in input)
+        input.record
+          .filter((field) => !simpleInputTypes.includes(field.type))
+          .forEach((field) =>
+            report(
+              `Unknown type ${field.type} for field ${field.var}.`,
+              event.location
+            )
+          );
+      else if (
+        input &&
+        input.type !== "Unit" &&
+        !simpleInputTypes.includes(input.type)
+      )
+        report(`Unknown input type ${input.type}.`, event.location);
+
+      if (/^[A-Za-z_]\w*$/.test(event.security) && !levels.has(event.security))
+        report(`Undeclared security level ${event.security}.`, event.location);
+
+      [...event.initiators, ...event.receivers].forEach((participant) =>
+        checkParticipant(participant, scope)
+      );
+    });
+
+    process.relations.forEach((relation) => {
+      if (relation.kind === "spawn") {
+        checkRef(relation.trigger, scope);
+        checkProcess(relation.process, scope);
+      } else
+        [...relation.sources, ...relation.targets].forEach((ref) =>
+          checkRef(ref, scope)
+        );
+    });
+  };
+
+  checkProcess(program.process);
+
+  return errors;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { Node } from "@xyflow/react";
+import { Change, DiffError, diffGraphs, pickChange } from "./diff";
+import { EventType, State } from "./types";
+import {
+  eventNode,
+  exampleStates,
+  relationEdge,
+  subgraphNode,
+} from "@/test/fixtures";
+
+const state = (partial: Partial<State>): State => ({
+  nodes: [],
+  edges: [],
+  roles: [],
+  security: "",
+  code: "",
+  nextNodeId: [0],
+  nextGroupId: [0],
+  nextSubprocessId: [0],
+  ...partial,
+});
+
+// Events are named after their label, their id being different in each version
+const event = (
+  id: string,
+  label: string,
+  data: Partial<EventType> = {},
+  node: Partial<Node> = {}
+) => eventNode(id, { label, name: label, ...data }, node);
+
+const summary = (changes: Change[]) =>
+  changes.map((change) => `${change.kind} ${change.label}`);
+
+const ours = state({
+  nodes: [
+    event("e0", "a"),
+    event("e1", "b", { marking: { included: true, pending: false } }),
+    event("e2", "c"),
+  ],
+  edges: [
+    relationEdge("condition", "e0", "e1", "x > 1"),
+    relationEdge("response", "e0", "e2"),
+  ],
+  roles: [{ role: "P", label: "P", types: [] }],
+  nextNodeId: [3],
+});
+const theirs = state({
+  nodes: [
+    event("e5", "b", { marking: { included: false, pending: true } }),
+    event("e6", "a", { input: { type: "Integer" } }),
+    subgraphNode("n0", "nest", { position: { x: 100, y: 50 } }),
+    event("e7", "d", {}, { parentId: "n0", position: { x: 5, y: 5 } }),
+  ],
+  edges: [
+    relationEdge("condition", "e6", "e5", "x > 2"),
+    relationEdge("include", "e7", "e6"),
+  ],
+  roles: [{ role: "P", label: "P", types: [{ var: "id", type: "Integer" }] }],
+});
+
+describe("diffGraphs", () => {
+  it.each(exampleStates())("finds no difference in the %s example", (_, s) => {
+    expect(diffGraphs(s, s)).toEqual([]);
+  });
+
+  it("matches events by label and relations by endpoint labels", () => {
+    expect(summary(diffGraphs(ours, theirs))).toEqual([
+      "changed Event a",
+      "changed Event b",
+      "removed Event c",
+      "added Event d",
+      "changed Condition a → b",
+      "removed Response a → c",
+      "added Include d → a",
+      "changed Role P",
+    ]);
+  });
+
+  it("lists the marking, input, guard and role differences", () => {
+    const details = Object.fromEntries(
+      diffGraphs(ours, theirs).map((change) => [change.label, change.details])
+    );
+
+    expect(details["Event a"]).toEqual(["input: Unit → Integer"]);
+    expect(details["Event b"]).toEqual([
+      "marking: included, not pending → excluded, pending",
+    ]);
+    expect(details["Condition a → b"]).toEqual(["guard: x > 1 → x > 2"]);
+    expect(details["Role P"]).toEqual(["parameters: none → id: Integer"]);
+  });
+});
+
+describe("pickChange", () => {
+  const change = (label: string) =>
+    diffGraphs(ours, theirs).find((c) => c.label === label)!;
+
+  it("adds events under a new id, outside nests missing here", () => {
+    const picked = pickChange(ours, theirs, change("Event d"));
+
+    expect(picked.nodes.at(-1)).toMatchObject({
+      id: "e3",
+      parentId: "",
+      position: { x: 105, y: 55 },
+      data: { label: "d" },
+    });
+    expect(picked.nextNodeId).toEqual([4]);
+  });
+
+  it("removes events with their relations", () => {
+    const picked = pickChange(ours, theirs, change("Event c"));
+
+    expect(picked.nodes.map((nd) => nd.id)).toEqual(["e0", "e1"]);
+    expect(picked.edges.map((ed) => ed.id)).toEqual(["c-e0-e1"]);
+  });
+
+  it("needs the endpoints of a relation before adding it", () => {
+    expect(() => pickChange(ours, theirs, change("Include d → a"))).toThrow(
+      DiffError
+    );
+
+    const withD = { ...ours, ...pickChange(ours, theirs, change("Event d")) };
+    const picked = pickChange(withD, theirs, change("Include d → a"));
+    expect(picked.edges.at(-1)).toMatchObject({
+      id: "i-e3-e0",
+      source: "e3",
+      target: "e0",
+    });
+  });
+
+  it("makes the current graph match the compared version once every change is picked", () => {
+    let current = ours;
+    for (const element of ["event", "relation", "role"])
+      diffGraphs(current, theirs)
+        .filter((c) => c.element === element)
+        .forEach((c) => {
+          current = { ...current, ...pickChange(current, theirs, c) };
+        });
+
+    expect(diffGraphs(current, theirs)).toEqual([]);
+  });
+});
@@ -0,0 +1,385 @@
+import type { Edge, Node, XYPosition } from "@xyflow/react";
+import type { InputType, MarkingType, SimpleRole, State } from "./types";
+
+/**
+ * What the compared version does to an element of the current graph: adds it, removes
+ * it or changes it.
+ */
+export type ChangeKind = "added" | "removed" | "changed";
+
+/**
+ * A difference between the current graph and the version it is compared with, seen as a
+ * change the compared version makes.
+ *
+ * @property key - Identifies the element in both versions: events are matched by label,
+ *                 relations by type and endpoint labels, roles by name.
+ * @property element - The kind of element.
+ * @property kind - Whether the element is added, removed or changed.
+ * @property label - A readable name of the element, e.g. `Condition a → b`.
+ * @property details - The aspects changed, e.g. `guard: x > 1 → x > 2`.
+ * @property ours - The id of the element in the current graph, unless it is added.
+ * @property theirs - The id of the element in the compared version, unless it is removed.
+ */
+export interface Change {
+  key: string;
+  element: "event" | "relation" | "role";
+  kind: ChangeKind;
+  label: string;
+  details: string[];
+  ours?: string;
+  theirs?: string;
+}
+
+/**
+ * The part of a choreography compared: its graph and roles.
+ */
+export type DiffGraph = Pick<State, "nodes" | "edges" | "roles">;
+
+/**
+ * Error raised when a change cannot be picked into the current graph.
+ */
+export class DiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DiffError";
+  }
+}
+
+const RELATION_NAMES: Record<string, string> = {
+  condition: "Condition",
+  response: "Response",
+  include: "Include",
+  exclude: "Exclude",
+  milestone: "Milestone",
+  spawn: "Spawn",
+};
+
+const labelOf = (node: Node) => (node.data.label as string) ?? node.id;
+
+/**
+ * Keys the events of a graph by label, a label used again being numbered.
+ */
+const eventsByKey = (nodes: Node[]): Map<string, Node> => {
+  const seen = new Map<string, number>();
+  return new Map(
+    nodes
+      .filter((nd) => nd.type === "event")
+      .map((nd) => {
+        const count = (seen.get(labelOf(nd)) ?? 0) + 1;
+        seen.set(labelOf(nd), count);
+        const suffix = count > 1 ? `#${count}` : "";
+        return [`event:${labelOf(nd)}${suffix}`, nd];
+      })
+  );
+};
+
+const relationKey = (edge: Edge, byId: Map<string, Node>) => {
+  const source = byId.get(edge.source);
+  const target = byId.get(edge.target);
+  return `relation:${edge.type}:${source ? labelOf(source) : edge.source}->${
+    target ? labelOf(target) : edge.target
+  }`;
+};
+
+/**
+ * Keys the relations of a graph by type and endpoint labels.
+ */
+const relationsByKey = (nodes: Node[], edges: Edge[]): Map<string, Edge> => {
+  const byId = new Map(nodes.map((nd) => [nd.id, nd]));
+  return new Map(edges.map((ed) => [relationKey(ed, byId), ed]));
+};
+
+const relationLabel = (key: string) => {
+  const [, type, endpoints] = key.match(/^relation:(\w+):(.*)$/)!;
+  return `${RELATION_NAMES[type] ?? type} ${endpoints.replace("->", " → ")}`;
+};
+
+const formatMarking = (marking?: MarkingType) =>
+  marking
+    ? `${marking.included ? "included" : "excluded"}, ${
+        marking.pending ? "pending" : "not pending"
+      }`
+    : "none";
+
+const formatInput = (input?: InputType) =>
+  !input
+    ? "none"
+    : "record" in input
+      ? `{${input.record.map((field) => `${field.var}: ${field.type}`).join(", ")}}`
+      : input.type;
+
+const formatList = (list?: string[]) =>
+  list && list.length > 0 ? list.join(", ") : "none";
+
+/**
+ * Lists the aspects of an element that differ, as `aspect: ours → theirs`.
+ */
+const compareAspects = (
+  aspects: [string, (value: Record<string, unknown>) => string][],
+  ours: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): string[] =>
+  aspects
+    .map(([aspect, format]) => [aspect, format(ours), format(theirs)])
+    .filter(([, before, after]) => before !== after)
+    .map(([aspect, before, after]) => `${aspect}: ${before} → ${after}`);
+
+const EVENT_ASPECTS: [string, (data: Record<string, unknown>) => string][] = [
+  ["name", (data) => (data.name as string) || "none"],
+  ["type", (data) => (data.type === "c" ? "computation" : "input")],
+  ["marking", (data) => formatMarking(data.marking as MarkingType)],
+  [
+    "input",
+    (data) =>
+      data.type === "c" ? "none" : formatInput(data.input as InputType),
+  ],
+  [
+    "expression",
+    (data) =>
+      data.type === "c" ? (data.expression as string) || "none" : "none",
+  ],
+  ["initiators", (data) => formatList(data.initiators as string[])],
+  ["receivers", (data) => formatList(data.receivers as string[])],
+  ["security", (data) => (data.security as string) || "none"],
+];
+
+const RELATION_ASPECTS: [string, (data: Record<string, unknown>) => string][] =
+  [["guard", (data) => (data.guard as string) || "none"]];
+
+const ROLE_ASPECTS: [string, (role: Record<string, unknown>) => string][] = [
+  ["label", (role) => role.label as string],
+  [
+    "parameters",
+    (role) =>
+      formatList(
+        (role.types as SimpleRole["types"]).map((p) => `${p.var}: ${p.type}`)
+      ),
+  ],
+];
+
+/**
+ * Compares elements keyed the same way in both versions.
+ */
+function compareElements<T extends object>(
+  element: Change["element"],
+  ours: Map<string, T>,
+  theirs: Map<string, T>,
+  label: (key: string) => string,
+  aspects: (element: T) => Record<string, unknown>,
+  compared: [string, (value: Record<string, unknown>) => string][]
+): Change[] {
+  const changes: Change[] = [];
+  // Roles have no id: they are picked by key
+  const idOf = (value: T) => (value as { id?: string }).id;
+
+  ours.forEach((value, key) => {
+    const other = theirs.get(key);
+    if (!other)
+      changes.push({
+        key,
+        element,
+        kind: "removed",
+        label: label(key),
+        details: [],
+        ours: idOf(value),
+      });
+    else {
+      const details = compareAspects(compared, aspects(value), aspects(other));
+      if (details.length > 0)
+        changes.push({
+          key,
+          element,
+          kind: "changed",
+          label: label(key),
+          details,
+          ours: idOf(value),
+          theirs: idOf(other),
+        });
+    }
+  });
+  theirs.forEach((value, key) => {
+    if (!ours.has(key))
+      changes.push({
+        key,
+        element,
+        kind: "added",
+        label: label(key),
+        details: [],
+        theirs: idOf(value),
+      });
+  });
+
+  return changes;
+}
+
+/**
+ * Compares the current graph with another version of the choreography, e.g. an earlier
+ * save or a variant, listing what the other version adds, removes and changes.
+ *
+ * Events are matched by label, relations by type and the labels of their endpoints, and
+ * roles by name. Events differ in their name, type, marking, input, expression,
+ * participants or security level, relations in their guard and roles in their label or
+ * parameters. Positions are not compared.
+ *
+ * @param ours - The current graph.
+ * @param theirs - The version compared with.
+ * @returns The changes, events first, then relations and roles.
+ */
+export function diffGraphs(ours: DiffGraph, theirs: DiffGraph): Change[] {
+  return [
+    ...compareElements(
+      "event",
+      eventsByKey(ours.nodes),
+      eventsByKey(theirs.nodes),
+      (key) => `Event ${key.slice("event:".length)}`,
+      (node: Node) => node.data,
+      EVENT_ASPECTS
+    ),
+    ...compareElements(
+      "relation",
+      relationsByKey(ours.nodes, ours.edges),
+      relationsByKey(theirs.nodes, theirs.edges),
+      relationLabel,
+      (edge: Edge) => edge.data ?? {},
+      RELATION_ASPECTS
+    ),
+    ...compareElements(
+      "role",
+      new Map(ours.roles.map((role) => [`role:${role.role}`, role])),
+      new Map(theirs.roles.map((role) => [`role:${role.role}`, role])),
+      (key) => `Role ${key.slice("role:".length)}`,
+      (role: SimpleRole) => ({ ...role }),
+      ROLE_ASPECTS
+    ),
+  ];
+}
+
+/**
+ * Returns the position of a node on the canvas, adding up the positions of its parents.
+ */
+export function absolutePosition(nodes: Node[], node: Node): XYPosition {
+  const parent = node.parentId
+    ? nodes.find((nd) => nd.id === node.parentId)
+    : undefined;
+  if (!parent) return node.position;
+
+  const offset = absolutePosition(nodes, parent);
+  return { x: offset.x + node.position.x, y: offset.y + node.position.y };
+}
+
+/**
+ * Finds the node of the current graph matching a node of the compared version: an event
+ * with the same key, or a nest or subprocess with the same type and label.
+ */
+const matchNode = (ours: Node[], theirs: Node[], node: Node) => {
+  if (node.type === "event") {
+    const key = [...eventsByKey(theirs)].find(([, nd]) => nd === node)?.[0];
+    return key ? eventsByKey(ours).get(key) : undefined;
+  }
+  return ours.find(
+    (nd) => nd.type === node.type && labelOf(nd) === labelOf(node)
+  );
+};
+
+/**
+ * Applies a change of the compared version to the current graph: the element is added,
+ * removed or made the same as in the compared version.
+ *
+ * An event added keeps its position, inside the nest or subprocess of the same label if
+ * there is one, under a new id. A relation can only be added once both its endpoints are
+ * in the current graph, and removing an event removes its relations.
+ *
+ * @param ours - The current choreography.
+ * @param theirs - The version compared with.
+ * @param change - The change to apply, as listed by `diffGraphs`.
+ * @param suffix - The suffix of the id of an event added, set by collaborating clients.
+ * @returns The graph, roles and event id counter of the current choreography, updated.
+ * @throws {DiffError} If a relation is added before one of its endpoints.
+ */
+export function pickChange(
+  ours: State,
+  theirs: DiffGraph,
+  change: Change,
+  suffix = ""
+): Pick<State, "nodes" | "edges" | "roles" | "nextNodeId"> {
+  let { nodes, edges, roles, nextNodeId } = ours;
+  const theirNode = theirs.nodes.find((nd) => nd.id === change.theirs);
+  const theirEdge = theirs.edges.find((ed) => ed.id === change.theirs);
+
+  if (change.element === "event") {
+    if (change.kind === "removed") {
+      nodes = nodes.filter((nd) => nd.id !== change.ours);
+      edges = edges.filter(
+        (ed) => ed.source !== change.ours && ed.target !== change.ours
+      );
+    } else if (change.kind === "changed" && theirNode)
+      nodes = nodes.map((nd) =>
+        nd.id === change.ours
+          ? { ...nd, data: { ...theirNode.data, label: nd.data.label } }
+          : nd
+      );
+    else if (theirNode) {
+      const id = `e${nextNodeId[0]}${suffix}`;
+      const rest = nextNodeId.slice(1);
+      nextNodeId = rest.length === 0 ? [nextNodeId[0] + 1] : rest;
+
+      const theirParent = theirs.nodes.find(
+        (nd) => nd.id === theirNode.parentId
+      );
+      const parent = theirParent
+        ? matchNode(nodes, theirs.nodes, theirParent)
+        : undefined;
+      nodes = [
+        ...nodes,
+        {
+          ...theirNode,
+          id,
+          selected: false,
+          parentId: parent ? parent.id : "",
+          position: parent
+            ? theirNode.position
+            : absolutePosition(theirs.nodes, theirNode),
+        },
+      ];
+    }
+  } else if (change.element === "relation") {
+    if (change.kind === "removed")
+      edges = edges.filter((ed) => ed.id !== change.ours);
+    else if (change.kind === "changed" && theirEdge)
+      edges = edges.map((ed) =>
+        ed.id === change.ours ? { ...ed, data: { ...theirEdge.data } } : ed
+      );
+    else if (theirEdge) {
+      const [source, target] = [theirEdge.source, theirEdge.target].map(
+        (endpoint) => {
+          const node = theirs.nodes.find((nd) => nd.id === endpoint);
+          return node ? matchNode(nodes, theirs.nodes, node) : undefined;
+        }
+      );
+      if (!source || !target)
+        throw new DiffError(`Pick the endpoints of ${change.label} first.`);
+
+      edges = [
+        ...edges,
+        {
+          ...theirEdge,
+          id: `${theirEdge.type!.charAt(0)}-${source.id}-${target.id}`,
+          source: source.id,
+          target: target.id,
+          selected: false,
+        },
+      ];
+    }
+  } else {
+    const name = change.key.slice("role:".length);
+    const role = theirs.roles.find((r) => r.role === name);
+    roles =
+      change.kind === "removed" || !role
+        ? roles.filter((r) => r.role !== name)
+        : change.kind === "changed"
+          ? roles.map((r) => (r.role === name ? role : r))
+          : [...roles, role];
+  }
+
+  return { nodes, edges, roles, nextNodeId };
+}
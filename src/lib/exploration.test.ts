@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createDCREngine, DCRRelation } from "./dcr-engine";
+import { createRandom, exploreMarkings } from "./exploration";
+import { dcrGraph, dcrRelation } from "@/test/fixtures";
+
+const explore = (relations: DCRRelation[], maxStates = 100) => {
+  const engine = createDCREngine(dcrGraph(relations));
+  return exploreMarkings(engine, engine.graph.marking, maxStates);
+};
+
+describe("createRandom", () => {
+  it("repeats the same numbers for the same seed", () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const numbers = Array.from({ length: 5 }, first);
+
+    expect(Array.from({ length: 5 }, second)).toEqual(numbers);
+    expect(numbers.every((n) => n >= 0 && n < 1)).toBe(true);
+    expect(Array.from({ length: 5 }, createRandom(43))).not.toEqual(numbers);
+  });
+});
+
+describe("exploreMarkings", () => {
+  it("visits every reachable marking once", () => {
+    const result = explore([]);
+
+    // Each subset of the events may have been executed
+    expect(result).toEqual({
+      states: 8,
+      complete: true,
+      deadlocks: [],
+      neverExecuted: [],
+    });
+  });
+
+  it("finds the deadlocks with the path reaching them", () => {
+    // b and c wait for each other, and a makes b pending
+    const result = explore([
+      dcrRelation("response", "a", "b"),
+      dcrRelation("exclude", "a", "a"),
+      dcrRelation("condition", "b", "c"),
+      dcrRelation("condition", "c", "b"),
+    ]);
+
+    expect(result.states).toBe(2);
+    expect(result.deadlocks).toEqual([{ path: ["a"], pending: ["b"] }]);
+    expect(result.neverExecuted).toEqual(["b", "c"]);
+  });
+
+  it("does not report excluded pending events as deadlocks", () => {
+    const result = explore([
+      dcrRelation("response", "a", "b"),
+      dcrRelation("exclude", "a", "a"),
+      dcrRelation("exclude", "a", "b"),
+      dcrRelation("exclude", "a", "c"),
+    ]);
+
+    expect(result.deadlocks).toEqual([]);
+  });
+
+  it("stops at the bound, telling the exploration is incomplete", () => {
+    const result = explore([], 3);
+
+    expect(result.states).toBe(3);
+    expect(result.complete).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { DCREngine, DCRMarking } from "./dcr-engine";
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so that random runs can
+ * be reproduced.
+ *
+ * @param seed - The seed of the generator.
+ * @returns A function returning numbers in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A reachable marking in which nothing can be executed although some included event is
+ * still pending.
+ *
+ * @property path - The events executed to reach the marking, from the start marking.
+ * @property pending - The included pending events of the marking.
+ */
+export interface Deadlock {
+  path: string[];
+  pending: string[];
+}
+
+/**
+ * Result of exploring the reachable markings of a graph.
+ *
+ * @property states - The number of distinct markings visited.
+ * @property complete - Whether every reachable marking was visited within the bound.
+ * @property deadlocks - The deadlocked markings found.
+ * @property neverExecuted - The events not enabled in any visited marking.
+ */
+export interface ExplorationResult {
+  states: number;
+  complete: boolean;
+  deadlocks: Deadlock[];
+  neverExecuted: string[];
+}
+
+/**
+ * Identifies a marking by the content of its sets.
+ */
+const markingKey = (marking: DCRMarking) =>
+  [marking.executed, marking.included, marking.pending]
+    .map((set) => [...set].sort().join(","))
+    .join("|");
+
+/**
+ * Explores the markings reachable from a marking, breadth first.
+ *
+ * The engine decides which relations are active, so guards are usually treated as
+ * holding by passing an engine without a guard evaluator. Spawned subprocess instances
+ * are not explored.
+ *
+ * @param engine - The engine of the graph.
+ * @param start - The marking to start from.
+ * @param maxStates - The maximum number of markings to visit.
+ * @returns The exploration result.
+ */
+export function exploreMarkings(
+  engine: DCREngine,
+  start: DCRMarking,
+  maxStates: number
+): ExplorationResult {
+  const visited = new Set([markingKey(start)]);
+  const queue: { marking: DCRMarking; path: string[] }[] = [
+    { marking: start, path: [] },
+  ];
+  const everEnabled = new Set<string>();
+  const deadlocks: Deadlock[] = [];
+  let complete = true;
+
+  while (queue.length > 0) {
+    const { marking, path } = queue.shift()!;
+    const enabled = engine.enabled(marking);
+    enabled.forEach((id) => everEnabled.add(id));
+
+    if (enabled.length === 0 && !engine.isAccepting(marking))
+      deadlocks.push({
+        path,
+        pending: [...marking.pending].filter((id) => marking.included.has(id)),
+      });
+
+    for (const id of enabled) {
+      const next = engine.execute(marking, id);
+      const key = markingKey(next);
+      if (visited.has(key)) continue;
+
+      if (visited.size >= maxStates) {
+        complete = false;
+        continue;
+      }
+
+      visited.add(key);
+      queue.push({ marking: next, path: [...path, id] });
+    }
+  }
+
+  return {
+    states: visited.size,
+    complete,
+    deadlocks,
+    neverExecuted: engine.graph.events
+      .map((ev) => ev.id)
+      .filter((id) => !everEnabled.has(id)),
+  };
+}
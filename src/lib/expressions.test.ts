@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkExpression,
+  createTypeContext,
+  evaluateExpression,
+  ExpressionError,
+  parseExpression,
+  toExpressionModel,
+  TypeContext,
+  typeOf,
+} from "./expressions";
+import { processChoregraphyModel } from "./visualgen-json";
+import { eventNode, subgraphNode } from "@/test/fixtures";
+
+const CONTEXT: TypeContext = {
+  events: {
+    e0: { record: { kw: "Integer", name: "String" } },
+    e1: "Boolean",
+    e2: undefined,
+  },
+  self: "Integer",
+};
+
+const check = (source: string, expected?: "Boolean") =>
+  checkExpression(source, CONTEXT, expected);
+
+describe("parseExpression", () => {
+  it("gives && lower precedence than comparisons", () => {
+    expect(parseExpression("@self.value > 5 && e1.value")).toEqual({
+      kind: "binary",
+      op: "and",
+      left: {
+        kind: "binary",
+        op: "intGreaterThan",
+        left: {
+          kind: "prop",
+          base: { kind: "ref", name: "@self" },
+          prop: "value",
+        },
+        right: { kind: "int", value: 5 },
+      },
+      right: { kind: "prop", base: { kind: "ref", name: "e1" }, prop: "value" },
+    });
+  });
+
+  it.each(["", "1 +", "(1", "e0.", "1 ? 2", "'open"])("rejects %j", (source) =>
+    expect(() => parseExpression(source)).toThrow(ExpressionError)
+  );
+});
+
+describe("typeOf", () => {
+  it.each([
+    ["1 + 2", "Integer"],
+    ["'a' == e0.value.name", "Boolean"],
+    ["e0.value", { record: { kw: "Integer", name: "String" } }],
+    ["@self.value < e0.value.kw || e1.value", "Boolean"],
+  ])("types %s", (source, type) => {
+    expect(typeOf(parseExpression(source), CONTEXT)).toEqual(type);
+  });
+});
+
+describe("checkExpression", () => {
+  it("accepts well-typed expressions", () => {
+    expect(check("e0.value.kw + 1")).toBeUndefined();
+    expect(check("e1.value && @self.value > 0", "Boolean")).toBeUndefined();
+  });
+
+  it.each([
+    ["x.value", "Unknown event x."],
+    ["e2.value", "The type of e2 is unknown."],
+    ["e0.value.age", "Unknown property 'age' of {kw: Integer; name: String}."],
+    ["e1.kw", "Unknown property 'kw' of event of Boolean."],
+    [
+      "1 + true",
+      "Operator + expects Integer operands but got Integer and Boolean.",
+    ],
+    ["'a' != 1", "Operator != compares String with Integer."],
+    ["e0", "The expression is an event; read its value with '.value'."],
+    ["(1 +", "Unexpected end of expression."],
+  ])("reports %s", (source, error) => {
+    expect(check(source)).toBe(error);
+  });
+
+  it("checks the expected type", () => {
+    expect(check("@self.value + 1", "Boolean")).toBe(
+      "Expected Boolean but the expression is Integer."
+    );
+  });
+});
+
+describe("toExpressionModel", () => {
+  it("builds the expressions of the JSON model", () => {
+    expect(toExpressionModel(parseExpression("e0.value.kw == 'a'"))).toEqual({
+      binaryOp: {
+        op: "equals",
+        expr1: {
+          propDeref: {
+            propBasedExpr: {
+              propBasedExpr: { eventRef: { value: "e0" } },
+              prop: "value",
+            },
+            prop: "kw",
+          },
+        },
+        expr2: { stringLit: { value: "a" } },
+      },
+    });
+  });
+
+  it.each(["@self.value > 5 && e0.value.kw == 2", "e1.value || false", "'x'"])(
+    "is written back as %s when importing a projection",
+    (source) => {
+      const { nodes } = processChoregraphyModel({
+        role: { label: "P", params: [] },
+        graph: {
+          events: [
+            {
+              computationEvent: {
+                common: {
+                  endpointElementUID: "c",
+                  choreoElementUID: "c",
+                  id: "c",
+                  label: "c",
+                  dataType: { valueType: "void" },
+                  marking: { isPending: false, isIncluded: true },
+                },
+                dataExpr: toExpressionModel(parseExpression(source)),
+                receivers: [],
+              },
+            },
+          ],
+          relations: [],
+        },
+      });
+      expect(nodes[0].data.expression).toBe(source);
+    }
+  );
+
+  it("rejects properties of literals", () => {
+    expect(() => toExpressionModel(parseExpression("(1).value"))).toThrow(
+      ExpressionError
+    );
+  });
+});
+
+describe("createTypeContext", () => {
+  const nodes = [
+    eventNode("e0", {
+      label: "a",
+      input: { type: "Record", record: [{ var: "kw", type: "Integer" }] },
+    }),
+    eventNode("e1", { label: "b", type: "c", expression: "a.value.kw + 1" }),
+    eventNode("e2", { label: "c", type: "c", expression: "d.value" }),
+    eventNode("e3", { label: "d", type: "c", expression: "c.value" }),
+    subgraphNode("s0", "subprocess"),
+    eventNode(
+      "e4",
+      { label: "a", input: { type: "Boolean" } },
+      { parentId: "s0" }
+    ),
+  ];
+
+  it("infers the values of computation events", () => {
+    const context = createTypeContext(nodes, nodes[1]);
+    expect(context.self).toBe("Integer");
+    expect(context.events).toMatchObject({
+      a: { record: { kw: "Integer" } },
+      b: "Integer",
+    });
+  });
+
+  it("leaves mutually dependent computations untyped", () => {
+    const context = createTypeContext(nodes, nodes[0]);
+    expect(context.events.c).toBeUndefined();
+    expect(context.events.d).toBeUndefined();
+    expect("c" in context.events).toBe(true);
+  });
+
+  it("uses the closest event with a label", () => {
+    expect(createTypeContext(nodes, nodes[5]).events.a).toBe("Boolean");
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("evaluates the AST the type checker accepts", () => {
+    const source = "@self.value > 5 && e0.value.kw == 2";
+    expect(check(source, "Boolean")).toBeUndefined();
+    expect(
+      evaluateExpression(parseExpression(source), {
+        events: { e0: { value: { kw: 2 } } },
+        self: { value: 6 },
+      })
+    ).toBe(true);
+  });
+});
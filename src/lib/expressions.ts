@@ -0,0 +1,561 @@
+import type { Node } from "@xyflow/react";
+import type { Expression, InputType, PropBasedExpr } from "./types";
+import { getAncestors } from "./dcr-flow";
+
+/**
+ * Operators supported by guard and computation expressions, named after the
+ * `BoolOperation` variants of the choreography JSON model.
+ */
+export type ExprOperator =
+  | "and"
+  | "or"
+  | "equals"
+  | "notEquals"
+  | "intGreaterThan"
+  | "intLessThan"
+  | "intAdd";
+
+/**
+ * Abstract syntax tree of a guard or computation expression.
+ */
+export type ExprNode =
+  | { kind: "int"; value: number }
+  | { kind: "string"; value: string }
+  | { kind: "bool"; value: boolean }
+  | { kind: "ref"; name: string }
+  | { kind: "prop"; base: ExprNode; prop: string }
+  | { kind: "binary"; op: ExprOperator; left: ExprNode; right: ExprNode };
+
+/**
+ * Error raised when an expression cannot be parsed or evaluated.
+ */
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+/**
+ * Binary operators by textual symbol, with their precedence (higher binds tighter).
+ */
+export const OPERATORS: {
+  [symbol: string]: { op: ExprOperator; precedence: number };
+} = {
+  "||": { op: "or", precedence: 1 },
+  "&&": { op: "and", precedence: 2 },
+  "==": { op: "equals", precedence: 3 },
+  "!=": { op: "notEquals", precedence: 3 },
+  ">": { op: "intGreaterThan", precedence: 4 },
+  "<": { op: "intLessThan", precedence: 4 },
+  "+": { op: "intAdd", precedence: 5 },
+};
+
+type ExprToken =
+  | { type: "int"; value: number }
+  | { type: "string"; value: string }
+  | { type: "ident"; value: string }
+  | { type: "op"; value: string }
+  | { type: "punct"; value: "(" | ")" | "." };
+
+/**
+ * Splits an expression into tokens.
+ */
+function tokenize(source: string): ExprToken[] {
+  const tokens: ExprToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[0-9]/.test(c)) {
+      let j = i;
+      while (j < source.length && /[0-9]/.test(source[j])) j++;
+      tokens.push({ type: "int", value: parseInt(source.slice(i, j)) });
+      i = j;
+    } else if (c === "'" || c === '"') {
+      const end = source.indexOf(c, i + 1);
+      if (end === -1) throw new ExpressionError("Unterminated string literal.");
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/[A-Za-z_@]/.test(c)) {
+      let j = i + 1;
+      while (j < source.length && /[A-Za-z0-9_]/.test(source[j])) j++;
+      tokens.push({ type: "ident", value: source.slice(i, j) });
+      i = j;
+    } else if (c === "(" || c === ")" || c === ".") {
+      tokens.push({ type: "punct", value: c });
+      i++;
+    } else {
+      const two = source.slice(i, i + 2);
+      if (OPERATORS[two]) {
+        tokens.push({ type: "op", value: two });
+        i += 2;
+      } else if (OPERATORS[c]) {
+        tokens.push({ type: "op", value: c });
+        i++;
+      } else throw new ExpressionError(`Unexpected character '${c}'.`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a guard or computation expression into an AST.
+ *
+ * @param source - The expression text, e.g. `@self.value > 5 && e0.value.kw == 2`.
+ * @returns The parsed expression.
+ * @throws {ExpressionError} If the expression is malformed.
+ */
+export function parseExpression(source: string): ExprNode {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parsePrimary = (): ExprNode => {
+    const token = tokens[pos++];
+    if (!token) throw new ExpressionError("Unexpected end of expression.");
+
+    let node: ExprNode;
+    switch (token.type) {
+      case "int":
+        node = { kind: "int", value: token.value };
+        break;
+      case "string":
+        node = { kind: "string", value: token.value };
+        break;
+      case "ident":
+        if (token.value === "true" || token.value === "false")
+          node = { kind: "bool", value: token.value === "true" };
+        else node = { kind: "ref", name: token.value };
+        break;
+      case "punct":
+        if (token.value !== "(")
+          throw new ExpressionError(`Unexpected '${token.value}'.`);
+        node = parseBinary(0);
+        if (peek()?.value !== ")") throw new ExpressionError("Expected ')'.");
+        pos++;
+        break;
+      default:
+        throw new ExpressionError(`Unexpected operator '${token.value}'.`);
+    }
+
+    while (peek()?.type === "punct" && peek().value === ".") {
+      pos++;
+      const prop = tokens[pos++];
+      if (!prop || prop.type !== "ident")
+        throw new ExpressionError("Expected a property name after '.'.");
+      node = { kind: "prop", base: node, prop: prop.value };
+    }
+
+    return node;
+  };
+
+  const parseBinary = (minPrecedence: number): ExprNode => {
+    let left = parsePrimary();
+
+    while (peek()?.type === "op") {
+      const operator = OPERATORS[peek().value as string];
+      if (operator.precedence < minPrecedence) break;
+      pos++;
+      const right = parseBinary(operator.precedence + 1);
+      left = { kind: "binary", op: operator.op, left, right };
+    }
+
+    return left;
+  };
+
+  if (tokens.length === 0) throw new ExpressionError("Empty expression.");
+
+  const result = parseBinary(0);
+  if (pos < tokens.length)
+    throw new ExpressionError(`Unexpected '${tokens[pos].value}'.`);
+
+  return result;
+}
+
+/**
+ * Values referenced by an expression during evaluation.
+ *
+ * @property events - The data of each event, keyed by the label used in expressions.
+ *                    An executed event is represented as `{ value }`.
+ * @property self - The event referenced by `@self`.
+ */
+export interface EvaluationContext {
+  events: { [label: string]: { value: unknown } | undefined };
+  self?: { value: unknown };
+}
+
+/**
+ * Evaluates an expression over the current event values.
+ *
+ * @param expr - The expression to evaluate.
+ * @param context - The event values the expression may reference.
+ * @returns The resulting value.
+ * @throws {ExpressionError} If a referenced event has no value or operands have the wrong type.
+ */
+export function evaluateExpression(
+  expr: ExprNode,
+  context: EvaluationContext
+): unknown {
+  switch (expr.kind) {
+    case "int":
+    case "string":
+    case "bool":
+      return expr.value;
+    case "ref": {
+      const event =
+        expr.name === "@self" ? context.self : context.events[expr.name];
+      if (!event)
+        throw new ExpressionError(`Event ${expr.name} has no value yet.`);
+      return event;
+    }
+    case "prop": {
+      const base = evaluateExpression(expr.base, context);
+      if (typeof base !== "object" || base === null || !(expr.prop in base))
+        throw new ExpressionError(`Unknown property '${expr.prop}'.`);
+      return (base as Record<string, unknown>)[expr.prop];
+    }
+    case "binary": {
+      const left = evaluateExpression(expr.left, context);
+      const right = evaluateExpression(expr.right, context);
+
+      switch (expr.op) {
+        case "and":
+        case "or":
+          if (typeof left !== "boolean" || typeof right !== "boolean")
+            throw new ExpressionError(`Operator ${expr.op} expects booleans.`);
+          return expr.op === "and" ? left && right : left || right;
+        case "equals":
+          return left === right;
+        case "notEquals":
+          return left !== right;
+        case "intGreaterThan":
+        case "intLessThan":
+        case "intAdd":
+          if (typeof left !== "number" || typeof right !== "number")
+            throw new ExpressionError(`Operator ${expr.op} expects integers.`);
+          if (expr.op === "intAdd") return left + right;
+          return expr.op === "intGreaterThan" ? left > right : left < right;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluates a relation guard. An empty guard always holds, and a guard that cannot be
+ * evaluated yet (e.g. it references an event without a value) does not hold.
+ *
+ * @param guard - The guard text.
+ * @param context - The event values the guard may reference.
+ * @returns Whether the guard holds.
+ */
+export function guardHolds(
+  guard: string | undefined,
+  context: EvaluationContext
+): boolean {
+  if (!guard || !guard.trim()) return true;
+
+  try {
+    return evaluateExpression(parseExpression(guard), context) === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts an expression into the `Expression` of the choreography JSON model, e.g.
+ * `e0.value > 1` into a `binaryOp` comparing a `propDeref` with an `intLit`.
+ *
+ * @param expr - The expression.
+ * @returns The expression of the JSON model.
+ * @throws {ExpressionError} If a property is read from a literal or an operation.
+ */
+export function toExpressionModel(expr: ExprNode): Expression {
+  const toPropBased = (node: ExprNode): PropBasedExpr => {
+    if (node.kind === "ref") return { eventRef: { value: node.name } };
+    if (node.kind === "prop")
+      return { propBasedExpr: toPropBased(node.base), prop: node.prop };
+    throw new ExpressionError("Properties can only be read from events.");
+  };
+
+  switch (expr.kind) {
+    case "int":
+      return { intLit: { value: expr.value } };
+    case "string":
+      return { stringLit: { value: expr.value } };
+    case "bool":
+      return { boolLit: { value: expr.value } };
+    case "ref":
+    case "prop":
+      return { propDeref: toPropBased(expr) };
+    case "binary":
+      return {
+        binaryOp: {
+          expr1: toExpressionModel(expr.left),
+          expr2: toExpressionModel(expr.right),
+          op: expr.op,
+        },
+      };
+  }
+}
+
+/* ------------------------------- TYPE CHECKING ------------------------------ */
+
+/**
+ * Type of an expression: a simple value, a record of values, or an event, whose value
+ * is read with `.value`.
+ */
+export type ExprType =
+  | "Integer"
+  | "String"
+  | "Boolean"
+  | "Unit"
+  | { record: { [field: string]: ExprType } }
+  | { event: ExprType };
+
+/**
+ * Types of what an expression may reference.
+ *
+ * @property events - The type of the value of each visible event, keyed by label, or
+ *                    `undefined` if it cannot be inferred.
+ * @property self - The type of the value of the event referenced by `@self`.
+ */
+export interface TypeContext {
+  events: { [label: string]: ExprType | undefined };
+  self?: ExprType;
+}
+
+const SYMBOLS = Object.fromEntries(
+  Object.entries(OPERATORS).map(([symbol, { op }]) => [op, symbol])
+) as { [op in ExprOperator]: string };
+
+/**
+ * Writes a type for error messages, e.g. `{kw: Integer}`.
+ */
+export function formatType(type: ExprType): string {
+  if (typeof type === "string") return type;
+  if ("event" in type) return `event of ${formatType(type.event)}`;
+  return `{${Object.entries(type.record)
+    .map(([field, fieldType]) => `${field}: ${formatType(fieldType)}`)
+    .join("; ")}}`;
+}
+
+const sameType = (a: ExprType, b: ExprType): boolean =>
+  formatType(a) === formatType(b);
+
+/**
+ * Returns the type of the value of an input event.
+ */
+export function inputValueType(input: InputType): ExprType {
+  if ("record" in input)
+    return {
+      record: Object.fromEntries(
+        input.record.map((field) => [field.var, field.type as ExprType])
+      ),
+    };
+  return input.type as ExprType;
+}
+
+/**
+ * Infers the type of an expression.
+ *
+ * Literals have their simple type and an event reference (`e0`, `@self`) the event
+ * type, whose `.value` has the type of the event value and whose record fields are
+ * read with `.field`. `&&` and `||` combine booleans, `==` and `!=` compare values of
+ * the same type, `>` and `<` compare integers and `+` adds integers.
+ *
+ * @param expr - The expression.
+ * @param context - The types of the events the expression may reference.
+ * @returns The type of the expression.
+ * @throws {ExpressionError} If the expression is not well typed.
+ */
+export function typeOf(expr: ExprNode, context: TypeContext): ExprType {
+  switch (expr.kind) {
+    case "int":
+      return "Integer";
+    case "string":
+      return "String";
+    case "bool":
+      return "Boolean";
+    case "ref": {
+      const isSelf = expr.name === "@self";
+      if (!isSelf && !(expr.name in context.events))
+        throw new ExpressionError(`Unknown event ${expr.name}.`);
+
+      const value = isSelf ? context.self : context.events[expr.name];
+      if (!value)
+        throw new ExpressionError(`The type of ${expr.name} is unknown.`);
+      return { event: value };
+    }
+    case "prop": {
+      const base = typeOf(expr.base, context);
+      if (typeof base !== "string" && "event" in base && expr.prop === "value")
+        return base.event;
+      if (typeof base !== "string" && "record" in base) {
+        const field = base.record[expr.prop];
+        if (field) return field;
+      }
+      throw new ExpressionError(
+        `Unknown property '${expr.prop}' of ${formatType(base)}.`
+      );
+    }
+    case "binary": {
+      const left = typeOf(expr.left, context);
+      const right = typeOf(expr.right, context);
+      const symbol = SYMBOLS[expr.op];
+      const expect = (type: ExprType) => {
+        if (!sameType(left, type) || !sameType(right, type))
+          throw new ExpressionError(
+            `Operator ${symbol} expects ${type} operands but got ${formatType(left)} and ${formatType(right)}.`
+          );
+      };
+
+      switch (expr.op) {
+        case "and":
+        case "or":
+          expect("Boolean");
+          return "Boolean";
+        case "equals":
+        case "notEquals":
+          if (!sameType(left, right))
+            throw new ExpressionError(
+              `Operator ${symbol} compares ${formatType(left)} with ${formatType(right)}.`
+            );
+          return "Boolean";
+        case "intGreaterThan":
+        case "intLessThan":
+          expect("Integer");
+          return "Boolean";
+        case "intAdd":
+          expect("Integer");
+          return "Integer";
+      }
+    }
+  }
+}
+
+/**
+ * Parses and type checks an expression.
+ *
+ * @param source - The expression text.
+ * @param context - The types of the events the expression may reference.
+ * @param expected - The type the expression must have, e.g. `Boolean` for a guard. The
+ *                   expression must compute a value when omitted.
+ * @returns The error message, or `undefined` if the expression is well typed.
+ */
+export function checkExpression(
+  source: string,
+  context: TypeContext,
+  expected?: ExprType
+): string | undefined {
+  try {
+    const type = typeOf(parseExpression(source), context);
+    if (expected && !sameType(type, expected))
+      return `Expected ${formatType(expected)} but the expression is ${formatType(type)}.`;
+    if (typeof type !== "string" && "event" in type)
+      return "The expression is an event; read its value with '.value'.";
+    return undefined;
+  } catch (error) {
+    if (error instanceof ExpressionError) return error.message;
+    throw error;
+  }
+}
+
+/**
+ * Returns the labels of the events an expression references, `@self` included.
+ */
+export function referencedEvents(expr: ExprNode): string[] {
+  switch (expr.kind) {
+    case "ref":
+      return [expr.name];
+    case "prop":
+      return referencedEvents(expr.base);
+    case "binary":
+      return [...referencedEvents(expr.left), ...referencedEvents(expr.right)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Returns the events an expression of a node can reference, by label. When several
+ * events share a label, the one in the closest enclosing scope is used.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param from - The node the expression belongs to.
+ * @returns The visible events, keyed by label.
+ */
+export function visibleEvents(nodes: Node[], from: Node): Map<string, Node> {
+  const ancestors = getAncestors(nodes, from);
+  const ranks = new Map<string, number>();
+  const visible = new Map<string, Node>();
+
+  nodes.forEach((nd) => {
+    if (nd.type !== "event") return;
+
+    const label = nd.data.label as string;
+    const rank = ancestors.indexOf(nd.parentId ?? "");
+    const current = ranks.get(label);
+    if (rank === -1 || (current !== undefined && current <= rank)) return;
+
+    ranks.set(label, rank);
+    visible.set(label, nd);
+  });
+
+  return visible;
+}
+
+/**
+ * Builds the types an expression evaluated from the given node can reference, with
+ * the scoping of `visibleEvents`. The value of a computation event has the type of
+ * its expression, and is unknown when the expressions depend on each other.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param from - The node the expression belongs to: the event of a computation or the
+ *               source of a guarded relation, referenced by `@self`.
+ * @returns The types of the visible events.
+ */
+export function createTypeContext(nodes: Node[], from: Node): TypeContext {
+  const cache = new Map<string, ExprType | undefined>();
+  const visiting = new Set<string>();
+
+  // Types of the events visible from a node, restricted to the given labels
+  const contextOf = (node: Node, labels?: string[]): TypeContext => {
+    const events: TypeContext["events"] = {};
+    visibleEvents(nodes, node).forEach((nd, label) => {
+      if (!labels || labels.includes(label)) events[label] = valueType(nd);
+    });
+
+    const withSelf =
+      node.type === "event" && (!labels || labels.includes("@self"));
+    return { events, self: withSelf ? valueType(node) : undefined };
+  };
+
+  const valueType = (node: Node): ExprType | undefined => {
+    if (node.data.type !== "c")
+      return node.data.input
+        ? inputValueType(node.data.input as InputType)
+        : "Unit";
+    if (cache.has(node.id)) return cache.get(node.id);
+    if (visiting.has(node.id)) return undefined;
+
+    visiting.add(node.id);
+    let type: ExprType | undefined;
+    try {
+      const expr = parseExpression((node.data.expression as string) ?? "");
+      type = typeOf(expr, contextOf(node, referencedEvents(expr)));
+    } catch {
+      type = undefined;
+    }
+    visiting.delete(node.id);
+    cache.set(node.id, type);
+    return type;
+  };
+
+  return contextOf(from);
+}
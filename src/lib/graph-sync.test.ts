@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import type { Edge, Node } from "@xyflow/react";
+import { mergeGraph } from "./graph-sync";
+import { eventNode, relationEdge, subgraphNode } from "@/test/fixtures";
+
+/**
+ * Merges the generated graph into the canvas, numbering the new nodes `n0`, `n1`...
+ */
+const merge = (
+  current: { nodes: Node[]; edges: Edge[] },
+  generated: { nodes: Node[]; edges: Edge[] }
+) => {
+  let count = 0;
+  return mergeGraph(current, generated, () => `n${count++}`);
+};
+
+const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+describe("mergeGraph", () => {
+  it("keeps the nodes on the canvas, updating what the code describes", () => {
+    const current = {
+      nodes: [
+        eventNode(
+          "e0",
+          { label: "a", name: "old", nodeColor: "red" } as never,
+          { position: { x: 10, y: 20 }, width: 150 }
+        ),
+      ],
+      edges: [],
+    };
+    const generated = {
+      nodes: [eventNode("g0", { label: "a", name: "new" })],
+      edges: [],
+    };
+
+    const [node] = merge(current, generated).nodes;
+
+    expect(node).toMatchObject({
+      id: "e0",
+      position: { x: 10, y: 20 },
+      width: 150,
+      data: { label: "a", name: "new", nodeColor: "red" },
+    });
+  });
+
+  it("adds the new nodes and reports the ones gone from the code", () => {
+    const current = { nodes: [eventNode("e0"), eventNode("e1")], edges: [] };
+    const generated = {
+      nodes: [
+        eventNode("g0", { label: "e0" }),
+        eventNode("g1", { label: "x" }, { position: { x: 5, y: 5 } }),
+      ],
+      edges: [],
+    };
+
+    const { nodes, removed } = merge(current, generated);
+
+    expect(ids(nodes)).toEqual(["e0", "n0"]);
+    expect(nodes[1].position).toEqual({ x: 5, y: 5 });
+    expect(ids(removed.nodes)).toEqual(["e1"]);
+  });
+
+  it("keeps the edges whose relations are all still in the code", () => {
+    const drawn = {
+      ...relationEdge("condition", "e0", "e1"),
+      data: { guard: "", points: [{ x: 1, y: 1 }] },
+    };
+    const current = {
+      nodes: [eventNode("e0"), eventNode("e1")],
+      edges: [drawn, relationEdge("response", "e0", "e1")],
+    };
+    const generated = {
+      nodes: [
+        eventNode("g0", { label: "e0" }),
+        eventNode("g1", { label: "e1" }),
+      ],
+      edges: [
+        relationEdge("condition", "g0", "g1"),
+        relationEdge("condition", "g1", "g0"),
+      ],
+    };
+
+    const { edges, removed } = merge(current, generated);
+
+    expect(edges).toEqual([drawn, relationEdge("condition", "e1", "e0")]);
+    expect(ids(removed.edges)).toEqual(["r-e0-e1"]);
+  });
+
+  it("keeps an edge from a nest when the code lists the relations of its events", () => {
+    const current = {
+      nodes: [
+        subgraphNode("n9", "nest"),
+        eventNode("e0", {}, { parentId: "n9" }),
+        eventNode("e1", {}, { parentId: "n9" }),
+        eventNode("e2"),
+      ],
+      edges: [relationEdge("condition", "n9", "e2")],
+    };
+    const generated = {
+      nodes: [
+        eventNode("g0", { label: "e0" }, { parentId: "n9" }),
+        eventNode("g1", { label: "e1" }, { parentId: "n9" }),
+        eventNode("g2", { label: "e2" }),
+        subgraphNode("n9", "nest"),
+      ],
+      edges: [
+        relationEdge("condition", "g0", "g2"),
+        relationEdge("condition", "g1", "g2"),
+      ],
+    };
+
+    const { nodes, edges } = merge(current, generated);
+
+    expect(ids(edges)).toEqual(["c-n9-e2"]);
+    // Parents precede their children
+    expect(ids(nodes)).toEqual(["e2", "n9", "e0", "e1"]);
+  });
+
+  it("keeps the place on the canvas of a node moved into a nest", () => {
+    const current = {
+      nodes: [
+        subgraphNode("n9", "nest", { position: { x: 100, y: 100 } }),
+        eventNode("e0", {}, { position: { x: 110, y: 130 } }),
+      ],
+      edges: [],
+    };
+    const generated = {
+      nodes: [
+        subgraphNode("n9", "nest"),
+        eventNode("g0", { label: "e0" }, { parentId: "n9" }),
+      ],
+      edges: [],
+    };
+
+    const moved = merge(current, generated).nodes.find((nd) => nd.id === "e0");
+
+    expect(moved?.parentId).toBe("n9");
+    expect(moved?.position).toEqual({ x: 10, y: 30 });
+  });
+
+  it("matches subprocesses by the event spawning them", () => {
+    const current = {
+      nodes: [
+        eventNode("e0"),
+        subgraphNode("s0", "subprocess"),
+        eventNode("e1", { label: "b" }, { parentId: "s0" }),
+      ],
+      edges: [relationEdge("spawn", "e0", "s0")],
+    };
+    const generated = {
+      nodes: [
+        eventNode("g0", { label: "e0" }),
+        subgraphNode("g1", "subprocess"),
+        eventNode("g2", { label: "b" }, { parentId: "g1" }),
+        eventNode("g3", { label: "c" }, { parentId: "g1" }),
+      ],
+      edges: [relationEdge("spawn", "g0", "g1")],
+    };
+
+    const { nodes, edges, removed } = merge(current, generated);
+
+    expect(ids(nodes)).toEqual(["e0", "s0", "e1", "n0"]);
+    expect(nodes[3].parentId).toBe("s0");
+    expect(ids(edges)).toEqual(["s-e0-s0"]);
+    expect(removed).toEqual({ nodes: [], edges: [] });
+  });
+});
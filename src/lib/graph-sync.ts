@@ -0,0 +1,269 @@
+import type { Edge, Node, XYPosition } from "@xyflow/react";
+import { endpointEvents } from "./dcr-flow";
+
+/**
+ * The fields of an event that are written in the code. Other fields of an event, such
+ * as its size or style, only live on the canvas.
+ */
+const CODE_FIELDS = [
+  "initiators",
+  "receivers",
+  "type",
+  "label",
+  "name",
+  "marking",
+  "input",
+  "expression",
+  "security",
+];
+
+/**
+ * Result of merging a generated graph into the graph on the canvas.
+ *
+ * @property nodes - The merged nodes, parents before their children.
+ * @property edges - The merged edges.
+ * @property removed - The nodes and edges of the canvas no longer described by the code.
+ */
+export interface MergeResult {
+  nodes: Node[];
+  edges: Edge[];
+  removed: { nodes: Node[]; edges: Edge[] };
+}
+
+/**
+ * Identifies the nodes of a graph independently of their ids: an event by its label and
+ * the subprocess declaring it, a subprocess by the event spawning it. Nests only exist in
+ * annotations of the code, which keep their id. Nests do not scope labels, so they do
+ * not take part in the keys of their contents.
+ */
+function keyNodes(nodes: Node[], edges: Edge[]): Map<string, string> {
+  const byId = new Map(nodes.map((nd) => [nd.id, nd]));
+  const keys = new Map<string, string>();
+  const spawned = new Map<string, number>();
+
+  const scopeKey = (node: Node): string => {
+    let parent = node.parentId ? byId.get(node.parentId) : undefined;
+    while (parent && parent.type === "nest")
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    return parent ? keyOf(parent) : "";
+  };
+
+  const keyOf = (node: Node): string => {
+    const known = keys.get(node.id);
+    if (known !== undefined) return known;
+
+    let key: string;
+    if (node.type === "nest") key = `nest:${node.id}`;
+    else if (node.type === "subprocess") {
+      const spawn = edges.find(
+        (edge) => edge.type === "spawn" && edge.target === node.id
+      );
+      const trigger = spawn && byId.get(spawn.source);
+      const triggerKey = trigger ? keyOf(trigger) : "";
+      const count = spawned.get(triggerKey) ?? 0;
+      spawned.set(triggerKey, count + 1);
+      key = `${scopeKey(node)}/spawn:${triggerKey}#${count}`;
+    } else key = `${scopeKey(node)}/${node.data.label}`;
+
+    keys.set(node.id, key);
+    return key;
+  };
+
+  nodes.forEach((nd) => keyOf(nd));
+
+  return keys;
+}
+
+const relationKey = (
+  type: string | undefined,
+  source: string,
+  target: string,
+  guard: unknown
+) => `${type}|${source}|${target}|${guard ?? ""}`;
+
+/**
+ * Returns the position of a node relative to the canvas rather than to its parent.
+ */
+function absolutePosition(nodes: Node[], node: Node): XYPosition {
+  const parent = nodes.find((nd) => nd.id === node.parentId);
+  if (!parent) return node.position;
+
+  const origin = absolutePosition(nodes, parent);
+  return { x: origin.x + node.position.x, y: origin.y + node.position.y };
+}
+
+/**
+ * Merges a graph generated from code into the graph on the canvas, so that editing the
+ * code only changes what the edit describes.
+ *
+ * Nodes present in both graphs keep their id, position and size, and take the content
+ * and the parent written in the code; a node moved to another parent keeps its place on
+ * the canvas. New nodes get fresh ids and their generated position. A canvas edge is
+ * kept, with its control points, when every relation it stands for is still in the
+ * code; the remaining generated relations become new edges.
+ *
+ * @param current - The nodes and edges on the canvas.
+ * @param generated - The nodes and edges generated from the code, laid out.
+ * @param createId - Returns a fresh id for a new node.
+ * @returns The merged graph and what was removed from the canvas.
+ */
+export function mergeGraph(
+  current: { nodes: Node[]; edges: Edge[] },
+  generated: { nodes: Node[]; edges: Edge[] },
+  createId: (type: "event" | "nest" | "subprocess") => string
+): MergeResult {
+  const currentKeys = keyNodes(current.nodes, current.edges);
+  const generatedKeys = keyNodes(generated.nodes, generated.edges);
+
+  const currentByKey = new Map([...currentKeys].map(([id, key]) => [key, id]));
+  const generatedByKey = new Map(
+    [...generatedKeys].map(([id, key]) => [key, id])
+  );
+
+  // Generated id -> id on the canvas
+  const ids = new Map<string, string>();
+  generated.nodes.forEach((nd) => {
+    const existing = currentByKey.get(generatedKeys.get(nd.id)!);
+    ids.set(
+      nd.id,
+      existing ?? createId(nd.type as "event" | "nest" | "subprocess")
+    );
+  });
+
+  const removedIds = new Set(
+    [...currentKeys]
+      .filter(([, key]) => !generatedByKey.has(key))
+      .map(([id]) => id)
+  );
+
+  const merged: Node[] = generated.nodes.map((nd) => {
+    const id = ids.get(nd.id)!;
+    const parentId = nd.parentId ? ids.get(nd.parentId)! : "";
+    const existing = current.nodes.find((cur) => cur.id === id);
+    if (!existing || existing.type !== nd.type)
+      return {
+        ...nd,
+        id,
+        parentId,
+        ...(nd.type === "subprocess" &&
+          nd.data.label === nd.id && { data: { ...nd.data, label: id } }),
+      };
+
+    let data = { ...existing.data, ...nd.data };
+    if (nd.type === "event") {
+      const canvasData = Object.fromEntries(
+        Object.entries(existing.data).filter(
+          ([field]) => !CODE_FIELDS.includes(field)
+        )
+      );
+      data = { ...canvasData, ...nd.data };
+    } else if (nd.type === "subprocess" && nd.data.label === nd.id)
+      data = existing.data;
+
+    return {
+      ...existing,
+      ...(existing.parentId !== parentId && {
+        parentId,
+        expandParent: nd.expandParent,
+        extent: nd.extent,
+      }),
+      data,
+    };
+  });
+
+  // Nodes moved to another parent keep their place on the canvas
+  const moved = merged.map((nd) => {
+    const existing = current.nodes.find((cur) => cur.id === nd.id);
+    if (!existing || existing.parentId === nd.parentId) return nd;
+
+    const target = absolutePosition(current.nodes, existing);
+    const parent = merged.find((par) => par.id === nd.parentId);
+    const origin = parent ? absolutePosition(merged, parent) : { x: 0, y: 0 };
+    return {
+      ...nd,
+      position: { x: target.x - origin.x, y: target.y - origin.y },
+    };
+  });
+
+  // Parents must precede their children
+  const depth = (node: Node): number => {
+    const parent = moved.find((nd) => nd.id === node.parentId);
+    return parent ? depth(parent) + 1 : 0;
+  };
+  const nodes = moved
+    .map((node) => ({ node, depth: depth(node) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ node }) => node);
+
+  // Relations are compared by the keys of the events they connect
+  const relationsOf = (
+    graph: { nodes: Node[]; edges: Edge[] },
+    keys: Map<string, string>,
+    edge: Edge
+  ): string[] => {
+    if (edge.type === "spawn")
+      return [
+        relationKey(
+          edge.type,
+          keys.get(edge.source) ?? "",
+          keys.get(edge.target) ?? "",
+          edge.data?.guard
+        ),
+      ];
+
+    const sources = endpointEvents(graph.nodes, edge.source);
+    const targets = endpointEvents(graph.nodes, edge.target);
+    return sources.flatMap((source) =>
+      targets.map((target) =>
+        relationKey(
+          edge.type,
+          keys.get(source.id) ?? "",
+          keys.get(target.id) ?? "",
+          edge.data?.guard
+        )
+      )
+    );
+  };
+
+  const pending = new Map<string, Edge>();
+  generated.edges.forEach((edge) =>
+    relationsOf(generated, generatedKeys, edge).forEach((relation) =>
+      pending.set(relation, edge)
+    )
+  );
+
+  const keptEdges: Edge[] = [];
+  const removedEdges: Edge[] = [];
+  const mergedNodes = { nodes, edges: current.edges };
+  current.edges.forEach((edge) => {
+    const relations =
+      removedIds.has(edge.source) || removedIds.has(edge.target)
+        ? undefined
+        : relationsOf(mergedNodes, currentKeys, edge);
+
+    if (relations && relations.every((relation) => pending.has(relation))) {
+      relations.forEach((relation) => pending.delete(relation));
+      keptEdges.push(edge);
+    } else removedEdges.push(edge);
+  });
+
+  const addedEdges = [...new Set(pending.values())].map((edge) => {
+    const source = ids.get(edge.source)!;
+    const target = ids.get(edge.target)!;
+    return {
+      ...edge,
+      id: `${edge.type!.charAt(0)}-${source}-${target}`,
+      source,
+      target,
+    };
+  });
+
+  return {
+    nodes,
+    edges: [...keptEdges, ...addedEdges],
+    removed: {
+      nodes: current.nodes.filter((nd) => removedIds.has(nd.id)),
+      edges: removedEdges,
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { checkInformationFlow } from "./ifc";
+import { eventNode, relationEdge, subgraphNode } from "@/test/fixtures";
+
+const LATTICE = "Public flows Secret";
+
+const nodes = [
+  eventNode("e0", { label: "pub", security: "Public" }),
+  eventNode("e1", {
+    label: "sec",
+    security: "Secret",
+    input: { type: "Integer" },
+  }),
+  eventNode("e2", {
+    label: "leak",
+    security: "Public",
+    type: "c",
+    expression: "sec.value + 1",
+  }),
+  subgraphNode("n0", "nest"),
+  eventNode("e3", { label: "inner", security: "Public" }, { parentId: "n0" }),
+  eventNode("e4", { label: "odd", security: "Unknown" }),
+];
+
+describe("checkInformationFlow", () => {
+  it("accepts flows going up the lattice", () => {
+    expect(
+      checkInformationFlow(
+        nodes.slice(0, 2),
+        [relationEdge("condition", "e0", "e1", "pub.value == 1")],
+        LATTICE,
+        []
+      )
+    ).toEqual([]);
+  });
+
+  it("flags relations from a higher level, through nests too", () => {
+    const violations = checkInformationFlow(
+      nodes,
+      [
+        relationEdge("response", "e1", "e0"),
+        relationEdge("include", "e1", "n0"),
+      ],
+      LATTICE,
+      []
+    );
+
+    expect(
+      violations.map(({ kind, source, target, edge }) => ({
+        kind,
+        source,
+        target,
+        edge,
+      }))
+    ).toEqual([
+      { kind: "relation", source: "e1", target: "e0", edge: "r-e1-e0" },
+      { kind: "relation", source: "e1", target: "e3", edge: "i-e1-n0" },
+      { kind: "data", source: "e1", target: "e2", edge: undefined },
+    ]);
+    expect(violations[0].message).toBe(
+      "The response relation from sec (Secret) to pub (Public) lets Secret information flow to Public."
+    );
+    expect(violations[2].message).toBe(
+      "leak (Public) computes its value from sec (Secret)."
+    );
+  });
+
+  it("flags guards reading a higher level", () => {
+    expect(
+      checkInformationFlow(
+        nodes.slice(0, 2),
+        [relationEdge("exclude", "e0", "e0", "sec.value > 1 && @self.value")],
+        LATTICE,
+        []
+      )
+    ).toEqual([
+      {
+        kind: "data",
+        source: "e1",
+        target: "e0",
+        edge: "e-e0-e0",
+        message:
+          "The guard of e-e0-e0 reads sec (Secret) to control pub (Public).",
+      },
+    ]);
+  });
+
+  it("skips undeclared levels and malformed lattices", () => {
+    expect(
+      checkInformationFlow(
+        [nodes[0], nodes[5]],
+        [
+          relationEdge("condition", "e4", "e0"),
+          relationEdge("condition", "e0", "e4"),
+        ],
+        LATTICE,
+        []
+      )
+    ).toEqual([]);
+    expect(
+      checkInformationFlow(
+        nodes,
+        [relationEdge("condition", "e1", "e0")],
+        "A flows",
+        []
+      )
+    ).toEqual([]);
+  });
+});
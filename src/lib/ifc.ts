@@ -0,0 +1,139 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { SimpleRole } from "./types";
+import { endpointEvents } from "./dcr-flow";
+import { flowsTo, parseLattice, securityLevels } from "./lattice";
+import {
+  parseExpression,
+  referencedEvents,
+  visibleEvents,
+} from "./expressions";
+
+/**
+ * Information flowing from an event to an event of a level it may not flow to.
+ *
+ * @property kind - `relation` when the source controls the target through a relation,
+ *                  `data` when the target reads the value of the source, in its
+ *                  computation or in the guard of a relation to it.
+ * @property source - The id of the event the information comes from.
+ * @property target - The id of the event the information flows to.
+ * @property edge - The id of the relation carrying the flow, if any.
+ * @property message - The description of the violation.
+ */
+export interface FlowViolation {
+  kind: "relation" | "data";
+  source: string;
+  target: string;
+  edge?: string;
+  message: string;
+}
+
+/**
+ * Reads the labels referenced by an expression, ignoring malformed expressions.
+ */
+const referencesOf = (source: string | undefined): string[] => {
+  if (!source || !source.trim()) return [];
+  try {
+    return referencedEvents(parseExpression(source));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Checks that information only flows upwards in the security lattice.
+ *
+ * A relation lets its source control its targets (the events of a nest or subprocess,
+ * or those spawned), so the level of the source must flow to the level of each target.
+ * A computation reads the events its expression references, and a guard the events it
+ * references on behalf of the targets of its relation, so their levels must flow to
+ * the level of the reading event. Events of undeclared levels are not checked.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param edges - The edges of the graph.
+ * @param security - The lattice, as written in the code.
+ * @param roles - The declared roles, which are security levels too.
+ * @returns The violations found, empty if the lattice cannot be read.
+ */
+export function checkInformationFlow(
+  nodes: Node[],
+  edges: Edge[],
+  security: string,
+  roles: SimpleRole[]
+): FlowViolation[] {
+  let lattice: ReturnType<typeof parseLattice>;
+  try {
+    lattice = parseLattice(security);
+  } catch {
+    return [];
+  }
+
+  const levels = securityLevels(lattice, roles);
+  const levelOf = (node: Node) => node.data.security as string;
+  const describe = (node: Node) => `${node.data.label} (${levelOf(node)})`;
+  const leaks = (from: Node, to: Node) =>
+    levels.includes(levelOf(from)) &&
+    levels.includes(levelOf(to)) &&
+    !flowsTo(lattice, levelOf(from), levelOf(to));
+
+  const violations: FlowViolation[] = [];
+
+  edges.forEach((edge) => {
+    const targets = endpointEvents(nodes, edge.target);
+    const sources = endpointEvents(nodes, edge.source);
+
+    sources.forEach((source) =>
+      targets
+        .filter((target) => leaks(source, target))
+        .forEach((target) =>
+          violations.push({
+            kind: "relation",
+            source: source.id,
+            target: target.id,
+            edge: edge.id,
+            message: `The ${edge.type} relation from ${describe(source)} to ${describe(target)} lets ${levelOf(source)} information flow to ${levelOf(target)}.`,
+          })
+        )
+    );
+
+    const guardSource = nodes.find((nd) => nd.id === edge.source);
+    if (!guardSource) return;
+    const visible = visibleEvents(nodes, guardSource);
+    // Reading `@self`, the source, is already covered by the relation itself
+    referencesOf(edge.data?.guard as string | undefined).forEach((label) => {
+      const read = label === "@self" ? undefined : visible.get(label);
+      if (!read) return;
+
+      targets
+        .filter((target) => leaks(read, target))
+        .forEach((target) =>
+          violations.push({
+            kind: "data",
+            source: read.id,
+            target: target.id,
+            edge: edge.id,
+            message: `The guard of ${edge.id} reads ${describe(read)} to control ${describe(target)}.`,
+          })
+        );
+    });
+  });
+
+  nodes
+    .filter((nd) => nd.type === "event" && nd.data.type === "c")
+    .forEach((node) => {
+      const visible = visibleEvents(nodes, node);
+      referencesOf(node.data.expression as string | undefined).forEach(
+        (label) => {
+          const read = label === "@self" ? undefined : visible.get(label);
+          if (read && leaks(read, node))
+            violations.push({
+              kind: "data",
+              source: read.id,
+              target: node.id,
+              message: `${describe(node)} computes its value from ${describe(read)}.`,
+            });
+        }
+      );
+    });
+
+  return violations;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkLattice,
+  flowsTo,
+  formatLattice,
+  hasseDiagram,
+  latticeCycles,
+  parseLattice,
+  securityLevels,
+} from "./lattice";
+import { ParseError } from "./tardisdcr-parser";
+
+const DIAMOND = parseLattice(
+  "Public flows A\nPublic flows B\nA flows Secret\nB flows Secret\nPublic flows Secret"
+);
+
+describe("parseLattice", () => {
+  it("reads levels and flows", () => {
+    expect(parseLattice("Public flows P\nPublic flows CO\nTop")).toEqual({
+      levels: ["Public", "P", "CO", "Top"],
+      flows: [
+        { from: "Public", to: "P" },
+        { from: "Public", to: "CO" },
+      ],
+    });
+  });
+
+  it.each(["Public flows", "flows P", "Public flows 1", "A, B"])(
+    "rejects %j",
+    (text) => expect(() => parseLattice(text)).toThrow(ParseError)
+  );
+
+  it("formats back what it reads", () => {
+    const text = "Public flows P\nPublic flows CO\nTop";
+    expect(formatLattice(parseLattice(text))).toBe(text);
+  });
+});
+
+describe("flows", () => {
+  it("follows flows transitively and reflexively", () => {
+    expect(flowsTo(DIAMOND, "Public", "Secret")).toBe(true);
+    expect(flowsTo(DIAMOND, "A", "A")).toBe(true);
+    expect(flowsTo(DIAMOND, "A", "B")).toBe(false);
+    expect(flowsTo(DIAMOND, "Secret", "Public")).toBe(false);
+  });
+
+  it("finds cycles", () => {
+    expect(latticeCycles(DIAMOND)).toEqual([]);
+    expect(
+      latticeCycles(parseLattice("A flows B\nB flows C\nC flows A\nD flows D"))
+    ).toEqual([["A", "B", "C"], ["D"]]);
+  });
+});
+
+describe("hasseDiagram", () => {
+  it("drops implied flows and ranks the levels", () => {
+    const { edges, ranks } = hasseDiagram(DIAMOND);
+    expect(edges).not.toContainEqual({ from: "Public", to: "Secret" });
+    expect(edges).toHaveLength(4);
+    expect(Object.fromEntries(ranks)).toEqual({
+      Public: 0,
+      A: 1,
+      B: 1,
+      Secret: 2,
+    });
+  });
+
+  it("terminates on cycles", () => {
+    const { edges, ranks } = hasseDiagram(parseLattice("A flows B\nB flows A"));
+    expect(edges).toHaveLength(2);
+    expect(ranks.get("A")).toBe(0);
+  });
+});
+
+describe("checkLattice", () => {
+  const roles = [{ role: "Prosumer", label: "P", types: [] }];
+
+  it("treats roles as levels", () => {
+    expect(securityLevels(parseLattice("Public"), roles)).toEqual([
+      "Public",
+      "P",
+    ]);
+    expect(checkLattice("Public", ["Public", "P"], roles)).toEqual([]);
+  });
+
+  it("reports cycles, undeclared levels and syntax errors", () => {
+    expect(checkLattice("A flows B\nB flows A", ["C", "C"], roles)).toEqual([
+      "Security levels A, B form a cycle.",
+      "Undeclared security level C.",
+    ]);
+    expect(checkLattice("A flows", [], roles)).toEqual([
+      "Expected a security level but found end of input.",
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import type { SimpleRole } from "./types";
+import { ParseError, tokenize } from "./tardisdcr-parser";
+
+/**
+ * A security lattice: its levels and the declared flows between them. `Public flows P`
+ * allows information of level `Public` to flow to level `P`.
+ */
+export interface SecurityLattice {
+  levels: string[];
+  flows: { from: string; to: string }[];
+}
+
+/**
+ * Parses the lattice section of the code, e.g. `Public flows P`, with one level or flow
+ * per line.
+ *
+ * @param text - The lattice.
+ * @returns The levels, in order of appearance, and the flows.
+ * @throws {ParseError} If the text is not a sequence of levels and flows.
+ */
+export function parseLattice(text: string): SecurityLattice {
+  const { tokens } = tokenize(text);
+  const levels: string[] = [];
+  const flows: { from: string; to: string }[] = [];
+  const addLevel = (level: string) => {
+    if (!levels.includes(level)) levels.push(level);
+  };
+
+  let pos = 0;
+  const expectLevel = (): string => {
+    const token = tokens[pos++];
+    if (token.type !== "ident" || token.value === "flows")
+      throw new ParseError(
+        token.type === "eof"
+          ? "Expected a security level but found end of input."
+          : `Expected a security level but found '${token.value}'.`,
+        token.location
+      );
+    return token.value;
+  };
+
+  while (tokens[pos].type !== "eof") {
+    const from = expectLevel();
+    addLevel(from);
+    if (tokens[pos].value === "flows" && tokens[pos].type === "ident") {
+      pos++;
+      const to = expectLevel();
+      addLevel(to);
+      if (!flows.some((flow) => flow.from === from && flow.to === to))
+        flows.push({ from, to });
+    }
+  }
+
+  return { levels, flows };
+}
+
+/**
+ * Writes a lattice back as code: one line per flow, then the levels without flows.
+ */
+export function formatLattice(lattice: SecurityLattice): string {
+  const inFlows = new Set(lattice.flows.flatMap(({ from, to }) => [from, to]));
+
+  return [
+    ...lattice.flows.map(({ from, to }) => `${from} flows ${to}`),
+    ...lattice.levels.filter((level) => !inFlows.has(level)),
+  ].join("\n");
+}
+
+/**
+ * Returns the levels a level may flow to, itself included, following the declared flows
+ * transitively.
+ */
+export function flowsFrom(
+  lattice: SecurityLattice,
+  level: string
+): Set<string> {
+  const reached = new Set([level]);
+  const queue = [level];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    lattice.flows
+      .filter((flow) => flow.from === current && !reached.has(flow.to))
+      .forEach((flow) => {
+        reached.add(flow.to);
+        queue.push(flow.to);
+      });
+  }
+
+  return reached;
+}
+
+/**
+ * Checks whether information of one level may flow to another.
+ */
+export const flowsTo = (lattice: SecurityLattice, from: string, to: string) =>
+  flowsFrom(lattice, from).has(to);
+
+/**
+ * Returns the cycles of the lattice, as the sets of levels flowing into each other,
+ * which a lattice must not have.
+ *
+ * @param lattice - The lattice.
+ * @returns The levels of each cycle, in order of declaration.
+ */
+export function latticeCycles(lattice: SecurityLattice): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  lattice.levels.forEach((level) => {
+    if (seen.has(level)) return;
+
+    const cycle = lattice.levels.filter(
+      (other) =>
+        flowsTo(lattice, level, other) && flowsTo(lattice, other, level)
+    );
+    const selfLoop = lattice.flows.some(
+      (flow) => flow.from === level && flow.to === level
+    );
+    cycle.forEach((other) => seen.add(other));
+    if (cycle.length > 1 || selfLoop) cycles.push(cycle);
+  });
+
+  return cycles;
+}
+
+/**
+ * The Hasse diagram of a lattice: the flows that are not implied by others, and the
+ * rank of each level, i.e. the length of the longest chain of flows below it.
+ */
+export interface HasseDiagram {
+  edges: { from: string; to: string }[];
+  ranks: Map<string, number>;
+}
+
+/**
+ * Builds the Hasse diagram of a lattice. Flows of a cycle are kept as declared.
+ *
+ * @param lattice - The lattice.
+ * @returns The covering flows and the rank of each level.
+ */
+export function hasseDiagram(lattice: SecurityLattice): HasseDiagram {
+  const flows = lattice.flows.filter((flow) => flow.from !== flow.to);
+
+  const edges = flows.filter(
+    ({ from, to }) =>
+      flowsTo(lattice, to, from) ||
+      !flows.some(
+        (other) =>
+          other.from === from &&
+          other.to !== to &&
+          flowsTo(lattice, other.to, to)
+      )
+  );
+
+  // Longest chains, ignoring the flows back into a level of the same cycle
+  const ranks = new Map(lattice.levels.map((level) => [level, 0]));
+  const upward = edges.filter(({ from, to }) => !flowsTo(lattice, to, from));
+  for (let i = 0; i < lattice.levels.length; i++)
+    upward.forEach(({ from, to }) =>
+      ranks.set(to, Math.max(ranks.get(to)!, ranks.get(from)! + 1))
+    );
+
+  return { edges, ranks };
+}
+
+/**
+ * Returns the security levels events may use: the levels of the lattice and the roles,
+ * which are levels too.
+ */
+export function securityLevels(
+  lattice: SecurityLattice,
+  roles: SimpleRole[]
+): string[] {
+  return [
+    ...lattice.levels,
+    ...roles
+      .map((role) => role.label)
+      .filter((label) => !lattice.levels.includes(label)),
+  ];
+}
+
+/**
+ * Checks a lattice and the levels used by the events, reporting cycles and undeclared
+ * levels.
+ *
+ * @param text - The lattice, as written in the code.
+ * @param used - The security levels of the events.
+ * @param roles - The declared roles, which are levels too.
+ * @returns The problems found, empty if the lattice is valid.
+ */
+export function checkLattice(
+  text: string,
+  used: string[],
+  roles: SimpleRole[]
+): string[] {
+  let lattice: SecurityLattice;
+  try {
+    lattice = parseLattice(text);
+  } catch (error) {
+    if (!(error instanceof ParseError)) throw error;
+    return [error.message];
+  }
+
+  const levels = securityLevels(lattice, roles);
+  return [
+    ...latticeCycles(lattice).map(
+      (cycle) => `Security levels ${cycle.join(", ")} form a cycle.`
+    ),
+    ...[...new Set(used)]
+      .filter((level) => level && !levels.includes(level))
+      .map((level) => `Undeclared security level ${level}.`),
+  ];
+}
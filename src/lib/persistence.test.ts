@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BackendError, loadDocument, loadStartupDocument } from "./persistence";
+
+afterEach(() => {
+  vi.mocked(fetch).mockReset();
+});
+
+/**
+ * Makes the backend answer every request with a failure.
+ */
+const refuse = (status: number, message: string) =>
+  vi.mocked(fetch).mockImplementation(
+    async () =>
+      ({
+        ok: false,
+        status,
+        text: async () => message,
+      }) as Response
+  );
+
+describe("loadStartupDocument", () => {
+  it("opens a new document when the backend refuses the name", async () => {
+    refuse(400, "Invalid document name a/b.");
+
+    await expect(loadDocument("a/b")).rejects.toThrow(BackendError);
+    expect(await loadStartupDocument("a/b")).toEqual({
+      state: undefined,
+      revision: 0,
+      synced: true,
+      offline: false,
+      error: "Invalid document name a/b.",
+    });
+  });
+
+  it("tells a missing document from an unreachable backend", async () => {
+    refuse(404, "Not found.");
+    expect(await loadStartupDocument("new")).toEqual({
+      revision: 0,
+      synced: true,
+      offline: false,
+    });
+
+    refuse(502, "Bad gateway.");
+    expect(await loadStartupDocument("new")).toMatchObject({ offline: true });
+  });
+});
@@ -0,0 +1,250 @@
+import type { State } from "./types";
+
+const DATABASE = "tardis-dcr-editor";
+const DOCUMENTS = "documents";
+
+/**
+ * A document kept in the browser.
+ *
+ * @property name - The name of the document.
+ * @property state - The saved graph of the document.
+ * @property revision - The revision of the backend the graph is based on.
+ * @property synced - Whether the backend has the graph, i.e. no change is waiting to be sent.
+ */
+export interface LocalDocument {
+  name: string;
+  state: State;
+  revision: number;
+  synced: boolean;
+}
+
+/**
+ * A document loaded from the backend or, when it cannot be reached, from the browser.
+ *
+ * @property state - The saved graph, undefined if the document is known to neither.
+ * @property revision - The revision of the backend the graph is based on.
+ * @property synced - Whether the backend has the graph.
+ * @property offline - Whether the backend could not be reached.
+ * @property error - Why the backend refused the document, if it did.
+ */
+export interface LoadedDocument {
+  state?: State;
+  revision: number;
+  synced: boolean;
+  offline: boolean;
+  error?: string;
+}
+
+/**
+ * The saved graph of a new document.
+ */
+export const emptyDocument = (): State => ({
+  nodes: [],
+  edges: [],
+  security: "",
+  roles: [],
+  code: "",
+  nextNodeId: [0],
+  nextGroupId: [0],
+  nextSubprocessId: [0],
+});
+
+/**
+ * Error raised when the backend answers a document request with a failure, or cannot be
+ * reached, in which case it has no status.
+ */
+export class BackendError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "BackendError";
+    this.status = status;
+  }
+}
+
+/**
+ * Whether a failed request means the backend is unavailable, rather than refusing it. The
+ * development proxy answers with a server error when the backend is not running.
+ */
+export const isOffline = (error: BackendError) =>
+  error.status === undefined || error.status >= 500;
+
+/**
+ * Sends a request to the document routes of the backend.
+ *
+ * @param path - The path after `/api/documents`.
+ * @param method - The HTTP method.
+ * @param body - The JSON body, if any.
+ * @returns The response, if successful.
+ * @throws {BackendError} With the answer of the backend if the request fails.
+ */
+export async function requestDocuments(
+  path: string,
+  method: string = "GET",
+  body?: object
+): Promise<Response> {
+  const response = await fetch(`/api/documents${path}`, {
+    method,
+    ...(body && {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  }).catch(() => {
+    throw new BackendError("The backend cannot be reached.");
+  });
+
+  if (!response.ok)
+    throw new BackendError(await response.text(), response.status);
+  return response;
+}
+
+/**
+ * Returns the path of a document below `/api/documents`.
+ */
+export const documentPath = (name: string) => `/${encodeURIComponent(name)}`;
+
+/* ---------------- INDEXEDDB -------------- */
+
+let database: Promise<IDBDatabase | undefined> | undefined;
+
+/**
+ * Opens the database of the editor, or resolves to `undefined` where IndexedDB is not
+ * available: keeping documents in the browser is a best effort.
+ */
+const openDatabase = () =>
+  (database ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(undefined);
+
+    const request = indexedDB.open(DATABASE, 1);
+    request.onupgradeneeded = () =>
+      request.result.createObjectStore(DOCUMENTS, { keyPath: "name" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  }));
+
+/**
+ * Runs a request on the documents kept in the browser, resolving to `undefined` if it
+ * fails.
+ */
+const transact = async <T>(
+  mode: IDBTransactionMode,
+  run: (documents: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const request = run(db.transaction(DOCUMENTS, mode).objectStore(DOCUMENTS));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+};
+
+/**
+ * Reads a document kept in the browser.
+ */
+export const readLocalDocument = (name: string) =>
+  transact<LocalDocument | undefined>("readonly", (documents) =>
+    documents.get(name)
+  );
+
+/**
+ * Keeps a document in the browser, replacing the previous copy.
+ */
+export const writeLocalDocument = async (document: LocalDocument) => {
+  await transact("readwrite", (documents) => documents.put(document));
+};
+
+/**
+ * Forgets the copy of a document kept in the browser.
+ */
+export const deleteLocalDocument = async (name: string) => {
+  await transact("readwrite", (documents) => documents.delete(name));
+};
+
+/* ----------------- LOADING --------------- */
+
+/**
+ * Loads a document, preferring the copy kept in the browser when it has changes the
+ * backend has not received; saving them later tells whether the backend changed
+ * meanwhile. The copy is also used when the backend cannot be reached. A document known
+ * to neither has no state.
+ *
+ * @param name - The name of the document.
+ * @returns The document, with the revision it is based on.
+ * @throws {BackendError} If the backend refuses the request for another reason than the
+ *                        document not existing.
+ */
+export async function loadDocument(name: string): Promise<LoadedDocument> {
+  const local = await readLocalDocument(name);
+  if (local && !local.synced)
+    return {
+      state: local.state,
+      revision: local.revision,
+      synced: false,
+      offline: false,
+    };
+
+  let response: Response;
+  try {
+    response = await requestDocuments(documentPath(name));
+  } catch (error) {
+    if (!(error instanceof BackendError)) throw error;
+    if (error.status === 404)
+      return { revision: 0, synced: true, offline: false };
+    if (!isOffline(error)) throw error;
+
+    return local
+      ? {
+          state: local.state,
+          revision: local.revision,
+          synced: true,
+          offline: true,
+        }
+      : { revision: 0, synced: true, offline: true };
+  }
+
+  const { revision, ...state } = await response.json();
+  const loaded: LocalDocument = {
+    name,
+    state: state as State,
+    revision: typeof revision === "number" ? revision : 0,
+    synced: true,
+  };
+  await writeLocalDocument(loaded);
+
+  return {
+    state: loaded.state,
+    revision: loaded.revision,
+    synced: true,
+    offline: false,
+  };
+}
+
+/**
+ * Loads the document opened at startup as `loadDocument` does, without failing when the
+ * backend refuses it, e.g. for an invalid name: the copy kept in the browser is used if
+ * there is one, and the document is new otherwise.
+ *
+ * @param name - The name of the document.
+ * @returns The document, with why the backend refused it if it did.
+ */
+export async function loadStartupDocument(
+  name: string
+): Promise<LoadedDocument> {
+  try {
+    return await loadDocument(name);
+  } catch (error) {
+    if (!(error instanceof BackendError)) throw error;
+
+    const local = await readLocalDocument(name);
+    return {
+      state: local?.state,
+      revision: local?.revision ?? 0,
+      synced: local?.synced ?? true,
+      offline: false,
+      error: error.message,
+    };
+  }
+}
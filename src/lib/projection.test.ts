@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { participantRoles, projectGraph, projectRoles } from "./projection";
+import {
+  eventNode,
+  exampleStates,
+  relationEdge,
+  subgraphNode,
+} from "@/test/fixtures";
+
+const NODES = [
+  eventNode("e0", { initiators: ["P(id=1)"], receivers: ["O"] }),
+  eventNode("e1", { initiators: ["O"], receivers: [] }),
+  subgraphNode("n0", "nest", { position: { x: 300, y: 40 } }),
+  eventNode(
+    "e2",
+    { initiators: ["Q"], receivers: ["P(id=*)"] },
+    { parentId: "n0", position: { x: 20, y: 30 } }
+  ),
+  subgraphNode("s0", "subprocess"),
+  eventNode(
+    "e3",
+    { initiators: ["@Receiver(e0)"], receivers: [] },
+    { parentId: "s0" }
+  ),
+];
+
+const EDGES = [
+  relationEdge("condition", "e0", "e1"),
+  relationEdge("response", "e0", "n0"),
+  relationEdge("exclude", "e1", "e2"),
+  relationEdge("spawn", "e0", "s0"),
+];
+
+const ids = (elements: { id: string }[]) => elements.map((el) => el.id);
+
+describe("participantRoles", () => {
+  it("reads the role of each participant", () => {
+    expect(
+      participantRoles(["P(id=1; x=*)", "CO(#cid as X)", " Public "], [])
+    ).toEqual(["P", "CO", "Public"]);
+  });
+
+  it("follows references to the participants of other events", () => {
+    expect(participantRoles(["@Initiator(e0)"], NODES)).toEqual(["P"]);
+    expect(participantRoles(["@Receiver(e3)"], NODES)).toEqual([]);
+  });
+
+  it("stops on cyclic references", () => {
+    const nodes = [eventNode("e0", { initiators: ["@Initiator(e0)"] })];
+
+    expect(participantRoles(["@Initiator(e0)"], nodes)).toEqual([]);
+  });
+});
+
+describe("projectGraph", () => {
+  it("keeps the events of the role, as tx or rx", () => {
+    const { nodes } = projectGraph(NODES, EDGES, "P");
+
+    expect(
+      nodes.map((nd) => [nd.id, nd.data.interactionType ?? nd.type])
+    ).toEqual([
+      ["e0", "tx"],
+      ["e1", "event"],
+      ["n0", "nest"],
+      ["e2", "rx"],
+    ]);
+  });
+
+  it("keeps the relations between kept elements", () => {
+    expect(ids(projectGraph(NODES, EDGES, "O").edges)).toEqual([
+      "c-e0-e1",
+      "s-e0-s0",
+    ]);
+  });
+
+  it("keeps the relations from other roles, with their events as context", () => {
+    const { nodes, edges } = projectGraph(NODES, EDGES, "P");
+
+    expect(ids(edges)).toEqual(["r-e0-n0", "e-e1-e2"]);
+    expect(
+      nodes.map((nd) => [nd.id, nd.data.interactionType ?? nd.data.context])
+    ).toEqual([
+      ["e0", "tx"],
+      ["e1", true],
+      ["n0", undefined],
+      ["e2", "rx"],
+    ]);
+  });
+
+  it("keeps the events of a nest a relation comes from as context", () => {
+    const nodes = [
+      subgraphNode("n1", "nest"),
+      eventNode("e5", { initiators: ["O"] }, { parentId: "n1" }),
+      eventNode("e6", { initiators: ["O"] }, { parentId: "n1" }),
+      eventNode("e7", { initiators: ["P"] }),
+    ];
+    const projection = projectGraph(
+      nodes,
+      [
+        relationEdge("condition", "n1", "e7"),
+        relationEdge("include", "e5", "e6"),
+      ],
+      "P"
+    );
+
+    expect(ids(projection.nodes)).toEqual(["n1", "e5", "e6", "e7"]);
+    expect(ids(projection.edges)).toEqual(["c-n1-e7"]);
+  });
+
+  it("keeps subprocesses of events bound to a spawn trigger", () => {
+    const { nodes } = projectGraph(NODES, EDGES, "O");
+
+    expect(
+      nodes.map((nd) => [nd.id, nd.data.interactionType ?? nd.type])
+    ).toEqual([
+      ["e0", "rx"],
+      ["e1", "tx"],
+      ["s0", "subprocess"],
+      ["e3", "tx"],
+    ]);
+  });
+
+  it("keeps the global layout", () => {
+    const { nodes } = projectGraph(NODES, EDGES, "P");
+
+    expect(nodes.find((nd) => nd.id === "n0")).toMatchObject({
+      position: { x: 300, y: 40 },
+      width: 200,
+      height: 200,
+    });
+    expect(nodes.find((nd) => nd.id === "e2")).toMatchObject({
+      parentId: "n0",
+      position: { x: 20, y: 30 },
+    });
+  });
+
+  it("leaves out roles without events", () => {
+    expect(projectGraph(NODES, EDGES, "R")).toEqual({ nodes: [], edges: [] });
+  });
+
+  it.each(exampleStates())(
+    "projects the %s example consistently",
+    (_name, state) => {
+      projectRoles(state.nodes, state.edges, state.roles).forEach(
+        ({ nodes, edges }) => {
+          const kept = new Set(ids(nodes));
+
+          nodes.forEach((nd) => {
+            if (nd.parentId) expect(kept).toContain(nd.parentId);
+            if (nd.type === "event" && !nd.data.context)
+              expect(["tx", "rx"]).toContain(nd.data.interactionType);
+          });
+          edges.forEach((ed) => {
+            expect(kept).toContain(ed.source);
+            expect(kept).toContain(ed.target);
+          });
+        }
+      );
+    }
+  );
+});
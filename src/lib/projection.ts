@@ -0,0 +1,146 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { ProjectionInfo, SimpleRole } from "./types";
+import { endpointEvents } from "./dcr-flow";
+
+const PARTICIPANT_REF = /^\s*@(Initiator|Receiver)\s*\(\s*(\w+)\s*\)\s*$/;
+const PARTICIPANT_ROLE = /^\s*(\w+)/;
+
+/**
+ * How a role takes part in an event: `tx` when it initiates it, `rx` when it receives it.
+ */
+export type InteractionType = "tx" | "rx";
+
+/**
+ * Returns the roles taking part in a list of participants, e.g. `P(id=1)` or
+ * `CO(#cid as X)`. References to the participants of a spawn trigger, e.g.
+ * `@Initiator(e0)`, are replaced by the roles of that event.
+ *
+ * @param participants - The initiators or receivers of an event.
+ * @param nodes - The nodes of the graph, to look up the referenced events.
+ * @param seen - The events whose participants are being looked up, to stop on cycles.
+ * @returns The labels of the roles, possibly repeated.
+ */
+export function participantRoles(
+  participants: string[],
+  nodes: Node[],
+  seen: string[] = []
+): string[] {
+  return participants.flatMap((participant) => {
+    const ref = PARTICIPANT_REF.exec(participant);
+    if (!ref) {
+      const role = PARTICIPANT_ROLE.exec(participant);
+      return role ? [role[1]] : [];
+    }
+
+    const [, side, label] = ref;
+    const trigger = nodes.find(
+      (nd) => nd.type === "event" && nd.data.label === label
+    );
+    if (!trigger || seen.includes(label)) return [];
+
+    const field = side === "Initiator" ? "initiators" : "receivers";
+    return participantRoles(
+      (trigger.data[field] as string[] | undefined) ?? [],
+      nodes,
+      [...seen, label]
+    );
+  });
+}
+
+/**
+ * Returns how a role takes part in each event of a graph. Events the role neither
+ * initiates nor receives are left out.
+ */
+export function roleInteractions(
+  nodes: Node[],
+  role: string
+): Map<string, InteractionType> {
+  const interactions = new Map<string, InteractionType>();
+
+  nodes
+    .filter((nd) => nd.type === "event")
+    .forEach((nd) => {
+      const initiators = (nd.data.initiators as string[] | undefined) ?? [];
+      const receivers = (nd.data.receivers as string[] | undefined) ?? [];
+
+      if (participantRoles(initiators, nodes).includes(role))
+        interactions.set(nd.id, "tx");
+      else if (participantRoles(receivers, nodes).includes(role))
+        interactions.set(nd.id, "rx");
+    });
+
+  return interactions;
+}
+
+/**
+ * Computes the endpoint projection of a choreography onto a role.
+ *
+ * The projection keeps the events the role initiates or receives, marked as `tx` or `rx`
+ * in their `interactionType`, and the nests and subprocesses containing them. Every
+ * relation to one of these elements is kept, even from an event of another role: such
+ * source events are kept as context, marked with `context`. Nodes keep their position
+ * in the global graph.
+ *
+ * @param nodes - The nodes of the global graph.
+ * @param edges - The edges of the global graph.
+ * @param role - The label of the role.
+ * @returns The nodes and edges of the projection.
+ */
+export function projectGraph(
+  nodes: Node[],
+  edges: Edge[],
+  role: string
+): ProjectionInfo {
+  const interactions = roleInteractions(nodes, role);
+  const byId = new Map(nodes.map((nd) => [nd.id, nd]));
+
+  // Kept events and their ancestors
+  const kept = new Set<string>();
+  const keep = (id?: string) => {
+    const node = id ? byId.get(id) : undefined;
+    if (!node || kept.has(node.id)) return;
+
+    kept.add(node.id);
+    keep(node.parentId);
+  };
+  interactions.forEach((_, id) => keep(id));
+
+  // Relations constraining the role, along with the events they come from
+  const constraining = edges.filter((ed) => kept.has(ed.target));
+  constraining.forEach((ed) => {
+    keep(ed.source);
+    endpointEvents(nodes, ed.source).forEach((ev) => keep(ev.id));
+  });
+
+  return {
+    nodes: nodes
+      .filter((nd) => kept.has(nd.id))
+      .map((nd) => ({
+        ...nd,
+        selected: false,
+        ...(nd.type === "event" && {
+          data: interactions.has(nd.id)
+            ? { ...nd.data, interactionType: interactions.get(nd.id) }
+            : { ...nd.data, context: true },
+        }),
+      })),
+    edges: constraining
+      .filter((ed) => kept.has(ed.source))
+      .map((ed) => ({ ...ed, selected: false })),
+  };
+}
+
+/**
+ * Projects a choreography onto each of its roles.
+ *
+ * @returns The projections, keyed by role label.
+ */
+export function projectRoles(
+  nodes: Node[],
+  edges: Edge[],
+  roles: SimpleRole[]
+): Map<string, ProjectionInfo> {
+  return new Map(
+    roles.map((role) => [role.label, projectGraph(nodes, edges, role.label)])
+  );
+}
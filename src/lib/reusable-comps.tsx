@@ -185,6 +185,11 @@ export const FormCheckbox = ({
   </div>
 );
 
+// Reusable Form Error Component
+export const FormError = ({ children }: { children: React.ReactNode }) => (
+  <span className="text-red-600 text-[12px]">{children}</span>
+);
+
 // Reusable Button Component
 export const Button = ({
   onClick,
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import type { Edge } from "@xyflow/react";
+import {
+  boundVariables,
+  checkRoleExpr,
+  enclosingTriggers,
+  eventRoleContexts,
+  formatRoleExpr,
+  parseRoleExpr,
+  RoleExprContext,
+} from "./role-expr";
+import { ParseError, parseProgram } from "./tardisdcr-parser";
+import type { SimpleRole } from "./types";
+import { eventNode, examplePrograms, subgraphNode } from "@/test/fixtures";
+
+const ROLES: SimpleRole[] = [
+  { role: "P", label: "P", types: [{ var: "id", type: "Integer" }] },
+  {
+    role: "CO",
+    label: "CO",
+    types: [
+      { var: "cid", type: "Integer" },
+      { var: "name", type: "String" },
+    ],
+  },
+  { role: "O", label: "O", types: [] },
+];
+
+const context = (
+  variables: [string, string][] = [],
+  triggers: string[] = []
+): RoleExprContext => ({
+  roles: ROLES,
+  variables: new Map(variables),
+  triggers,
+});
+
+const check = (text: string, ctx = context()) =>
+  checkRoleExpr(parseRoleExpr(text), ctx);
+
+describe("parseRoleExpr", () => {
+  it("reads every kind of parameter", () => {
+    expect(parseRoleExpr("CO(#cid as X; name='a'; id=*; k=Y; n=-1)")).toEqual({
+      kind: "role",
+      role: "CO",
+      params: [
+        { name: "cid", value: { kind: "bind", alias: "X" } },
+        { name: "name", value: { kind: "literal", value: "'a'" } },
+        { name: "id", value: { kind: "wildcard" } },
+        { name: "k", value: { kind: "variable", name: "Y" } },
+        { name: "n", value: { kind: "literal", value: "-1" } },
+      ],
+    });
+  });
+
+  it("reads roles without parameters and references", () => {
+    expect(parseRoleExpr("O")).toEqual({ kind: "role", role: "O", params: [] });
+    expect(parseRoleExpr("@Receiver(e0)")).toEqual({
+      kind: "receiver",
+      event: "e0",
+    });
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseRoleExpr("P(id=)")).toThrow(ParseError);
+    expect(() => parseRoleExpr("P(id=1), O")).toThrow(ParseError);
+    expect(() => parseRoleExpr("@Initiator e0")).toThrow(ParseError);
+  });
+
+  it("formats back what it reads", () => {
+    ["P(id=1)", "CO(#cid as X; name='a')", "P(#id)", "O", "@Initiator(e1)"]
+      .map((text) => [text, formatRoleExpr(parseRoleExpr(text))])
+      .forEach(([text, formatted]) => expect(formatted).toBe(text));
+  });
+
+  it.each(examplePrograms())(
+    "round-trips the participants of %s",
+    (_, code) => {
+      const participants: string[] = [];
+      const visit = (process: ReturnType<typeof parseProgram>["process"]) => {
+        process.events.forEach((event) =>
+          [...event.initiators, ...event.receivers].forEach((part) =>
+            participants.push(part.text)
+          )
+        );
+        process.relations.forEach(
+          (relation) => relation.kind === "spawn" && visit(relation.process)
+        );
+      };
+      visit(parseProgram(code).process);
+
+      participants.forEach((text) => {
+        const expr = parseRoleExpr(text);
+        expect(parseRoleExpr(formatRoleExpr(expr))).toEqual(expr);
+      });
+    }
+  );
+});
+
+describe("checkRoleExpr", () => {
+  it("accepts well-typed expressions", () => {
+    expect(check("P(id=1)")).toEqual([]);
+    expect(check("CO(cid=*; name='x')")).toEqual([]);
+    expect(check("CO(#cid as X; #name)")).toEqual([]);
+    expect(check("P(id=X)", context([["X", "Integer"]]))).toEqual([]);
+  });
+
+  it("reports unknown roles and parameters", () => {
+    expect(check("Q")).toEqual(["Unknown role Q."]);
+    expect(check("P(cid=1)")).toEqual(["Role P has no parameter cid."]);
+    expect(check("P(id=1; id=2)")).toEqual(["Parameter id is given twice."]);
+  });
+
+  it("reports literals of the wrong type", () => {
+    expect(check("P(id='1')")).toEqual([
+      "Parameter id expects Integer but got String.",
+    ]);
+    expect(check("CO(name=true)")).toEqual([
+      "Parameter name expects String but got Boolean.",
+    ]);
+    expect(check("P(id=1+1)")).toEqual(["Invalid value 1+1 for id."]);
+  });
+
+  it("reports unbound and mistyped variables", () => {
+    expect(check("P(id=X)")).toEqual(["Unbound variable X."]);
+    expect(check("P(id=X)", context([["X", "String"]]))).toEqual([
+      "Parameter id expects Integer but X is String.",
+    ]);
+  });
+
+  it("only accepts references to enclosing spawn triggers", () => {
+    expect(check("@Initiator(e0)", context([], ["e0"]))).toEqual([]);
+    expect(check("@Receiver(e1)", context([], ["e0"]))).toEqual([
+      "e1 does not trigger an enclosing spawn.",
+    ]);
+  });
+});
+
+describe("scopes", () => {
+  const nodes = [
+    eventNode("e0", { label: "a", initiators: ["CO(#cid as C)"] }),
+    subgraphNode("s0", "subprocess"),
+    subgraphNode("n0", "nest", { parentId: "s0" }),
+    eventNode("e1", { label: "b", initiators: ["P(#id)"] }, { parentId: "s0" }),
+    subgraphNode("s1", "subprocess", { parentId: "n0" }),
+    eventNode("e2", { label: "c" }, { parentId: "s1" }),
+  ];
+  const edges: Edge[] = [
+    { id: "s-e0-s0", type: "spawn", source: "e0", target: "s0" },
+    { id: "s-e1-s1", type: "spawn", source: "e1", target: "s1" },
+  ];
+
+  it("finds the enclosing spawn triggers, innermost first", () => {
+    expect(enclosingTriggers(nodes, edges, "e2").map((n) => n.id)).toEqual([
+      "e1",
+      "e0",
+    ]);
+    expect(enclosingTriggers(nodes, edges, "e0")).toEqual([]);
+  });
+
+  it("binds the variables of initiators", () => {
+    expect(
+      boundVariables([parseRoleExpr("CO(#cid as C; #name)")], ROLES)
+    ).toEqual(
+      new Map([
+        ["C", "Integer"],
+        ["name", "String"],
+      ])
+    );
+  });
+
+  it("lets receivers see the variables of the initiators", () => {
+    const contexts = eventRoleContexts(nodes, edges, ROLES, "e2", [
+      "CO(#name as N)",
+    ]);
+
+    expect(contexts.initiators.triggers).toEqual(["b", "a"]);
+    expect([...contexts.initiators.variables.keys()]).toEqual(["id", "C"]);
+    expect([...contexts.receivers.variables.keys()]).toEqual(["id", "C", "N"]);
+  });
+});
@@ -0,0 +1,340 @@
+import type { Edge, Node } from "@xyflow/react";
+import type { SimpleRole } from "./types";
+import { ParseError, Token, tokenize } from "./tardisdcr-parser";
+
+/**
+ * The value given to a role parameter in an initiator or receiver:
+ * - `wildcard`: any value, `id=*`;
+ * - `literal`: a constant, `id=1`, `name='x'` or `ok=true`;
+ * - `bind`: the parameter is bound to a variable, `#cid` or `#cid as X`;
+ * - `variable`: a variable bound elsewhere, `cid=X`.
+ */
+export type RoleParamValue =
+  | { kind: "wildcard" }
+  | { kind: "literal"; value: string }
+  | { kind: "bind"; alias?: string }
+  | { kind: "variable"; name: string };
+
+/**
+ * A parameter of a role expression.
+ */
+export interface RoleParam {
+  name: string;
+  value: RoleParamValue;
+}
+
+/**
+ * An initiator or receiver of an event: a role with some of its parameters, or the
+ * initiator or receiver of the event triggering an enclosing spawn (`@Initiator(e)`).
+ */
+export type RoleExpr =
+  | { kind: "role"; role: string; params: RoleParam[] }
+  | { kind: "initiator" | "receiver"; event: string };
+
+/**
+ * What a role expression is checked against.
+ *
+ * @property roles - The declared roles and the types of their parameters.
+ * @property variables - The type of each variable in scope, by name.
+ * @property triggers - The labels of the events triggering the enclosing spawns.
+ */
+export interface RoleExprContext {
+  roles: SimpleRole[];
+  variables: Map<string, string>;
+  triggers: string[];
+}
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+/**
+ * Returns the type of a literal parameter value, or `undefined` if the text is not a
+ * literal.
+ */
+export function literalType(value: string): string | undefined {
+  if (/^-?\d+$/.test(value)) return "Integer";
+  if (value === "true" || value === "false") return "Boolean";
+  if (/^'[^']*'$|^"[^"]*"$/.test(value)) return "String";
+  return undefined;
+}
+
+/**
+ * Reads the value written after `=` in a role parameter.
+ */
+const toParamValue = (text: string): RoleParamValue => {
+  if (text === "*") return { kind: "wildcard" };
+  if (!literalType(text) && IDENTIFIER.test(text))
+    return { kind: "variable", name: text };
+  return { kind: "literal", value: text };
+};
+
+/**
+ * Parses an initiator or receiver, e.g. `P(id=1)`, `CO(#cid as X)` or `@Initiator(e0)`,
+ * with the syntax of the `.tardisdcr` participants.
+ *
+ * @param text - The role expression.
+ * @returns The structured expression.
+ * @throws {ParseError} If the text is not a single participant.
+ */
+export function parseRoleExpr(text: string): RoleExpr {
+  const { tokens } = tokenize(text);
+  let pos = 0;
+
+  const peek = () => tokens[Math.min(pos, tokens.length - 1)];
+  const next = () => tokens[Math.min(pos++, tokens.length - 1)];
+  const is = (value: string) =>
+    peek().type !== "string" && peek().value === value;
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new ParseError(message, token.location);
+  };
+  const describe = (token: Token) =>
+    token.type === "eof" ? "end of input" : `'${token.value}'`;
+  const expect = (value: string) =>
+    is(value)
+      ? next()
+      : fail(`Expected '${value}' but found ${describe(peek())}.`);
+  const expectIdent = (what: string) =>
+    peek().type === "ident"
+      ? next()
+      : fail(`Expected ${what} but found ${describe(peek())}.`);
+
+  const parseParam = (): RoleParam => {
+    if (is("#")) {
+      next();
+      const name = expectIdent("a parameter name").value;
+      if (!is("as")) return { name, value: { kind: "bind" } };
+      next();
+      const alias = expectIdent("an alias").value;
+      return { name, value: { kind: "bind", alias } };
+    }
+
+    const name = expectIdent("a parameter name").value;
+    expect("=");
+    const valueTokens: Token[] = [];
+    while (!is(";") && !is(")") && peek().type !== "eof")
+      valueTokens.push(next());
+    if (valueTokens.length === 0) fail("Expected a parameter value.");
+
+    const value = text.slice(
+      valueTokens[0].start,
+      valueTokens[valueTokens.length - 1].end
+    );
+    return { name, value: toParamValue(value) };
+  };
+
+  const role = expectIdent("a role");
+  let expr: RoleExpr;
+
+  if (role.value === "@Initiator" || role.value === "@Receiver") {
+    expect("(");
+    const event = expectIdent("an event label").value;
+    expect(")");
+    expr = {
+      kind: role.value === "@Initiator" ? "initiator" : "receiver",
+      event,
+    };
+  } else {
+    const params: RoleParam[] = [];
+    if (is("(")) {
+      next();
+      if (!is(")")) {
+        params.push(parseParam());
+        while (is(";")) {
+          next();
+          params.push(parseParam());
+        }
+      }
+      expect(")");
+    }
+    expr = { kind: "role", role: role.value, params };
+  }
+
+  if (peek().type !== "eof") fail(`Unexpected ${describe(peek())}.`);
+  return expr;
+}
+
+/**
+ * Writes a role expression back as an initiator or receiver.
+ */
+export function formatRoleExpr(expr: RoleExpr): string {
+  if (expr.kind !== "role")
+    return `${expr.kind === "initiator" ? "@Initiator" : "@Receiver"}(${expr.event})`;
+  if (expr.params.length === 0) return expr.role;
+
+  const params = expr.params.map(({ name, value }) => {
+    switch (value.kind) {
+      case "wildcard":
+        return `${name}=*`;
+      case "literal":
+        return `${name}=${value.value}`;
+      case "variable":
+        return `${name}=${value.name}`;
+      case "bind":
+        return value.alias ? `#${name} as ${value.alias}` : `#${name}`;
+    }
+  });
+  return `${expr.role}(${params.join("; ")})`;
+}
+
+/**
+ * Returns the variables bound by role expressions, with the type of the parameter they
+ * are bound to. A binding without alias binds the parameter name.
+ *
+ * @param exprs - The role expressions, e.g. the initiators of an event.
+ * @param roles - The declared roles.
+ * @returns The type of each bound variable, by name.
+ */
+export function boundVariables(
+  exprs: RoleExpr[],
+  roles: SimpleRole[]
+): Map<string, string> {
+  const variables = new Map<string, string>();
+
+  exprs.forEach((expr) => {
+    if (expr.kind !== "role") return;
+    const role = roles.find((r) => r.label === expr.role);
+
+    expr.params.forEach(({ name, value }) => {
+      const type = role?.types.find((param) => param.var === name)?.type;
+      if (value.kind === "bind" && type)
+        variables.set(value.alias ?? name, type);
+    });
+  });
+
+  return variables;
+}
+
+/**
+ * Type checks a role expression: the role must be declared, every parameter must be
+ * one of the role's and given at most once, a literal must have the declared type of
+ * its parameter, a variable must be bound with that type, and `@Initiator(e)` or
+ * `@Receiver(e)` must refer to the trigger of an enclosing spawn.
+ *
+ * @param expr - The role expression.
+ * @param context - The roles, variables and spawn triggers in scope.
+ * @returns The errors found, empty if the expression is well typed.
+ */
+export function checkRoleExpr(
+  expr: RoleExpr,
+  context: RoleExprContext
+): string[] {
+  if (expr.kind !== "role")
+    return context.triggers.includes(expr.event)
+      ? []
+      : [`${expr.event} does not trigger an enclosing spawn.`];
+
+  const role = context.roles.find((r) => r.label === expr.role);
+  if (!role) return [`Unknown role ${expr.role}.`];
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  expr.params.forEach(({ name, value }) => {
+    const type = role.types.find((param) => param.var === name)?.type;
+    if (!type) {
+      errors.push(`Role ${role.label} has no parameter ${name}.`);
+      return;
+    }
+    if (seen.has(name)) errors.push(`Parameter ${name} is given twice.`);
+    seen.add(name);
+
+    if (value.kind === "literal") {
+      const actual = literalType(value.value);
+      if (!actual) errors.push(`Invalid value ${value.value} for ${name}.`);
+      else if (actual !== type)
+        errors.push(`Parameter ${name} expects ${type} but got ${actual}.`);
+    } else if (value.kind === "variable") {
+      const actual = context.variables.get(value.name);
+      if (!actual) errors.push(`Unbound variable ${value.name}.`);
+      else if (actual !== type)
+        errors.push(
+          `Parameter ${name} expects ${type} but ${value.name} is ${actual}.`
+        );
+    } else if (value.kind === "bind" && value.alias) {
+      if (!IDENTIFIER.test(value.alias))
+        errors.push(`Invalid alias ${value.alias}.`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Returns the events triggering the spawns of the subprocesses enclosing a node,
+ * innermost first.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param edges - The edges of the graph.
+ * @param id - The id of the node.
+ * @returns The trigger events.
+ */
+export function enclosingTriggers(
+  nodes: Node[],
+  edges: Edge[],
+  id: string
+): Node[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const triggers: Node[] = [];
+
+  const node = byId.get(id);
+  let parent = node?.parentId ? byId.get(node.parentId) : undefined;
+  while (parent) {
+    if (parent.type === "subprocess") {
+      const spawn = edges.find(
+        (e) => e.type === "spawn" && e.target === parent!.id
+      );
+      const trigger = spawn && byId.get(spawn.source);
+      if (trigger) triggers.push(trigger);
+    }
+    parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+  }
+
+  return triggers;
+}
+
+/**
+ * Builds the context in which the initiators and receivers of an event are checked:
+ * initiators see the variables bound by the initiators of the enclosing spawn triggers,
+ * and receivers also see those bound by the initiators of the event.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param edges - The edges of the graph.
+ * @param roles - The declared roles.
+ * @param id - The id of the event.
+ * @param initiators - The initiators being edited, which may differ from the saved ones.
+ * @returns The contexts of the initiators and of the receivers.
+ */
+export function eventRoleContexts(
+  nodes: Node[],
+  edges: Edge[],
+  roles: SimpleRole[],
+  id: string,
+  initiators: string[]
+): { initiators: RoleExprContext; receivers: RoleExprContext } {
+  const parseAll = (texts: string[]) =>
+    texts.flatMap((text) => {
+      try {
+        return [parseRoleExpr(text)];
+      } catch {
+        return [];
+      }
+    });
+
+  const triggers = enclosingTriggers(nodes, edges, id);
+  const inherited = boundVariables(
+    triggers.flatMap((trigger) =>
+      parseAll((trigger.data.initiators as string[] | undefined) ?? [])
+    ),
+    roles
+  );
+  const own = boundVariables(parseAll(initiators), roles);
+  const labels = triggers.map((trigger) => trigger.data.label as string);
+
+  return {
+    initiators: { roles, variables: inherited, triggers: labels },
+    receivers: {
+      roles,
+      variables: new Map([...inherited, ...own]),
+      triggers: labels,
+    },
+  };
+}
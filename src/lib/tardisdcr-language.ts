@@ -0,0 +1,315 @@
+import type * as monacoEditor from "monaco-editor";
+import { InputType, relationsMap, simpleInputTypes } from "./types";
+import {
+  EventDecl,
+  parseProgram,
+  ProcessDecl,
+  Program,
+  SourceLocation,
+  SourcePosition,
+} from "./tardisdcr-parser";
+
+type Monaco = typeof monacoEditor;
+
+/**
+ * Identifier of the language in Monaco.
+ */
+export const TARDISDCR_LANGUAGE = "tardisdcr";
+
+/**
+ * An event as shown by completion and hover cards.
+ */
+export interface LanguageEvent {
+  label: string;
+  name: string;
+  initiators: string[];
+  receivers?: string[];
+  input?: InputType;
+  expression?: string;
+}
+
+/**
+ * What the editor knows about the current graph, used to complete and describe code.
+ */
+export interface LanguageContext {
+  events: LanguageEvent[];
+  roles: string[];
+  levels: string[];
+}
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Token rules of the language.
+ */
+const MONARCH_LANGUAGE: monacoEditor.languages.IMonarchLanguage = {
+  defaultToken: "",
+  arrows: new RegExp(Object.values(relationsMap).map(escapeRegex).join("|")),
+  tokenizer: {
+    root: [
+      [/\/\/\s*@\w+.*$/, "comment.doc"],
+      [/\/\/.*$/, "comment"],
+      [/@arrows/, "keyword.operator"],
+      [/->/, "delimiter"],
+      [/@(Initiator|Receiver)\b/, "keyword"],
+      [/[%!]+(?=\s*\()/, "keyword.marking"],
+      [/\b(flows|as)\b/, "keyword"],
+      [/\b(Integer|String|Boolean|Unit|Record)\b/, "type"],
+      [/#[A-Za-z_]\w*/, "variable.parameter"],
+      [/'[^']*'|"[^"]*"/, "string"],
+      [/\d+/, "number"],
+      [/[A-Z]\w*(?=\s*\()/, "type.identifier"],
+      [/[A-Za-z_]\w*/, "identifier"],
+      [/[{}()[\]]/, "@brackets"],
+      [/[;:,=*?.<>+&|]/, "delimiter"],
+    ],
+  },
+};
+
+const LANGUAGE_CONFIGURATION: monacoEditor.languages.LanguageConfiguration = {
+  comments: { lineComment: "//" },
+  brackets: [
+    ["{", "}"],
+    ["[", "]"],
+    ["(", ")"],
+  ],
+  autoClosingPairs: [
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: "'", close: "'" },
+  ],
+};
+
+/**
+ * Formats an input type as written in the code.
+ */
+const formatInput = (input: InputType): string =>
+  "record" in input
+    ? `{${input.record.map((field) => `${field.var}:${field.type}`).join("; ")}}`
+    : input.type;
+
+/**
+ * Describes an event for hover cards and completion items.
+ */
+const describeEvent = (event: LanguageEvent): string =>
+  [
+    `**${event.label}** : ${event.name}`,
+    `Initiators: ${event.initiators.join(", ")}`,
+    ...(event.receivers && event.receivers.length > 0
+      ? [`Receivers: ${event.receivers.join(", ")}`]
+      : []),
+    event.input
+      ? `Input: ${formatInput(event.input)}`
+      : `Computation: \`${event.expression ?? ""}\``,
+  ].join("\n\n");
+
+const toLanguageEvent = (event: EventDecl): LanguageEvent => ({
+  label: event.label,
+  name: event.name,
+  initiators: event.initiators.map((part) => part.text),
+  receivers: event.receivers.map((part) => part.text),
+  input: event.input,
+  expression: event.expression,
+});
+
+const contains = (location: SourceLocation, position: SourcePosition) =>
+  (position.line > location.from.line ||
+    (position.line === location.from.line &&
+      position.column >= location.from.column)) &&
+  (position.line < location.to.line ||
+    (position.line === location.to.line &&
+      position.column <= location.to.column));
+
+/**
+ * Returns the processes enclosing a position, innermost first.
+ */
+function enclosingProcesses(
+  process: ProcessDecl,
+  position: SourcePosition
+): ProcessDecl[] {
+  for (const relation of process.relations)
+    if (
+      relation.kind === "spawn" &&
+      contains(relation.process.location, position)
+    )
+      return [...enclosingProcesses(relation.process, position), process];
+
+  return [process];
+}
+
+/**
+ * Finds the declaration of the event with the given label visible from a position,
+ * i.e. in the closest enclosing process declaring it.
+ */
+function findEvent(
+  program: Program,
+  label: string,
+  position: SourcePosition
+): EventDecl | undefined {
+  for (const process of enclosingProcesses(program.process, position)) {
+    const event = process.events.find((ev) => ev.label === label);
+    if (event) return event;
+  }
+  return undefined;
+}
+
+/**
+ * Parses the content of a model, or returns `undefined` while the code is malformed.
+ */
+const tryParse = (model: monacoEditor.editor.ITextModel) => {
+  try {
+    return parseProgram(model.getValue());
+  } catch {
+    return undefined;
+  }
+};
+
+let registered = false;
+let contextProvider: () => LanguageContext = () => ({
+  events: [],
+  roles: [],
+  levels: [],
+});
+
+/**
+ * Registers the `.tardisdcr` language in Monaco: syntax highlighting, completion of
+ * event labels, roles, security levels and relation arrows, hover cards describing
+ * events and go-to-definition of event labels.
+ *
+ * The language is registered once; later calls only replace the context provider.
+ *
+ * @param monaco - The Monaco instance.
+ * @param getContext - Returns the events, roles and security levels of the current graph.
+ */
+export function registerTardisDCRLanguage(
+  monaco: Monaco,
+  getContext: () => LanguageContext
+) {
+  contextProvider = getContext;
+  if (registered) return;
+  registered = true;
+
+  monaco.languages.register({
+    id: TARDISDCR_LANGUAGE,
+    extensions: [".tardisdcr"],
+  });
+  monaco.languages.setMonarchTokensProvider(
+    TARDISDCR_LANGUAGE,
+    MONARCH_LANGUAGE
+  );
+  monaco.languages.setLanguageConfiguration(
+    TARDISDCR_LANGUAGE,
+    LANGUAGE_CONFIGURATION
+  );
+
+  const { CompletionItemKind } = monaco.languages;
+
+  monaco.languages.registerCompletionItemProvider(TARDISDCR_LANGUAGE, {
+    provideCompletionItems(model, position) {
+      const word = model.getWordUntilPosition(position);
+      const range = {
+        startLineNumber: position.lineNumber,
+        endLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endColumn: word.endColumn,
+      };
+      const { events, roles, levels } = contextProvider();
+
+      const suggestions: monacoEditor.languages.CompletionItem[] = [
+        ...events.map((event) => ({
+          label: event.label,
+          kind: CompletionItemKind.Variable,
+          detail: event.name,
+          documentation: { value: describeEvent(event) },
+          insertText: event.label,
+          range,
+        })),
+        ...roles.map((role) => ({
+          label: role,
+          kind: CompletionItemKind.Class,
+          detail: "role",
+          insertText: role,
+          range,
+        })),
+        ...levels
+          .filter((level) => !roles.includes(level))
+          .map((level) => ({
+            label: level,
+            kind: CompletionItemKind.EnumMember,
+            detail: "security level",
+            insertText: level,
+            range,
+          })),
+        ...[...simpleInputTypes, "Unit"].map((type) => ({
+          label: type,
+          kind: CompletionItemKind.TypeParameter,
+          detail: "type",
+          insertText: type,
+          range,
+        })),
+        ...Object.entries(relationsMap).map(([type, arrow]) => ({
+          label: arrow,
+          kind: CompletionItemKind.Operator,
+          detail: type,
+          insertText: type === "spawn" ? `${arrow} {\n\t$0\n}` : arrow,
+          insertTextRules:
+            monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+          range,
+        })),
+      ];
+
+      return { suggestions };
+    },
+  });
+
+  monaco.languages.registerHoverProvider(TARDISDCR_LANGUAGE, {
+    provideHover(model, position) {
+      const word = model.getWordAtPosition(position);
+      if (!word) return null;
+
+      const program = tryParse(model);
+      const declared = program
+        ? findEvent(program, word.word, {
+            line: position.lineNumber,
+            column: position.column,
+          })
+        : undefined;
+      const event = declared
+        ? toLanguageEvent(declared)
+        : contextProvider().events.find((ev) => ev.label === word.word);
+      if (!event) return null;
+
+      return {
+        range: new monaco.Range(
+          position.lineNumber,
+          word.startColumn,
+          position.lineNumber,
+          word.endColumn
+        ),
+        contents: [{ value: describeEvent(event) }],
+      };
+    },
+  });
+
+  monaco.languages.registerDefinitionProvider(TARDISDCR_LANGUAGE, {
+    provideDefinition(model, position) {
+      const word = model.getWordAtPosition(position);
+      const program = word && tryParse(model);
+      if (!word || !program) return null;
+
+      const event = findEvent(program, word.word, {
+        line: position.lineNumber,
+        column: position.column,
+      });
+      if (!event) return null;
+
+      const { from, to } = event.location;
+      return {
+        uri: model.uri,
+        range: new monaco.Range(from.line, from.column, to.line, to.column),
+      };
+    },
+  });
+}
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { ParseError, parseProgram, tokenize } from "./tardisdcr-parser";
+import { examplePrograms } from "@/test/fixtures";
+
+const PROGRAM = `P(id: Integer; name: String)
+O
+;
+Public flows Secret
+Public flows O
+;
+%!(e0:a) (Public) [?: {x: Integer; y: String}] [P(#id as X) -> O]
+(e1:b) (Secret) [e0.value.x + 1] [@Initiator(e0), P(id=*)]
+;
+// condition
+e0 -->* e1 [e0.value.x > 0]
+e0, e1 *--> e1
+e0 -->> {
+  (e2:c) (Public) [?] [O]
+  ;
+  e2 -->% e2
+}
+`;
+
+/**
+ * Parses the code and returns the message and the start of the error raised.
+ */
+const failure = (code: string) => {
+  try {
+    parseProgram(code);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ParseError);
+    const { message, location } = error as ParseError;
+    return { message, at: [location.from.line, location.from.column] };
+  }
+  throw new Error("The code was parsed.");
+};
+
+describe("tokenize", () => {
+  it("keeps comments apart and locates tokens", () => {
+    const { tokens, comments } = tokenize("e0 -->* e1 // why\n'a b'");
+
+    expect(tokens.map((token) => [token.type, token.value])).toEqual([
+      ["ident", "e0"],
+      ["arrow", "-->*"],
+      ["ident", "e1"],
+      ["string", "'a b'"],
+      ["eof", ""],
+    ]);
+    expect(tokens[3].location).toEqual({
+      from: { line: 2, column: 1 },
+      to: { line: 2, column: 6 },
+    });
+    expect(comments).toEqual([
+      {
+        text: " why",
+        location: {
+          from: { line: 1, column: 12 },
+          to: { line: 1, column: 18 },
+        },
+      },
+    ]);
+  });
+
+  it("rejects unterminated strings", () => {
+    expect(() => tokenize("P(id='1\n')")).toThrow(
+      "Unterminated string literal."
+    );
+  });
+});
+
+describe("parseProgram", () => {
+  const program = parseProgram(PROGRAM);
+
+  it("reads the roles and the lattice", () => {
+    expect(
+      program.roles.map(({ label, params }) => ({
+        label,
+        params: params.map(({ name, type }) => `${name}:${type}`),
+      }))
+    ).toEqual([
+      { label: "P", params: ["id:Integer", "name:String"] },
+      { label: "O", params: [] },
+    ]);
+    expect(program.lattice).toMatchObject({
+      text: "Public flows Secret\nPublic flows O",
+      levels: ["Public", "Secret", "O"],
+      flows: [
+        { from: "Public", to: "Secret" },
+        { from: "Public", to: "O" },
+      ],
+    });
+  });
+
+  it("reads the events with their marking, data and participants", () => {
+    const [input, computation] = program.process.events;
+
+    expect(input).toMatchObject({
+      label: "e0",
+      name: "a",
+      included: false,
+      pending: true,
+      security: "Public",
+      input: {
+        type: "Record",
+        record: [
+          { var: "x", type: "Integer" },
+          { var: "y", type: "String" },
+        ],
+      },
+      initiators: [
+        {
+          kind: "role",
+          role: "P",
+          params: [{ kind: "bind", name: "id", alias: "X" }],
+        },
+      ],
+      receivers: [{ kind: "role", role: "O", params: [], text: "O" }],
+    });
+    expect(input.location.from).toEqual({ line: 7, column: 1 });
+    expect(computation).toMatchObject({
+      included: true,
+      pending: false,
+      expression: "e0.value.x + 1",
+      initiators: [
+        { kind: "initiator", event: "e0", text: "@Initiator(e0)" },
+        { kind: "role", params: [{ kind: "value", name: "id", value: "*" }] },
+      ],
+      receivers: [],
+    });
+  });
+
+  it("reads the relations, their guards and the spawned processes", () => {
+    const [condition, response, spawn] = program.process.relations;
+
+    expect(condition).toMatchObject({
+      kind: "relation",
+      type: "condition",
+      sources: [{ label: "e0" }],
+      targets: [{ label: "e1" }],
+      guard: "e0.value.x > 0",
+    });
+    expect(response).toMatchObject({
+      type: "response",
+      sources: [{ label: "e0" }, { label: "e1" }],
+    });
+    expect(response).not.toHaveProperty("guard");
+    expect(spawn).toMatchObject({
+      kind: "spawn",
+      trigger: { label: "e0" },
+      process: {
+        events: [{ label: "e2", input: { type: "Unit" } }],
+        relations: [{ type: "exclude" }],
+      },
+    });
+    expect(program.comments.map((comment) => comment.text)).toEqual([
+      " condition",
+    ]);
+  });
+
+  it.each(examplePrograms())("reads the example %s", (_, code) => {
+    expect(parseProgram(code).process.events.length).toBeGreaterThan(0);
+  });
+
+  it.each([
+    [
+      "P ; Public ; (e0:a) (Public) [] [P]",
+      "Expected an input or an expression.",
+      [1, 30],
+    ],
+    ["P ; Public ; (e0:a) (Public [?] [P]", "Missing ')'.", [1, 21]],
+    [
+      "P ; Public ; (e0:a) (Public) [?] [P(id=)]",
+      "Expected a parameter value.",
+      [1, 40],
+    ],
+    [
+      "P ; Public ; (e0:a) (Public) [?] [P] e0",
+      "Expected an event or ';' but found 'e0'.",
+      [1, 38],
+    ],
+    [
+      "P ; Public ; ; e0 e1",
+      "Expected a relation arrow but found 'e1'.",
+      [1, 19],
+    ],
+    [
+      "P ; Public ; ; e0, e1 -->> { }",
+      "A spawn relation has a single trigger event.",
+      [1, 16],
+    ],
+    [
+      "P ; Public ; ; e0 -->> { ;",
+      "Missing '}' to close this spawn block.",
+      [1, 24],
+    ],
+    ["P ; Public ; ; }", "Unmatched '}'.", [1, 16]],
+    ["P(id Integer) ; Public ;", "Expected ':' but found 'Integer'.", [1, 6]],
+    ["P ; Public flows ;", "Expected a security level but found ';'.", [1, 18]],
+  ])("locates the error in %s", (code, message, at) => {
+    expect(failure(code)).toEqual({ message, at });
+  });
+});
@@ -0,0 +1,677 @@
+import { FieldType, InputType, relationsMap } from "./types";
+
+/**
+ * A position in the source code. Lines and columns start at 1, as in Monaco.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * A range of the source code, in the shape used by compiler errors.
+ */
+export interface SourceLocation {
+  from: SourcePosition;
+  to: SourcePosition;
+}
+
+/* ---------------------------------- TOKENS ---------------------------------- */
+
+export type TokenType =
+  "ident" | "number" | "string" | "arrow" | "symbol" | "eof";
+
+/**
+ * A token of the language, with its offsets in the source code.
+ */
+export interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  location: SourceLocation;
+}
+
+/**
+ * A `//` comment. Comments are kept apart from the tokens so that they can carry
+ * annotations.
+ */
+export interface Comment {
+  text: string;
+  location: SourceLocation;
+}
+
+/**
+ * Arrows of the relations, matched before any symbol.
+ */
+const ARROWS = Object.values(relationsMap);
+
+/**
+ * Symbols made of two characters: the participants arrow and expression operators.
+ */
+const DOUBLE_SYMBOLS = ["->", "==", "!=", "&&", "||", ">=", "<="];
+
+/* ----------------------------------- AST ------------------------------------ */
+
+export interface RoleParamDecl {
+  name: string;
+  type: string;
+  location: SourceLocation;
+}
+
+export interface RoleDecl {
+  label: string;
+  params: RoleParamDecl[];
+  location: SourceLocation;
+}
+
+/**
+ * The security lattice: its text as written (one statement per line) along with the
+ * levels and flows it declares.
+ */
+export interface LatticeDecl {
+  text: string;
+  levels: string[];
+  flows: { from: string; to: string }[];
+  location: SourceLocation;
+}
+
+/**
+ * A parameter of a participant, either bound from the event data (`#cid as X`) or
+ * given a value (`id=*`, `cid=X`, `id='1'`).
+ */
+export type ParticipantParam =
+  | { kind: "bind"; name: string; alias?: string }
+  | { kind: "value"; name: string; value: string };
+
+/**
+ * An initiator or receiver of an event: a role with parameters, or the initiator or
+ * receiver of another event (`@Initiator(e)`, `@Receiver(e)`).
+ */
+export type Participant =
+  | {
+      kind: "role";
+      role: string;
+      params: ParticipantParam[];
+      text: string;
+      location: SourceLocation;
+    }
+  | {
+      kind: "initiator" | "receiver";
+      event: string;
+      text: string;
+      location: SourceLocation;
+    };
+
+export interface EventDecl {
+  label: string;
+  name: string;
+  included: boolean;
+  pending: boolean;
+  security: string;
+  input?: InputType;
+  expression?: string;
+  initiators: Participant[];
+  receivers: Participant[];
+  location: SourceLocation;
+}
+
+/**
+ * A reference to an event (or group) by label.
+ */
+export interface EventRef {
+  label: string;
+  location: SourceLocation;
+}
+
+/**
+ * A control-flow relation. Comma lists on either side relate every source to every
+ * target.
+ */
+export interface RelationDecl {
+  kind: "relation";
+  type: string;
+  sources: EventRef[];
+  targets: EventRef[];
+  guard?: string;
+  location: SourceLocation;
+}
+
+/**
+ * A spawn relation with the subprocess it instantiates.
+ */
+export interface SpawnDecl {
+  kind: "spawn";
+  trigger: EventRef;
+  process: ProcessDecl;
+  location: SourceLocation;
+}
+
+export interface ProcessDecl {
+  events: EventDecl[];
+  relations: (RelationDecl | SpawnDecl)[];
+  location: SourceLocation;
+}
+
+export interface Program {
+  roles: RoleDecl[];
+  lattice: LatticeDecl;
+  process: ProcessDecl;
+  comments: Comment[];
+}
+
+/**
+ * Error raised when the code does not follow the grammar of the language.
+ */
+export class ParseError extends Error {
+  location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(message);
+    this.name = "ParseError";
+    this.location = location;
+  }
+}
+
+/* ---------------------------------- LEXER ----------------------------------- */
+
+/**
+ * Splits the code into tokens, keeping comments apart.
+ *
+ * @param source - The `.tardisdcr` code.
+ * @returns The tokens, ending with an `eof` token, and the comments.
+ * @throws {ParseError} If a string is not terminated.
+ */
+export function tokenize(source: string): {
+  tokens: Token[];
+  comments: Comment[];
+} {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+
+  // Start offset of each line, to convert offsets into positions
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++)
+    if (source[i] === "\n") lineStarts.push(i + 1);
+
+  const positionAt = (offset: number): SourcePosition => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset)
+      line++;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+  const locationOf = (start: number, end: number): SourceLocation => ({
+    from: positionAt(start),
+    to: positionAt(end),
+  });
+  const push = (type: TokenType, start: number, end: number) =>
+    tokens.push({
+      type,
+      value: source.slice(start, end),
+      start,
+      end,
+      location: locationOf(start, end),
+    });
+
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (source.startsWith("//", i)) {
+      let j = source.indexOf("\n", i);
+      if (j === -1) j = source.length;
+      comments.push({
+        text: source.slice(i + 2, j).replace(/\r$/, ""),
+        location: locationOf(i, j),
+      });
+      i = j;
+    } else if (/[A-Za-z_@]/.test(c)) {
+      let j = i + 1;
+      while (j < source.length && /[A-Za-z0-9_]/.test(source[j])) j++;
+      push("ident", i, j);
+      i = j;
+    } else if (/[0-9]/.test(c)) {
+      let j = i;
+      while (j < source.length && /[0-9]/.test(source[j])) j++;
+      push("number", i, j);
+      i = j;
+    } else if (c === "'" || c === '"') {
+      const j = source.indexOf(c, i + 1);
+      if (j === -1 || source.slice(i, j).includes("\n"))
+        throw new ParseError(
+          "Unterminated string literal.",
+          locationOf(i, i + 1)
+        );
+      push("string", i, j + 1);
+      i = j + 1;
+    } else {
+      const arrow = ARROWS.find((arr) => source.startsWith(arr, i));
+      const double = DOUBLE_SYMBOLS.find((sym) => source.startsWith(sym, i));
+
+      if (arrow) {
+        push("arrow", i, i + arrow.length);
+        i += arrow.length;
+      } else if (double) {
+        push("symbol", i, i + double.length);
+        i += double.length;
+      } else {
+        push("symbol", i, i + 1);
+        i++;
+      }
+    }
+  }
+
+  tokens.push({
+    type: "eof",
+    value: "",
+    start: source.length,
+    end: source.length,
+    location: locationOf(source.length, source.length),
+  });
+
+  return { tokens, comments };
+}
+
+/* ---------------------------------- PARSER ---------------------------------- */
+
+const CLOSERS: { [open: string]: string } = { "(": ")", "[": "]", "{": "}" };
+
+/**
+ * Relation types by arrow, e.g. `-->*` is a condition.
+ */
+const RELATION_TYPES: { [arrow: string]: string } = Object.fromEntries(
+  Object.entries(relationsMap).map(([type, arrow]) => [arrow, type])
+);
+
+/**
+ * Parses `.tardisdcr` code into an AST.
+ *
+ * The code is made of three sections separated by `;`: the roles, the security lattice
+ * and the process. A process lists its events, then (after a `;`) its relations, where
+ * a spawn relation (`e -->> { ... }`) contains the process it instantiates.
+ *
+ * @param source - The `.tardisdcr` code.
+ * @returns The program, with the source location of every declaration.
+ * @throws {ParseError} If the code is malformed.
+ */
+export function parseProgram(source: string): Program {
+  const { tokens, comments } = tokenize(source);
+  let pos = 0;
+
+  const peek = (offset = 0) =>
+    tokens[Math.min(pos + offset, tokens.length - 1)];
+  const next = () => tokens[Math.min(pos++, tokens.length - 1)];
+  const is = (value: string, offset = 0) =>
+    peek(offset).type !== "string" && peek(offset).value === value;
+
+  const describe = (token: Token) =>
+    token.type === "eof" ? "end of file" : `'${token.value}'`;
+
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new ParseError(message, token.location);
+  };
+
+  const expect = (value: string): Token =>
+    is(value)
+      ? next()
+      : fail(`Expected '${value}' but found ${describe(peek())}.`);
+
+  const expectIdent = (what: string): Token =>
+    peek().type === "ident"
+      ? next()
+      : fail(`Expected ${what} but found ${describe(peek())}.`);
+
+  const span = (from: Token, to: Token): SourceLocation => ({
+    from: from.location.from,
+    to: to.location.to,
+  });
+
+  /**
+   * Consumes the tokens up to the closer matching an already consumed opener, and
+   * returns the text in between.
+   */
+  const rawUntilClose = (open: Token): { text: string; close: Token } => {
+    const stack = [CLOSERS[open.value]];
+
+    while (stack.length > 0) {
+      const token = next();
+      if (token.type === "eof")
+        fail(`Missing '${stack[stack.length - 1]}'.`, open);
+      else if (token.type === "symbol" && CLOSERS[token.value])
+        stack.push(CLOSERS[token.value]);
+      else if (
+        token.type === "symbol" &&
+        token.value === stack[stack.length - 1]
+      )
+        stack.pop();
+      else if (
+        token.type === "symbol" &&
+        Object.values(CLOSERS).includes(token.value)
+      )
+        fail(`Unexpected '${token.value}'.`, token);
+
+      if (stack.length === 0)
+        return {
+          text: source.slice(open.end, token.start).trim(),
+          close: token,
+        };
+    }
+
+    return fail("Unreachable.", open);
+  };
+
+  /* ------------------------------ ROLES ------------------------------ */
+
+  const parseRole = (): RoleDecl => {
+    const label = expectIdent("a role name");
+    const params: RoleParamDecl[] = [];
+    let last = label;
+
+    if (is("(")) {
+      next();
+      do {
+        if (params.length > 0) next();
+        const name = expectIdent("a parameter name");
+        expect(":");
+        const type = expectIdent("a parameter type");
+        params.push({
+          name: name.value,
+          type: type.value,
+          location: span(name, type),
+        });
+      } while (is(";"));
+      last = expect(")");
+    }
+
+    return { label: label.value, params, location: span(label, last) };
+  };
+
+  /* ----------------------------- LATTICE ----------------------------- */
+
+  const parseLattice = (): LatticeDecl => {
+    const first = peek();
+    const levels: string[] = [];
+    const flows: { from: string; to: string }[] = [];
+    const addLevel = (level: string) => {
+      if (!levels.includes(level)) levels.push(level);
+    };
+
+    while (!is(";")) {
+      const level = expectIdent("a security level");
+      addLevel(level.value);
+      if (is("flows")) {
+        next();
+        const to = expectIdent("a security level");
+        addLevel(to.value);
+        flows.push({ from: level.value, to: to.value });
+      }
+    }
+
+    const end = peek();
+    const text = source
+      .slice(first.start, end.start)
+      .split("\n")
+      .map((line) => line.replace(/\/\/.*$/, "").trim())
+      .filter((line) => line)
+      .join("\n");
+
+    return {
+      text,
+      levels,
+      flows,
+      location: span(first, tokens[Math.max(pos - 1, 0)]),
+    };
+  };
+
+  /* ------------------------------ EVENTS ----------------------------- */
+
+  const parseInputType = (): InputType => {
+    if (!is(":")) return { type: "Unit" };
+    next();
+
+    if (is("{")) {
+      next();
+      const record: FieldType[] = [];
+      do {
+        if (record.length > 0) next();
+        const name = expectIdent("a field name");
+        expect(":");
+        const type = expectIdent("a field type");
+        record.push({ var: name.value, type: type.value });
+      } while (is(";"));
+      expect("}");
+      return { type: "Record", record };
+    }
+
+    return { type: expectIdent("an input type").value };
+  };
+
+  const parseParticipantParam = (): ParticipantParam => {
+    if (is("#")) {
+      next();
+      const name = expectIdent("a parameter name").value;
+      if (!is("as")) return { kind: "bind", name };
+      next();
+      return { kind: "bind", name, alias: expectIdent("an alias").value };
+    }
+
+    const name = expectIdent("a parameter name").value;
+    expect("=");
+    const valueTokens: Token[] = [];
+    while (!is(";") && !is(")") && peek().type !== "eof")
+      valueTokens.push(next());
+    if (valueTokens.length === 0) fail("Expected a parameter value.");
+
+    return {
+      kind: "value",
+      name,
+      value: source.slice(
+        valueTokens[0].start,
+        valueTokens[valueTokens.length - 1].end
+      ),
+    };
+  };
+
+  const parseParticipant = (): Participant => {
+    const role = expectIdent("a role");
+
+    if (role.value === "@Initiator" || role.value === "@Receiver") {
+      expect("(");
+      const event = expectIdent("an event label");
+      const close = expect(")");
+      return {
+        kind: role.value === "@Initiator" ? "initiator" : "receiver",
+        event: event.value,
+        text: source.slice(role.start, close.end),
+        location: span(role, close),
+      };
+    }
+
+    const params: ParticipantParam[] = [];
+    let last = role;
+    if (is("(")) {
+      next();
+      if (!is(")")) {
+        params.push(parseParticipantParam());
+        while (is(";")) {
+          next();
+          params.push(parseParticipantParam());
+        }
+      }
+      last = expect(")");
+    }
+
+    return {
+      kind: "role",
+      role: role.value,
+      params,
+      text: source.slice(role.start, last.end),
+      location: span(role, last),
+    };
+  };
+
+  const parseParticipants = (): Participant[] => {
+    const participants = [parseParticipant()];
+    while (is(",")) {
+      next();
+      participants.push(parseParticipant());
+    }
+    return participants;
+  };
+
+  const isEventStart = () => is("(") || is("%") || is("!");
+
+  const parseEvent = (): EventDecl => {
+    const first = peek();
+    let included = true;
+    let pending = false;
+
+    while (is("%") || is("!")) {
+      if (next().value === "%") included = false;
+      else pending = true;
+    }
+
+    expect("(");
+    const label = expectIdent("an event label");
+    expect(":");
+    const name = expectIdent("an event name");
+    expect(")");
+
+    const security = rawUntilClose(expect("(")).text;
+
+    let input: InputType | undefined;
+    let expression: string | undefined;
+    const typeOpen = expect("[");
+    if (is("?")) {
+      next();
+      input = parseInputType();
+      expect("]");
+    } else {
+      expression = rawUntilClose(typeOpen).text;
+      if (!expression) fail("Expected an input or an expression.", typeOpen);
+    }
+
+    expect("[");
+    const initiators = parseParticipants();
+    let receivers: Participant[] = [];
+    if (is("->")) {
+      next();
+      receivers = parseParticipants();
+    }
+    const last = expect("]");
+
+    return {
+      label: label.value,
+      name: name.value,
+      included,
+      pending,
+      security,
+      ...(input && { input }),
+      ...(expression !== undefined && { expression }),
+      initiators,
+      receivers,
+      location: span(first, last),
+    };
+  };
+
+  /* ---------------------------- RELATIONS ---------------------------- */
+
+  const parseRefs = (): EventRef[] => {
+    const refs: EventRef[] = [];
+    do {
+      if (refs.length > 0) next();
+      const ref = expectIdent("an event label");
+      refs.push({ label: ref.value, location: ref.location });
+    } while (is(","));
+    return refs;
+  };
+
+  const parseRelation = (): RelationDecl | SpawnDecl => {
+    const first = peek();
+    const sources = parseRefs();
+
+    const arrow = peek();
+    if (arrow.type !== "arrow")
+      fail(`Expected a relation arrow but found ${describe(arrow)}.`);
+    next();
+
+    if (RELATION_TYPES[arrow.value] === "spawn") {
+      if (sources.length > 1)
+        fail("A spawn relation has a single trigger event.", first);
+      const open = expect("{");
+      const process = parseProcess(open);
+      const last = expect("}");
+      return {
+        kind: "spawn",
+        trigger: sources[0],
+        process,
+        location: span(first, last),
+      };
+    }
+
+    const targets = parseRefs();
+    let last = tokens[pos - 1];
+    let guard: string | undefined;
+    if (is("[")) {
+      const raw = rawUntilClose(next());
+      guard = raw.text;
+      last = raw.close;
+    }
+
+    return {
+      kind: "relation",
+      type: RELATION_TYPES[arrow.value],
+      sources,
+      targets,
+      ...(guard && { guard }),
+      location: span(first, last),
+    };
+  };
+
+  /* ----------------------------- PROCESS ----------------------------- */
+
+  /**
+   * Parses a process, up to the end of the file or, for a spawned process, up to the
+   * brace closing the given opening brace.
+   */
+  const parseProcess = (open?: Token): ProcessDecl => {
+    const first = peek();
+    const atEnd = () => {
+      if (open && peek().type === "eof")
+        fail("Missing '}' to close this spawn block.", open);
+      if (!open && is("}")) fail("Unmatched '}'.");
+      return open ? is("}") : peek().type === "eof";
+    };
+
+    const events: EventDecl[] = [];
+    while (isEventStart()) events.push(parseEvent());
+
+    const relations: (RelationDecl | SpawnDecl)[] = [];
+    if (is(";")) {
+      next();
+      while (!atEnd()) relations.push(parseRelation());
+    } else if (!atEnd())
+      fail(`Expected an event or ';' but found ${describe(peek())}.`);
+
+    return {
+      events,
+      relations,
+      location: span(first, tokens[Math.max(pos - 1, 0)]),
+    };
+  };
+
+  /* ----------------------------- PROGRAM ----------------------------- */
+
+  const roles: RoleDecl[] = [];
+  while (!is(";")) roles.push(parseRole());
+  expect(";");
+
+  const lattice = parseLattice();
+  expect(";");
+
+  const process = parseProcess();
+
+  return { roles, lattice, process, comments };
+}
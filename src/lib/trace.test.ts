@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  createTrace,
+  isTraceJson,
+  parseTrace,
+  toTraceMarking,
+  TraceError,
+  TraceStep,
+} from "./trace";
+
+const step: TraceStep = {
+  event: "e0",
+  label: "a",
+  role: "P",
+  time: "2024-01-01T00:00:00.000Z",
+  before: { executed: [], included: ["e0", "e1"], pending: ["e0"] },
+  after: { executed: ["e0"], included: ["e0", "e1"], pending: [] },
+};
+
+describe("toTraceMarking", () => {
+  it("lists the events of each set in order", () => {
+    const marking = toTraceMarking({
+      executed: new Set(["e2", "e0"]),
+      included: new Set(["e1", "e0", "e2"]),
+      pending: new Set(),
+    });
+
+    expect(marking).toEqual({
+      executed: ["e0", "e2"],
+      included: ["e0", "e1", "e2"],
+      pending: [],
+    });
+  });
+});
+
+describe("parseTrace", () => {
+  it("reads back an exported trace", () => {
+    const trace = createTrace([step]);
+
+    expect(parseTrace(JSON.parse(JSON.stringify(trace)))).toEqual(trace);
+  });
+
+  it("tells traces from graphs", () => {
+    expect(isTraceJson(createTrace([]))).toBe(true);
+    expect(isTraceJson({ nodes: [], edges: [] })).toBe(false);
+    expect(isTraceJson(null)).toBe(false);
+  });
+
+  it.each([
+    [{ nodes: [] }, "The file is not a trace."],
+    [{ kind: "trace", version: 2, steps: [] }, "Unsupported trace version 2."],
+    [{ kind: "trace", version: 1 }, "The trace has no steps."],
+    [
+      { kind: "trace", version: 1, steps: [step, 3] },
+      "Step 2 is not an object.",
+    ],
+    [
+      { kind: "trace", version: 1, steps: [{ label: "a" }] },
+      "Step 1 has no event.",
+    ],
+  ])("rejects invalid traces: %j", (json, message) => {
+    expect(() => parseTrace(json)).toThrow(new TraceError(message));
+  });
+});
@@ -0,0 +1,100 @@
+import { DCRMarking } from "./dcr-engine";
+
+/**
+ * A marking as stored in a trace, with the ids of the events in each set.
+ */
+export interface TraceMarking {
+  executed: string[];
+  included: string[];
+  pending: string[];
+}
+
+/**
+ * A single execution of a simulation trace.
+ *
+ * @property event - The id of the executed event.
+ * @property label - The label of the executed event, for display.
+ * @property value - The input or computed value of the event, if any.
+ * @property role - The role(s) executing the event.
+ * @property before - The marking before the execution.
+ * @property after - The marking after the execution.
+ */
+export interface TraceStep {
+  event: string;
+  label: string;
+  value?: unknown;
+  role: string;
+  time: string;
+  before: TraceMarking;
+  after: TraceMarking;
+}
+
+/**
+ * A simulation trace as exported to and imported from JSON files.
+ */
+export interface SimulationTrace {
+  kind: "trace";
+  version: 1;
+  steps: TraceStep[];
+}
+
+/**
+ * Error raised when a file does not contain a valid simulation trace.
+ */
+export class TraceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TraceError";
+  }
+}
+
+/**
+ * Converts an engine marking into its trace representation.
+ */
+export const toTraceMarking = (marking: DCRMarking): TraceMarking => ({
+  executed: [...marking.executed].sort(),
+  included: [...marking.included].sort(),
+  pending: [...marking.pending].sort(),
+});
+
+/**
+ * Wraps trace steps into an exportable trace.
+ */
+export const createTrace = (steps: TraceStep[]): SimulationTrace => ({
+  kind: "trace",
+  version: 1,
+  steps,
+});
+
+/**
+ * Checks whether parsed JSON is meant to be a trace (as opposed to a graph).
+ */
+export const isTraceJson = (json: unknown): boolean =>
+  typeof json === "object" &&
+  json !== null &&
+  (json as { kind?: unknown }).kind === "trace";
+
+/**
+ * Validates parsed JSON as a simulation trace.
+ *
+ * @param json - The parsed file contents.
+ * @returns The trace.
+ * @throws {TraceError} If the JSON is not a valid trace.
+ */
+export function parseTrace(json: unknown): SimulationTrace {
+  if (!isTraceJson(json)) throw new TraceError("The file is not a trace.");
+
+  const { version, steps } = json as { version?: unknown; steps?: unknown };
+  if (version !== 1)
+    throw new TraceError(`Unsupported trace version ${String(version)}.`);
+  if (!Array.isArray(steps)) throw new TraceError("The trace has no steps.");
+
+  steps.forEach((step, i) => {
+    if (typeof step !== "object" || step === null)
+      throw new TraceError(`Step ${i + 1} is not an object.`);
+    if (typeof (step as TraceStep).event !== "string")
+      throw new TraceError(`Step ${i + 1} has no event.`);
+  });
+
+  return json as SimulationTrace;
+}
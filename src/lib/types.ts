@@ -1,7 +1,6 @@
 import { Edge, Node } from "@xyflow/react";
-import { setState } from "./utils";
-
-export const state = await setState();
+import { emptyDocument, loadStartupDocument } from "./persistence";
+import { startupDocument } from "./utils";
 
 export const initialState: {
   nodes: Node[];
@@ -118,6 +117,28 @@ export const initialState: {
   security: "Public flows P",
 };
 
+/**
+ * The document opened at startup, loaded from the backend or, when it cannot be reached,
+ * from the browser. A document the backend refuses does not stop the editor from opening.
+ */
+export const startup = await loadStartupDocument(startupDocument());
+
+/**
+ * The saved graph of the document opened at startup. A new document is empty, while the
+ * example graph is shown when the backend cannot be reached and the browser has no copy.
+ */
+export const state: State =
+  startup.state ??
+  (startup.offline
+    ? {
+        ...initialState,
+        code: "",
+        nextNodeId: [initialState.nodes.length],
+        nextGroupId: [0],
+        nextSubprocessId: [0],
+      }
+    : emptyDocument());
+
 export const simpleInputTypes = ["Integer", "String", "Boolean"];
 export const inputTypes = [...simpleInputTypes, "Record", "Unit"]; // "Reference" type not considered yet
 
@@ -130,8 +151,6 @@ export const relationsMap: { [rel: string]: string } = {
   spawn: "-->>",
 };
 
-export const eventRegex = /\(([^)]+)\) \(([^)]+)\) \[([^\]]+)\] \[([^\]]+)\]/;
-
 type BasicType = "array" | "int" | "string" | "bool" | "void" | "float";
 
 type EventRelation =
@@ -326,6 +345,21 @@ export interface CompileError {
   };
 }
 
+/**
+ * Result of compiling code in the backend.
+ *
+ * @property success - Whether the compiler ended normally without compile errors.
+ * @property stdout - What the compiler printed.
+ * @property stderr - What the compiler reported on its error output, or why it was stopped.
+ * @property errors - The compile errors, each with its stack trace.
+ */
+export interface CompileResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  errors: CompileError[];
+}
+
 export type FieldType = { var: string; type: string };
 
 export type InputType =
@@ -340,7 +374,6 @@ export type MarkingType = {
 export type SimulationMarkingType = MarkingType & {
   executable: boolean;
   executed: boolean;
-  spawned?: boolean;
 };
 
 export type EventType = {
@@ -5,7 +5,7 @@ import { Node, Position, Edge } from "@xyflow/react";
 
 import dagre from "dagre";
 import { useEffect, useState } from "react";
-import { SimpleRole, State } from "./types";
+import { SimpleRole } from "./types";
 
 /**
  * Combines multiple class name values into a single string, filtering out falsy values,
@@ -262,11 +262,14 @@ export function generateJsonData(
     };
 }
 
-export async function setState(name: string = "current") {
-  const response = await fetch("/api/specific-example", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ name }),
-  });
-  return (await response.json()) as State;
+/**
+ * Returns the name of the document opened at startup: the `document` query parameter of
+ * the page, or `current`.
+ */
+export function startupDocument(): string {
+  const params =
+    typeof window === "undefined"
+      ? undefined
+      : new URLSearchParams(window.location.search);
+  return params?.get("document") || "current";
 }
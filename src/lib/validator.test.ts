@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { validateGraph } from "./validator";
+import {
+  eventNode,
+  exampleStates,
+  relationEdge,
+  subgraphNode,
+} from "@/test/fixtures";
+
+describe("validateGraph", () => {
+  it.each(exampleStates())("accepts the %s example", (_, state) => {
+    expect(validateGraph(state.nodes ?? [], state.edges ?? [])).toEqual([]);
+  });
+
+  it("checks the participants of events", () => {
+    expect(
+      validateGraph(
+        [
+          eventNode("e0", { initiators: [" "] }),
+          eventNode("e1", { type: "c", expression: "1", receivers: ["Q"] }),
+        ],
+        []
+      )
+    ).toEqual([
+      { message: "Event e0 has no initiators.", node: "e0" },
+      {
+        message: "Computation event e1 cannot have receivers.",
+        node: "e1",
+      },
+    ]);
+  });
+
+  it("reports labels used twice in a process, nests being transparent", () => {
+    const nodes = [
+      eventNode("e0", { label: "a" }),
+      subgraphNode("n0", "nest"),
+      eventNode("e1", { label: "a" }, { parentId: "n0" }),
+      subgraphNode("s0", "subprocess"),
+      eventNode("e2", { label: "a" }, { parentId: "s0" }),
+    ];
+
+    expect(validateGraph(nodes, [relationEdge("spawn", "e0", "s0")])).toEqual([
+      { message: "Event label a is already used by e0.", node: "e1" },
+    ]);
+  });
+
+  it("checks spawn relations", () => {
+    const nodes = [
+      eventNode("e0"),
+      eventNode("e1"),
+      subgraphNode("n0", "nest"),
+      subgraphNode("s0", "subprocess"),
+      subgraphNode("s1", "subprocess", { parentId: "n0" }),
+      eventNode("e2", {}, { parentId: "s0" }),
+      subgraphNode("s2", "subprocess", { parentId: "s0" }),
+    ];
+
+    expect(
+      validateGraph(nodes, [
+        relationEdge("spawn", "e0", "s0"),
+        relationEdge("spawn", "e1", "s0"),
+        relationEdge("spawn", "e0", "e1"),
+        relationEdge("spawn", "n0", "s1"),
+        relationEdge("spawn", "e1", "s1"),
+        relationEdge("spawn", "e0", "s2"),
+      ]).map((problem) => problem.message)
+    ).toEqual([
+      "Subprocess s0 is already spawned by another relation.",
+      "The spawn relation s-e0-e1 must target a subprocess.",
+      "The spawn relation s-n0-s1 must start from an event.",
+      "Subprocess s2 must be placed in the process of e0, which spawns it.",
+    ]);
+  });
+
+  it("reports relations between processes that cannot see each other", () => {
+    const nodes = [
+      eventNode("e0"),
+      subgraphNode("s0", "subprocess"),
+      eventNode("e1", {}, { parentId: "s0" }),
+      subgraphNode("s1", "subprocess"),
+      eventNode("e2", {}, { parentId: "s1" }),
+    ];
+    const edges = [
+      relationEdge("spawn", "e0", "s0"),
+      relationEdge("spawn", "e0", "s1"),
+      relationEdge("condition", "e0", "e1"),
+      relationEdge("response", "e2", "e0"),
+      relationEdge("include", "e1", "e2"),
+      relationEdge("exclude", "e0", "s1"),
+      relationEdge("milestone", "s0", "s1"),
+    ];
+
+    expect(validateGraph(nodes, edges)).toEqual([
+      {
+        message:
+          "The include relation i-e1-e2 connects events of subprocesses that cannot see each other.",
+        edge: "i-e1-e2",
+      },
+      {
+        message:
+          "The milestone relation m-s0-s1 connects events of subprocesses that cannot see each other.",
+        edge: "m-s0-s1",
+      },
+    ]);
+  });
+});
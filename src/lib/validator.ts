@@ -0,0 +1,133 @@
+import type { Edge, Node } from "@xyflow/react";
+import { endpointEvents } from "./dcr-flow";
+
+/**
+ * A well-formedness problem of the choreography, attached to the node or the edge
+ * causing it.
+ *
+ * @property message - The description of the problem.
+ * @property node - The id of the offending node, if any.
+ * @property edge - The id of the offending edge, if any.
+ */
+export interface Problem {
+  message: string;
+  node?: string;
+  edge?: string;
+}
+
+/**
+ * Checks the choreography drawn on the canvas for models the compiler would reject:
+ * - events without initiators, and computation events with receivers;
+ * - event labels used twice in a process, i.e. the global process or a subprocess,
+ *   nests being transparent;
+ * - spawn relations not going from an event to a subprocess declared in the process of
+ *   that event, and subprocesses spawned more than once;
+ * - relations between events of processes that cannot see each other, such as two
+ *   sibling subprocesses, since a relation is declared in the innermost process of its
+ *   endpoints and may only refer to the events of that process and of those enclosing it.
+ *
+ * @param nodes - The nodes of the graph.
+ * @param edges - The edges of the graph.
+ * @returns The problems found, empty if the choreography is well formed.
+ */
+export function validateGraph(nodes: Node[], edges: Edge[]): Problem[] {
+  const byId = new Map(nodes.map((nd) => [nd.id, nd]));
+  const problems: Problem[] = [];
+
+  // The process declaring a node: its closest subprocess ancestor
+  const scopeOf = (node: Node): string => {
+    let parent = node.parentId ? byId.get(node.parentId) : undefined;
+    while (parent && parent.type === "nest")
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    return parent ? parent.id : "global";
+  };
+
+  // Whether the events of one process are visible from another
+  const encloses = (outer: string, inner: string): boolean => {
+    for (let scope = inner; ; scope = scopeOf(byId.get(scope)!)) {
+      if (scope === outer) return true;
+      if (scope === "global") return false;
+    }
+  };
+
+  const events = nodes.filter((nd) => nd.type === "event");
+  const labelOf = (node: Node) => node.data.label as string;
+
+  events.forEach((event) => {
+    const initiators = (event.data.initiators as string[] | undefined) ?? [];
+    const receivers = (event.data.receivers as string[] | undefined) ?? [];
+
+    if (!initiators.some((initiator) => initiator.trim()))
+      problems.push({
+        message: `Event ${labelOf(event)} has no initiators.`,
+        node: event.id,
+      });
+    if (event.data.type === "c" && receivers.some((r) => r.trim()))
+      problems.push({
+        message: `Computation event ${labelOf(event)} cannot have receivers.`,
+        node: event.id,
+      });
+  });
+
+  const declared = new Map<string, Node>();
+  events.forEach((event) => {
+    const key = `${scopeOf(event)}/${labelOf(event)}`;
+    const first = declared.get(key);
+    if (!first) declared.set(key, event);
+    else
+      problems.push({
+        message: `Event label ${labelOf(event)} is already used by ${first.id}.`,
+        node: event.id,
+      });
+  });
+
+  const spawned = new Set<string>();
+  edges.forEach((edge) => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target) return;
+
+    if (edge.type === "spawn") {
+      if (source.type !== "event")
+        problems.push({
+          message: `The spawn relation ${edge.id} must start from an event.`,
+          edge: edge.id,
+        });
+      else if (target.type !== "subprocess")
+        problems.push({
+          message: `The spawn relation ${edge.id} must target a subprocess.`,
+          edge: edge.id,
+        });
+      else if (scopeOf(target) !== scopeOf(source))
+        problems.push({
+          message: `Subprocess ${target.id} must be placed in the process of ${labelOf(source)}, which spawns it.`,
+          edge: edge.id,
+        });
+      else if (spawned.has(target.id))
+        problems.push({
+          message: `Subprocess ${target.id} is already spawned by another relation.`,
+          edge: edge.id,
+        });
+      else spawned.add(target.id);
+      return;
+    }
+
+    const scopes = [
+      ...new Set(
+        [edge.source, edge.target]
+          .flatMap((endpoint) => endpointEvents(nodes, endpoint))
+          .map(scopeOf)
+      ),
+    ];
+    const innermost = scopes.find((scope) =>
+      scopes.every((other) => encloses(other, scope))
+    );
+    if (!innermost)
+      problems.push({
+        message: `The ${edge.type} relation ${edge.id} connects events of subprocesses that cannot see each other.`,
+        edge: edge.id,
+      });
+  });
+
+  return problems;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { visualGen } from "./visualgen-code";
+import { writeCode } from "./codegen";
+import { ParseError } from "./tardisdcr-parser";
+import { examplePrograms } from "@/test/fixtures";
+
+const PROGRAM = `P(id:Integer)
+;
+Public flows P
+;
+(a:start) (Public) [?] [P(id=1)]
+!(b:finish) (Public) [?:Integer] [P(id=1) -> P(id=2)]
+;
+a -->* b
+a -->> {
+  (c:inner) (Public) [?] [P(id=2)]
+  ;
+  c -->% a, b
+}
+`;
+
+describe("visualGen", () => {
+  it.each(examplePrograms())("generates the graph of %s", (_name, code) => {
+    const { roles, security, nodes, edges } = visualGen(code);
+
+    expect({
+      roles,
+      security,
+      nodes: nodes.map(({ id, type, parentId, data }) => ({
+        id,
+        type,
+        parentId,
+        data,
+      })),
+      edges: edges.map(({ id, type, source, target }) => ({
+        id,
+        type,
+        source,
+        target,
+      })),
+    }).toMatchSnapshot();
+  });
+
+  it("generates events, relations and subprocesses", () => {
+    const { nodes, edges, nodeId, subId, positioned } = visualGen(PROGRAM);
+
+    expect(nodes.map((nd) => [nd.id, nd.type, nd.parentId])).toEqual([
+      ["e0", "event", ""],
+      ["e1", "event", ""],
+      ["s0", "subprocess", ""],
+      ["e2", "event", "s0"],
+    ]);
+    expect(nodes[1].data).toMatchObject({
+      label: "b",
+      marking: { included: true, pending: true },
+      input: { type: "Integer" },
+      receivers: ["P(id=2)"],
+    });
+    expect(edges.map((ed) => ed.id)).toEqual([
+      "c-e0-e1",
+      "s-e0-s0",
+      "e-e2-e0",
+      "e-e2-e1",
+    ]);
+    expect([nodeId, subId, positioned]).toEqual([3, 1, false]);
+  });
+
+  it("places parents before their children", () => {
+    const { nodes } = visualGen(PROGRAM);
+
+    nodes.forEach((nd, i) => {
+      if (nd.parentId)
+        expect(
+          nodes.findIndex((parent) => parent.id === nd.parentId)
+        ).toBeLessThan(i);
+    });
+  });
+
+  it("rejects relations to unknown events", () => {
+    expect(() => visualGen(PROGRAM.replace("a -->* b", "a -->* z"))).toThrow(
+      ParseError
+    );
+  });
+
+  it("rejects annotations whose values cannot be read", () => {
+    const code = `${PROGRAM}// @nest label="a\\q" events=c\n`;
+
+    expect(() => visualGen(code)).toThrow(
+      new ParseError('Invalid value "a\\q" for label.', {
+        from: { line: 14, column: 1 },
+        to: { line: 14, column: 30 },
+      })
+    );
+  });
+
+  it.each(examplePrograms())(
+    "reaches a fixed point when regenerating %s",
+    (_name, code) => {
+      const first = visualGen(code);
+      const written = writeCode(
+        first.nodes,
+        first.edges,
+        first.roles,
+        first.security
+      );
+      const second = visualGen(written);
+
+      expect(second.nodes).toEqual(first.nodes);
+      expect(second.edges).toEqual(first.edges);
+      expect(
+        writeCode(second.nodes, second.edges, second.roles, second.security)
+      ).toBe(written);
+    }
+  );
+});
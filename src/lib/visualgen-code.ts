@@ -1,335 +1,439 @@
-import { Edge, Node } from "@xyflow/react";
+import { Edge, Node, XYPosition } from "@xyflow/react";
+import { MarkingType, SimpleRole } from "./types";
 import {
-  eventRegex,
-  FieldType,
-  InputType,
-  MarkingType,
-  Parameter,
-  SimpleRole,
-} from "./types";
-
-let nodeId = 0;
-let subId = 0;
-
-function untilRegex(
-  code: string,
-  regex: string
-): { part: string[]; code: string } {
-  let str = code
-    .replace(/[\r\t]/g, "")
-    .split("\n")
-    .reverse();
-  let arr: string[] = [];
-  let line = str.pop();
-  while (line && line !== regex) {
-    arr.push(line);
-    line = str.pop();
+  EventDecl,
+  EventRef,
+  ParseError,
+  parseProgram,
+  ProcessDecl,
+  Program,
+  RelationDecl,
+  RoleDecl,
+  SpawnDecl,
+} from "./tardisdcr-parser";
+import { Annotation, parseAnnotation } from "./annotations";
+
+/**
+ * A process scope while generating the graph: the events declared in it and its
+ * enclosing scope.
+ */
+interface Scope {
+  parentId?: string;
+  events: Map<string, string>;
+  parent?: Scope;
+}
+
+/**
+ * A `// @nest` ... `// @end` block of annotations.
+ */
+interface NestBlock {
+  id: string;
+  annotation: Annotation;
+  from: number;
+  to: number;
+  parent?: NestBlock;
+}
+
+/**
+ * State shared while generating the graph of a program.
+ *
+ * @property annotations - The annotations of the program, by line.
+ * @property used - The ids set by annotations, which generated ids must avoid.
+ * @property positioned - Whether every node so far got its position from an annotation.
+ */
+interface Generation {
+  program: Program;
+  annotations: Map<number, Annotation>;
+  used: Set<string>;
+  counters: { e: number; s: number };
+  positioned: boolean;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+function genRole(role: RoleDecl): SimpleRole {
+  return {
+    role: role.label,
+    label: role.label,
+    types: role.params.map((param) => ({ var: param.name, type: param.type })),
+  };
+}
+
+/**
+ * Finds the id of an event by label, looking in the closest enclosing scope first.
+ *
+ * @throws {ParseError} If no event has that label.
+ */
+function resolveEvent(ref: EventRef, scope: Scope): string {
+  for (let sc: Scope | undefined = scope; sc; sc = sc.parent) {
+    const id = sc.events.get(ref.label);
+    if (id) return id;
   }
 
-  return { part: arr, code: str.reverse().join("\n") };
+  throw new ParseError(`Unknown event ${ref.label}.`, ref.location);
 }
 
-function detectSubprocess(code: string): { part: string[]; code: string } {
-  let str = code.split("\n").reverse();
-  let arr: string[] = [];
-  let line = str.pop();
-  let jump = 0;
-  let end = false;
-  while (line && !end) {
-    if (line.endsWith("{")) {
-      jump++;
-      arr.push(line);
-      line = str.pop();
-    } else if (line === "}") {
-      if (jump > 0) {
-        jump--;
-        arr.push(line);
-        line = str.pop();
-      } else end = true;
-    } else {
-      arr.push(line);
-      line = str.pop();
-    }
+/**
+ * Returns the annotation of a given kind written on the line right above a declaration.
+ */
+const annotationAbove = (
+  gen: Generation,
+  line: number,
+  kind: string
+): Annotation | undefined => {
+  const annotation = gen.annotations.get(line - 1);
+  return annotation?.kind === kind ? annotation : undefined;
+};
+
+/**
+ * Takes the id given by an annotation, or the next free id with the prefix.
+ */
+function takeId(gen: Generation, prefix: "e" | "s", annotated?: string) {
+  if (annotated) return annotated;
+
+  let id = `${prefix}${gen.counters[prefix]++}`;
+  while (gen.used.has(id)) id = `${prefix}${gen.counters[prefix]++}`;
+  return id;
+}
+
+/**
+ * Reads the position and size annotated on a node, if any.
+ */
+function readLayout(
+  gen: Generation,
+  annotation?: Annotation
+): { position: XYPosition; width?: number; height?: number } {
+  const { x, y, width, height } = annotation?.attributes ?? {};
+  if (x === undefined || y === undefined) {
+    gen.positioned = false;
+    return { position: { x: 0, y: 0 } };
   }
 
-  return { part: arr, code: str.reverse().join("\n") };
+  return {
+    position: { x: Number(x), y: Number(y) },
+    ...(width !== undefined && { width: Number(width) }),
+    ...(height !== undefined && { height: Number(height) }),
+  };
 }
 
-function genRole(role: string): SimpleRole {
-  const [roleLabel, roleParams] = role
-    .replace(" ", "")
-    .replace("(", " ")
-    .replace(")", "")
-    .replace(/\s{2,}/g, " ")
-    .split(" ");
-
-  const params: Parameter[] = roleParams
-    ? roleParams.split(";").map((param) => {
-        const [varName, type] = param.split(":");
-        return { var: varName, type };
-      })
-    : [];
+const parenting = (parentId?: string) =>
+  parentId
+    ? { parentId, expandParent: true, extent: "parent" as const }
+    : { parentId: "" };
+
+function genEvent(gen: Generation, event: EventDecl, parentId?: string): Node {
+  const layout = annotationAbove(gen, event.location.from.line, "layout");
+  const marking: MarkingType = {
+    included: event.included,
+    pending: event.pending,
+  };
 
   return {
-    role: roleLabel,
-    label: roleLabel,
-    types: params,
+    id: takeId(gen, "e", layout?.attributes.id),
+    type: "event",
+    data: {
+      initiators: event.initiators.map((part) => part.text),
+      ...(event.receivers.length > 0 && {
+        receivers: event.receivers.map((part) => part.text),
+      }),
+      type: event.input ? "i" : "c",
+      label: event.label,
+      name: event.name,
+      marking,
+      ...(event.input && { input: event.input }),
+      ...(event.expression && { expression: event.expression }),
+      security: event.security,
+    },
+    ...parenting(parentId),
+    position: readLayout(gen, layout).position,
+    zIndex: 10000,
   };
 }
 
-function genGraph(
-  code: string,
-  parentId?: string,
-  nds?: Node[],
-  eds?: Edge[]
-): { nodes: Node[]; edges: Edge[] } {
-  let result = untilRegex(code, ";");
-
-  let nodes: Node[] = nds ? nds : [];
-  result.part.forEach((ev) => {
-    const match = eventRegex.exec(ev);
-
-    let eventInfo, ifc, typeInfo, initRecv;
-    if (match) {
-      eventInfo = match[1].replace(/\s/g, "");
-      ifc = match[2].replace(/\s/g, "");
-      typeInfo = match[3].replace(/\s/g, "");
-      initRecv = match[4].replace(" -> ", "->");
-    }
+/**
+ * Returns the process declaring a line: the innermost spawned process around it.
+ */
+function processAt(process: ProcessDecl, line: number): ProcessDecl {
+  for (const relation of process.relations)
+    if (
+      relation.kind === "spawn" &&
+      relation.location.from.line < line &&
+      line < relation.location.to.line
+    )
+      return processAt(relation.process, line);
+
+  return process;
+}
 
-    if (eventInfo && ifc && typeInfo && initRecv) {
-      const marking: MarkingType = {
-        included: !ev.includes("%"),
-        pending: ev.includes("!"),
-      };
-      const [label, name] = eventInfo
-        .replace("!", "")
-        .replace("%", "")
-        .split(":");
-
-      let type: string = "";
-      let input: InputType | undefined = undefined;
-      let expression: string = "";
-
-      if (typeInfo.charAt(0) === "?") {
-        type = "i";
-        const inputStr = typeInfo.slice(2);
-
-        if (inputStr) {
-          if (inputStr.charAt(0) === "{") {
-            const fields = inputStr
-              .replace("{", "")
-              .replace("}", "")
-              .split(";");
-
-            const recordFields: FieldType[] = fields.map((field) => {
-              const [varName, fieldType] = field.split(":");
-              return { var: varName, type: fieldType };
-            });
-            input = { type: "Record", record: recordFields };
-          } else input = { type: inputStr };
-        } else input = { type: "Unit" };
-      } else {
-        type = "c";
-        expression = typeInfo;
+/**
+ * Collects the nest blocks declared in the events of a process.
+ */
+function nestBlocks(gen: Generation, process: ProcessDecl): NestBlock[] {
+  const blocks: NestBlock[] = [];
+  const open: NestBlock[] = [];
+
+  [...gen.annotations.values()]
+    .filter(
+      (annotation) =>
+        (annotation.kind === "nest" || annotation.kind === "end") &&
+        processAt(gen.program.process, annotation.line) === process
+    )
+    .forEach((annotation) => {
+      if (annotation.kind === "end") {
+        const block = open.pop();
+        if (block) block.to = annotation.line;
+        return;
       }
 
-      const [initiators, receivers] = initRecv
-        .replace("[", "")
-        .replace("]", "")
-        .split("->");
-
-      nodes.push({
-        id: `e${nodeId++}`,
-        type: "event",
-        data: {
-          initiators: initiators.split(","),
-          ...(receivers && { receivers: receivers.split(",") }),
-          type,
-          label,
-          name,
-          marking,
-          ...(input && { input }),
-          ...(expression && { expression }),
-          security: ifc,
-        },
-        ...(parentId
-          ? { parentId, expandParent: true, extent: "parent" }
-          : { parentId: "" }),
-        position: { x: 0, y: 0 },
-        zIndex: 10000,
+      const block: NestBlock = {
+        id: annotation.attributes.id,
+        annotation,
+        from: annotation.line,
+        to: Infinity,
+        parent: open[open.length - 1],
+      };
+      if (!block.id) return;
+      blocks.push(block);
+      open.push(block);
+    });
+
+  return blocks;
+}
+
+function genNest(gen: Generation, block: NestBlock, parentId?: string): Node {
+  const { type, label, included, pending } = block.annotation.attributes;
+  const { position, width, height } = readLayout(gen, block.annotation);
+
+  return {
+    id: block.id,
+    type: "nest",
+    position,
+    width: width ?? 200,
+    height: height ?? 200,
+    ...parenting(block.parent?.id ?? parentId),
+    data: {
+      nestType: type ?? "group",
+      label: label ?? block.id,
+      marking: {
+        included: included !== "false",
+        pending: pending === "true",
+      },
+    },
+    zIndex: 1000,
+  };
+}
+
+function genSpawn(
+  gen: Generation,
+  relation: SpawnDecl,
+  scope: Scope,
+  nests: Set<string>
+) {
+  const triggerId = resolveEvent(relation.trigger, scope);
+  const annotation = annotationAbove(
+    gen,
+    relation.location.from.line,
+    "subprocess"
+  );
+  const { id: annotatedId, label, parent } = annotation?.attributes ?? {};
+  const subprocessId = takeId(gen, "s", annotatedId);
+  const { position, width, height } = readLayout(gen, annotation);
+
+  gen.nodes.push({
+    id: subprocessId,
+    position,
+    width: width ?? 200,
+    height: height ?? 200,
+    type: "subprocess",
+    ...parenting(parent && nests.has(parent) ? parent : scope.parentId),
+    data: {
+      label: label ?? subprocessId,
+      marking: {
+        included: true,
+        pending: false,
+      },
+    },
+    zIndex: 1000,
+  });
+
+  gen.edges.push({
+    id: `s-${triggerId}-${subprocessId}`,
+    type: "spawn",
+    source: triggerId,
+    target: subprocessId,
+    data: {
+      guard: "",
+    },
+    zIndex: 20000,
+  });
+
+  genGraph(gen, relation.process, {
+    parentId: subprocessId,
+    events: new Map(),
+    parent: scope,
+  });
+}
+
+function genRelation(
+  gen: Generation,
+  relation: RelationDecl,
+  scope: Scope,
+  nests: Set<string>
+) {
+  const sources = relation.sources.map((ref) => resolveEvent(ref, scope));
+  const targets = relation.targets.map((ref) => resolveEvent(ref, scope));
+  const data = { guard: relation.guard ?? "" };
+
+  // A relation drawn to a nest or subprocess is a single edge
+  const annotation = annotationAbove(gen, relation.location.from.line, "edge");
+  if (annotation) {
+    const isGroup = (id?: string) =>
+      !!id && gen.nodes.some((nd) => nd.id === id && nd.type !== "event");
+    const { source: group, target: targetGroup } = annotation.attributes;
+    const source = isGroup(group) ? group : sources[0];
+    const target = isGroup(targetGroup) ? targetGroup : targets[0];
+
+    if (
+      (isGroup(group) || sources.length === 1) &&
+      (isGroup(targetGroup) || targets.length === 1)
+    ) {
+      gen.edges.push({
+        id: `${relation.type.charAt(0)}-${source}-${target}`,
+        type: relation.type,
+        source,
+        target,
+        data,
+        zIndex: 20000,
       });
+      return;
     }
-  });
+  }
 
-  let edges: Edge[] = eds ? eds : [];
-  let str = result.code.replace(/[\r\t]/g, "").split("\n");
-  while (str.length > 0) {
-    str = str.reverse();
-    const line = str.pop();
-    str = str.reverse();
-
-    if (line) {
-      if (line.endsWith("{")) {
-        let triggerId: string = "";
-        if (
-          parentId &&
-          nodes.some(
-            (ev) =>
-              ev.data.label === line.split(" ")[0] && ev.parentId === parentId
+  sources.forEach((source) => {
+    targets.forEach((target) => {
+      // Excludes between the events of a choice nest draw the choice
+      const choice = [...nests].find((id) => {
+        const nest = gen.nodes.find((nd) => nd.id === id);
+        return (
+          relation.type === "exclude" &&
+          source !== target &&
+          nest?.data.nestType === "choice" &&
+          [source, target].every(
+            (ev) => gen.nodes.find((nd) => nd.id === ev)?.parentId === id
           )
-        )
-          triggerId = (
-            nodes.find(
-              (ev) =>
-                ev.data.label === line.split(" ")[0] && ev.parentId === parentId
-            ) as Node
-          ).id;
-        else
-          triggerId = (
-            nodes.find((ev) => ev.data.label === line.split(" ")[0]) as Node
-          ).id;
-
-        const subprocessId = `s${subId++}`;
-
-        const sub: Node = {
-          id: subprocessId,
-          position: { x: 0, y: 0 },
-          width: 200,
-          height: 200,
-          type: "subprocess",
-          ...(parentId
-            ? { parentId, expandParent: true, extent: "parent" }
-            : { parentId: "" }),
-          data: {
-            label: subprocessId,
-            marking: {
-              included: true,
-              pending: false,
-            },
-          },
-          zIndex: 1000,
-        };
-
-        const edge: Edge = {
-          id: `s-${triggerId}-${subprocessId}`,
-          type: "spawn",
-          source: triggerId,
-          target: subprocessId,
-          data: {
-            guard: "",
-          },
-          zIndex: 20000,
-        };
-
-        result = detectSubprocess(str.join("\n"));
-
-        const { nodes: genNodes, edges: genEdges } = genGraph(
-          result.part.join("\n"),
-          subprocessId,
-          nodes,
-          edges
         );
-        nodes = [sub, ...genNodes];
-        edges = [edge, ...genEdges];
-
-        str = result.code ? result.code.split("\n") : [""];
-      } else {
-        const [src, tp, tgt] = line
-          .replace(/, /g, ",")
-          .replace(/\s{2,}/g, " ")
-          .split(" ");
-
-        const sources = src.split(",").map((sr) => {
-          if (
-            parentId &&
-            nodes.some((ev) => ev.data.label === sr && ev.parentId === parentId)
-          )
-            return (
-              nodes.find(
-                (ev) => ev.data.label === sr && ev.parentId === parentId
-              ) as Node
-            ).id;
-          else return (nodes.find((ev) => ev.data.label === sr) as Node).id;
-        });
-        const targets = tgt.split(",").map((tg) => {
-          if (
-            parentId &&
-            nodes.some((ev) => ev.data.label === tg && ev.parentId === parentId)
-          )
-            return (
-              nodes.find(
-                (ev) => ev.data.label === tg && ev.parentId === parentId
-              ) as Node
-            ).id;
-          else return (nodes.find((ev) => ev.data.label === tg) as Node).id;
-        });
-
-        let type: string = "";
-        switch (tp) {
-          case "-->*":
-            type = "condition";
-            break;
-          case "*-->":
-            type = "response";
-            break;
-          case "-->+":
-            type = "include";
-            break;
-          case "-->%":
-            type = "exclude";
-            break;
-          case "--<>":
-            type = "milestone";
-            break;
-        }
-
-        sources.forEach((source) => {
-          targets.forEach((target) => {
-            edges.push({
-              id: `${type.charAt(0)}-${source}-${target}`,
-              type,
-              source,
-              target,
-              data: {
-                guard: "",
-              },
-              zIndex: 20000,
-            });
-          });
-        });
-      }
-    }
-  }
+      });
 
-  return { nodes, edges };
+      gen.edges.push({
+        id: `${relation.type.charAt(0)}-${source}-${target}`,
+        type: relation.type,
+        source,
+        target,
+        data: choice ? { ...data, parent: choice } : data,
+        ...(choice && { hidden: true }),
+        zIndex: 20000,
+      });
+    });
+  });
 }
 
-function cleanCode(code: string): string {
-  let codeClean: string[] = [];
-  code
-    .replace(/\r\t/g, "")
-    .split("\n")
-    .forEach((line) => {
-      if (line && line.trim() && !line.startsWith("//"))
-        codeClean.push(line.trim());
-    });
+function genGraph(gen: Generation, process: ProcessDecl, scope: Scope) {
+  const { parentId } = scope;
 
-  console.log(codeClean);
+  const blocks = nestBlocks(gen, process);
+  blocks.forEach((block) => gen.nodes.push(genNest(gen, block, parentId)));
+  const nests = new Set(blocks.map((block) => block.id));
 
-  return codeClean.join("\n");
+  process.events.forEach((event) => {
+    const line = event.location.from.line;
+    const block = blocks
+      .filter((bl) => bl.from < line && line < bl.to)
+      .sort((a, b) => b.from - a.from)[0];
+
+    const node = genEvent(gen, event, block?.id ?? parentId);
+    scope.events.set(event.label, node.id);
+    gen.nodes.push(node);
+  });
+
+  process.relations.forEach((relation) => {
+    if (relation.kind === "spawn") genSpawn(gen, relation, scope, nests);
+    else genRelation(gen, relation, scope, nests);
+  });
 }
 
+/**
+ * Returns the number following the prefix of the highest id, plus one.
+ */
+const nextId = (nodes: Node[], prefix: string) =>
+  Math.max(
+    -1,
+    ...nodes
+      .map((nd) => nd.id)
+      .filter((id) => new RegExp(`^${prefix}\\d+$`).test(id))
+      .map((id) => parseInt(id.slice(1)))
+  ) + 1;
+
+/**
+ * Generates the graph described by `.tardisdcr` code.
+ *
+ * Annotation comments written by `writeCode` are read back: nests and their choice
+ * relations, subprocess labels, relations drawn to nests and subprocesses, and, when
+ * present, the ids, positions and sizes of the nodes.
+ *
+ * @param code - The code to parse.
+ * @returns The roles, the security lattice, the nodes and edges of the graph, the next
+ *          free event, nest and subprocess ids, and whether every node is positioned by
+ *          an annotation, in which case the graph needs no automatic layout.
+ * @throws {ParseError} If the code is malformed or refers to unknown events.
+ */
 export function visualGen(code: string) {
-  let result = untilRegex(cleanCode(code), ";");
-  const roles: SimpleRole[] = result.part.map((role) => genRole(role));
+  const program = parseProgram(code);
 
-  result = untilRegex(result.code, ";");
-  const security = result.part.join("\n");
+  const roles: SimpleRole[] = program.roles.map((role) => genRole(role));
+  const security = program.lattice.text;
 
-  nodeId = 0;
-  subId = 0;
-  const { nodes, edges } = genGraph(result.code);
+  const annotations = new Map<number, Annotation>();
+  program.comments.forEach((comment) => {
+    const annotation = parseAnnotation(comment);
+    if (annotation) annotations.set(annotation.line, annotation);
+  });
+
+  const used = new Set(
+    [...annotations.values()]
+      .filter((an) => an.kind === "layout" || an.kind === "subprocess")
+      .map((an) => an.attributes.id)
+      .filter((id) => id !== undefined)
+  );
+
+  const gen: Generation = {
+    program,
+    annotations,
+    used,
+    counters: { e: 0, s: 0 },
+    positioned: true,
+    nodes: [],
+    edges: [],
+  };
+  genGraph(gen, program.process, { events: new Map() });
 
-  return { roles, security, nodes, edges, nodeId, subId };
+  // Parents must precede their children
+  const depth = (node: Node): number => {
+    const parent = gen.nodes.find((nd) => nd.id === node.parentId);
+    return parent ? depth(parent) + 1 : 0;
+  };
+  const ordered = gen.nodes
+    .map((node) => ({ node, depth: depth(node) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ node }) => node);
+
+  return {
+    roles,
+    security,
+    nodes: ordered,
+    edges: gen.edges,
+    nodeId: nextId(ordered, "e"),
+    groupId: nextId(ordered, "n"),
+    subId: nextId(ordered, "s"),
+    positioned: gen.positioned && ordered.length > 0,
+  };
 }
@@ -0,0 +1,297 @@
+import { describe, expect, it } from "vitest";
+import { processChoregraphyModel } from "./visualgen-json";
+import type {
+  ChoreographyGraph,
+  ChoreographyModel,
+  Expression,
+  RoleExpr,
+} from "./types";
+
+const ROLE = {
+  label: "P",
+  params: [{ name: "id", type: { valueType: "int" as const } }],
+};
+
+const common = (id: string, extra: object = {}) => ({
+  endpointElementUID: id,
+  choreoElementUID: `${id}_label`,
+  id,
+  label: `${id}_name`,
+  dataType: { valueType: "void" as const },
+  marking: { isPending: false, isIncluded: true },
+  ...extra,
+});
+
+const model = (graph: ChoreographyGraph): ChoreographyModel => ({
+  role: ROLE,
+  graph,
+});
+
+/** A computation event computing the given expression. */
+const computing = (dataExpr: Expression) =>
+  processChoregraphyModel(
+    model({
+      events: [
+        {
+          computationEvent: { common: common("c"), dataExpr, receivers: [] },
+        },
+      ],
+      relations: [],
+    })
+  ).nodes[0].data.expression;
+
+/** An input event sent to the given receivers. */
+const receiving = (receivers: RoleExpr[]) =>
+  processChoregraphyModel(
+    model({
+      events: [{ inputEvent: { common: common("i"), receivers } }],
+      relations: [],
+    })
+  ).nodes[0].data.receivers;
+
+const ref = (value: string) => ({ eventRef: { value } });
+
+describe("processChoregraphyModel", () => {
+  describe("events", () => {
+    it("turns an input event into a sending input node", () => {
+      const { nodes } = processChoregraphyModel(
+        model({
+          events: [
+            {
+              inputEvent: {
+                common: common("e0", {
+                  dataType: { valueType: "int" },
+                  marking: { isPending: true, isIncluded: false },
+                }),
+                receivers: [],
+              },
+            },
+          ],
+          relations: [],
+        })
+      );
+
+      expect(nodes[0]).toMatchObject({
+        id: "e0",
+        type: "event",
+        data: {
+          type: "i",
+          label: "e0_label",
+          name: "e0_name",
+          input: { type: "Integer" },
+          marking: { included: false, pending: true },
+          initiators: ["P(#id)"],
+          interactionType: "tx",
+        },
+      });
+    });
+
+    it("turns a receive event into a receiving input node", () => {
+      const { nodes } = processChoregraphyModel(
+        model({
+          events: [
+            {
+              receiveEvent: {
+                common: common("e1"),
+                initiators: [{ roleLabel: "Q", params: [] }],
+              },
+            },
+          ],
+          relations: [],
+        })
+      );
+
+      expect(nodes[0].data).toMatchObject({
+        type: "i",
+        initiators: ["P(#id)"],
+        receivers: ["Q()"],
+        interactionType: "rx",
+      });
+    });
+
+    it("turns a computation event into a computation node", () => {
+      const { nodes } = processChoregraphyModel(
+        model({
+          events: [
+            {
+              computationEvent: {
+                common: common("e2"),
+                dataExpr: { intLit: { value: 3 } },
+                receivers: [],
+              },
+            },
+          ],
+          relations: [],
+        })
+      );
+
+      expect(nodes[0].data).toMatchObject({
+        type: "c",
+        expression: "3",
+        interactionType: "tx",
+      });
+    });
+
+    it("reads record data types", () => {
+      const { nodes } = processChoregraphyModel(
+        model({
+          events: [
+            {
+              inputEvent: {
+                common: common("e3", {
+                  dataType: {
+                    recordType: {
+                      fields: [
+                        { name: "kw", type: { valueType: "int" } },
+                        { name: "ok", type: { valueType: "bool" } },
+                      ],
+                    },
+                  },
+                }),
+                receivers: [],
+              },
+            },
+          ],
+          relations: [],
+        })
+      );
+
+      expect(nodes[0].data.input).toEqual({
+        type: "Record",
+        record: [
+          { var: "kw", type: "Integer" },
+          { var: "ok", type: "Boolean" },
+        ],
+      });
+    });
+  });
+
+  describe("role expressions", () => {
+    it("writes simple and nested role expressions with their parameters", () => {
+      expect(
+        receiving([
+          {
+            roleLabel: "Q",
+            params: [
+              { name: "a", value: { intLit: { value: 1 } } },
+              { name: "b", value: { stringLit: { value: "x" } } },
+              { name: "c" },
+            ],
+          },
+          {
+            roleExpr: {
+              roleLabel: "R",
+              params: [
+                { name: "d", value: { boolLit: { value: true } } },
+                { name: "e", value: { floatLit: { value: 1.5 } } },
+              ],
+            },
+          },
+        ])
+      ).toEqual(["Q(a=1; b='x'; c=*)", "R(d=true; e=1.5)"]);
+    });
+
+    it("writes initiator and receiver references", () => {
+      expect(
+        receiving([
+          { initiatorExpr: { eventId: "e0" } },
+          { receiverExpr: { eventId: "e1" } },
+        ])
+      ).toEqual(["@Initiator(e0)", "@Receiver(e1)"]);
+    });
+  });
+
+  describe("expressions", () => {
+    it.each([
+      [{ intLit: { value: 4 } }, "4"],
+      [{ stringLit: { value: "hi" } }, "'hi'"],
+      [{ boolLit: { value: false } }, "false"],
+      [{ floatLit: { value: 0.5 } }, "0.5"],
+      [{ propDeref: ref("e0") }, "e0"],
+      [
+        {
+          propDeref: {
+            propDeref: {
+              propBasedExpr: { propBasedExpr: ref("e0"), prop: "value" },
+              prop: "kw",
+            },
+          },
+        },
+        "e0.value.kw",
+      ],
+    ] as [Expression, string][])("writes %j as %s", (expression, text) => {
+      expect(computing(expression)).toBe(text);
+    });
+
+    it.each([
+      ["and", "&&"],
+      ["or", "||"],
+      ["equals", "=="],
+      ["notEquals", "!="],
+      ["intGreaterThan", ">"],
+      ["intLessThan", "<"],
+      ["intAdd", "+"],
+    ])("writes the %s operator as %s", (op, symbol) => {
+      expect(
+        computing({
+          binaryOp: {
+            op: op as "and",
+            expr1: { propDeref: ref("x") },
+            expr2: {
+              binaryOp: {
+                op: "intAdd",
+                expr1: { intLit: { value: 1 } },
+                expr2: { boolLit: { value: true } },
+              },
+            },
+          },
+        })
+      ).toBe(`x ${symbol} 1 + true`);
+    });
+  });
+
+  describe("relations", () => {
+    it("creates control flow edges and spawned subprocesses", () => {
+      const { nodes, edges } = processChoregraphyModel(
+        model({
+          events: [{ inputEvent: { common: common("e0"), receivers: [] } }],
+          relations: [
+            {
+              controlFlowRelation: {
+                relationCommon: { endpointElementUID: "r0", sourceId: "e0" },
+                targetId: "e0",
+                relationType: "response",
+              },
+            },
+            {
+              spawnRelation: {
+                relationCommon: {
+                  endpointElementUID: "r1",
+                  sourceId: "e0",
+                  instantiationConstraint: { boolLit: { value: true } },
+                },
+                triggerId: "e0",
+                graph: {
+                  events: [
+                    { inputEvent: { common: common("e1"), receivers: [] } },
+                  ],
+                  relations: [],
+                },
+              },
+            },
+          ],
+        })
+      );
+
+      expect(nodes.map((nd) => [nd.id, nd.type, nd.parentId])).toEqual([
+        ["e0", "event", ""],
+        ["s0-1", "subprocess", ""],
+        ["e1", "event", "s0-1"],
+      ]);
+      expect(edges.map((ed) => [ed.id, ed.type])).toEqual([
+        ["r-e0-e0", "response"],
+        ["s-e0-s0-1", "spawn"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode } from "@/test/fixtures";
+import type { Operation } from "@/lib/crdt";
+
+/**
+ * A WebSocket recording what the editor sends, opened as soon as it is created.
+ */
+class FakeSocket {
+  static OPEN = 1;
+  static last: FakeSocket;
+
+  readyState = FakeSocket.OPEN;
+  url: string;
+  sent: { type: string; ops?: Operation[]; revision?: number }[] = [];
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onclose?: () => void;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeSocket.last = this;
+    queueMicrotask(() => this.onopen?.());
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.onclose?.();
+  }
+}
+
+const stamp = (clock: number, client: string) => ({ clock, client });
+
+/** The keys of the operations sent so far */
+const sentKeys = () =>
+  FakeSocket.last.sent
+    .filter((message) => message.type === "ops")
+    .flatMap((message) => message.ops!.map((op) => op.key));
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.stubGlobal("WebSocket", FakeSocket);
+  vi.stubGlobal("window", { location: { protocol: "http:", host: "editor" } });
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({ nodes: [eventNode("e0")], edges: [], roles: [] });
+
+  useStore.getState().joinCollaboration();
+  await vi.runAllTimersAsync();
+});
+
+afterEach(() => {
+  useStore.getState().leaveCollaboration();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("collaboration", () => {
+  it("joins the channel of the document shown", () => {
+    const state = useStore.getState();
+    expect(FakeSocket.last.url).toBe(
+      `ws://editor/ws?document=current&client=${state.clientId}`
+    );
+    expect(state.collaborating).toBe(true);
+    expect(FakeSocket.last.sent[0]).toMatchObject({ type: "presence" });
+  });
+
+  it("seeds an empty room and shares later changes", async () => {
+    useStore.getState().receiveCollaboration({
+      type: "welcome",
+      ops: [],
+      clients: [],
+      peers: [],
+    });
+    expect(sentKeys()).toEqual(["node:e0", "security"]);
+
+    useStore.setState({ nodes: [eventNode("e0"), eventNode("e1")] });
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    expect(sentKeys()).toEqual(["node:e0", "security", "node:e1"]);
+  });
+
+  it("takes the document of a room already edited", () => {
+    useStore.getState().receiveCollaboration({
+      type: "welcome",
+      ops: [
+        { key: "node:e7", value: eventNode("e7"), stamp: stamp(4, "peer") },
+        { key: "security", value: "Public flows Q", stamp: stamp(4, "peer") },
+      ],
+      clients: ["peer"],
+      peers: [
+        {
+          client: "peer",
+          presence: { name: "Peer", color: "red", selection: [] },
+        },
+      ],
+    });
+
+    const state = useStore.getState();
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e7"]);
+    expect(state.security).toBe("Public flows Q");
+    expect(state.nextNodeId).toEqual([8]);
+    expect([...state.peers.keys()]).toEqual(["peer"]);
+    expect(sentKeys()).toEqual([]);
+  });
+
+  it("merges the operations of other clients", () => {
+    useStore.getState().receiveCollaboration({
+      type: "welcome",
+      ops: [],
+      clients: [],
+      peers: [],
+    });
+    const [{ stamp: own }] = FakeSocket.last.sent.find(
+      (message) => message.type === "ops"
+    )!.ops!;
+
+    useStore.getState().receiveCollaboration({
+      type: "ops",
+      ops: [
+        // Older than the creation of e0 here, so it loses
+        { key: "node:e0", value: null, stamp: stamp(own.clock - 1, "peer") },
+        { key: "node:e1", value: eventNode("e1"), stamp: stamp(1, "peer") },
+      ],
+    });
+
+    const state = useStore.getState();
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e0", "e1"]);
+    expect(state.projectionInfo.get("global")?.nodes).toHaveLength(2);
+  });
+
+  it("creates nodes under ids no other client creates", () => {
+    const { addNode, clientId, leaveCollaboration } = useStore.getState();
+    const suffix = `_${clientId.slice(0, 8)}`;
+
+    expect(addNode(eventNode(""))).toBe(`e0${suffix}`);
+    expect(useStore.getState().getNode(`e0${suffix}`)?.data.label).toBe(
+      `e0${suffix}`
+    );
+
+    leaveCollaboration();
+    expect(addNode(eventNode(""))).toBe("e1");
+  });
+
+  it("follows the revisions saved by other clients", () => {
+    useStore.getState().receiveCollaboration({ type: "saved", revision: 5 });
+    expect(useStore.getState().revision).toBe(5);
+
+    useStore.getState().receiveCollaboration({ type: "saved", revision: 3 });
+    expect(useStore.getState().revision).toBe(5);
+  });
+
+  it("leaves the saves to the first client by id", async () => {
+    const requests = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ revision: 7 }),
+    }));
+    vi.stubGlobal("fetch", requests);
+    // The other client has not shared its presence yet
+    useStore.getState().receiveCollaboration({
+      type: "welcome",
+      ops: [],
+      clients: ["0"],
+      peers: [],
+    });
+
+    await useStore.getState().saveDocument();
+    expect(useStore.getState().keepsDocument()).toBe(false);
+    expect(requests).not.toHaveBeenCalled();
+
+    useStore.getState().receiveCollaboration({ type: "saved", revision: 4 });
+    expect(useStore.getState()).toMatchObject({ revision: 4, synced: true });
+
+    // The first client is gone, so this one saves what it may have missed
+    useStore.getState().receiveCollaboration({ type: "leave", client: "0" });
+    await vi.runAllTimersAsync();
+    expect(requests).toHaveBeenCalledWith(
+      "/api/documents/current",
+      expect.objectContaining({ method: "PUT" })
+    );
+    expect(useStore.getState()).toMatchObject({ revision: 7, synced: true });
+  });
+
+  it("does not save before knowing the clients of the room", () => {
+    const { keepsDocument, receiveCollaboration } = useStore.getState();
+    expect(keepsDocument()).toBe(false);
+
+    receiveCollaboration({ type: "welcome", ops: [], clients: [], peers: [] });
+    expect(keepsDocument()).toBe(true);
+
+    receiveCollaboration({ type: "join", client: "0" });
+    expect(keepsDocument()).toBe(false);
+  });
+
+  it("ignores malformed frames", () => {
+    ["null", "{", "3", '"saved"'].forEach((data) =>
+      expect(() => FakeSocket.last.onmessage?.({ data })).not.toThrow()
+    );
+
+    FakeSocket.last.onmessage?.({
+      data: JSON.stringify({ type: "saved", revision: 5 }),
+    });
+    expect(useStore.getState().revision).toBe(5);
+  });
+
+  it("forgets the peers that leave", () => {
+    const presence = { name: "Peer", color: "red", selection: ["e0"] };
+    useStore
+      .getState()
+      .receiveCollaboration({ type: "presence", client: "peer", presence });
+    expect(useStore.getState().peers.get("peer")).toEqual(presence);
+
+    useStore.getState().receiveCollaboration({ type: "leave", client: "peer" });
+    expect(useStore.getState().peers.size).toBe(0);
+  });
+});
@@ -0,0 +1,321 @@
+import { StateCreator } from "zustand/vanilla";
+import { RFState } from "./store";
+import type { XYPosition } from "@xyflow/react";
+import {
+  applyOperations,
+  createReplica,
+  graphEntries,
+  Operation,
+  Replica,
+  reserveIds,
+  SharedGraph,
+} from "@/lib/crdt";
+import { projectRoles } from "@/lib/projection";
+
+/** The colors given to clients, picked from their id */
+const COLORS = [
+  "#E11D48",
+  "#2563EB",
+  "#16A34A",
+  "#D97706",
+  "#9333EA",
+  "#0891B2",
+];
+
+/**
+ * What a client shows of itself to the others editing the same document.
+ *
+ * @property name - The name of the client.
+ * @property color - The color of its cursor and selection.
+ * @property cursor - The position of its pointer on the canvas, if it is on it.
+ * @property selection - The ids of the nodes and edges it selected.
+ */
+export interface Presence {
+  name: string;
+  color: string;
+  cursor?: XYPosition;
+  selection: string[];
+}
+
+/**
+ * The messages of the collaboration channel, as sent by the backend.
+ */
+export type CollaborationMessage =
+  | {
+      type: "welcome";
+      ops: Operation[];
+      clients: string[];
+      peers: { client: string; presence: Presence }[];
+    }
+  | { type: "ops"; ops: Operation[] }
+  | { type: "join"; client: string }
+  | { type: "presence"; client: string; presence: Presence }
+  | { type: "leave"; client: string }
+  | { type: "saved"; revision: number };
+
+/**
+ * Represents the real-time collaboration on the document shown: the clients editing it
+ * share the operations on its nodes, edges, roles and security lattice through the
+ * backend, as well as their cursor and selection.
+ *
+ * Operations are merged in a last-writer-wins map per element (see `Replica`), so that
+ * concurrent edits of different elements are all kept and those of the same element
+ * settle on the same value everywhere, rather than the last save overwriting the
+ * document. The code is not shared: it follows the graph of each client.
+ *
+ * Only the first client by id saves the document, the changes of the others reaching it
+ * as operations: clients saving on their own would each run into the revisions saved by
+ * the others, and report as conflicts edits that were already merged.
+ */
+export type CollaborationState = {
+  /* ------------- COLLABORATION ------------- */
+  /** The id of this client, stamping its operations */
+  clientId: string;
+  /** This client as shown to the others */
+  presence: Presence;
+  /** The other clients editing the document shown, by id */
+  peers: Map<string, Presence>;
+  /** Whether the collaboration channel of the document shown is open */
+  collaborating: boolean;
+  /** Joins the collaboration channel of the document shown, leaving the previous one */
+  joinCollaboration(): void;
+  /** Leaves the collaboration channel */
+  leaveCollaboration(): void;
+  /** Broadcasts the changes of the graph since they were last broadcast or received */
+  publishChanges(): void;
+  /** Shares the cursor or the selection of this client */
+  sharePresence(update: Partial<Pick<Presence, "cursor" | "selection">>): void;
+  /** Whether this client saves the document shown, being the first of the clients by id */
+  keepsDocument(): boolean;
+  /** The suffix of the ids of the nodes this client creates, unique to it while collaborating */
+  nodeIdSuffix(): string;
+  /** Tells the other clients the document was saved under a revision */
+  announceSaved(revision: number): void;
+  /** Handles a message of the collaboration channel */
+  receiveCollaboration(message: CollaborationMessage): void;
+};
+
+const collaborationStateSlice: StateCreator<
+  RFState,
+  [],
+  [],
+  CollaborationState
+> = (set, get) => {
+  const clientId = crypto.randomUUID();
+
+  // The channel of the document shown and the elements shared on it
+  let socket: WebSocket | undefined;
+  let replica: Replica = createReplica(clientId);
+  // Whether the elements of the room were received, before which nothing is sent
+  let welcomed = false;
+  // The other clients in the room, known before they share their presence
+  let clients = new Set<string>();
+
+  const send = (message: object) => {
+    if (socket && socket.readyState === WebSocket.OPEN)
+      socket.send(JSON.stringify(message));
+  };
+
+  /**
+   * Returns the global graph of the document shown, even if a projection is shown.
+   */
+  const sharedGraph = (): SharedGraph => {
+    const { nodes, edges } = get().globalGraph();
+    return { nodes, edges, roles: get().roles, security: get().security };
+  };
+
+  /**
+   * Saves the document shown, logging why it cannot be saved.
+   */
+  const save = () =>
+    get()
+      .saveDocument()
+      .catch((error: Error) =>
+        get().log(`Cannot save the changes: ${error.message}`)
+      );
+
+  /**
+   * Applies operations of other clients to the document shown, and its projections.
+   */
+  const applyRemote = (operations: Operation[]) => {
+    if (operations.length === 0) return;
+
+    const next = applyOperations(sharedGraph(), operations);
+    const projectionInfo = new Map([
+      ["global", { nodes: next.nodes, edges: next.edges }],
+      ...projectRoles(next.nodes, next.edges, next.roles),
+    ]);
+    const shown = projectionInfo.get(get().currentProjection) ?? next;
+    const selected = get().selectedElement;
+
+    set({
+      nodes: shown.nodes,
+      edges: shown.edges,
+      roles: next.roles,
+      security: next.security,
+      projectionInfo,
+      nextNodeId: reserveIds(next.nodes, "e", get().nextNodeId),
+      nextGroupId: reserveIds(next.nodes, "n", get().nextGroupId),
+      nextSubprocessId: reserveIds(next.nodes, "s", get().nextSubprocessId),
+      ...(selected &&
+        ![...shown.nodes, ...shown.edges].some(
+          (element) => element.id === selected.id
+        ) && { selectedElement: undefined }),
+    });
+    get().validate();
+    get().checkFlows();
+    get().refreshDifferences();
+    save();
+  };
+
+  const colorOf = (id: string) =>
+    COLORS[
+      [...id].reduce((sum, char) => sum + char.charCodeAt(0), 0) % COLORS.length
+    ];
+
+  return {
+    /* ------------- COLLABORATION ------------- */
+    clientId,
+    presence: {
+      name: `Guest ${clientId.slice(0, 4)}`,
+      color: colorOf(clientId),
+      selection: [],
+    },
+    peers: new Map(),
+    collaborating: false,
+
+    joinCollaboration(): void {
+      get().leaveCollaboration();
+      if (typeof WebSocket === "undefined") return;
+
+      const document = encodeURIComponent(get().currentDocument);
+      const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+      const ws = new WebSocket(
+        `${protocol}://${window.location.host}/ws?document=${document}&client=${clientId}`
+      );
+      socket = ws;
+      replica = createReplica(clientId);
+      welcomed = false;
+      clients = new Set();
+
+      ws.onopen = () => {
+        set({ collaborating: true });
+        send({ type: "presence", presence: get().presence });
+      };
+      ws.onmessage = (event) => {
+        if (socket !== ws) return;
+        let message: unknown;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        // Frames that are not messages of the channel are ignored
+        if (
+          typeof message === "object" &&
+          message !== null &&
+          "type" in message
+        )
+          get().receiveCollaboration(message as CollaborationMessage);
+      };
+      ws.onclose = () => {
+        if (socket !== ws) return;
+        socket = undefined;
+        set({ collaborating: false, peers: new Map() });
+      };
+    },
+
+    leaveCollaboration(): void {
+      const ws = socket;
+      socket = undefined;
+      welcomed = false;
+      clients = new Set();
+      ws?.close();
+      set({ collaborating: false, peers: new Map() });
+    },
+
+    publishChanges(): void {
+      if (!welcomed) return;
+
+      const ops = replica.commit(sharedGraph());
+      if (ops.length > 0) send({ type: "ops", ops });
+    },
+
+    sharePresence(update): void {
+      const presence = { ...get().presence, ...update };
+      set({ presence });
+      send({ type: "presence", presence });
+    },
+
+    keepsDocument(): boolean {
+      // Until the clients of the room are known, another one may be saving
+      if (socket && !welcomed) return false;
+      return [...clients].every((client) => client > clientId);
+    },
+
+    nodeIdSuffix(): string {
+      // Two clients adding a node at the same time would otherwise both create `e3`
+      return get().collaborating ? `_${clientId.slice(0, 8)}` : "";
+    },
+
+    announceSaved(revision: number): void {
+      send({ type: "saved", revision });
+    },
+
+    receiveCollaboration(message: CollaborationMessage): void {
+      switch (message.type) {
+        case "welcome": {
+          set({
+            peers: new Map(
+              message.peers.map(({ client, presence }) => [client, presence])
+            ),
+          });
+          welcomed = true;
+          clients = new Set(message.clients);
+
+          // The first client seeds the room, the others take its document
+          if (message.ops.length === 0) {
+            get().publishChanges();
+            if (!get().synced) save();
+            return;
+          }
+          replica.merge(message.ops);
+          const stamp = { clock: 0, client: clientId };
+          const unknown = [...graphEntries(sharedGraph()).keys()]
+            .filter((key) => !replica.has(key))
+            .map((key) => ({ key, value: null, stamp }));
+          applyRemote([...message.ops, ...unknown]);
+          break;
+        }
+        case "ops":
+          applyRemote(replica.merge(message.ops));
+          break;
+        case "join":
+          clients.add(message.client);
+          break;
+        case "presence":
+          set({
+            peers: new Map(get().peers).set(message.client, message.presence),
+          });
+          break;
+        case "leave": {
+          const kept = get().keepsDocument();
+          clients.delete(message.client);
+          const peers = new Map(get().peers);
+          peers.delete(message.client);
+          set({ peers });
+          // The client saving the document left, possibly before saving the last changes
+          if (!kept && get().keepsDocument()) save();
+          break;
+        }
+        case "saved":
+          // The changes saved were received before, so this client has them too
+          if (message.revision > get().revision)
+            set({ revision: message.revision, synced: true });
+          break;
+      }
+    },
+  };
+};
+
+export default collaborationStateSlice;
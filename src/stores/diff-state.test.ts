@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode, relationEdge } from "@/test/fixtures";
+import { State } from "@/lib/types";
+
+const version: State = {
+  nodes: [
+    eventNode("e4", { label: "a", name: "a" }),
+    eventNode("e5", { label: "d", name: "d" }),
+  ],
+  edges: [relationEdge("condition", "e5", "e4")],
+  roles: [],
+  security: "",
+  code: "",
+  nextNodeId: [6],
+  nextGroupId: [0],
+  nextSubprocessId: [0],
+};
+
+const labels = () =>
+  useStore.getState().differences.map((change) => change.label);
+
+const lastLog = () => useStore.getState().logs.at(-1)?.message;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({
+    nodes: [
+      eventNode("e0", { label: "a", name: "a" }),
+      eventNode("e1", { label: "b", name: "b" }),
+    ],
+    edges: [],
+    roles: [],
+    nextNodeId: [2],
+  });
+  useStore.getState().compareWith("variant.json", version);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("compareWith", () => {
+  it("lists the differences with the version", () => {
+    expect(useStore.getState().comparison?.name).toBe("variant.json");
+    expect(labels()).toEqual(["Event b", "Event d", "Condition d → a"]);
+    expect(lastLog()).toBe("Comparing with variant.json: 3 differences.");
+  });
+
+  it("leaves the diff mode", () => {
+    useStore.getState().stopComparing();
+
+    expect(useStore.getState().comparison).toBeUndefined();
+    expect(useStore.getState().differences).toEqual([]);
+  });
+});
+
+describe("pickDifference", () => {
+  it("applies a change, which can be undone", async () => {
+    expect(useStore.getState().pickDifference("event:d")).toBe(true);
+    await vi.runAllTimersAsync();
+
+    const state = useStore.getState();
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e0", "e1", "e2"]);
+    expect(labels()).toEqual(["Event b", "Condition d → a"]);
+    expect(state.past.at(-1)?.label).toBe("Pick Event d");
+    expect(state.logs.map((log) => log.message)).toContain(
+      "Picked Event d from variant.json."
+    );
+
+    state.undo();
+    await vi.runAllTimersAsync();
+    expect(useStore.getState().nodes.map((nd) => nd.id)).toEqual(["e0", "e1"]);
+    expect(labels()).toEqual(["Event b", "Event d", "Condition d → a"]);
+  });
+
+  it("logs the changes that cannot be picked yet", () => {
+    expect(useStore.getState().pickDifference("relation:condition:d->a")).toBe(
+      false
+    );
+
+    expect(useStore.getState().edges).toEqual([]);
+    expect(lastLog()).toBe(
+      "Cannot pick Condition d → a: Pick the endpoints of Condition d → a first."
+    );
+  });
+
+  it("only picks changes into the global graph", () => {
+    useStore.setState({ currentProjection: "P" });
+
+    expect(useStore.getState().pickDifference("event:b")).toBe(false);
+    expect(useStore.getState().nodes).toHaveLength(2);
+  });
+});
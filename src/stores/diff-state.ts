@@ -0,0 +1,120 @@
+import { StateCreator } from "zustand/vanilla";
+import { RFState } from "./store";
+import { State } from "@/lib/types";
+import { Change, DiffError, diffGraphs, pickChange } from "@/lib/diff";
+
+/**
+ * A version of the choreography the document shown is compared with.
+ *
+ * @property name - Where the version comes from, e.g. a file name.
+ * @property graph - The saved graph of the version.
+ */
+export interface Comparison {
+  name: string;
+  graph: State;
+}
+
+/**
+ * Represents the diff mode: the document shown compared with another version, the
+ * differences being shown on the canvas and picked one by one into the document.
+ */
+export type DiffState = {
+  /* ------------------ DIFF ----------------- */
+  /** The version the document shown is compared with, if any */
+  comparison: Comparison | undefined;
+  /** What the compared version changes in the document shown */
+  differences: Change[];
+  /** Compares the document shown with another version */
+  compareWith(name: string, graph: State): void;
+  /** Leaves the diff mode */
+  stopComparing(): void;
+  /** Compares the document shown again, after it changed */
+  refreshDifferences(): void;
+  /** Applies a change of the compared version to the document shown, returning false if it cannot be applied */
+  pickDifference(key: string): boolean;
+};
+
+const diffStateSlice: StateCreator<RFState, [], [], DiffState> = (set, get) => {
+  const global = () => ({ ...get().globalGraph(), roles: get().roles });
+
+  return {
+    /* ------------------ DIFF ----------------- */
+    comparison: undefined,
+    differences: [],
+
+    compareWith(name: string, graph: State): void {
+      const comparison = {
+        name,
+        graph: {
+          ...graph,
+          nodes: graph.nodes ?? [],
+          edges: graph.edges ?? [],
+          roles: graph.roles ?? [],
+        },
+      };
+      const differences = diffGraphs(global(), comparison.graph);
+
+      set({ comparison, differences });
+      get().log(
+        `Comparing with ${name}: ${differences.length} difference${
+          differences.length === 1 ? "" : "s"
+        }.`
+      );
+    },
+
+    stopComparing(): void {
+      set({ comparison: undefined, differences: [] });
+    },
+
+    refreshDifferences(): void {
+      const { comparison } = get();
+      if (!comparison) return;
+      set({ differences: diffGraphs(global(), comparison.graph) });
+    },
+
+    pickDifference(key: string): boolean {
+      const { comparison, differences, currentProjection, simulationFlow } =
+        get();
+      const change = differences.find((difference) => difference.key === key);
+      if (!comparison || !change) return false;
+      if (simulationFlow || currentProjection !== "global") {
+        get().log(
+          `Cannot pick ${change.label}: changes are picked into the global graph, outside the simulation.`
+        );
+        return false;
+      }
+
+      let picked: ReturnType<typeof pickChange>;
+      try {
+        picked = pickChange(
+          {
+            nodes: get().nodes,
+            edges: get().edges,
+            roles: get().roles,
+            security: get().security,
+            code: get().code,
+            nextNodeId: get().nextNodeId,
+            nextGroupId: get().nextGroupId,
+            nextSubprocessId: get().nextSubprocessId,
+          },
+          comparison.graph,
+          change,
+          get().nodeIdSuffix()
+        );
+      } catch (error) {
+        if (!(error instanceof DiffError)) throw error;
+        get().log(`Cannot pick ${change.label}: ${error.message}`);
+        return false;
+      }
+
+      get().takeSnapshot(`Pick ${change.label}`);
+      set({ ...picked, selectedElement: undefined });
+      get().refreshDifferences();
+      get().log(`Picked ${change.label} from ${comparison.name}.`);
+      get().saveState();
+      return true;
+    },
+  };
+};
+
+export default diffStateSlice;
@@ -167,6 +167,7 @@ const edgesStateSlice: StateCreator<RFState, [], [], EdgesState> = (
     // Early return if edge already exists
     if (type && get().alreadyExistsEdge({ source, target, type })) return;
 
+    get().takeSnapshot(`Add ${edge.type} relation`);
     get().log(
       `Added ${edge.type} relation from ${edge.source} to ${edge.target}`
     );
@@ -190,6 +191,8 @@ const edgesStateSlice: StateCreator<RFState, [], [], EdgesState> = (
 
     if (edgeIndex === -1) return;
 
+    get().takeSnapshot(`Update ${id}`);
+
     let newEdges = [...currentEdges];
     newEdges[edgeIndex] = updatedEdge;
 
@@ -280,6 +283,7 @@ const edgesStateSlice: StateCreator<RFState, [], [], EdgesState> = (
     if (deletedEdges.length === 0) return;
 
     const deletedIds = deletedEdges.map((edge) => edge.id);
+    get().takeSnapshot(`Delete ${deletedIds.join(", ")}`);
     get().log(`Deleted edges: ${deletedIds.join(", ")}.`);
 
     // Remove documentation for deleted edges
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode } from "@/test/fixtures";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useStore.setState(useStore.getInitialState(), true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const ids = () => useStore.getState().nodes.map((nd) => nd.id);
+
+/**
+ * Records a change of the nodes, as the canvas does.
+ */
+const change = (label: string, ...nodes: string[]) => {
+  useStore.getState().takeSnapshot(label);
+  useStore.setState({ nodes: nodes.map((id) => eventNode(id)) });
+};
+
+describe("takeSnapshot", () => {
+  it("merges the changes of the same kind made in a row", () => {
+    change("Move", "e0");
+    change("Move", "e1");
+    expect(useStore.getState().past).toHaveLength(1);
+
+    vi.advanceTimersByTime(2000);
+    change("Move", "e2");
+    expect(useStore.getState().past).toHaveLength(2);
+  });
+
+  it("drops the redo stack when a merged change follows an undo", async () => {
+    change("Move", "e0");
+    change("Add", "e0", "e1");
+    useStore.getState().undo();
+    await vi.runAllTimersAsync();
+    expect(useStore.getState().future).toHaveLength(1);
+
+    change("Move", "e2");
+    expect(useStore.getState().future).toEqual([]);
+
+    useStore.getState().redo();
+    expect(ids()).toEqual(["e2"]);
+  });
+});
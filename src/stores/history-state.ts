@@ -0,0 +1,199 @@
+import { StateCreator } from "zustand/vanilla";
+import type { Edge, Node } from "@xyflow/react";
+import { RFState } from "./store";
+import { SimpleRole } from "@/lib/types";
+
+/**
+ * Configuration constants for the undo/redo history
+ */
+const HISTORY_CONFIG = {
+  /** Maximum number of entries kept in the undo stack */
+  MAX_ENTRIES: 100,
+  /** Consecutive snapshots with the same label inside this window (ms) are merged */
+  MERGE_WINDOW: 1000,
+} as const;
+
+/**
+ * Everything an undo/redo step restores.
+ */
+export type GraphSnapshot = {
+  nodes: Node[];
+  edges: Edge[];
+  roles: SimpleRole[];
+  security: string;
+  documentation: Map<string, string>;
+  nextNodeId: number[];
+  nextGroupId: number[];
+  nextSubprocessId: number[];
+};
+
+/**
+ * A single entry of the undo/redo stacks.
+ */
+export interface HistoryEntry {
+  label: string;
+  time: string;
+  timestamp: number;
+  snapshot: GraphSnapshot;
+}
+
+/**
+ * Captures the restorable part of the current store state
+ */
+const captureSnapshot = (state: RFState): GraphSnapshot => ({
+  nodes: state.nodes,
+  edges: state.edges,
+  roles: state.roles,
+  security: state.security,
+  documentation: new Map(state.documentation),
+  nextNodeId: state.nextNodeId,
+  nextGroupId: state.nextGroupId,
+  nextSubprocessId: state.nextSubprocessId,
+});
+
+/**
+ * Creates a history entry for the current store state
+ */
+const createHistoryEntry = (label: string, state: RFState): HistoryEntry => ({
+  label,
+  time: new Date().toLocaleTimeString(),
+  timestamp: Date.now(),
+  snapshot: captureSnapshot(state),
+});
+
+/**
+ * Represents the undo/redo history of the editor.
+ *
+ * Snapshots are taken right before a change is applied, so undoing an entry restores
+ * the state the editor had before that change.
+ */
+export type HistoryState = {
+  /* ---------------- HISTORY ---------------- */
+  /** Entries that can be undone, oldest first */
+  past: HistoryEntry[];
+  /** Entries that can be redone, most recently undone last */
+  future: HistoryEntry[];
+  /** Whether snapshots are currently being ignored (during batched operations) */
+  historyPaused: boolean;
+  /** Records the current state under the given label before a change is made */
+  takeSnapshot(label: string): void;
+  /** Records a single snapshot for an operation made of several store changes */
+  recordHistory(
+    label: string,
+    action: () => void | Promise<void>
+  ): Promise<void>;
+  /** Restores the state before the last recorded change */
+  undo(): void;
+  /** Re-applies the last undone change */
+  redo(): void;
+  /** Clears both history stacks */
+  clearHistory(): void;
+  /** Applies a snapshot to the store */
+  restoreSnapshot(snapshot: GraphSnapshot): void;
+};
+
+const historyStateSlice: StateCreator<RFState, [], [], HistoryState> = (
+  set,
+  get
+) => ({
+  /* ---------------- HISTORY ---------------- */
+  past: [],
+  future: [],
+  historyPaused: false,
+
+  takeSnapshot(label: string): void {
+    const { historyPaused, simulationFlow, currentProjection, past } = get();
+    if (historyPaused || simulationFlow || currentProjection !== "global")
+      return;
+
+    const last = past[past.length - 1];
+    if (
+      last &&
+      last.label === label &&
+      Date.now() - last.timestamp < HISTORY_CONFIG.MERGE_WINDOW
+    ) {
+      // A change made after an undo still drops the entries that could be redone
+      set({
+        past: [...past.slice(0, -1), { ...last, timestamp: Date.now() }],
+        future: [],
+      });
+      return;
+    }
+
+    set({
+      past: [...past, createHistoryEntry(label, get())].slice(
+        -HISTORY_CONFIG.MAX_ENTRIES
+      ),
+      future: [],
+    });
+  },
+
+  async recordHistory(
+    label: string,
+    action: () => void | Promise<void>
+  ): Promise<void> {
+    get().takeSnapshot(label);
+
+    set({ historyPaused: true });
+    try {
+      await action();
+    } finally {
+      set({ historyPaused: false });
+    }
+  },
+
+  undo(): void {
+    const { past, future, simulationFlow, currentProjection } = get();
+    if (past.length === 0 || simulationFlow || currentProjection !== "global")
+      return;
+
+    const entry = past[past.length - 1];
+
+    set({
+      past: past.slice(0, -1),
+      future: [...future, createHistoryEntry(entry.label, get())],
+    });
+
+    get().restoreSnapshot(entry.snapshot);
+    get().log(`Undo: ${entry.label}.`);
+  },
+
+  redo(): void {
+    const { past, future, simulationFlow, currentProjection } = get();
+    if (future.length === 0 || simulationFlow || currentProjection !== "global")
+      return;
+
+    const entry = future[future.length - 1];
+
+    set({
+      past: [...past, createHistoryEntry(entry.label, get())],
+      future: future.slice(0, -1),
+    });
+
+    get().restoreSnapshot(entry.snapshot);
+    get().log(`Redo: ${entry.label}.`);
+  },
+
+  clearHistory(): void {
+    set({ past: [], future: [] });
+  },
+
+  restoreSnapshot(snapshot: GraphSnapshot): void {
+    set({
+      nodes: snapshot.nodes,
+      edges: snapshot.edges,
+      roles: snapshot.roles,
+      security: snapshot.security,
+      documentation: new Map(snapshot.documentation),
+      nextNodeId: snapshot.nextNodeId,
+      nextGroupId: snapshot.nextGroupId,
+      nextSubprocessId: snapshot.nextSubprocessId,
+      selectedElement: undefined,
+    });
+
+    get().saveState();
+  },
+  /* ----------------------------------------- */
+});
+
+export default historyStateSlice;
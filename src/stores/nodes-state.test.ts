@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode, subgraphNode } from "@/test/fixtures";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useStore.setState(useStore.getInitialState(), true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const ids = () => useStore.getState().nodes.map((nd) => nd.id);
+
+describe("addNode", () => {
+  it("numbers each kind of node separately", () => {
+    const { addNode } = useStore.getState();
+
+    expect(addNode(eventNode(""))).toBe("e0");
+    expect(addNode(subgraphNode("", "nest"))).toBe("n0");
+    expect(addNode(eventNode(""))).toBe("e1");
+    expect(addNode(subgraphNode("", "subprocess"))).toBe("s0");
+    expect(useStore.getState().getNode("e1")?.data.label).toBe("e1");
+  });
+
+  it("selects the added node only", () => {
+    const { addNode } = useStore.getState();
+    addNode(eventNode(""));
+    addNode(eventNode(""));
+
+    const { nodes, selectedElement } = useStore.getState();
+    expect(nodes.map((nd) => nd.selected)).toEqual([false, true]);
+    expect(selectedElement?.id).toBe("e1");
+  });
+
+  it("reuses the ids of deleted nodes, smallest first", () => {
+    const { addNode, onNodesDelete, getNode } = useStore.getState();
+    ["e0", "e1", "e2", "e3"].forEach(() => addNode(eventNode("")));
+    addNode(subgraphNode("", "nest"));
+
+    onNodesDelete([getNode("e2")!, getNode("e0")!, getNode("n0")!]);
+
+    expect(useStore.getState().nextNodeId).toEqual([0, 2, 4]);
+    expect(useStore.getState().nextGroupId).toEqual([0, 1]);
+    expect(addNode(eventNode(""))).toBe("e0");
+    expect(addNode(eventNode(""))).toBe("e2");
+    expect(addNode(eventNode(""))).toBe("e4");
+    expect(addNode(eventNode(""))).toBe("e5");
+    expect(addNode(subgraphNode("", "nest"))).toBe("n0");
+  });
+
+  it("removes the relations of deleted nodes", () => {
+    useStore.setState({
+      nodes: [eventNode("e0"), eventNode("e1"), eventNode("e2")],
+      edges: [
+        { id: "c-e0-e1", type: "condition", source: "e0", target: "e1" },
+        { id: "r-e1-e2", type: "response", source: "e1", target: "e2" },
+      ],
+      nextNodeId: [3],
+    });
+
+    const { onNodesDelete, getNode } = useStore.getState();
+    onNodesDelete([getNode("e0")!]);
+
+    expect(ids()).toEqual(["e1", "e2"]);
+    expect(useStore.getState().edges.map((ed) => ed.id)).toEqual(["r-e1-e2"]);
+  });
+});
+
+describe("returnDeletedIds", () => {
+  it("returns ids to the pool of their kind", () => {
+    useStore.setState({
+      nextNodeId: [5],
+      nextGroupId: [2],
+      nextSubprocessId: [1, 3],
+    });
+
+    useStore
+      .getState()
+      .returnDeletedIds([
+        eventNode("e3"),
+        subgraphNode("n1", "nest"),
+        subgraphNode("s2", "subprocess"),
+      ]);
+
+    const { nextNodeId, nextGroupId, nextSubprocessId } = useStore.getState();
+    expect(nextNodeId).toEqual([3, 5]);
+    expect(nextGroupId).toEqual([1, 2]);
+    expect(nextSubprocessId).toEqual([1, 2, 3]);
+  });
+});
+
+describe("updateParenting", () => {
+  it("moves a parent in front of its children", async () => {
+    useStore.setState({
+      nodes: [
+        eventNode("e0", {}, { parentId: "n0" }),
+        eventNode("e1"),
+        subgraphNode("n0", "nest"),
+      ],
+    });
+
+    useStore.getState().updateParenting(useStore.getState().getNode("n0")!);
+    await vi.runAllTimersAsync();
+
+    expect(ids()).toEqual(["e1", "n0", "e0"]);
+  });
+
+  it("reorders nested parents recursively", async () => {
+    useStore.setState({
+      nodes: [
+        eventNode("e0", {}, { parentId: "n1" }),
+        subgraphNode("n1", "nest", { parentId: "n0" }),
+        subgraphNode("n0", "nest"),
+      ],
+    });
+
+    useStore.getState().updateParenting(useStore.getState().getNode("n0")!);
+    await vi.runAllTimersAsync();
+
+    const order = ids();
+    expect(order.indexOf("n0")).toBeLessThan(order.indexOf("n1"));
+    expect(order.indexOf("n1")).toBeLessThan(order.indexOf("e0"));
+  });
+
+  it("keeps an event in the graph", async () => {
+    useStore.setState({ nodes: [eventNode("e0"), eventNode("e1")] });
+
+    useStore.getState().updateParenting(useStore.getState().getNode("e0")!);
+    expect(ids()).toEqual(["e1"]);
+    await vi.runAllTimersAsync();
+
+    expect(ids()).toEqual(["e1", "e0"]);
+  });
+});
+
+describe("getFamily", () => {
+  it("returns every descendant of a node", () => {
+    useStore.setState({
+      nodes: [
+        subgraphNode("n0", "nest"),
+        subgraphNode("s0", "subprocess", { parentId: "n0" }),
+        eventNode("e0", {}, { parentId: "s0" }),
+        eventNode("e1"),
+      ],
+    });
+
+    expect(useStore.getState().getFamily("n0")).toEqual(["s0", "e0"]);
+  });
+});
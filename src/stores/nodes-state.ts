@@ -13,6 +13,7 @@ import { StateCreator } from "zustand/vanilla";
 import { RFState } from "@/stores/store";
 import { delay } from "@/lib/utils";
 import { state, type EventType } from "@/lib/types";
+import { mergeGraph } from "@/lib/graph-sync";
 
 // Type definitions
 type NodeType = "event" | "nest" | "subprocess";
@@ -27,7 +28,8 @@ interface IdCounters {
 // Node factory functions
 const createNodeId = (
   type: NodeType,
-  counters: IdCounters
+  counters: IdCounters,
+  suffix: string
 ): { id: string; updatedCounters: Partial<IdCounters> } => {
   const prefixMap = { event: "e", nest: "n", subprocess: "s" } as const;
   const counterMap = {
@@ -38,7 +40,7 @@ const createNodeId = (
 
   const counterKey = counterMap[type];
   const currentCounter = counters[counterKey];
-  const id = prefixMap[type] + currentCounter[0];
+  const id = prefixMap[type] + currentCounter[0] + suffix;
   const nextCounters = currentCounter.slice(1);
 
   return {
@@ -50,6 +52,9 @@ const createNodeId = (
   };
 };
 
+// Ids with the suffix of a collaborating client are not handed out again
+const isCounted = (node: Node) => /^[ens]\d+$/.test(node.id);
+
 const createEventNode = (node: Node, id: string): Node => {
   const isInputEvent = node.data.type === "i";
 
@@ -122,6 +127,11 @@ const createSubgraphNode = (node: Node, id: string): Node => ({
  * @param childId - The ID of the child node.
  * @returns True if the parent is in front, false otherwise.
  *
+ * @method patchGraph - Merges a graph generated from code into the current graph, keeping
+ * the position, size and documentation of the elements the code still describes.
+ * @param generatedNodes - The nodes generated from the code, laid out.
+ * @param generatedEdges - The edges generated from the code.
+ *
  * @method setIds - Sets the next available IDs for nodes, groups, and subprocesses.
  * @param nodeId - The next node IDs.
  * @param groupId - The next group IDs.
@@ -179,6 +189,7 @@ export type NodesState = {
   getFamily(id: string): string[];
   updateParenting(updatedNode: Node): void;
   parentInFront(parentId: string, childId: string): boolean;
+  patchGraph(generatedNodes: Node[], generatedEdges: Edge[]): void;
 
   // ID management
   setIds(nodeId: number[], groupId: number[], subprocessId: number[]): void;
@@ -231,6 +242,8 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
 
   // Node operations
   addNode(node: Node): string {
+    get().takeSnapshot(`Add ${node.type}`);
+
     const counters = {
       nextNodeId: get().nextNodeId,
       nextGroupId: get().nextGroupId,
@@ -239,7 +252,8 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
 
     const { id, updatedCounters } = createNodeId(
       node.type as NodeType,
-      counters
+      counters,
+      get().nodeIdSuffix()
     );
 
     // Update counters
@@ -276,6 +290,8 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
     const currentNode = get().getNode(id);
     if (!currentNode) throw new Error(`Node with id ${id} not found`);
 
+    get().takeSnapshot(`Update ${id}`);
+
     let nodeToUpdate = updatedNode;
 
     // Handle node type conversions
@@ -492,6 +508,37 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
     return parentIndex < childIndex;
   },
 
+  patchGraph(generatedNodes: Node[], generatedEdges: Edge[]): void {
+    let counters: IdCounters = {
+      nextNodeId: get().nextNodeId,
+      nextGroupId: get().nextGroupId,
+      nextSubprocessId: get().nextSubprocessId,
+    };
+
+    const { nodes, edges, removed } = mergeGraph(
+      { nodes: get().nodes, edges: get().edges },
+      { nodes: generatedNodes, edges: generatedEdges },
+      (type) => {
+        const { id, updatedCounters } = createNodeId(
+          type,
+          counters,
+          get().nodeIdSuffix()
+        );
+        counters = { ...counters, ...updatedCounters };
+        return id;
+      }
+    );
+
+    // Clean up documentation
+    [...removed.nodes, ...removed.edges].forEach((element) =>
+      get().removeDocumentation(element.id)
+    );
+
+    set({ ...counters, nodes, edges, selectedElement: undefined });
+    get().returnDeletedIds(removed.nodes);
+    get().saveState();
+  },
+
   // ID management
   setIds(nodeId: number[], groupId: number[], subprocessId: number[]): void {
     set({
@@ -604,6 +651,7 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
   onNodesDelete(deletedNodes: Node[]): void {
     const deletedIds = deletedNodes.map((node) => node.id);
 
+    get().takeSnapshot(`Delete ${deletedIds.join(", ")}`);
     get().log(`Deleted nodes: ${deletedIds.join(", ")}.`);
 
     // Clean up documentation
@@ -626,19 +674,19 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
 
   returnDeletedIds(deletedNodes: Node[]): void {
     const nodeIds = deletedNodes
-      .filter((node) => node.type === "event")
+      .filter((node) => node.type === "event" && isCounted(node))
       .map((node) => parseInt(node.id.slice(1)))
       .concat(get().nextNodeId)
       .sort((a, b) => a - b);
 
     const groupIds = deletedNodes
-      .filter((node) => node.type === "nest")
+      .filter((node) => node.type === "nest" && isCounted(node))
       .map((node) => parseInt(node.id.slice(1)))
       .concat(get().nextGroupId)
       .sort((a, b) => a - b);
 
     const subprocessIds = deletedNodes
-      .filter((node) => node.type === "subprocess")
+      .filter((node) => node.type === "subprocess" && isCounted(node))
       .map((node) => parseInt(node.id.slice(1)))
       .concat(get().nextSubprocessId)
       .sort((a, b) => a - b);
@@ -680,6 +728,7 @@ const nodesStateSlice: StateCreator<RFState, [], [], NodesState> = (
 
   onNodeDragStart(event: any, node: Node): void {
     event.preventDefault();
+    get().takeSnapshot(`Move ${node.id}`);
     get().setSelectedElement(node);
   },
 
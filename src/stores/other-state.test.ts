@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode } from "@/test/fixtures";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useStore.setState(useStore.getInitialState(), true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const global = { nodes: [eventNode("e0"), eventNode("e1")], edges: [] };
+const projection = { nodes: [eventNode("e0")], edges: [] };
+
+/**
+ * Clears the projections, running the timers it waits for.
+ */
+const clear = async (all: boolean) => {
+  const cleared = useStore.getState().clearProjections(all);
+  await vi.runAllTimersAsync();
+  return cleared;
+};
+
+describe("clearProjections", () => {
+  beforeEach(() => {
+    const { setProjectionInfo, setCurrentProjection } = useStore.getState();
+    setProjectionInfo("global", global);
+    setProjectionInfo("P", projection);
+    setCurrentProjection("P");
+    useStore.setState({ nodes: projection.nodes });
+  });
+
+  it("keeps the global graph and shows it again", async () => {
+    const result = await clear(false);
+
+    const { projectionInfo, currentProjection, nodes } = useStore.getState();
+    expect([...projectionInfo.keys()]).toEqual(["global"]);
+    expect(currentProjection).toBe("global");
+    expect(nodes).toBe(global.nodes);
+    expect(result).toEqual(global);
+  });
+
+  it("clears every projection, leaving an empty graph", async () => {
+    const result = await clear(true);
+
+    const { projectionInfo, currentProjection, nodes, edges } =
+      useStore.getState();
+    expect(projectionInfo.size).toBe(0);
+    expect(currentProjection).toBe("global");
+    expect(nodes).toEqual([]);
+    expect(edges).toEqual([]);
+    expect(result).toEqual({ nodes: [], edges: [] });
+  });
+});
+
+describe("globalGraph", () => {
+  it("returns the global graph while a projection is shown", () => {
+    const { setProjectionInfo, setCurrentProjection } = useStore.getState();
+    setProjectionInfo("global", global);
+    setCurrentProjection("P");
+    useStore.setState({ nodes: projection.nodes });
+    expect(useStore.getState().globalGraph()).toEqual(global);
+
+    setCurrentProjection("global");
+    expect(useStore.getState().globalGraph().nodes).toBe(projection.nodes);
+  });
+});
+
+describe("documentation", () => {
+  it("ignores blank ids", () => {
+    const { addDocumentation, removeDocumentation } = useStore.getState();
+    addDocumentation(" ", "ignored");
+    addDocumentation("e0", "The first event.");
+    removeDocumentation(" ");
+
+    expect([...useStore.getState().documentation]).toEqual([
+      ["global", ""],
+      ["e0", "The first event."],
+    ]);
+  });
+});
+
+describe("selectElement", () => {
+  it("selects a node or an edge by its id", () => {
+    useStore.setState({
+      nodes: [eventNode("e0", {}, { selected: true }), eventNode("e1")],
+      edges: [{ id: "c-e0-e1", type: "condition", source: "e0", target: "e1" }],
+    });
+
+    useStore.getState().selectElement("c-e0-e1");
+
+    const { nodes, edges, selectedElement } = useStore.getState();
+    expect(nodes.map((nd) => nd.selected)).toEqual([false, false]);
+    expect(edges[0].selected).toBe(true);
+    expect(selectedElement).toBe(edges[0]);
+  });
+});
+
+describe("saveState", () => {
+  it("records the graph as the global projection", async () => {
+    useStore.setState({ nodes: global.nodes });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    expect(useStore.getState().projectionInfo.get("global")).toEqual(global);
+  });
+
+  it("projects the graph onto each role", async () => {
+    useStore.setState({
+      nodes: [
+        eventNode("e0", { initiators: ["P"], receivers: ["Q"] }),
+        eventNode("e1", { initiators: ["Q"] }),
+      ],
+      roles: [
+        { role: "Prosumer", label: "P", types: [] },
+        { role: "Operator", label: "Q", types: [] },
+      ],
+    });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    const { projectionInfo } = useStore.getState();
+    expect([...projectionInfo.keys()]).toEqual(["global", "P", "Q"]);
+    expect(
+      projectionInfo.get("Q")?.nodes.map((nd) => nd.data.interactionType)
+    ).toEqual(["rx", "tx"]);
+  });
+
+  it("checks information flows, logging new violations once", async () => {
+    useStore.setState({
+      nodes: [
+        eventNode("e0", { security: "Secret" }),
+        eventNode("e1", { security: "Public" }),
+      ],
+      edges: [{ id: "c-e0-e1", type: "condition", source: "e0", target: "e1" }],
+      security: "Public flows Secret",
+    });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    const { flowViolations, logs } = useStore.getState();
+    expect(flowViolations.map((v) => v.edge)).toEqual(["c-e0-e1"]);
+    expect(logs.map((log) => log.message)).toEqual([
+      "Information flow violation: The condition relation from e0 (Secret) to e1 (Public) lets Secret information flow to Public.",
+    ]);
+  });
+
+  it("validates the graph", async () => {
+    useStore.setState({ nodes: [eventNode("e0", { initiators: [] })] });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    expect(useStore.getState().problems).toEqual([
+      { message: "Event e0 has no initiators.", node: "e0" },
+    ]);
+  });
+
+  it("shares and saves a burst of changes once", async () => {
+    const publishChanges = vi.fn();
+    useStore.setState({ publishChanges });
+    vi.mocked(fetch).mockClear();
+
+    for (const nodes of [[global.nodes[0]], global.nodes]) {
+      useStore.setState({ nodes });
+      useStore.getState().saveState();
+      await vi.advanceTimersByTimeAsync(200);
+    }
+    expect(useStore.getState().projectionInfo.get("global")).toEqual(global);
+    expect(publishChanges).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+    const puts = vi
+      .mocked(fetch)
+      .mock.calls.filter(([, init]) => init?.method === "PUT");
+    expect(puts).toHaveLength(1);
+    expect(publishChanges).toHaveBeenCalledTimes(1);
+  });
+
+  it("logs the changes that cannot be saved", async () => {
+    useStore.setState({
+      nodes: global.nodes,
+      saveDocument: () => Promise.reject(new Error("The disk is full.")),
+    });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    expect(useStore.getState().logs.at(-1)?.message).toBe(
+      "Cannot save the changes: The disk is full."
+    );
+  });
+
+  it("does not save while a projection is shown", async () => {
+    useStore.setState({ nodes: global.nodes, currentProjection: "P" });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    expect(useStore.getState().projectionInfo.get("global")?.nodes).not.toBe(
+      global.nodes
+    );
+  });
+});
@@ -5,10 +5,17 @@ import {
   Log,
   type ProjectionInfo,
   type Element,
+  startup,
   state,
 } from "@/lib/types";
 import type { Edge, Node } from "@xyflow/react";
-import { delay, generateJsonData } from "@/lib/utils";
+import { delay, getLayoutedElements, startupDocument } from "@/lib/utils";
+import { writeCode } from "@/lib/codegen";
+import { visualGen } from "@/lib/visualgen-code";
+import { ParseError } from "@/lib/tardisdcr-parser";
+import { projectRoles } from "@/lib/projection";
+import { checkInformationFlow, FlowViolation } from "@/lib/ifc";
+import { Problem, validateGraph } from "@/lib/validator";
 
 /**
  * Configuration constants for the application state
@@ -23,6 +30,10 @@ const APP_CONFIG = {
     DRAWER_WIDTH: "25%",
     GLOBAL_ID: "global",
   },
+  DELAYS: {
+    /** How long the changes must stop before they are shared and saved, in milliseconds */
+    PERSIST: 500,
+  },
 } as const;
 
 /**
@@ -82,6 +93,32 @@ const getElementDrawerConfig = (): Partial<DrawerConfig> => ({
   open: true,
 });
 
+/**
+ * The graph and the code last known to describe each other while live sync is on
+ */
+let synced:
+  Pick<RFState, "nodes" | "edges" | "roles" | "security" | "code"> | undefined;
+
+const markSynced = (state: RFState) => {
+  const { nodes, edges, roles, security, code } = state;
+  synced = { nodes, edges, roles, security, code };
+};
+
+/**
+ * Checks whether the graph changed since it was last synced with the code
+ */
+const graphChanged = (state: RFState): boolean =>
+  !synced ||
+  synced.nodes !== state.nodes ||
+  synced.edges !== state.edges ||
+  synced.roles !== state.roles ||
+  synced.security !== state.security;
+
+/**
+ * The pending save of the last changes of each document
+ */
+const persisting = new Map<string, ReturnType<typeof setTimeout>>();
+
 /**
  * Utility type for drawer configuration
  */
@@ -111,18 +148,36 @@ export type OtherState = {
   selectedElement: Element;
   /** Sets the selected element */
   setSelectedElement(element: Element): void;
+  /** Selects the node or edge with an id on the canvas */
+  selectElement(id: string): void;
 
   /* ---------------- SECURITY --------------- */
   /** The current security configuration or mode */
   security: string;
   /** Sets the security mode or configuration */
   setSecurity(security: string): void;
+  /** Information flows of the graph going down the security lattice */
+  flowViolations: FlowViolation[];
+  /** Checks the information flows of the graph, logging the new violations */
+  checkFlows(): void;
+
+  /* ---------------- PROBLEMS --------------- */
+  /** Well-formedness problems of the graph */
+  problems: Problem[];
+  /** Validates the graph */
+  validate(): void;
 
   /* ------------------ CODE ----------------- */
   /** The current code content */
   code: string;
   /** Updates the code content */
   setCode(code: string): void;
+  /** Whether canvas edits rewrite the code and code edits patch the canvas */
+  syncCode: boolean;
+  /** Turns live sync on or off; turning it on rewrites the code from the canvas */
+  setSyncCode(sync: boolean): void;
+  /** Patches the canvas from the code, returning false if the code cannot be read */
+  syncGraphFromCode(code: string): boolean;
 
   /* ------------------ LOGS ----------------- */
   /** A list of application logs for debugging or tracing */
@@ -143,6 +198,8 @@ export type OtherState = {
   currentProjection: string;
   /** Sets the current projection ID */
   setCurrentProjection(id: string): void;
+  /** Returns the global graph, even while the projection of a role is shown */
+  globalGraph(): ProjectionInfo;
 
   /* -------------- DRAWER PROPS ------------- */
   /** Drawer open state */
@@ -170,6 +227,7 @@ export type OtherState = {
   /** Opens an element in the drawer */
   openElementInDrawer(element: Node | Edge): void;
 
+  /** Shares the changes of the document with its collaborators, saves it in the browser and the backend, projects it onto each role, validates it, checks its flows and compares it again */
   saveState(): void;
 };
 
@@ -181,10 +239,16 @@ const otherStateSlice: StateCreator<RFState, [], [], OtherState> = (
   documentation: new Map<string, string>([[APP_CONFIG.DEFAULTS.GLOBAL_ID, ""]]),
   selectedElement: undefined,
   security: state.security ?? "",
+  flowViolations: [],
+  problems: validateGraph(state.nodes ?? [], state.edges ?? []),
   code: state.code,
-  logs: [],
+  syncCode: false,
+  logs: startup.error
+    ? [createLogEntry(`Cannot open ${startupDocument()}: ${startup.error}`)]
+    : [],
   projectionInfo: new Map<string, ProjectionInfo>([
     [APP_CONFIG.DEFAULTS.GLOBAL_ID, { nodes: state.nodes, edges: state.edges }],
+    ...projectRoles(state.nodes ?? [], state.edges ?? [], state.roles ?? []),
   ]),
   currentProjection: APP_CONFIG.DEFAULTS.GLOBAL_ID,
   drawerOpen: false,
@@ -218,18 +282,79 @@ const otherStateSlice: StateCreator<RFState, [], [], OtherState> = (
     set({ selectedElement: element });
   },
 
+  selectElement(id: string): void {
+    const nodes = get().nodes.map((nd) => ({ ...nd, selected: nd.id === id }));
+    const edges = get().edges.map((e) => ({ ...e, selected: e.id === id }));
+
+    set({
+      nodes,
+      edges,
+      selectedElement:
+        nodes.find((nd) => nd.id === id) ?? edges.find((e) => e.id === id),
+    });
+  },
+
   /* ---------------- SECURITY --------------- */
   setSecurity(security: string): void {
+    get().takeSnapshot("Edit security lattice");
     set({ security });
     get().saveState();
   },
 
+  checkFlows(): void {
+    const { nodes, edges, security, roles, flowViolations } = get();
+    const violations = checkInformationFlow(nodes, edges, security, roles);
+
+    const known = new Set(flowViolations.map((v) => v.message));
+    violations
+      .filter((v) => !known.has(v.message))
+      .forEach((v) => get().log(`Information flow violation: ${v.message}`));
+
+    set({ flowViolations: violations });
+  },
+
+  /* ---------------- PROBLEMS --------------- */
+  validate(): void {
+    set({ problems: validateGraph(get().nodes, get().edges) });
+  },
+
   /* ------------------ CODE ----------------- */
   setCode(code: string): void {
     set({ code });
     get().saveState();
   },
 
+  setSyncCode(sync: boolean): void {
+    synced = undefined;
+    set({ syncCode: sync });
+    get().log(sync ? "Live sync enabled." : "Live sync disabled.");
+    if (sync) get().saveState();
+  },
+
+  syncGraphFromCode(code: string): boolean {
+    // The code was written from the current graph
+    if (synced && synced.code === code && !graphChanged(get())) return true;
+
+    let generated: ReturnType<typeof visualGen>;
+    try {
+      generated = visualGen(code);
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      return false;
+    }
+
+    const { nodes, edges } = generated.positioned
+      ? generated
+      : getLayoutedElements(generated.nodes, generated.edges);
+
+    get().takeSnapshot("Edit code");
+    set({ roles: generated.roles, security: generated.security });
+    get().patchGraph(nodes, edges);
+    markSynced({ ...get(), code });
+
+    return true;
+  },
+
   /* ------------------ LOGS ----------------- */
   log(message: string): void {
     if (!message.trim()) return;
@@ -289,6 +414,15 @@ const otherStateSlice: StateCreator<RFState, [], [], OtherState> = (
     set({ currentProjection: id });
   },
 
+  globalGraph(): ProjectionInfo {
+    const { currentProjection, projectionInfo, nodes, edges } = get();
+    const global = projectionInfo.get(APP_CONFIG.DEFAULTS.GLOBAL_ID);
+
+    return currentProjection === APP_CONFIG.DEFAULTS.GLOBAL_ID || !global
+      ? { nodes, edges }
+      : global;
+  },
+
   /* -------------- DRAWER PROPS ------------- */
   setDrawerOpen(open: boolean): void {
     set({ drawerOpen: open });
@@ -344,32 +478,44 @@ const otherStateSlice: StateCreator<RFState, [], [], OtherState> = (
 
       const { nodes, edges } = get();
 
-      const data = JSON.stringify(
-        generateJsonData(
-          true,
-          nodes,
-          edges,
-          get().security,
-          get().roles,
-          get().code,
-          get().nextNodeId,
-          get().nextGroupId,
-          get().nextSubprocessId
-        )
-      );
-
-      get().setProjectionInfo("global", { nodes, edges });
+      // Canvas edits are written back to the code while live sync is on
+      if (get().syncCode && graphChanged(get())) {
+        set({ code: writeCode(nodes, edges, get().roles, get().security) });
+        markSynced(get());
+      }
 
-      await fetch("/api/example", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: "current", data }),
-      })
-        .then((res) => res.text())
-        .then(console.log);
+      // Role projections follow the global graph
+      set({
+        projectionInfo: new Map([
+          [APP_CONFIG.DEFAULTS.GLOBAL_ID, { nodes, edges }],
+          ...projectRoles(nodes, edges, get().roles),
+        ]),
+      });
+      get().validate();
+      get().checkFlows();
+      get().refreshDifferences();
+
+      // Sharing and saving wait until the changes stop for a moment
+      const name = get().currentDocument;
+      clearTimeout(persisting.get(name));
+      persisting.set(
+        name,
+        setTimeout(() => {
+          persisting.delete(name);
+          if (name === get().currentDocument) get().publishChanges();
+          get()
+            .saveDocument(name)
+            .catch((error: Error) =>
+              get().log(`Cannot save the changes: ${error.message}`)
+            );
+        }, APP_CONFIG.DELAYS.PERSIST)
+      );
     };
 
-    if (get().currentProjection === "global") save();
+    if (get().currentProjection === "global")
+      save().catch((error: Error) =>
+        get().log(`Cannot save the changes: ${error.message}`)
+      );
   },
 });
 
@@ -43,6 +43,7 @@ const rolesStateSlice: StateCreator<RFState, [], [], RolesState> = (
   /* ------------ ROLE OPERATIONS ------------ */
   roles: state.roles ?? [],
   addRole(role: SimpleRole) {
+    get().takeSnapshot(`Add role ${role.role}`);
     set({
       roles: [
         {
@@ -56,6 +57,7 @@ const rolesStateSlice: StateCreator<RFState, [], [], RolesState> = (
     get().saveState();
   },
   removeRole(role: string) {
+    get().takeSnapshot(`Remove role ${role}`);
     set({
       roles: get().roles.filter((rl) => rl.role !== role),
     });
@@ -63,6 +65,7 @@ const rolesStateSlice: StateCreator<RFState, [], [], RolesState> = (
     get().saveState();
   },
   setRoles(roles: SimpleRole[]) {
+    get().takeSnapshot("Set roles");
     set({
       roles,
     });
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode, relationEdge, subgraphNode } from "@/test/fixtures";
+import type { SimulationMarkingType } from "@/lib/types";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({
+    nodes: [eventNode("e0"), eventNode("e1"), eventNode("e2")],
+    edges: [
+      relationEdge("condition", "e0", "e1"),
+      relationEdge("response", "e0", "e1"),
+      relationEdge("exclude", "e1", "e2"),
+    ],
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const marking = (id: string) =>
+  useStore.getState().simNodes.find((nd) => nd.id === id)?.data
+    .marking as SimulationMarkingType;
+
+const executable = () =>
+  useStore
+    .getState()
+    .simNodes.filter((nd) => !nd.hidden && marking(nd.id).executable)
+    .map((nd) => nd.id);
+
+describe("simulation", () => {
+  it("starts from the marking of the graph", () => {
+    useStore.getState().onClickSimulationToggle();
+
+    const { simulationFlow, trace, simulationStatus } = useStore.getState();
+    expect(simulationFlow).toBe(true);
+    expect(trace).toEqual([]);
+    expect(executable()).toEqual(["e0", "e2"]);
+    expect(simulationStatus.blocked.map((ev) => ev.id)).toEqual(["e1"]);
+    expect(simulationStatus.accepting).toBe(true);
+  });
+
+  it("fires the relations of executed events", () => {
+    const { onClickSimulationToggle, executeEvent } = useStore.getState();
+    onClickSimulationToggle();
+
+    executeEvent("e0");
+    expect(marking("e0").executed).toBe(true);
+    expect(marking("e1").pending).toBe(true);
+    expect(executable()).toEqual(["e0", "e1", "e2"]);
+    expect(useStore.getState().simulationStatus.accepting).toBe(false);
+
+    executeEvent("e1");
+    expect(marking("e1").pending).toBe(false);
+    expect(marking("e2").included).toBe(false);
+    expect(executable()).toEqual(["e0", "e1"]);
+    expect(useStore.getState().simulationStatus.accepting).toBe(true);
+  });
+
+  it("does not execute blocked events", () => {
+    const { onClickSimulationToggle, executeEvent } = useStore.getState();
+    onClickSimulationToggle();
+
+    executeEvent("e1");
+
+    expect(marking("e1").executed).toBe(false);
+    expect(useStore.getState().trace).toEqual([]);
+  });
+
+  it("records each execution in the trace", () => {
+    const { onClickSimulationToggle, executeEvent } = useStore.getState();
+    onClickSimulationToggle();
+
+    executeEvent("e0", 4);
+    executeEvent("e1");
+
+    const trace = useStore.getState().trace;
+    expect(trace.map((step) => [step.event, step.value, step.role])).toEqual([
+      ["e0", 4, "P"],
+      ["e1", undefined, "P"],
+    ]);
+    expect(trace[0].before.executed).toEqual([]);
+    expect(trace[1].before).toEqual(trace[0].after);
+  });
+
+  it("steps back to the state before a step", () => {
+    const { onClickSimulationToggle, executeEvent, stepBack } =
+      useStore.getState();
+    onClickSimulationToggle();
+    executeEvent("e0");
+    executeEvent("e1");
+
+    stepBack(1);
+
+    expect(useStore.getState().trace.map((step) => step.event)).toEqual(["e0"]);
+    expect(marking("e1").executed).toBe(false);
+    expect(marking("e1").pending).toBe(true);
+    expect(marking("e2").included).toBe(true);
+  });
+
+  it("spawns an instance of a subprocess", () => {
+    useStore.setState({
+      nodes: [
+        eventNode("e0"),
+        subgraphNode("s0", "subprocess"),
+        eventNode("e1", {}, { parentId: "s0" }),
+      ],
+      edges: [relationEdge("spawn", "e0", "s0")],
+    });
+    const { onClickSimulationToggle, executeEvent } = useStore.getState();
+    onClickSimulationToggle();
+    expect(executable()).toEqual(["e0"]);
+
+    executeEvent("e0");
+
+    expect(useStore.getState().spawnCounts).toEqual({ s0: 1 });
+    expect(executable()).toEqual(["e0", "e1#1"]);
+  });
+
+  it("tells the events of subprocess templates are not explored", () => {
+    useStore.setState({
+      nodes: [
+        eventNode("e0"),
+        subgraphNode("s0", "subprocess"),
+        eventNode("e1", {}, { parentId: "s0" }),
+      ],
+      edges: [relationEdge("spawn", "e0", "s0")],
+    });
+    const { onClickSimulationToggle, exploreGraph } = useStore.getState();
+    onClickSimulationToggle();
+
+    exploreGraph(100);
+
+    expect(useStore.getState().logs.at(-1)?.message).toBe(
+      "Not explored, as subprocesses are not spawned: e1."
+    );
+  });
+
+  it("leaves the graph unchanged when stopped", () => {
+    const { onClickSimulationToggle, executeEvent } = useStore.getState();
+    onClickSimulationToggle();
+    executeEvent("e0");
+    onClickSimulationToggle();
+
+    const { simulationFlow, nodes } = useStore.getState();
+    expect(simulationFlow).toBe(false);
+    expect(nodes.map((nd) => nd.data.marking)).toEqual([
+      { included: true, pending: false },
+      { included: true, pending: false },
+      { included: true, pending: false },
+    ]);
+  });
+});
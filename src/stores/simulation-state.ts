@@ -1,8 +1,204 @@
 import { StateCreator } from "zustand/vanilla";
 import { RFState } from "./store";
 import { Edge, Node } from "@xyflow/react";
-import { MarkingType, SimulationMarkingType } from "@/lib/types";
-import { delay } from "@/lib/utils";
+import { InputType, MarkingType, SimulationMarkingType } from "@/lib/types";
+import { createDCREngine, DCREngine } from "@/lib/dcr-engine";
+import {
+  applyMarking,
+  buildDCRGraph,
+  getAncestors,
+  isInsideTemplate,
+  isTemplate,
+  markingFromNodes,
+} from "@/lib/dcr-flow";
+import { createRandom, exploreMarkings } from "@/lib/exploration";
+import { toTraceMarking, TraceStep } from "@/lib/trace";
+import {
+  EvaluationContext,
+  evaluateExpression,
+  ExpressionError,
+  guardHolds,
+  parseExpression,
+  visibleEvents,
+} from "@/lib/expressions";
+
+/**
+ * Replaces the `@Initiator(trigger)` and `@Receiver(trigger)` references of a list of
+ * role expressions by the participants of the event that triggered the spawn.
+ */
+const bindRoles = (
+  roles: string[] | undefined,
+  trigger: Node
+): string[] | undefined => {
+  if (!roles) return roles;
+
+  const label = trigger.data.label as string;
+  const initiators = (trigger.data.initiators as string[]) ?? [];
+  const receivers = (trigger.data.receivers as string[]) ?? [];
+
+  return roles.flatMap((role) => {
+    const trimmed = role.replace(/\s/g, "");
+    if (trimmed === `@Initiator(${label})`) return initiators;
+    if (trimmed === `@Receiver(${label})`) return receivers;
+    return [role];
+  });
+};
+
+/**
+ * Builds the values an expression evaluated from the given node can reference, with
+ * the scoping of `visibleEvents`.
+ */
+const createEvaluationContext = (
+  nodes: Node[],
+  from: Node
+): EvaluationContext => {
+  const valueOf = (nd: Node) =>
+    (nd.data.marking as SimulationMarkingType).executed
+      ? { value: nd.data.value }
+      : undefined;
+
+  const events: EvaluationContext["events"] = {};
+  visibleEvents(nodes, from).forEach((nd, label) => {
+    events[label] = valueOf(nd);
+  });
+  return { events, self: valueOf(from) };
+};
+
+/**
+ * Creates the DCR engine of the simulated graph. Guards are evaluated with the source
+ * of the relation as `@self`.
+ */
+const createEngine = (nodes: Node[], edges: Edge[]): DCREngine =>
+  createDCREngine(buildDCRGraph(nodes, edges), {
+    guard: (relation) => {
+      const source = nodes.find((nd) => nd.id === relation.source);
+      return (
+        !!source &&
+        guardHolds(relation.guard, createEvaluationContext(nodes, source))
+      );
+    },
+  });
+
+/**
+ * Recomputes which events are executable.
+ */
+const refreshExecutable = (nodes: Node[], edges: Edge[]): Node[] => {
+  const engine = createEngine(nodes, edges);
+  const marking = markingFromNodes(nodes);
+  return applyMarking(nodes, marking, engine.enabled(marking));
+};
+
+/**
+ * Summarizes the obligations and blocked events of the simulated graph.
+ */
+const computeStatus = (nodes: Node[], edges: Edge[]): SimulationStatus => {
+  const engine = createEngine(nodes, edges);
+  const marking = markingFromNodes(nodes);
+  const labelOf = (id: string) =>
+    (nodes.find((nd) => nd.id === id)?.data.label as string) ?? id;
+
+  return {
+    accepting: engine.isAccepting(marking),
+    pending: engine.graph.events
+      .filter((ev) => marking.included.has(ev.id) && marking.pending.has(ev.id))
+      .map((ev) => ({ id: ev.id, label: ev.label })),
+    blocked: engine.graph.events
+      .filter((ev) => marking.included.has(ev.id))
+      .map((ev) => ({
+        id: ev.id,
+        label: ev.label,
+        blockers: engine.blockers(marking, ev.id).map((rel) => ({
+          relation: rel.id,
+          type: rel.type as "condition" | "milestone",
+          source: rel.source,
+          sourceLabel: labelOf(rel.source),
+        })),
+      }))
+      .filter((ev) => ev.blockers.length > 0),
+  };
+};
+
+/**
+ * Checks whether an input event needs a value from the user before being executed.
+ */
+const requiresInput = (node: Node): boolean => {
+  const input = node.data.input as InputType | undefined;
+  return node.data.type === "i" && !!input && input.type !== "Unit";
+};
+
+/**
+ * Evaluates the expression of a computation event.
+ *
+ * @throws {ExpressionError} If the expression cannot be evaluated.
+ */
+const computeValue = (nodes: Node[], node: Node): unknown =>
+  evaluateExpression(
+    parseExpression(node.data.expression as string),
+    createEvaluationContext(nodes, node)
+  );
+
+/**
+ * Generates a random value of a simple input type, for automated runs.
+ */
+const randomSimpleValue = (type: string, random: () => number): unknown => {
+  switch (type) {
+    case "Integer":
+      return Math.floor(random() * 10);
+    case "Boolean":
+      return random() < 0.5;
+    default:
+      return `s${Math.floor(random() * 10)}`;
+  }
+};
+
+/**
+ * Generates a random value for an input event, for automated runs.
+ */
+const randomInput = (node: Node, random: () => number): unknown => {
+  const input = node.data.input as InputType;
+  if (!("record" in input)) return randomSimpleValue(input.type, random);
+
+  return Object.fromEntries(
+    input.record.map((field) => [
+      field.var,
+      randomSimpleValue(field.type, random),
+    ])
+  );
+};
+
+/**
+ * Formats a simulation value for the logs.
+ */
+const formatValue = (value: unknown): string =>
+  value === undefined ? "" : ` with value ${JSON.stringify(value)}`;
+
+/**
+ * Summary of the current simulation state, shown next to the canvas.
+ *
+ * @property accepting - Whether no included event is pending, i.e. the run could stop now.
+ * @property pending - The included pending events.
+ * @property blocked - The included events that cannot execute, with what blocks them.
+ */
+export type SimulationStatus = {
+  accepting: boolean;
+  pending: { id: string; label: string }[];
+  blocked: {
+    id: string;
+    label: string;
+    blockers: {
+      relation: string;
+      type: "condition" | "milestone";
+      source: string;
+      sourceLabel: string;
+    }[];
+  }[];
+};
+
+/**
+ * How an event is flagged by an exploration: `deadlock` for events left pending in a
+ * deadlock, `dead` for events that can never be executed.
+ */
+export type ExplorationMark = "deadlock" | "dead";
 
 export type SimulationState = {
   /* ------------ SIMULATION FLOW ------------ */
@@ -14,7 +210,38 @@ export type SimulationState = {
   setSimulationFlow(value: boolean): void;
   onClickSimulationToggle(): void;
   onNodeClickSimulation(event: any, node: Node): void;
-  updateChildEvents(): void;
+  /** Input event waiting for a value before being executed */
+  pendingInput: Node | undefined;
+  setPendingInput(node: Node | undefined): void;
+  /** Executes an event with the given value and fires the relations whose guard holds */
+  executeEvent(id: string, value?: unknown): void;
+  /** Number of instances spawned so far for each subprocess template */
+  spawnCounts: Record<string, number>;
+  /** Creates a new instance of a subprocess template, bound to the triggering event */
+  spawnInstance(templateId: string, trigger: Node): void;
+  /** Restores the initial marking of the simulated graph and clears the trace */
+  resetSimulation(): void;
+  /** Events flagged by the last exploration, shown on the canvas */
+  explorationMarks: Record<string, ExplorationMark>;
+  /** Executes up to `steps` randomly chosen executable events, reproducibly for a seed */
+  runRandom(steps: number, seed: number): void;
+  /**
+   * Explores the markings reachable from the current one, with guards treated as
+   * holding, and reports deadlocks and events that can never be executed.
+   */
+  exploreGraph(maxStates: number): void;
+  /** Obligations and blocked events of the current marking */
+  simulationStatus: SimulationStatus;
+  /** Executions made since the simulation started, in order */
+  trace: TraceStep[];
+  /** Returns to the state right before the step at the given index */
+  stepBack(index: number): void;
+  /**
+   * Restarts the simulation and executes the given steps in order.
+   *
+   * @returns Whether every step could be executed.
+   */
+  replayTrace(steps: TraceStep[]): boolean;
   /* ----------------------------------------- */
 };
 const simulationStateSlice: StateCreator<RFState, [], [], SimulationState> = (
@@ -25,244 +252,348 @@ const simulationStateSlice: StateCreator<RFState, [], [], SimulationState> = (
   simNodes: [],
   simEdges: [],
   simulationFlow: false,
+  pendingInput: undefined,
+  spawnCounts: {},
+  trace: [],
+  simulationStatus: { accepting: true, pending: [], blocked: [] },
+  explorationMarks: {},
   setSimulationFlow(value: boolean) {
     get().log(value ? "Simulation started." : "Simulation stopped.");
     set({
       simulationFlow: value,
+      pendingInput: undefined,
     });
   },
   onClickSimulationToggle() {
     const value = !get().simulationFlow;
     get().setSimulationFlow(value);
 
-    if (value) {
-      set({
-        simNodes: get().nodes.map((node) => {
-          const marking = node.data.marking as MarkingType;
+    if (value) get().resetSimulation();
+    else get().setNodes(get().nodes.map((nd) => ({ ...nd, selected: false })));
+  },
+  resetSimulation() {
+    const simNodes = get().nodes.map((node) => {
+      const marking = node.data.marking as MarkingType;
 
-          let isParentSub = get().nodes.some(
-            (sub) => sub.id === node.parentId && sub.type === "subprocess"
-          );
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          marking: {
+            ...marking,
+            executable: false,
+            executed: false,
+          },
+        },
+        hidden: isInsideTemplate(get().nodes, node),
+        selected: false,
+      };
+    });
+    const simEdges = get().edges.map((edge) => ({
+      ...edge,
+      selected: false,
+    }));
 
-          return {
-            ...node,
-            data: {
-              ...node.data,
-              marking: {
-                ...marking,
-                executable:
-                  marking.included &&
-                  !get().edges.some(
-                    (edge) =>
-                      edge.target === node.id &&
-                      (edge.type === "condition" ||
-                        (edge.type === "milestone" &&
-                          get().nodes.some(
-                            (nd) =>
-                              nd.id === edge.source &&
-                              (nd.data.marking as Record<string, boolean>)
-                                .pending
-                          )))
-                  ),
-                executed: false,
-                ...(node.type === "subprocess" && { spawned: false }),
-              },
-              conditions: get().edges.filter((ed) => {
-                return (
-                  ed.target === node.id && ed.type && ed.type === "condition"
-                );
-              }).length,
-              milestones: get().edges.filter((ed) => {
-                return (
-                  ed.target === node.id &&
-                  ed.type &&
-                  ed.type === "milestone" &&
-                  get().nodes.some(
-                    (nd) =>
-                      nd.id === ed.source &&
-                      (nd.data.marking as Record<string, boolean>).pending
-                  )
-                );
-              }).length,
-            },
-            hidden: isParentSub,
-            selected: false,
-          };
-        }),
-        simEdges: get().edges.map((edge) => ({ ...edge, selected: false })),
-      });
-    } else
-      get().setNodes(get().nodes.map((nd) => ({ ...nd, selected: false })));
+    const refreshed = refreshExecutable(simNodes, simEdges);
+    set({
+      simNodes: refreshed,
+      simEdges,
+      simulationStatus: computeStatus(refreshed, simEdges),
+      spawnCounts: {},
+      trace: [],
+      explorationMarks: {},
+      pendingInput: undefined,
+    });
   },
   onNodeClickSimulation(event: any, node: Node) {
     event.preventDefault();
     const marking = node.data.marking as SimulationMarkingType;
     if (!marking.executable) return;
 
-    const updatedSimNodes = get().simNodes.map((nd) => {
-      let newMarking: SimulationMarkingType = nd.data
-        .marking as SimulationMarkingType;
-      let { conditions, milestones } = nd.data as {
-        conditions: number;
-        milestones: number;
-      };
+    if (requiresInput(node)) {
+      get().setPendingInput(node);
+      return;
+    }
+
+    if (node.data.type === "c") {
+      try {
+        get().executeEvent(node.id, computeValue(get().simNodes, node));
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        get().log(`Cannot execute ${node.data.label}: ${error.message}`);
+      }
+      return;
+    }
+
+    get().executeEvent(node.id);
+  },
+  setPendingInput(node: Node | undefined) {
+    set({ pendingInput: node });
+  },
+  executeEvent(id: string, value?: unknown) {
+    const executing = get().simNodes.find((nd) => nd.id === id);
+    if (!executing) return;
+
+    const marking = executing.data.marking as SimulationMarkingType;
+    if (!marking.executable) return;
 
-      if (nd.id === node.id)
-        newMarking = {
-          ...newMarking,
-          executed: true,
-          pending: false,
-        };
-
-      for (const ed of get().simEdges) {
-        if (ed.type) {
-          if (ed.source === node.id) {
-            if (ed.target === nd.id) {
-              if (nd.id === node.id) {
-                switch (ed.type) {
-                  case "response":
-                    newMarking = {
-                      ...newMarking,
-                      pending: true,
-                    };
-                    break;
-                  case "exclude":
-                    newMarking = {
-                      ...newMarking,
-                      included: false,
-                      executable: false,
-                    };
-                    break;
-                }
-              } else {
-                switch (ed.type) {
-                  case "condition":
-                    conditions = conditions - 1;
-                    newMarking = {
-                      ...newMarking,
-                      executable:
-                        conditions === 0 &&
-                        milestones === 0 &&
-                        newMarking.included,
-                    };
-                    console.log(newMarking);
-                    break;
-                  case "response":
-                    newMarking = {
-                      ...newMarking,
-                      pending: true,
-                    };
-                    break;
-                  case "include":
-                    newMarking = {
-                      ...newMarking,
-                      included: true,
-                      executable: conditions === 0 && milestones === 0,
-                    };
-                    break;
-                  case "exclude":
-                    newMarking = {
-                      ...newMarking,
-                      included: false,
-                      executable: false,
-                    };
-                    break;
-                  case "milestone":
-                    milestones = marking.pending ? milestones - 1 : milestones;
-                    newMarking = {
-                      ...newMarking,
-                      executable:
-                        conditions === 0 &&
-                        milestones === 0 &&
-                        newMarking.included,
-                    };
-                    break;
-                  case "spawn":
-                    newMarking = {
-                      ...newMarking,
-                      spawned: true,
-                    };
-                    break;
-                }
-              }
-            }
+    const before = markingFromNodes(get().simNodes);
+
+    // The value is stored first, as the guards of the fired relations may refer to it
+    const updatedSimNodes = get().simNodes.map((nd) =>
+      nd.id === id
+        ? {
+            ...nd,
+            data: {
+              ...nd.data,
+              value,
+              marking: { ...marking, executed: true },
+            },
           }
-        }
+        : nd
+    );
+
+    const engine = createEngine(updatedSimNodes, get().simEdges);
+    const current = markingFromNodes(updatedSimNodes);
+    const next = engine.execute(current, id);
+    const firing = engine.effects(current, id);
+
+    const executed = applyMarking(updatedSimNodes, next, engine.enabled(next));
+    set({
+      simNodes: executed,
+      simulationStatus: computeStatus(executed, get().simEdges),
+      pendingInput: undefined,
+    });
+    get().log(`Executed ${executing.data.label}${formatValue(value)}.`);
+
+    const trigger = get().simNodes.find((nd) => nd.id === id) as Node;
+    firing
+      .filter((ed) => ed.type === "spawn")
+      .forEach((ed) => get().spawnInstance(ed.target, trigger));
+
+    set({
+      trace: [
+        ...get().trace,
+        {
+          event: id,
+          label: executing.data.label as string,
+          value,
+          role: ((executing.data.initiators as string[]) ?? []).join(", "),
+          time: new Date().toLocaleTimeString(),
+          before: toTraceMarking(before),
+          after: toTraceMarking(markingFromNodes(get().simNodes)),
+        },
+      ],
+    });
+  },
+  stepBack(index: number) {
+    const steps = get().trace.slice(0, index);
+    if (get().replayTrace(steps))
+      get().log(`Returned to the state before step ${index + 1}.`);
+  },
+  replayTrace(steps: TraceStep[]) {
+    get().resetSimulation();
+
+    for (const [i, step] of steps.entries()) {
+      const node = get().simNodes.find((nd) => nd.id === step.event);
+      const marking = node?.data.marking as SimulationMarkingType | undefined;
+
+      if (!marking?.executable) {
+        get().log(
+          `Replay stopped at step ${i + 1}: ${step.label ?? step.event} is not executable.`
+        );
+        return false;
       }
 
+      get().executeEvent(step.event, step.value);
+    }
+
+    return true;
+  },
+  spawnInstance(templateId: string, trigger: Node) {
+    const simNodes = get().simNodes;
+    const template = simNodes.find((nd) => nd.id === templateId);
+    if (!template || !isTemplate(template)) return;
+
+    const instance = (get().spawnCounts[templateId] ?? 0) + 1;
+    const suffix = `#${instance}`;
+
+    const family = simNodes.filter((nd) =>
+      getAncestors(simNodes, nd).includes(templateId)
+    );
+    const ids = new Set([templateId, ...family.map((nd) => nd.id)]);
+    const mapId = (nodeId: string) =>
+      ids.has(nodeId) ? nodeId + suffix : nodeId;
+
+    const templateMarking = template.data.marking as MarkingType;
+    const instanceNode: Node = {
+      ...template,
+      id: mapId(templateId),
+      position: {
+        x: template.position.x,
+        y:
+          template.position.y +
+          instance *
+            ((template.height ?? template.measured?.height ?? 200) + 40),
+      },
+      data: {
+        ...template.data,
+        label: `${template.data.label} ${suffix}`,
+        instance,
+        template: templateId,
+        bindings: {
+          initiators: trigger.data.initiators,
+          receivers: trigger.data.receivers ?? [],
+        },
+        marking: { ...templateMarking, executable: false, executed: false },
+      },
+      hidden: false,
+      selected: false,
+    };
+
+    const clones: Node[] = family.map((nd) => {
       return {
         ...nd,
+        id: mapId(nd.id),
+        parentId: nd.parentId ? mapId(nd.parentId) : nd.parentId,
         data: {
           ...nd.data,
-          marking: newMarking,
-          conditions,
-          milestones,
+          value: undefined,
+          ...(nd.type === "event" && {
+            initiators: bindRoles(nd.data.initiators as string[], trigger),
+            receivers: bindRoles(nd.data.receivers as string[], trigger),
+          }),
+          marking: {
+            ...(nd.data.marking as MarkingType),
+            executable: false,
+            executed: false,
+          },
         },
+        selected: false,
       };
     });
 
+    const newNodes = [...simNodes, instanceNode, ...clones];
+    const withVisibility = newNodes.map((nd) => ({
+      ...nd,
+      hidden: isInsideTemplate(newNodes, nd),
+    }));
+
+    const clonedEdges: Edge[] = get()
+      .simEdges.filter(
+        (ed) =>
+          (ids.has(ed.source) || ids.has(ed.target)) && ed.target !== templateId
+      )
+      .map((ed) => ({
+        ...ed,
+        id: ed.id + suffix,
+        source: mapId(ed.source),
+        target: mapId(ed.target),
+        selected: false,
+      }));
+    const simEdges = [...get().simEdges, ...clonedEdges];
+
+    const refreshed = refreshExecutable(withVisibility, simEdges);
     set({
-      simNodes: updatedSimNodes,
+      simNodes: refreshed,
+      simEdges,
+      simulationStatus: computeStatus(refreshed, simEdges),
+      spawnCounts: { ...get().spawnCounts, [templateId]: instance },
     });
-
-    get().updateChildEvents();
+    get().log(
+      `Spawned instance ${instanceNode.id} of ${templateId} from ${trigger.data.label}.`
+    );
   },
-  updateChildEvents() {
-    const change = async () => {
-      await delay(10);
-
-      let pendings: string[] = [];
-
-      let updatedSimNodes = get()
-        .simNodes.map((nd) => {
-          if ((nd.data.marking as SimulationMarkingType).pending)
-            pendings.push(nd.id);
-
-          if (nd.parentId) {
-            const parent = get().simNodes.find((n) => n.id === nd.parentId);
-
-            if (
-              parent &&
-              parent.type === "subprocess" &&
-              (parent.data.marking as Record<string, boolean>).spawned &&
-              nd.hidden
-            )
-              return {
-                ...nd,
-                hidden: false,
-              };
+  runRandom(steps: number, seed: number) {
+    const random = createRandom(seed);
+    let executed = 0;
+
+    while (executed < steps) {
+      const candidates = get().simNodes.filter(
+        (nd) =>
+          nd.type === "event" &&
+          !nd.hidden &&
+          (nd.data.marking as SimulationMarkingType).executable
+      );
+
+      let next: { node: Node; value: unknown } | undefined;
+      while (!next && candidates.length > 0) {
+        const [node] = candidates.splice(
+          Math.floor(random() * candidates.length),
+          1
+        );
+
+        if (requiresInput(node))
+          next = { node, value: randomInput(node, random) };
+        else if (node.data.type === "c") {
+          try {
+            next = { node, value: computeValue(get().simNodes, node) };
+          } catch (error) {
+            if (!(error instanceof ExpressionError)) throw error;
           }
-          return nd;
-        })
-        .map((nd) => {
-          let milestones = 0;
-          get().edges.forEach((ed) => {
-            if (
-              ed.target === nd.id &&
-              ed.type === "milestone" &&
-              pendings.includes(ed.source)
-            )
-              milestones++;
-          });
-          return {
-            ...nd,
-            data: {
-              ...nd.data,
-              marking: {
-                ...(nd.data.marking as SimulationMarkingType),
-                executable: milestones === 0,
-                milestones,
-              },
-            },
-          };
-        });
+        } else next = { node, value: undefined };
+      }
 
-      set({
-        simNodes: updatedSimNodes,
-      });
-    };
+      if (!next) break;
+      get().executeEvent(next.node.id, next.value);
+      executed++;
+    }
+
+    get().log(
+      `Random run (seed ${seed}) executed ${executed} of ${steps} events${
+        executed < steps ? ", as no other event was executable" : ""
+      }.`
+    );
+  },
+  exploreGraph(maxStates: number) {
+    const { simNodes, simEdges } = get();
+    const engine = createDCREngine(buildDCRGraph(simNodes, simEdges));
+    const result = exploreMarkings(
+      engine,
+      markingFromNodes(simNodes),
+      maxStates
+    );
+    const labelOf = (id: string) =>
+      (simNodes.find((nd) => nd.id === id)?.data.label as string) ?? id;
+
+    const explorationMarks: Record<string, ExplorationMark> = {};
+    result.neverExecuted.forEach((id) => (explorationMarks[id] = "dead"));
+    result.deadlocks.forEach((deadlock) =>
+      deadlock.pending.forEach((id) => (explorationMarks[id] = "deadlock"))
+    );
+    set({ explorationMarks });
+
+    get().log(
+      `Explored ${result.states} markings${
+        result.complete ? "" : ` (stopped at the bound of ${maxStates})`
+      }: ${result.deadlocks.length} deadlocks, ${result.neverExecuted.length} events never executable.`
+    );
+    result.deadlocks
+      .slice(0, 5)
+      .forEach((deadlock) =>
+        get().log(
+          `Deadlock after [${deadlock.path.map(labelOf).join(", ")}] with ${deadlock.pending
+            .map(labelOf)
+            .join(", ")} pending.`
+        )
+      );
+    if (result.neverExecuted.length > 0)
+      get().log(
+        `Never executable${result.complete ? "" : " within the bound"}: ${result.neverExecuted
+          .map(labelOf)
+          .join(", ")}.`
+      );
 
-    change();
+    // Instances are only explored once spawned by the simulation
+    const templateEvents = simNodes.filter(
+      (nd) => nd.type === "event" && isInsideTemplate(simNodes, nd)
+    );
+    if (templateEvents.length > 0)
+      get().log(
+        `Not explored, as subprocesses are not spawned: ${templateEvents
+          .map((nd) => nd.data.label)
+          .join(", ")}.`
+      );
   },
   /* ----------------------------------------- */
 });
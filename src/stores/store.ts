@@ -4,6 +4,13 @@ import edgesStateSlice, { EdgesState } from "./edges-state";
 import rolesStateSlice, { RolesState } from "./roles-state";
 import otherStateSlice, { OtherState } from "./other-state";
 import simulationStateSlice, { SimulationState } from "./simulation-state";
+import historyStateSlice, { HistoryState } from "./history-state";
+import workspaceStateSlice, { WorkspaceState } from "./workspace-state";
+import collaborationStateSlice, {
+  CollaborationState,
+} from "./collaboration-state";
+import diffStateSlice, { DiffState } from "./diff-state";
+import versionsStateSlice, { VersionsState } from "./versions-state";
 
 /**
  * Represents the combined state of the application, including nodes, edges, roles, and other relevant state properties.
@@ -12,12 +19,22 @@ import simulationStateSlice, { SimulationState } from "./simulation-state";
  * - `NodesState`: State related to nodes.
  * - `EdgesState`: State related to edges.
  * - `RolesState`: State related to user or system roles.
+ * - `HistoryState`: Undo/redo history of the editor.
+ * - `WorkspaceState`: The saved documents and the open tabs.
+ * - `CollaborationState`: The real-time collaboration on the document shown.
+ * - `DiffState`: The comparison of the document shown with another version.
+ * - `VersionsState`: The version history of the document shown, kept by the backend.
  * - `OtherState`: Any additional state required by the application.
  */
 export type RFState = NodesState &
   EdgesState &
   RolesState &
   SimulationState &
+  HistoryState &
+  WorkspaceState &
+  CollaborationState &
+  DiffState &
+  VersionsState &
   OtherState;
 
 const useStore = createWithEqualityFn<RFState>()((set, get, store) => ({
@@ -25,6 +42,11 @@ const useStore = createWithEqualityFn<RFState>()((set, get, store) => ({
   ...edgesStateSlice(set, get, store),
   ...rolesStateSlice(set, get, store),
   ...simulationStateSlice(set, get, store),
+  ...historyStateSlice(set, get, store),
+  ...workspaceStateSlice(set, get, store),
+  ...collaborationStateSlice(set, get, store),
+  ...diffStateSlice(set, get, store),
+  ...versionsStateSlice(set, get, store),
   ...otherStateSlice(set, get, store),
 }));
 
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode } from "@/test/fixtures";
+
+const answer = (status: number, body: string) => ({
+  ok: status < 400,
+  status,
+  json: async () => JSON.parse(body),
+  text: async () => body,
+});
+
+/** The versions of `current` kept by the fake backend, newest first */
+let versions: { revision: number; created: number; label: string }[];
+
+const saved = JSON.stringify({
+  nodes: [eventNode("e7")],
+  edges: [],
+  roles: [],
+  security: "Public flows P",
+  code: "",
+  nextNodeId: [8],
+  nextGroupId: [0],
+  nextSubprocessId: [0],
+  revision: 2,
+});
+
+/**
+ * Answers the snapshot routes of `current`, and every save.
+ */
+const backend = async (url: string, init: RequestInit = {}) => {
+  const route = url.replace("/api/documents/current", "");
+  const body = init.body ? JSON.parse(init.body as string) : {};
+  const method = init.method ?? "GET";
+
+  if (route === "/snapshots" && method === "GET")
+    return answer(200, JSON.stringify(versions));
+  if (route === "/snapshots") {
+    versions = [{ revision: 3, created: 3, label: body.label }, ...versions];
+    return answer(201, JSON.stringify(versions[0]));
+  }
+  if (route === "/snapshots/2" && method === "GET") return answer(200, saved);
+  if (route === "/snapshots/2") {
+    versions = versions.map((v) =>
+      v.revision === 2 ? { ...v, label: body.label } : v
+    );
+    return answer(200, JSON.stringify(versions[0]));
+  }
+  if (route.startsWith("/snapshots/"))
+    return answer(404, "Document current has no snapshot of revision 9.");
+  return answer(200, JSON.stringify({ revision: 3 }));
+};
+
+const lastLog = () => useStore.getState().logs.at(-1)?.message;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.mocked(fetch).mockImplementation(backend as never);
+  versions = [{ revision: 2, created: 2, label: "" }];
+  useStore.setState(useStore.getInitialState(), true);
+  useStore.setState({ nodes: [eventNode("e0")], edges: [], roles: [] });
+  await useStore.getState().refreshVersions();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("versions", () => {
+  it("lists the versions of the document shown", () => {
+    expect(useStore.getState().versions).toEqual(versions);
+  });
+
+  it("keeps and names versions", async () => {
+    expect(await useStore.getState().saveVersion("before review")).toBe(true);
+    expect(lastLog()).toBe(
+      'Kept the current version of current as "before review".'
+    );
+
+    expect(await useStore.getState().labelVersion(2, "draft")).toBe(true);
+    expect(useStore.getState().versions.map((v) => v.label)).toEqual([
+      "before review",
+      "draft",
+    ]);
+    expect(lastLog()).toBe('Named revision 2 of current "draft".');
+  });
+
+  it("previews a version without changing the document", async () => {
+    await useStore.getState().previewVersion(2);
+
+    const { preview, nodes } = useStore.getState();
+    expect(preview?.revision).toBe(2);
+    expect(preview?.state.nodes.map((nd) => nd.id)).toEqual(["e7"]);
+    expect(preview?.state).not.toHaveProperty("revision");
+    expect(nodes.map((nd) => nd.id)).toEqual(["e0"]);
+  });
+
+  it("restores a version, which can be undone", async () => {
+    await useStore.getState().previewVersion(2);
+    expect(await useStore.getState().restoreVersion(2)).toBe(true);
+    await vi.runAllTimersAsync();
+
+    const state = useStore.getState();
+    expect(state.preview).toBeUndefined();
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e7"]);
+    expect(state.security).toBe("Public flows P");
+    expect(state.nextNodeId).toEqual([8]);
+    expect(state.past.at(-1)?.label).toBe("Restore revision 2");
+
+    state.undo();
+    expect(useStore.getState().nodes.map((nd) => nd.id)).toEqual(["e0"]);
+  });
+
+  it("only restores versions into the global graph", async () => {
+    useStore.setState({ currentProjection: "P" });
+
+    expect(await useStore.getState().restoreVersion(2)).toBe(false);
+    expect(useStore.getState().nodes.map((nd) => nd.id)).toEqual(["e0"]);
+  });
+
+  it("compares the document with a version", async () => {
+    await useStore.getState().compareWithVersion(2);
+
+    const { comparison, differences } = useStore.getState();
+    expect(comparison?.name).toBe("current at revision 2");
+    expect(differences.map((change) => change.kind)).toEqual([
+      "removed",
+      "added",
+    ]);
+  });
+
+  it("logs the versions that cannot be found", async () => {
+    await useStore.getState().previewVersion(9);
+
+    expect(useStore.getState().preview).toBeUndefined();
+    expect(lastLog()).toBe(
+      "Cannot preview revision 9: Document current has no snapshot of revision 9."
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { StateCreator } from "zustand/vanilla";
+import { RFState } from "./store";
+import { State } from "@/lib/types";
+import {
+  BackendError,
+  documentPath,
+  requestDocuments,
+} from "@/lib/persistence";
+
+/**
+ * A version of the document shown kept in its history by the backend.
+ *
+ * @property revision - The revision of the version.
+ * @property created - When the version was saved, in milliseconds since the epoch.
+ * @property label - The name given to the version, empty if it has none.
+ */
+export interface VersionInfo {
+  revision: number;
+  created: number;
+  label: string;
+}
+
+/**
+ * A version shown read-only on the canvas instead of the document.
+ *
+ * @property revision - The revision of the version.
+ * @property label - The name of the version, empty if it has none.
+ * @property state - The saved graph of the version.
+ */
+export interface VersionPreview {
+  revision: number;
+  label: string;
+  state: State;
+}
+
+/**
+ * Represents the version history of the document shown: the snapshots the backend keeps
+ * as the document is saved, which can be named, previewed, restored or compared with
+ * the document.
+ */
+export type VersionsState = {
+  /* ---------------- VERSIONS --------------- */
+  /** The versions of the document shown, newest first, as last listed */
+  versions: VersionInfo[];
+  /** The version shown read-only on the canvas, if any */
+  preview: VersionPreview | undefined;
+  /** Lists the versions of the document shown */
+  refreshVersions(): Promise<void>;
+  /** Keeps the saved version of the document shown under a name, returning false if it cannot be kept */
+  saveVersion(label: string): Promise<boolean>;
+  /** Names a version, or removes its name if empty, returning false if it cannot be named */
+  labelVersion(revision: number, label: string): Promise<boolean>;
+  /** Shows a version read-only on the canvas */
+  previewVersion(revision: number): Promise<void>;
+  /** Shows the document again instead of a version */
+  stopPreview(): void;
+  /** Makes a version the document shown again, as a change that can be undone */
+  restoreVersion(revision: number): Promise<boolean>;
+  /** Compares the document shown with one of its versions */
+  compareWithVersion(revision: number): Promise<void>;
+};
+
+const versionsStateSlice: StateCreator<RFState, [], [], VersionsState> = (
+  set,
+  get
+) => {
+  /**
+   * Runs a history operation, logging why it failed.
+   */
+  const attempt = async (
+    failure: string,
+    operation: () => Promise<void>
+  ): Promise<boolean> => {
+    try {
+      await operation();
+      return true;
+    } catch (error) {
+      if (!(error instanceof BackendError)) throw error;
+      get().log(`${failure}: ${error.message}`);
+      return false;
+    }
+  };
+
+  const versionsPath = (revision?: number) =>
+    `${documentPath(get().currentDocument)}/snapshots${
+      revision === undefined ? "" : `/${revision}`
+    }`;
+
+  /**
+   * Returns how a version is called in the logs.
+   */
+  const nameOf = (revision: number) => {
+    const label = get().versions.find((v) => v.revision === revision)?.label;
+    return label ? `"${label}"` : `revision ${revision}`;
+  };
+
+  /**
+   * Fetches the saved graph of a version.
+   */
+  const fetchVersion = async (revision: number): Promise<State> => {
+    const response = await requestDocuments(versionsPath(revision));
+    const state = await response.json();
+    delete state.revision;
+    return state as State;
+  };
+
+  return {
+    /* ---------------- VERSIONS --------------- */
+    versions: [],
+    preview: undefined,
+
+    async refreshVersions(): Promise<void> {
+      const name = get().currentDocument;
+      await attempt(`Cannot list the versions of ${name}`, async () => {
+        const response = await requestDocuments(versionsPath());
+        const versions = await response.json();
+        // The document shown may have changed meanwhile
+        if (name === get().currentDocument) set({ versions });
+      });
+    },
+
+    async saveVersion(label: string): Promise<boolean> {
+      const name = get().currentDocument;
+      // The version kept is the one saved in the backend
+      if (!get().synced) await get().syncDocument();
+      if (!get().synced) {
+        get().log(`Cannot keep a version of ${name}: it is not saved yet.`);
+        return false;
+      }
+
+      const kept = await attempt(
+        `Cannot keep a version of ${name}`,
+        async () => {
+          await requestDocuments(versionsPath(), "POST", { label });
+        }
+      );
+      if (!kept) return false;
+
+      get().log(`Kept the current version of ${name} as "${label.trim()}".`);
+      await get().refreshVersions();
+      return true;
+    },
+
+    async labelVersion(revision: number, label: string): Promise<boolean> {
+      const name = get().currentDocument;
+      const before = nameOf(revision);
+      const named = await attempt(`Cannot name ${before}`, async () => {
+        await requestDocuments(versionsPath(revision), "PUT", { label });
+      });
+      if (!named) return false;
+
+      get().log(
+        label.trim()
+          ? `Named ${before} of ${name} "${label.trim()}".`
+          : `Removed the name of ${before} of ${name}.`
+      );
+      await get().refreshVersions();
+      return true;
+    },
+
+    async previewVersion(revision: number): Promise<void> {
+      if (get().simulationFlow) {
+        get().log("Stop the simulation before previewing a version.");
+        return;
+      }
+
+      const label =
+        get().versions.find((v) => v.revision === revision)?.label ?? "";
+      await attempt(`Cannot preview ${nameOf(revision)}`, async () => {
+        const state = await fetchVersion(revision);
+        set({ preview: { revision, label, state } });
+      });
+    },
+
+    stopPreview(): void {
+      set({ preview: undefined });
+    },
+
+    async restoreVersion(revision: number): Promise<boolean> {
+      const { preview, simulationFlow, currentProjection } = get();
+      const name = nameOf(revision);
+      if (simulationFlow || currentProjection !== "global") {
+        get().log(
+          `Cannot restore ${name}: versions are restored into the global graph, outside the simulation.`
+        );
+        return false;
+      }
+
+      let state: State | undefined =
+        preview?.revision === revision ? preview.state : undefined;
+      const fetched = await attempt(`Cannot restore ${name}`, async () => {
+        state ??= await fetchVersion(revision);
+      });
+      if (!fetched || !state) return false;
+
+      get().takeSnapshot(`Restore ${name}`);
+      set({
+        nodes: state.nodes ?? [],
+        edges: state.edges ?? [],
+        roles: state.roles ?? [],
+        security: state.security ?? "",
+        code: state.code ?? "",
+        nextNodeId: state.nextNodeId ?? [0],
+        nextGroupId: state.nextGroupId ?? [0],
+        nextSubprocessId: state.nextSubprocessId ?? [0],
+        selectedElement: undefined,
+        preview: undefined,
+      });
+      get().log(`Restored ${name} of ${get().currentDocument}.`);
+      get().saveState();
+      return true;
+    },
+
+    async compareWithVersion(revision: number): Promise<void> {
+      const name = nameOf(revision);
+      await attempt(`Cannot compare with ${name}`, async () => {
+        const state = await fetchVersion(revision);
+        get().compareWith(`${get().currentDocument} at ${name}`, state);
+      });
+    },
+  };
+};
+
+export default versionsStateSlice;
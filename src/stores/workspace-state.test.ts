@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import useStore from "./store";
+import { eventNode } from "@/test/fixtures";
+
+/** The documents of the fake backend, as saved JSON */
+let saved: Map<string, string>;
+
+const answer = (status: number, body: string) => ({
+  ok: status < 400,
+  status,
+  json: async () => JSON.parse(body),
+  text: async () => body,
+});
+
+/**
+ * Answers the document routes from `saved`.
+ */
+const backend = async (url: string, init: RequestInit = {}) => {
+  const [, name, action] = url.replace("/api/documents", "").split("/");
+  const document = decodeURIComponent(name ?? "");
+  const body = init.body ? JSON.parse(init.body as string) : {};
+  const method = init.method ?? "GET";
+
+  if (!document && method === "GET")
+    return answer(
+      200,
+      JSON.stringify(
+        [...saved.keys()].map((doc) => ({ name: doc, modified: 1 }))
+      )
+    );
+  if (!document) {
+    if (saved.has(body.name)) return answer(409, "Taken.");
+    saved.set(body.name, body.data);
+    return answer(201, "");
+  }
+  if (method === "PUT") {
+    const revision = JSON.parse(saved.get(document) ?? "{}").revision ?? 0;
+    if (body.revision !== revision) return answer(409, "Saved elsewhere.");
+    saved.set(
+      document,
+      JSON.stringify({ ...JSON.parse(body.data), revision: revision + 1 })
+    );
+    return answer(200, JSON.stringify({ revision: revision + 1 }));
+  }
+  if (!saved.has(document))
+    return answer(404, `Document ${document} does not exist.`);
+  if (action === "rename") {
+    saved.set(body.to, saved.get(document)!);
+    saved.delete(document);
+  } else if (method === "DELETE") saved.delete(document);
+  return answer(200, saved.get(document) ?? "");
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  useStore.setState(useStore.getInitialState(), true);
+  saved = new Map([
+    ["current", "{}"],
+    ["other", JSON.stringify({ nodes: [eventNode("e9")], edges: [] })],
+  ]);
+  vi.mocked(fetch).mockImplementation(backend as never);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("tabs", () => {
+  it("opens documents next to the one shown, each with its own state", async () => {
+    useStore.setState({ nodes: [eventNode("e0")] });
+    useStore.getState().log("Edited current.");
+
+    await useStore.getState().openDocument("other");
+
+    let state = useStore.getState();
+    expect(state.openDocuments).toEqual(["current", "other"]);
+    expect(state.currentDocument).toBe("other");
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e9"]);
+    expect(state.logs).toEqual([]);
+
+    useStore.getState().switchDocument("current");
+
+    state = useStore.getState();
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e0"]);
+    expect(state.logs.map((log) => log.message)).toEqual(["Edited current."]);
+    expect([...state.documentStates.keys()]).toEqual(["other"]);
+  });
+
+  it("saves the document shown under its name", async () => {
+    await useStore.getState().openDocument("other");
+    useStore.setState({ nodes: [eventNode("e1")] });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    const { nodes } = JSON.parse(saved.get("other")!);
+    expect(nodes.map((nd: { id: string }) => nd.id)).toEqual(["e1"]);
+    expect(saved.get("current")).toBe("{}");
+  });
+
+  it("closes tabs, showing a neighbour, but keeps the last one", async () => {
+    await useStore.getState().openDocument("other");
+
+    useStore.getState().closeDocument("other");
+    useStore.getState().closeDocument("current");
+
+    const state = useStore.getState();
+    expect(state.openDocuments).toEqual(["current"]);
+    expect(state.currentDocument).toBe("current");
+    expect(state.documentStates.size).toBe(0);
+  });
+
+  it("logs why a document cannot be opened", async () => {
+    await useStore.getState().openDocument("missing");
+
+    const state = useStore.getState();
+    expect(state.openDocuments).toEqual(["current"]);
+    expect(state.logs.map((log) => log.message)).toEqual([
+      "Cannot open missing: Document missing does not exist.",
+    ]);
+  });
+});
+
+describe("documents", () => {
+  it("lists the saved documents", async () => {
+    await useStore.getState().refreshDocuments();
+
+    expect(useStore.getState().documents.map((doc) => doc.name)).toEqual([
+      "current",
+      "other",
+    ]);
+  });
+
+  it("creates and opens an empty document", async () => {
+    expect(await useStore.getState().createDocument("new")).toBe(true);
+
+    const state = useStore.getState();
+    expect(state.openDocuments).toEqual(["current", "new"]);
+    expect(state.nodes).toEqual([]);
+    expect(JSON.parse(saved.get("new")!)).toMatchObject({
+      nodes: [],
+      code: "",
+    });
+    expect(await useStore.getState().createDocument("new")).toBe(false);
+  });
+
+  it("renames open documents", async () => {
+    await useStore.getState().openDocument("other");
+
+    expect(await useStore.getState().renameDocument("current", "main")).toBe(
+      true
+    );
+
+    const state = useStore.getState();
+    expect(state.openDocuments).toEqual(["main", "other"]);
+    expect([...state.documentStates.keys()]).toEqual(["main"]);
+    expect([...saved.keys()]).toEqual(["other", "main"]);
+  });
+
+  it("deletes documents, closing their tab", async () => {
+    expect(await useStore.getState().deleteDocument("current")).toBe(false);
+
+    await useStore.getState().openDocument("other");
+    expect(await useStore.getState().deleteDocument("other")).toBe(true);
+
+    const state = useStore.getState();
+    expect(state.openDocuments).toEqual(["current"]);
+    expect(state.currentDocument).toBe("current");
+    expect([...saved.keys()]).toEqual(["current"]);
+  });
+});
+
+describe("sync", () => {
+  const savedIds = (name: string) =>
+    JSON.parse(saved.get(name)!).nodes.map((nd: { id: string }) => nd.id);
+
+  it("saves each change on top of the last revision", async () => {
+    useStore.setState({ nodes: [eventNode("e0")] });
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    const state = useStore.getState();
+    expect(state.revision).toBe(2);
+    expect(state.synced).toBe(true);
+    expect(JSON.parse(saved.get("current")!).revision).toBe(2);
+  });
+
+  it("reports a conflict instead of overwriting another save", async () => {
+    saved.set(
+      "current",
+      JSON.stringify({ nodes: [eventNode("e9")], edges: [], revision: 3 })
+    );
+    useStore.setState({ nodes: [eventNode("e0")] });
+
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    const { conflict, synced } = useStore.getState();
+    expect(synced).toBe(false);
+    expect(conflict?.revision).toBe(3);
+    expect(conflict?.state.nodes.map((nd) => nd.id)).toEqual(["e9"]);
+    expect(savedIds("current")).toEqual(["e9"]);
+  });
+
+  it("keeps the version shown when asked to", async () => {
+    saved.set("current", JSON.stringify({ nodes: [], revision: 3 }));
+    useStore.setState({ nodes: [eventNode("e0")] });
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    await useStore.getState().resolveConflict("mine");
+
+    const state = useStore.getState();
+    expect(state.conflict).toBeUndefined();
+    expect(state.revision).toBe(4);
+    expect(state.synced).toBe(true);
+    expect(savedIds("current")).toEqual(["e0"]);
+  });
+
+  it("loads the other version when asked to, as an undoable change", async () => {
+    saved.set(
+      "current",
+      JSON.stringify({ nodes: [eventNode("e9")], edges: [], revision: 3 })
+    );
+    useStore.setState({ nodes: [eventNode("e0")] });
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+
+    await useStore.getState().resolveConflict("theirs");
+
+    const state = useStore.getState();
+    expect(state.nodes.map((nd) => nd.id)).toEqual(["e9"]);
+    expect(state.revision).toBe(3);
+    expect(state.synced).toBe(true);
+    expect(state.conflict).toBeUndefined();
+    expect(state.past).toHaveLength(1);
+  });
+
+  it("keeps changes while the backend cannot be reached", async () => {
+    vi.mocked(fetch).mockRejectedValue(new TypeError("Failed to fetch"));
+    useStore.setState({ nodes: [eventNode("e0")] });
+    useStore.getState().saveState();
+    await vi.runAllTimersAsync();
+    await useStore.getState().syncDocument();
+
+    let state = useStore.getState();
+    expect(state.offline).toBe(true);
+    expect(state.synced).toBe(false);
+    expect(state.logs).toHaveLength(1);
+
+    vi.mocked(fetch).mockImplementation(backend as never);
+    await useStore.getState().syncDocument();
+
+    state = useStore.getState();
+    expect(state.offline).toBe(false);
+    expect(state.synced).toBe(true);
+    expect(savedIds("current")).toEqual(["e0"]);
+  });
+});
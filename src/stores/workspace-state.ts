@@ -0,0 +1,595 @@
+import { StateCreator } from "zustand/vanilla";
+import { RFState } from "./store";
+import { startup, State } from "@/lib/types";
+import { generateJsonData, startupDocument } from "@/lib/utils";
+import { projectRoles } from "@/lib/projection";
+import {
+  BackendError,
+  deleteLocalDocument,
+  documentPath,
+  emptyDocument,
+  isOffline,
+  loadDocument,
+  readLocalDocument,
+  requestDocuments,
+  writeLocalDocument,
+} from "@/lib/persistence";
+
+/**
+ * A document saved in the backend.
+ *
+ * @property name - The name of the document.
+ * @property modified - When the document was last saved, in milliseconds since the epoch.
+ */
+export interface DocumentInfo {
+  name: string;
+  modified: number;
+}
+
+/**
+ * The version of a document saved elsewhere, which the backend kept instead of a save.
+ *
+ * @property revision - The revision of the saved version.
+ * @property state - The saved graph.
+ */
+export interface DocumentConflict {
+  revision: number;
+  state: State;
+}
+
+/**
+ * The part of the store belonging to a document: its graph, code, history, logs, how it
+ * stands against the backend and the version it is compared with.
+ */
+export type DocumentState = Pick<
+  RFState,
+  | "nodes"
+  | "edges"
+  | "roles"
+  | "security"
+  | "code"
+  | "documentation"
+  | "nextNodeId"
+  | "nextGroupId"
+  | "nextSubprocessId"
+  | "past"
+  | "future"
+  | "logs"
+  | "projectionInfo"
+  | "problems"
+  | "flowViolations"
+  | "revision"
+  | "synced"
+  | "conflict"
+  | "comparison"
+  | "differences"
+>;
+
+/**
+ * The saved graph of a document.
+ */
+const documentData = (document: DocumentState): State =>
+  generateJsonData(
+    true,
+    document.nodes,
+    document.edges,
+    document.security,
+    document.roles,
+    document.code,
+    document.nextNodeId,
+    document.nextGroupId,
+    document.nextSubprocessId
+  ) as State;
+
+/**
+ * Builds the state of a document opened from its saved graph, without history or logs.
+ */
+const openedState = (
+  saved: Partial<State>,
+  revision: number = 0,
+  synced: boolean = true
+): DocumentState => {
+  const nodes = saved.nodes ?? [];
+  const edges = saved.edges ?? [];
+  const roles = saved.roles ?? [];
+
+  return {
+    nodes,
+    edges,
+    roles,
+    security: saved.security ?? "",
+    code: saved.code ?? "",
+    documentation: new Map([["global", ""]]),
+    nextNodeId: saved.nextNodeId ?? [0],
+    nextGroupId: saved.nextGroupId ?? [0],
+    nextSubprocessId: saved.nextSubprocessId ?? [0],
+    past: [],
+    future: [],
+    logs: [],
+    projectionInfo: new Map([
+      ["global", { nodes, edges }],
+      ...projectRoles(nodes, edges, roles),
+    ]),
+    problems: [],
+    flowViolations: [],
+    revision,
+    synced,
+    conflict: undefined,
+    comparison: undefined,
+    differences: [],
+  };
+};
+
+/**
+ * Captures the state of the document shown, with its global graph if a projection is
+ * shown instead.
+ */
+const captureDocument = (current: RFState): DocumentState => {
+  const { nodes, edges } = current.globalGraph();
+
+  return {
+    nodes,
+    edges,
+    roles: current.roles,
+    security: current.security,
+    code: current.code,
+    documentation: current.documentation,
+    nextNodeId: current.nextNodeId,
+    nextGroupId: current.nextGroupId,
+    nextSubprocessId: current.nextSubprocessId,
+    past: current.past,
+    future: current.future,
+    logs: current.logs,
+    projectionInfo: current.projectionInfo,
+    problems: current.problems,
+    flowViolations: current.flowViolations,
+    revision: current.revision,
+    synced: current.synced,
+    conflict: current.conflict,
+    comparison: current.comparison,
+    differences: current.differences,
+  };
+};
+
+/**
+ * Represents the documents of the workspace: the choreographies saved in the backend and
+ * those open in tabs. Only the document shown lives in the rest of the store, the others
+ * keep their state aside until they are shown again.
+ *
+ * Every change is kept in the browser first and then sent to the backend along with the
+ * revision it is based on, so that a document saved elsewhere meanwhile, e.g. in another
+ * tab, is reported as a conflict instead of being overwritten. While collaborating, only
+ * the client keeping the document sends it (see `keepsDocument`).
+ */
+export type WorkspaceState = {
+  /* ---------------- DOCUMENTS -------------- */
+  /** The documents saved in the backend, as last listed */
+  documents: DocumentInfo[];
+  /** Lists the documents saved in the backend */
+  refreshDocuments(): Promise<void>;
+  /** Creates an empty document and opens it, returning false if it cannot be created */
+  createDocument(name: string): Promise<boolean>;
+  /** Renames a document, open or not, returning false if it cannot be renamed */
+  renameDocument(name: string, to: string): Promise<boolean>;
+  /** Copies a document under a new name, returning false if it cannot be copied */
+  duplicateDocument(name: string, to: string): Promise<boolean>;
+  /** Deletes a document and closes its tab, returning false if it cannot be deleted */
+  deleteDocument(name: string): Promise<boolean>;
+
+  /* ------------------ TABS ----------------- */
+  /** The name of the document shown on the canvas */
+  currentDocument: string;
+  /** The names of the open documents, in tab order */
+  openDocuments: string[];
+  /** The state of each open document not shown, by name */
+  documentStates: Map<string, DocumentState>;
+  /** Opens a saved document in a new tab, or shows it if it is already open */
+  openDocument(name: string): Promise<void>;
+  /** Shows an open document on the canvas */
+  switchDocument(name: string): void;
+  /** Closes the tab of a document; the last tab cannot be closed */
+  closeDocument(name: string): void;
+
+  /* ------------------ SYNC ----------------- */
+  /** The revision of the backend the document shown is based on */
+  revision: number;
+  /** Whether the backend has every change of the document shown */
+  synced: boolean;
+  /** The version saved elsewhere that a save of the document shown ran into, if any */
+  conflict: DocumentConflict | undefined;
+  /** Whether the backend could not be reached on the last attempt */
+  offline: boolean;
+  /** Keeps an open document, the one shown by default, in the browser and sends it to the backend */
+  saveDocument(name?: string): Promise<void>;
+  /** Sends the changes of the document shown to the backend, unless it is in conflict */
+  syncDocument(): Promise<void>;
+  /** Settles a conflict by saving the document shown over the other version, or by loading it */
+  resolveConflict(keep: "mine" | "theirs"): Promise<void>;
+};
+
+const workspaceStateSlice: StateCreator<RFState, [], [], WorkspaceState> = (
+  set,
+  get
+) => {
+  /**
+   * Shows a document, keeping the state of the one shown aside.
+   */
+  const show = (name: string, next: DocumentState, openDocuments: string[]) => {
+    const documentStates = new Map(get().documentStates);
+    documentStates.set(get().currentDocument, captureDocument(get()));
+    documentStates.delete(name);
+
+    set({
+      ...next,
+      documentStates,
+      openDocuments,
+      currentDocument: name,
+      currentProjection: "global",
+      selectedElement: undefined,
+      // The versions listed are those of the document shown
+      versions: [],
+      preview: undefined,
+    });
+    get().validate();
+    get().checkFlows();
+  };
+
+  /**
+   * Runs a document operation, logging why it failed.
+   */
+  const attempt = async (
+    failure: string,
+    operation: () => Promise<void>
+  ): Promise<boolean> => {
+    try {
+      await operation();
+      return true;
+    } catch (error) {
+      if (!(error instanceof BackendError)) throw error;
+      get().log(`${failure}: ${error.message}`);
+      return false;
+    }
+  };
+
+  /**
+   * Replaces a name in the tabs and in the states kept aside.
+   */
+  const renameOpen = (name: string, to: string) => {
+    const { currentDocument, openDocuments, documentStates } = get();
+    const renamed = new Map(
+      [...documentStates].map(([key, value]) => [
+        key === name ? to : key,
+        value,
+      ])
+    );
+
+    set({
+      currentDocument: currentDocument === name ? to : currentDocument,
+      openDocuments: openDocuments.map((open) => (open === name ? to : open)),
+      documentStates: renamed,
+    });
+  };
+
+  /**
+   * Returns the state of an open document, shown or kept aside.
+   */
+  const documentOf = (name: string): DocumentState | undefined =>
+    name === get().currentDocument
+      ? captureDocument(get())
+      : get().documentStates.get(name);
+
+  /**
+   * Updates an open document, even if another one is shown since, and keeps it in the
+   * browser.
+   */
+  const patchDocument = async (name: string, patch: Partial<DocumentState>) => {
+    if (name === get().currentDocument) set(patch);
+    else {
+      const aside = get().documentStates.get(name);
+      if (!aside) return;
+      set({
+        documentStates: new Map(get().documentStates).set(name, {
+          ...aside,
+          ...patch,
+        }),
+      });
+    }
+
+    const document = documentOf(name)!;
+    await writeLocalDocument({
+      name,
+      state: documentData(document),
+      revision: document.revision,
+      synced: document.synced,
+    });
+  };
+
+  /**
+   * Records that the backend cannot be reached, logging it once.
+   */
+  const goOffline = () => {
+    if (get().offline) return;
+    set({ offline: true });
+    get().log(
+      "The backend cannot be reached: changes are kept in the browser until it is back."
+    );
+  };
+
+  /**
+   * Fetches the version of a document saved elsewhere and records the conflict.
+   */
+  const recordConflict = async (name: string) => {
+    await attempt(`Cannot load the saved version of ${name}`, async () => {
+      const response = await requestDocuments(documentPath(name));
+      const { revision, ...state } = await response.json();
+      await patchDocument(name, { conflict: { revision, state } });
+      get().log(`${name} was saved elsewhere since it was opened.`);
+    });
+  };
+
+  // The save being sent, and the next one waiting for it
+  let syncing: Promise<void> | undefined;
+  let following: Promise<void> | undefined;
+
+  const sync = async () => {
+    const name = get().currentDocument;
+    const { synced, conflict, revision } = get();
+    if (synced || conflict || !get().keepsDocument()) return;
+
+    const sent = JSON.stringify(documentData(captureDocument(get())));
+    let saved: number;
+    try {
+      const response = await requestDocuments(documentPath(name), "PUT", {
+        data: sent,
+        revision,
+      });
+      saved = (await response.json()).revision;
+    } catch (error) {
+      if (!(error instanceof BackendError)) throw error;
+      if (isOffline(error)) goOffline();
+      else if (error.status === 409) await recordConflict(name);
+      else get().log(`Cannot save ${name}: ${error.message}`);
+      return;
+    }
+
+    if (get().offline) {
+      set({ offline: false });
+      get().log("The backend is back: changes are saved again.");
+    }
+    // Changes made while sending still have to be sent
+    const document = documentOf(name);
+    if (!document) return;
+    await patchDocument(name, {
+      revision: saved,
+      synced: JSON.stringify(documentData(document)) === sent,
+    });
+    if (name === get().currentDocument) get().announceSaved(saved);
+  };
+
+  return {
+    /* ---------------- DOCUMENTS -------------- */
+    documents: [],
+
+    async refreshDocuments(): Promise<void> {
+      await attempt("Cannot list the documents", async () => {
+        const response = await requestDocuments("");
+        set({ documents: await response.json() });
+      });
+    },
+
+    async createDocument(name: string): Promise<boolean> {
+      const saved = emptyDocument();
+      const created = await attempt(`Cannot create ${name}`, async () => {
+        await requestDocuments("", "POST", {
+          name,
+          data: JSON.stringify(
+            generateJsonData(
+              true,
+              saved.nodes,
+              saved.edges,
+              saved.security,
+              saved.roles,
+              saved.code
+            )
+          ),
+        });
+      });
+      if (!created) return false;
+
+      if (!get().simulationFlow)
+        show(name, openedState(saved), [...get().openDocuments, name]);
+      get().log(`Created ${name}.`);
+      await get().refreshDocuments();
+      return true;
+    },
+
+    async renameDocument(name: string, to: string): Promise<boolean> {
+      const renamed = await attempt(`Cannot rename ${name}`, async () => {
+        await requestDocuments(`${documentPath(name)}/rename`, "POST", { to });
+      });
+      if (!renamed) return false;
+
+      const local = await readLocalDocument(name);
+      if (local) {
+        await writeLocalDocument({ ...local, name: to });
+        await deleteLocalDocument(name);
+      }
+
+      renameOpen(name, to);
+      get().log(`Renamed ${name} to ${to}.`);
+      await get().refreshDocuments();
+      return true;
+    },
+
+    async duplicateDocument(name: string, to: string): Promise<boolean> {
+      const copied = await attempt(`Cannot duplicate ${name}`, async () => {
+        await requestDocuments(`${documentPath(name)}/duplicate`, "POST", {
+          to,
+        });
+      });
+      if (!copied) return false;
+
+      get().log(`Copied ${name} to ${to}.`);
+      await get().refreshDocuments();
+      return true;
+    },
+
+    async deleteDocument(name: string): Promise<boolean> {
+      const { currentDocument, openDocuments } = get();
+      if (name === currentDocument && openDocuments.length === 1) {
+        get().log(`Cannot delete ${name}: it is the only open document.`);
+        return false;
+      }
+
+      const deleted = await attempt(`Cannot delete ${name}`, async () => {
+        await requestDocuments(documentPath(name), "DELETE");
+      });
+      if (!deleted) return false;
+
+      await deleteLocalDocument(name);
+
+      if (openDocuments.includes(name)) get().closeDocument(name);
+      get().log(`Deleted ${name}.`);
+      await get().refreshDocuments();
+      return true;
+    },
+
+    /* ------------------ TABS ----------------- */
+    currentDocument: startupDocument(),
+    openDocuments: [startupDocument()],
+    documentStates: new Map(),
+
+    async openDocument(name: string): Promise<void> {
+      if (get().simulationFlow) return;
+      if (get().openDocuments.includes(name)) {
+        get().switchDocument(name);
+        return;
+      }
+
+      await attempt(`Cannot open ${name}`, async () => {
+        const loaded = await loadDocument(name);
+        if (loaded.offline) goOffline();
+        if (!loaded.state)
+          throw new BackendError(
+            loaded.offline
+              ? "The backend cannot be reached."
+              : `Document ${name} does not exist.`
+          );
+
+        const { openDocuments, currentDocument } = get();
+        const index = openDocuments.indexOf(currentDocument) + 1;
+        show(name, openedState(loaded.state, loaded.revision, loaded.synced), [
+          ...openDocuments.slice(0, index),
+          name,
+          ...openDocuments.slice(index),
+        ]);
+      });
+    },
+
+    switchDocument(name: string): void {
+      const { currentDocument, openDocuments, documentStates, simulationFlow } =
+        get();
+      const next = documentStates.get(name);
+      if (simulationFlow || name === currentDocument || !next) return;
+
+      show(name, next, openDocuments);
+    },
+
+    closeDocument(name: string): void {
+      const { currentDocument, openDocuments } = get();
+      const index = openDocuments.indexOf(name);
+      if (index < 0 || openDocuments.length === 1) return;
+
+      if (name === currentDocument)
+        get().switchDocument(openDocuments[index === 0 ? 1 : index - 1]);
+      if (get().currentDocument === name) return;
+
+      const documentStates = new Map(get().documentStates);
+      documentStates.delete(name);
+      set({
+        documentStates,
+        openDocuments: get().openDocuments.filter((open) => open !== name),
+      });
+    },
+
+    /* ------------------ SYNC ----------------- */
+    revision: startup.revision,
+    synced: startup.synced,
+    conflict: undefined,
+    offline: startup.offline,
+
+    async saveDocument(name = get().currentDocument): Promise<void> {
+      await patchDocument(name, { synced: false });
+      // A document set aside is sent once it is shown again
+      if (name === get().currentDocument) await get().syncDocument();
+    },
+
+    async syncDocument(): Promise<void> {
+      // Saves are sent one at a time, each based on the revision the previous one made,
+      // and the requests made meanwhile share the next one
+      if (syncing) {
+        following ??= syncing
+          .catch(() => undefined)
+          .then(() => {
+            following = undefined;
+            return get().syncDocument();
+          });
+        return following;
+      }
+      syncing = sync();
+      try {
+        await syncing;
+      } finally {
+        syncing = undefined;
+      }
+    },
+
+    async resolveConflict(keep: "mine" | "theirs"): Promise<void> {
+      const name = get().currentDocument;
+      const conflict = get().conflict;
+      if (!conflict) return;
+
+      if (keep === "mine") {
+        await patchDocument(name, {
+          revision: conflict.revision,
+          synced: false,
+          conflict: undefined,
+        });
+        await get().syncDocument();
+        return;
+      }
+
+      get().takeSnapshot(`Load the saved version of ${name}`);
+      const {
+        nodes,
+        edges,
+        roles,
+        security,
+        code,
+        nextNodeId,
+        nextGroupId,
+        nextSubprocessId,
+        projectionInfo,
+      } = openedState(conflict.state);
+      set({ currentProjection: "global", selectedElement: undefined });
+      await patchDocument(name, {
+        nodes,
+        edges,
+        roles,
+        security,
+        code,
+        nextNodeId,
+        nextGroupId,
+        nextSubprocessId,
+        projectionInfo,
+        revision: conflict.revision,
+        synced: true,
+        conflict: undefined,
+      });
+      get().validate();
+      get().checkFlows();
+    },
+  };
+};
+
+export default workspaceStateSlice;
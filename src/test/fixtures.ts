@@ -0,0 +1,131 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import type { Edge, Node } from "@xyflow/react";
+import type { EventType, State } from "@/lib/types";
+import type { DCRGraph, DCRRelation, DCRRelationType } from "@/lib/dcr-engine";
+
+const BACKEND_DIR = path.resolve(__dirname, "../backend");
+const EXAMPLES_DIR = path.join(BACKEND_DIR, "examples");
+
+/**
+ * The saved graphs of `src/backend/examples`, by file name without extension.
+ */
+export const exampleStates = (): [string, State][] =>
+  readdirSync(EXAMPLES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => [
+      path.basename(file, ".json"),
+      JSON.parse(readFileSync(path.join(EXAMPLES_DIR, file), "utf8")),
+    ]);
+
+/**
+ * The `.tardisdcr` programs of `src/backend`, by file name without extension.
+ */
+export const examplePrograms = (): [string, string][] =>
+  readdirSync(BACKEND_DIR)
+    .filter((file) => file.endsWith(".tardisdcr"))
+    .map((file) => [
+      path.basename(file, ".tardisdcr"),
+      readFileSync(path.join(BACKEND_DIR, file), "utf8"),
+    ]);
+
+/**
+ * An event node, an input included and not pending, initiated by `P`.
+ */
+export const eventNode = (
+  id: string,
+  data: Partial<EventType> & { type?: "i" | "c" } = {},
+  node: Partial<Node> = {}
+): Node => ({
+  id,
+  type: "event",
+  position: { x: 0, y: 0 },
+  parentId: "",
+  data: {
+    type: "i",
+    label: id,
+    name: id,
+    security: "Public",
+    initiators: ["P"],
+    receivers: [],
+    input: { type: "Unit" },
+    marking: { included: true, pending: false },
+    ...data,
+  },
+  ...node,
+});
+
+/**
+ * A group nest or a subprocess node.
+ */
+export const subgraphNode = (
+  id: string,
+  type: "nest" | "subprocess",
+  node: Partial<Node> = {}
+): Node => ({
+  id,
+  type,
+  position: { x: 0, y: 0 },
+  width: 200,
+  height: 200,
+  parentId: "",
+  data: {
+    label: id,
+    marking: { included: true, pending: false },
+    ...(type === "nest" && { nestType: "group" }),
+  },
+  ...node,
+});
+
+/**
+ * A relation between two nodes, unguarded unless given a guard, its id made of the
+ * initial of its type and its endpoints.
+ */
+export const relationEdge = (
+  type: string,
+  source: string,
+  target: string,
+  guard = ""
+): Edge => ({
+  id: `${type.charAt(0)}-${source}-${target}`,
+  type,
+  source,
+  target,
+  data: { guard },
+});
+
+/**
+ * A relation of the DCR engine, unguarded unless given a guard, its id made as that of
+ * `relationEdge`.
+ */
+export const dcrRelation = (
+  type: DCRRelationType,
+  source: string,
+  target: string,
+  guard?: string
+): DCRRelation => ({
+  id: `${type.charAt(0)}-${source}-${target}`,
+  type,
+  source,
+  target,
+  ...(guard && { guard }),
+});
+
+/**
+ * A graph of the DCR engine with the events `a`, `b` and `c`, all included and not
+ * pending, unless given other events, groups or marking.
+ */
+export const dcrGraph = (
+  relations: DCRRelation[],
+  partial: Partial<DCRGraph> = {}
+): DCRGraph => ({
+  events: ["a", "b", "c"].map((id) => ({ id, label: id })),
+  groups: [],
+  relations,
+  marking: {
+    included: new Set(["a", "b", "c"]),
+    pending: new Set(),
+    executed: new Set(),
+  },
+  ...partial,
+});
@@ -0,0 +1,16 @@
+import { vi } from "vitest";
+
+/**
+ * The editor loads its state from the backend when `@/lib/types` is first imported, and
+ * saves it as it changes. Tests run without a backend, so both requests answer an
+ * empty state.
+ */
+vi.stubGlobal(
+  "fetch",
+  vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    json: async () => ({}),
+    text: async () => "",
+  }))
+);
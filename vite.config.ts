@@ -1,4 +1,4 @@
-import { defineConfig } from "vite";
+import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
 import path from "path";
 import tailwindcss from "@tailwindcss/vite";
@@ -21,6 +21,15 @@ export default defineConfig({
         changeOrigin: true,
         rewrite: (path) => path.replace(/^\/api/, ""),
       },
+      "/ws": {
+        target: "ws://localhost:8080",
+        ws: true,
+      },
     },
   },
+  test: {
+    environment: "node",
+    setupFiles: ["./src/test/setup.ts"],
+    silent: "passed-only",
+  },
 });